@@ -4,10 +4,40 @@ import { useSearchParams, useRouter } from 'next/navigation';
 import { api } from '@/lib/api/client-wrapper';
 import { useToast } from '@/lib/hooks/useToast';
 import type { paths } from '@/lib/api/types';
+import { describeAgentEvent, parseSseEvents } from '@/lib/agent-events';
 
 type Message = {
   role: 'user' | 'assistant' | 'system';
   content: string;
+  attachments?: string[];
+};
+
+type Attachment = {
+  file_uuid: string;
+  name: string;
+  type: 'image' | 'audio' | 'file';
+};
+
+// Part types of the chat request and the upload type the files API expects for a file
+const attachmentTypes = (file: File): { part: Attachment['type']; upload: string } => {
+  if (file.type.startsWith('image/')) return { part: 'image', upload: 'image' };
+  if (file.type.startsWith('audio/')) return { part: 'audio', upload: 'audio' };
+  if (file.type.startsWith('text/') || file.type === 'application/json') return { part: 'file', upload: 'text' };
+  return { part: 'file', upload: 'document' };
+};
+
+// Names of the attachments stored in a message's multipart column
+const attachmentNames = (multipart: unknown): string[] =>
+  Array.isArray(multipart)
+    ? multipart
+        .filter((part: any) => part?.type === 'image' || part?.type === 'file')
+        .map((part: any) => part.filename ?? part.type)
+    : [];
+
+type PendingApproval = {
+  action_uuid: string;
+  label: string;
+  payload: Record<string, unknown>;
 };
 
 export default function ChatPage() {
@@ -17,8 +47,12 @@ export default function ChatPage() {
   const [conversationId, setConversationId] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploading, setUploading] = useState(false);
   const [loading, setLoading] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
+  const [progress, setProgress] = useState<string[]>([]);
+  const [pendingApproval, setPendingApproval] = useState<PendingApproval | null>(null);
 
   async function ensureConversation() {
     if (conversationId) return conversationId;
@@ -53,14 +87,54 @@ export default function ChatPage() {
     }
   }
 
+  // Upload picked files; they are sent with the next message
+  async function attachFiles(files: FileList | null) {
+    if (!files?.length) return;
+    setUploading(true);
+
+    try {
+      for (const file of Array.from(files)) {
+        const { part, upload } = attachmentTypes(file);
+        const form = new FormData();
+        form.append('file', file);
+        form.append('type', upload);
+
+        const { data, error } = await api.POST('/api/files/upload', {
+          body: form,
+          showToastOnError: false, // Handle error display manually
+        });
+
+        const uuid = (data as any)?.data?.uuid as string | undefined;
+        if (error || !uuid) {
+          showError(error ?? new Error('Upload failed'), { description: `Failed to attach "${file.name}"` });
+          continue;
+        }
+
+        setAttachments((prev) => [...prev, { file_uuid: uuid, name: file.name, type: part }]);
+      }
+    } finally {
+      setUploading(false);
+    }
+  }
+
   async function sendMessage() {
     setLoading(true);
 
     try {
       const id = await ensureConversation();
-      const userMsg: Message = { role: 'user', content: input };
+      const sent = attachments;
+      const userMsg: Message = { role: 'user', content: input, attachments: sent.map((a) => a.name) };
       setMessages((prev) => [...prev, userMsg]);
       setInput('');
+      setAttachments([]);
+
+      // Text and attachments go as parts; plain text stays a string
+      const content = sent.length
+        ? [
+            ...(userMsg.content.trim() ? [{ type: 'text', text: userMsg.content }] : []),
+            ...sent.map((a) => ({ type: a.type, file_uuid: a.file_uuid })),
+          ]
+        : userMsg.content;
 
       // Add a placeholder for the assistant message that will be streamed
       const assistantMsg: Message = { role: 'assistant', content: '' };
@@ -68,15 +142,16 @@ export default function ChatPage() {
       setIsStreaming(true);
 
       try {
-        // Use the streaming endpoint
-        const response = await fetch('/api/agi/chat/stream', {
+        // Run the agent with live progress events
+        setProgress([]);
+        const response = await fetch('/api/agi/agent/stream', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
             conversation_id: id,
-            content: userMsg.content,
+            content,
           }),
         });
 
@@ -90,8 +165,18 @@ export default function ChatPage() {
 
         const reader = response.body.getReader();
         const decoder = new TextDecoder();
+        let buffer = '';
         let accumulatedContent = '';
 
+        const updateAssistant = (content: string) =>
+          setMessages((prev) =>
+            prev.map((msg, index) =>
+              index === prev.length - 1 && msg.role === 'assistant'
+                ? { ...msg, content }
+                : msg
+            )
+          );
+
         try {
           while (true) {
             const { done, value } = await reader.read();
@@ -100,35 +185,26 @@ export default function ChatPage() {
               break;
             }
 
-            const chunk = decoder.decode(value, { stream: true });
-            const lines = chunk.split('\n');
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6);
+            buffer += decoder.decode(value, { stream: true });
+            const parsed = parseSseEvents(buffer);
+            buffer = parsed.rest;
 
-                if (data === '[DONE]') {
-                  break;
-                }
-
-                try {
-                  const parsed = JSON.parse(data);
-                  if (parsed.choices && parsed.choices[0] && parsed.choices[0].delta && parsed.choices[0].delta.content) {
-                    accumulatedContent += parsed.choices[0].delta.content;
-
-                    // Update the assistant message with the accumulated content
-                    setMessages((prev) =>
-                      prev.map((msg, index) =>
-                        index === prev.length - 1 && msg.role === 'assistant'
-                          ? { ...msg, content: accumulatedContent }
-                          : msg
-                      )
-                    );
-                  }
-                } catch (parseError) {
-                  // Ignore parse errors for non-JSON data
-                  console.warn('Failed to parse streaming data:', parseError);
+            for (const event of parsed.events) {
+              if (event.type === 'answer_token') {
+                accumulatedContent += event.text;
+                updateAssistant(accumulatedContent);
+              } else if (event.type === 'done') {
+                // The stored reply is authoritative (e.g. when no tokens were streamed)
+                accumulatedContent = event.response;
+                updateAssistant(accumulatedContent);
+              } else if (event.type === 'error') {
+                throw new Error(event.message);
+              } else {
+                if (event.type === 'approval_required') {
+                  setPendingApproval({ action_uuid: event.action_uuid, label: `${event.tool}.${event.action}`, payload: event.payload });
                 }
+                const line = describeAgentEvent(event);
+                if (line) setProgress((prev) => [...prev, line]);
               }
             }
           }
@@ -151,6 +227,7 @@ export default function ChatPage() {
             label: 'Retry',
             onClick: () => {
               setInput(userMsg.content);
+              setAttachments(sent);
               setMessages((prev) => prev.slice(0, -1)); // Remove failed user message
             },
           },
@@ -167,6 +244,42 @@ export default function ChatPage() {
     }
   }
 
+  // Approve or reject the action the agent paused on; the run resumes on the server
+  async function decideApproval(approved: boolean) {
+    if (!pendingApproval) return;
+    const { action_uuid } = pendingApproval;
+    setPendingApproval(null);
+    setLoading(true);
+
+    try {
+      const res = await fetch(`/api/agi/actions/${encodeURIComponent(action_uuid)}/${approved ? 'approve' : 'reject'}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      if (!res.ok) {
+        throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+      }
+
+      const result = await res.json();
+      setMessages((prev) => [...prev, { role: 'assistant', content: result.response }]);
+      if (result.status === 'awaiting_approval' && result.pending_action) {
+        setPendingApproval({
+          action_uuid: result.pending_action.uuid,
+          label: result.pending_action.name,
+          payload: result.pending_action.payload ?? {},
+        });
+      }
+    } catch (err) {
+      showError(err, {
+        description: approved ? 'Failed to approve the action' : 'Failed to reject the action',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }
+
   // Load messages for a given conversation
   async function loadHistory(id: string) {
     try {
@@ -188,8 +301,12 @@ export default function ChatPage() {
 
       const history = Array.isArray(data?.messages) ? data.messages : [];
       const mapped = history
-        .filter((m: any) => m?.content && (m?.role === 'user' || m?.role === 'assistant' || m?.role === 'system'))
-        .map((m: any) => ({ role: m.role as Message['role'], content: m.content as string }));
+        .filter((m: any) => (m?.content || m?.multipart) && (m?.role === 'user' || m?.role === 'assistant' || m?.role === 'system'))
+        .map((m: any) => ({
+          role: m.role as Message['role'],
+          content: (m.content ?? '') as string,
+          attachments: attachmentNames(m.multipart),
+        }));
       setMessages(mapped);
     } catch (err) {
       showError(err, {
@@ -221,19 +338,57 @@ export default function ChatPage() {
                 <span className="animate-pulse ml-1">▊</span>
               )}
             </span>
+            {m.attachments?.map((name, j) => (
+              <div key={j} className="text-xs opacity-60">📎 {name}</div>
+            ))}
           </div>
         ))}
         {messages.length === 0 && <p className="opacity-60">Start a conversation…</p>}
         {isStreaming && (
-          <div className="text-xs opacity-60 italic">
-            AI is typing...
+          <ul className="text-xs opacity-60 italic space-y-1">
+            {progress.map((line, i) => (
+              <li key={i}>{line}</li>
+            ))}
+            <li>{progress.length === 0 ? 'Thinking...' : 'Working...'}</li>
+          </ul>
+        )}
+        {pendingApproval && !isStreaming && (
+          <div className="border rounded p-2 text-sm space-y-2">
+            <p>
+              Approve <strong>{pendingApproval.label}</strong>?
+            </p>
+            <pre className="text-xs opacity-70 whitespace-pre-wrap">{JSON.stringify(pendingApproval.payload, null, 2)}</pre>
+            <div className="flex gap-2">
+              <button className="bg-black text-white px-3 rounded disabled:opacity-50" disabled={loading} onClick={() => void decideApproval(true)}>
+                Approve
+              </button>
+              <button className="border px-3 rounded disabled:opacity-50" disabled={loading} onClick={() => void decideApproval(false)}>
+                Reject
+              </button>
+            </div>
           </div>
         )}
       </div>
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {attachments.map((a) => (
+            <span key={a.file_uuid} className="border rounded px-2 py-1">
+              📎 {a.name}
+              <button
+                type="button"
+                className="ml-1 opacity-60"
+                onClick={() => setAttachments((prev) => prev.filter((x) => x.file_uuid !== a.file_uuid))}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
       <form
         onSubmit={(e) => {
           e.preventDefault();
-          if (!input.trim() || isStreaming) return;
+          if ((!input.trim() && attachments.length === 0) || isStreaming || uploading) return;
           void sendMessage();
         }}
         className="flex gap-2"
@@ -245,9 +400,22 @@ export default function ChatPage() {
           placeholder="Type your message"
           disabled={isStreaming}
         />
+        <label className="border rounded px-3 flex items-center cursor-pointer" title="Attach images, audio or files">
+          {uploading ? '…' : '📎'}
+          <input
+            type="file"
+            multiple
+            className="hidden"
+            disabled={isStreaming || uploading}
+            onChange={(e) => {
+              void attachFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
         <button
           className="bg-black text-white px-4 rounded disabled:opacity-50"
-          disabled={loading || isStreaming}
+          disabled={loading || isStreaming || uploading}
           type="submit"
         >
           {isStreaming ? 'Streaming...' : 'Send'}
@@ -137,6 +137,28 @@ export default function SetupPage() {
     }
   };
 
+  const handleLocalProviderSubmit = async (settings: { baseUrl: string; apiKey?: string; embeddingModel?: string }) => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/setup/local-provider', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+
+      const data = await response.json();
+      if (response.ok && data.success) {
+        await fetchSetupStatus();
+      } else {
+        setError(data.error || 'Failed to connect to the local model server');
+      }
+    } catch (err) {
+      setError('Failed to connect to the local model server');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handlePreferencesSubmit = async () => {
     try {
       setLoading(true);
@@ -273,6 +295,7 @@ export default function SetupPage() {
             <ApiKeyStep
               providers={setupGuide?.steps[1]?.providers || []}
               onSubmit={handleApiKeySubmit}
+              onLocalSubmit={handleLocalProviderSubmit}
               loading={loading}
               isComplete={isCurrentStepComplete}
               setupStatus={setupStatus}
@@ -402,10 +425,12 @@ function UserInfoStep({ userInfo, setUserInfo, onSubmit, loading, isComplete }:
   );
 }
 
-function ApiKeyStep({ providers, onSubmit, loading, isComplete, setupStatus }: any) {
+function ApiKeyStep({ providers, onSubmit, onLocalSubmit, loading, isComplete, setupStatus }: any) {
   const [selectedProvider, setSelectedProvider] = useState('');
   const [apiKey, setApiKey] = useState('');
   const [testing, setTesting] = useState(false);
+  const [baseUrl, setBaseUrl] = useState('http://localhost:11434/v1');
+  const [embeddingModel, setEmbeddingModel] = useState('');
 
   const hasApiKeys = setupStatus?.completedSteps.includes('api_keys');
 
@@ -415,6 +440,12 @@ function ApiKeyStep({ providers, onSubmit, loading, isComplete, setupStatus }: a
     setApiKey('');
   };
 
+  const handleLocalSubmit = async () => {
+    if (!baseUrl) return;
+    await onLocalSubmit({ baseUrl, apiKey: apiKey || undefined, embeddingModel: embeddingModel || undefined });
+    setApiKey('');
+  };
+
   const testApiKey = async () => {
     if (!selectedProvider || !apiKey) return;
     
@@ -466,7 +497,52 @@ function ApiKeyStep({ providers, onSubmit, loading, isComplete, setupStatus }: a
           </select>
         </div>
 
-        {selectedProvider && (
+        {selectedProvider === 'local' && (
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Server URL</label>
+              <input
+                type="url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="http://localhost:11434/v1"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">API Key (optional)</label>
+              <input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Only if your server requires one"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Embedding Model (optional)</label>
+              <input
+                type="text"
+                value={embeddingModel}
+                onChange={(e) => setEmbeddingModel(e.target.value)}
+                className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g. nomic-embed-text"
+              />
+            </div>
+            <button
+              onClick={handleLocalSubmit}
+              disabled={loading || !baseUrl}
+              className="bg-blue-600 text-white px-4 py-1 rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {loading ? 'Connecting...' : 'Connect Server'}
+            </button>
+            <p className="text-sm text-gray-600">
+              Models are discovered from the server and can be picked in the next step.
+            </p>
+          </div>
+        )}
+
+        {selectedProvider && selectedProvider !== 'local' && (
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">API Key</label>
             <div className="space-y-2">
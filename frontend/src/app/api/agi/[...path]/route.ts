@@ -29,6 +29,15 @@ async function proxy(req: NextRequest, params: { path: string[] }) {
   };
 
   const res = await fetch(url, init);
+
+  // Server-sent events must be piped through as they arrive instead of buffered
+  if (res.headers.get('content-type')?.includes('text/event-stream')) {
+    return new Response(res.body, {
+      status: res.status,
+      headers: { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', connection: 'keep-alive' },
+    });
+  }
+
   const data = await res.text();
   const responseHeaders = new Headers({ 'content-type': res.headers.get('content-type') || 'application/json' });
   const rlLimit = res.headers.get('x-ratelimit-limit') || res.headers.get('X-RateLimit-Limit');
@@ -0,0 +1,72 @@
+/**
+ * Typed agent progress events streamed by POST /api/agi/agent/stream
+ * Mirrors AgentEvent in the backend (src/types/agent.ts) plus the terminal done/error events
+ */
+export type AgentEvent =
+  | { type: 'phase_start'; span_id: string; name: string; phase: string | null }
+  | { type: 'phase_end'; span_id: string }
+  | { type: 'route'; path: 'fast' | 'full' }
+  | { type: 'observation'; environment: string; context: string }
+  | { type: 'draft'; tools: Array<{ query: string; tool: string }>; memory: Array<{ query: string; category: string; subcategory: string }> }
+  | { type: 'plan'; tasks: Array<{ uuid: string; name: string; description: string | null; status: string }> }
+  | { type: 'action'; action: { uuid: string; name: string }; tool: { uuid: string; name: string }; task: { uuid: string; name: string } | null }
+  | { type: 'payload'; action_uuid: string | null; tool: string; action: string; payload: Record<string, unknown> }
+  | { type: 'tool_result'; action_uuid: string | null; tool: string; document: unknown }
+  | { type: 'approval_required'; action_uuid: string; tool: string; action: string; payload: Record<string, unknown> }
+  | { type: 'budget_exceeded'; scope: 'run' | 'conversation' | 'user'; level: 'soft' | 'hard'; limit: number; spent: number }
+  | { type: 'answer_token'; text: string }
+  | { type: 'done'; conversation_id: string; status: 'completed' | 'awaiting_approval' | 'budget_exceeded'; path: 'fast' | 'full'; response: string }
+  | { type: 'error'; message: string };
+
+/**
+ * Splits buffered SSE text into complete events; returns the unfinished remainder
+ */
+export function parseSseEvents(buffer: string): { events: AgentEvent[]; rest: string } {
+  const blocks = buffer.split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events: AgentEvent[] = [];
+
+  for (const block of blocks) {
+    const data = block
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    if (!data) continue;
+    try {
+      events.push(JSON.parse(data) as AgentEvent);
+    } catch {
+      // Ignore malformed events; the stream continues
+    }
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Human-readable progress line for an event, or null when it should not be listed
+ */
+export function describeAgentEvent(event: AgentEvent): string | null {
+  switch (event.type) {
+    case 'route':
+      return event.path === 'fast' ? 'Answering directly' : 'Working through the task';
+    case 'observation':
+      return 'Understood the context';
+    case 'draft':
+      return event.tools.length > 0 ? `Considering tools: ${event.tools.map((t) => t.tool).join(', ')}` : 'No tools needed';
+    case 'plan':
+      return `Planned ${event.tasks.length} task${event.tasks.length === 1 ? '' : 's'}: ${event.tasks.map((t) => t.name).join(', ')}`;
+    case 'action':
+      return `Next: ${event.action.name} (${event.tool.name})`;
+    case 'payload':
+      return `Calling ${event.tool}.${event.action}`;
+    case 'tool_result':
+      return `${event.tool} finished`;
+    case 'approval_required':
+      return `Waiting for approval: ${event.tool}.${event.action}`;
+    case 'budget_exceeded':
+      return `Stopped: ${event.scope === 'user' ? 'daily' : event.scope} budget of $${event.limit.toFixed(2)} reached`;
+    default:
+      return null;
+  }
+}
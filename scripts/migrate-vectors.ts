@@ -0,0 +1,41 @@
+#!/usr/bin/env bun
+
+/**
+ * Vector Store Migration Script
+ *
+ * Copies the embedding collections between vector stores, e.g. from a Qdrant server to the embedded local store:
+ * 1. Reads every collection registered in embedding_collections from the source store
+ * 2. Creates it in the target store with the same dimension
+ * 3. Copies the points with their vectors and payloads; nothing is embedded again
+ *
+ * The source is left untouched. Set VECTOR_STORE_BACKEND to the target afterwards to switch.
+ *
+ * Usage: bun run vectors:migrate <qdrant|local> <qdrant|local>
+ */
+
+import {vectorStoreNames, type VectorStoreName} from '../src/config/vector.config';
+import {vectorService} from '../src/services/common/vector.service';
+
+const [from, to] = process.argv.slice(2) as VectorStoreName[];
+
+if (!vectorStoreNames.includes(from) || !vectorStoreNames.includes(to) || from === to) {
+  console.error(`Usage: bun run vectors:migrate <from> <to>, with two of: ${vectorStoreNames.join(', ')}`);
+  process.exit(1);
+}
+
+try {
+  const copied = await vectorService.copyCollections(from, to);
+
+  if (Object.keys(copied).length === 0) {
+    console.log(`⚠️  No registered collections found in ${from}`);
+    process.exit(0);
+  }
+
+  console.log(`\n✅ Copied from ${from} to ${to}:`);
+  Object.entries(copied).forEach(([collection, points]) => console.log(`  - ${collection}: ${points} points`));
+  console.log(`\nSet VECTOR_STORE_BACKEND=${to} to use them`);
+  process.exit(0);
+} catch (error) {
+  console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,61 @@
+#!/usr/bin/env bun
+
+/**
+ * Cassette Replay Script
+ *
+ * Replays an agent run recorded with AGENT_CASSETTE_DIR without calling LLM providers, tools, Qdrant or Algolia:
+ * 1. Loads the cassette
+ * 2. Copies the database to a temporary file, so the replayed conversation never lands in the real one
+ * 3. Runs the recorded chat request in a new conversation against the cassette
+ * 4. Prints the progress events and the answer; recorded calls the replay did not use are logged as a warning
+ *
+ * Usage: bun run cassette:replay <cassette.json>
+ */
+
+import {copyFile, mkdtemp, rm} from 'fs/promises';
+import {existsSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+
+const file = process.argv[2];
+
+if (!file) {
+  console.error('Usage: bun run cassette:replay <cassette.json>');
+  process.exit(1);
+}
+
+// The database is opened when the services are imported, so the copy has to be in place first
+const source = process.env.DATABASE_PATH || 'agi.db';
+const directory = await mkdtemp(join(tmpdir(), 'cassette-'));
+process.env.DATABASE_PATH = join(directory, 'replay.db');
+if (existsSync(source)) await copyFile(source, process.env.DATABASE_PATH);
+
+const {cassetteService} = await import('../src/services/common/cassette.service');
+const {agentService} = await import('../src/services/agent/agent.service');
+
+const cassette = await cassetteService.load(file);
+
+if (!cassette.request) {
+  console.error('❌ The cassette has no chat request; replay it from a test with cassetteService.replay instead');
+  process.exit(1);
+}
+
+// A new conversation keeps the recorded one untouched
+const request = {...cassette.request, conversation_id: undefined};
+
+let code = 0;
+try {
+  const result = await agentService.run(request, {
+    cassette,
+    onEvent: event => console.log(`• ${event.type}`, 'tool' in event ? event.tool : '')
+  });
+
+  console.log(`\n✅ Replayed ${cassette.entries.length} recorded calls (${result.status})\n`);
+  console.log(result.response);
+} catch (error) {
+  console.error('❌ Replay failed:', error instanceof Error ? error.message : error);
+  code = 1;
+} finally {
+  await rm(directory, {recursive: true, force: true});
+}
+process.exit(code);
@@ -33,6 +33,9 @@ import web from './routes/web';
 import media from './routes/spotify';
 import { localUserRoutes } from './routes/local-user';
 import { setupRoutes } from './routes/setup';
+import embeddings from './routes/embeddings';
+import prompts from './routes/prompts';
+import search from './routes/search';
 
 // Create Hono app
 const app = new Hono();
@@ -131,5 +134,8 @@ app.route('/api/web', web);
 app.route('/api/spotify', media);
 app.route('/api/local-user', localUserRoutes);
 app.route('/api/setup', setupRoutes);
+app.route('/api/embeddings', embeddings);
+app.route('/api/prompts', prompts);
+app.route('/api/search', search);
 
 export { app }; 
\ No newline at end of file
@@ -0,0 +1,102 @@
+/**
+ * Validation schemas for structured agent outputs
+ * Every agent phase validates the JSON it gets from the model against its schema; mismatches are sent back for repair
+ * @module agent-schemas
+ */
+
+import { z } from 'zod';
+import type { AgentThoughts, ToolUseResponse } from '../types/agent';
+
+// Models sometimes leave out the reasoning; it is never used for decisions
+const thinking = z.string().default('');
+
+// Fast-track decision: true when tools or long-term memory are needed
+export const fastTrackSchema = z.object({
+  _thinking: thinking,
+  result: z.boolean()
+});
+
+// Observation phase
+export const environmentSchema: z.ZodType<AgentThoughts['environment']> = z.object({
+  _thinking: thinking,
+  result: z.string().nullable()
+});
+
+export const contextSchema: z.ZodType<AgentThoughts['context']> = z.object({
+  _thinking: thinking,
+  result: z.string().nullable()
+});
+
+// Draft phase
+export const toolsSchema: z.ZodType<AgentThoughts['tools']> = z.object({
+  _thinking: thinking,
+  result: z.array(z.object({
+    query: z.string(),
+    tool: z.string()
+  }))
+});
+
+export const memorySchema: z.ZodType<AgentThoughts['memory']> = z.object({
+  _thinking: thinking,
+  result: z.array(z.object({
+    query: z.string(),
+    category: z.string(),
+    subcategory: z.string()
+  }))
+});
+
+// Planning phase
+export const taskSchema: z.ZodType<AgentThoughts['task']> = z.object({
+  _thinking: thinking,
+  result: z.array(z.object({
+    uuid: z.string().nullable().default(null),
+    name: z.string(),
+    description: z.string(),
+    status: z.enum(['completed', 'pending']),
+    depends_on: z.array(z.string()).optional()
+  }))
+});
+
+// Action selection; null when no further action is needed
+export const actionSchema = z.object({
+  _thinking: thinking,
+  result: z.object({
+    name: z.string(),
+    tool_name: z.string(),
+    task_uuid: z.string()
+  }).nullable()
+});
+
+// Tool payload generation
+export const toolUseSchema: z.ZodType<ToolUseResponse> = z.object({
+  _thinking: thinking,
+  result: z.object({
+    action: z.string(),
+    payload: z.record(z.string(), z.unknown()).default({})
+  })
+});
+
+// Memory consolidation judgement
+export const memoryVerifySchema = z.object({
+  _thinking: thinking,
+  decisions: z.array(z.object({
+    memory_uuid: z.string(),
+    action: z.enum(['keep', 'merge', 'supersede']),
+    reason: z.string()
+  })),
+  merged: z.object({
+    name: z.string(),
+    text: z.string()
+  }).nullable().optional()
+});
+
+// Memory recall self-query
+export const memoryRecallSchema = z.object({
+  _thinking: thinking,
+  queries: z.array(z.object({
+    category: z.string(),
+    subcategory: z.string(),
+    question: z.string(),
+    query: z.string()
+  }))
+});
@@ -0,0 +1,26 @@
+import {env} from './env.config';
+
+/**
+ * Approval policies for tool actions with side effects
+ * A tool mapped to `true` needs approval for every action, a list limits approval to the named actions
+ * Set APPROVAL_DISABLED=true to let every action run without asking
+ */
+export const approvalPolicies: Record<string, true | string[]> = {
+  resend: ['send_email'],
+  calendar: ['create_event', 'update_event'],
+  linear: ['add_tasks', 'update_tasks'],
+  spotify: ['play_music']
+};
+
+/**
+ * Checks whether a tool action has to wait for the user's approval before it runs
+ * @param tool - Name of the tool
+ * @param action - Tool action selected by the agent
+ * @returns True if the action must be approved first
+ */
+export const requiresApproval = (tool: string, action: string): boolean => {
+  if (env.APPROVAL_DISABLED === 'true') return false;
+
+  const policy = approvalPolicies[tool];
+  return policy === true || (Array.isArray(policy) && policy.includes(action));
+};
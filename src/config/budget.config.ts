@@ -0,0 +1,22 @@
+/**
+ * LLM cost budgets in USD for a single agent run, a conversation and a user (per UTC day)
+ * A soft budget stops the agent loop and still writes the final answer, a hard budget stops without another LLM call
+ * Budgets come from the BUDGET_* environment variables; an unset budget is unlimited
+ */
+
+import {env} from './env.config';
+
+export type BudgetScope = 'run' | 'conversation' | 'user';
+export type BudgetLevel = 'soft' | 'hard';
+
+export type Budgets = Record<BudgetScope, Partial<Record<BudgetLevel, number>>>;
+
+/**
+ * Reads the configured budgets
+ * @returns Soft and hard limits per scope; missing limits are unlimited
+ */
+export const getBudgets = (): Budgets => ({
+  run: {soft: env.BUDGET_RUN_SOFT_USD, hard: env.BUDGET_RUN_HARD_USD},
+  conversation: {soft: env.BUDGET_CONVERSATION_SOFT_USD, hard: env.BUDGET_CONVERSATION_HARD_USD},
+  user: {soft: env.BUDGET_USER_DAILY_SOFT_USD, hard: env.BUDGET_USER_DAILY_HARD_USD}
+});
@@ -0,0 +1,77 @@
+/**
+ * Settings of the memory consolidation
+ * A new memory is compared with the most similar memories of its category; a model decides whether each one is a
+ * distinct fact (keep), says the same or complements it (merge into one memory) or is contradicted by it and
+ * outdated (supersede). A periodic job does the same for memories stored or changed since they were last checked
+ */
+
+export interface ConsolidationSettings {
+  enabled: boolean;
+  /** Cosine similarity from which a memory of the same category is a candidate */
+  threshold: number;
+  /** Most similar memories judged per memory */
+  candidates: number;
+  /** Minutes between consolidation jobs; 0 turns the job off, consolidation on write stays */
+  interval_minutes: number;
+  /** Memories checked per job */
+  batch_size: number;
+}
+
+export type ConsolidationAction = 'keep' | 'merge' | 'supersede';
+
+export interface ConsolidationDecision {
+  decisions: {memory_uuid: string; action: ConsolidationAction; reason: string}[];
+  /** Name and text of the memory merged from the checked one and every candidate marked merge */
+  merged?: {name: string; text: string} | null;
+}
+
+export interface ConsolidationPlan {
+  merge: {memory_uuid: string; reason: string}[];
+  supersede: {memory_uuid: string; reason: string}[];
+  merged?: {name: string; text: string};
+}
+
+const readNumber = (value: string | undefined, fallback: number, min: number, max = Infinity) => {
+  const parsed = Number(value);
+  return value !== undefined && value.trim() !== '' && Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : fallback;
+};
+
+/**
+ * Reads the consolidation settings
+ * @returns MEMORY_CONSOLIDATION (default on), MEMORY_CONSOLIDATION_THRESHOLD (default 0.85),
+ * MEMORY_CONSOLIDATION_CANDIDATES (default 5), MEMORY_CONSOLIDATION_INTERVAL (minutes, default 360) and
+ * MEMORY_CONSOLIDATION_BATCH (default 20); invalid values fall back to the defaults
+ */
+export const getConsolidationSettings = (): ConsolidationSettings => ({
+  enabled: process.env.MEMORY_CONSOLIDATION !== 'false',
+  threshold: readNumber(process.env.MEMORY_CONSOLIDATION_THRESHOLD, 0.85, 0, 1),
+  candidates: Math.floor(readNumber(process.env.MEMORY_CONSOLIDATION_CANDIDATES, 5, 1)),
+  interval_minutes: readNumber(process.env.MEMORY_CONSOLIDATION_INTERVAL, 360, 0),
+  batch_size: Math.floor(readNumber(process.env.MEMORY_CONSOLIDATION_BATCH, 20, 1))
+});
+
+/**
+ * Turns the model's decision into the changes to make
+ * Decisions about memories that were not candidates are ignored, and merges without a merged text are kept apart
+ * @param decision - Output of the tools.memory.verify prompt
+ * @param candidate_uuids - Memories the model was shown
+ * @returns Memories to merge into the checked one and memories it supersedes
+ */
+export const planConsolidation = (decision: ConsolidationDecision, candidate_uuids: string[]): ConsolidationPlan => {
+  const seen = new Set<string>();
+  const decisions = decision.decisions.filter(item => {
+    if (!candidate_uuids.includes(item.memory_uuid) || seen.has(item.memory_uuid)) return false;
+    seen.add(item.memory_uuid);
+    return true;
+  });
+
+  const merged = decision.merged?.text.trim() ? {name: decision.merged.name.trim(), text: decision.merged.text.trim()} : undefined;
+  const pick = (action: ConsolidationAction) =>
+    decisions.filter(item => item.action === action).map(({memory_uuid, reason}) => ({memory_uuid, reason}));
+
+  return {
+    merge: merged ? pick('merge') : [],
+    supersede: pick('supersede'),
+    ...(merged && pick('merge').length > 0 ? {merged} : {})
+  };
+};
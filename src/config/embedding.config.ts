@@ -0,0 +1,37 @@
+/**
+ * Registry of the embedding models vectors can be indexed with
+ * Vectors of different models are not comparable, so every Qdrant collection is recorded with the model and
+ * dimension it was built with (embedding_collections) and only that model embeds its documents and queries.
+ * EMBEDDING_MODEL picks the model of a new index; an existing one switches models through a re-embedding
+ */
+
+export interface EmbeddingModelSpec {
+  provider: string;
+  dimensions: number;
+}
+
+// Hosted models; the local embedding model is probed for its dimension instead
+export const embeddingModels: Record<string, EmbeddingModelSpec> = {
+  'text-embedding-004': {provider: 'google', dimensions: 768},
+  'text-embedding-3-small': {provider: 'openai', dimensions: 1536},
+  'text-embedding-3-large': {provider: 'openai', dimensions: 3072}
+};
+
+/** Model indexes were built with before models were recorded per collection */
+export const LEGACY_EMBEDDING_MODEL = 'text-embedding-004';
+
+/**
+ * Reads the hosted model new indexes are built with; a configured local embedding model takes precedence
+ * @returns EMBEDDING_MODEL, else Google's text-embedding-004
+ */
+export const getEmbeddingModel = (): string => process.env.EMBEDDING_MODEL || LEGACY_EMBEDDING_MODEL;
+
+/**
+ * Names the collection of a re-embedding, so indexes of different models never share one
+ * @param base - Name of the original collection (QDRANT_INDEX)
+ * @param model - Embedding model of the new collection
+ * @param created_at - Creation time; keeps rebuilds with the same model apart
+ * @returns Qdrant collection name
+ */
+export const collectionNameFor = (base: string, model: string, created_at: Date): string =>
+  `${base}_${model.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')}_${created_at.getTime()}`;
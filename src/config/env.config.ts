@@ -15,11 +15,46 @@ const envSchema = z.object({
   // Authentication mode
   AUTH_MODE: z.enum(['local', 'multiuser']).default('local'),
 
+  // SQLite database file
+  DATABASE_PATH: z.string().default('agi.db'),
+
+  // Agent: run side-effecting tool actions without asking for approval
+  APPROVAL_DISABLED: z.enum(['true', 'false']).default('false'),
+  // Agent: continue runs interrupted by a restart when the server starts
+  RESUME_RUNS_ON_STARTUP: z.enum(['true', 'false']).default('true'),
+  // Agent: how many independent planned tasks may execute at the same time (1 disables parallel execution)
+  AGENT_MAX_PARALLEL_ACTIONS: z.coerce.number().int().min(1).default(3),
+  // Agent: how actions and their payloads are chosen; classic uses two JSON prompts, native one function call (overridable per request)
+  AGENT_TOOL_MODE: z.enum(['classic', 'native']).default('classic'),
+  // Agent: per-phase model routes as JSON, e.g. {"task_planning": {"model": "gemini-2.5-flash"}} (see routing.config)
+  AGENT_MODEL_ROUTING: z.string().optional(),
+  // Agent: LLM cost budgets in USD (unset = unlimited). Soft stops the loop and still answers, hard stops without answering
+  BUDGET_RUN_SOFT_USD: z.coerce.number().positive().optional(),
+  BUDGET_RUN_HARD_USD: z.coerce.number().positive().optional(),
+  BUDGET_CONVERSATION_SOFT_USD: z.coerce.number().positive().optional(),
+  BUDGET_CONVERSATION_HARD_USD: z.coerce.number().positive().optional(),
+  // Agent: per-user budgets apply to the current UTC day
+  BUDGET_USER_DAILY_SOFT_USD: z.coerce.number().positive().optional(),
+  BUDGET_USER_DAILY_HARD_USD: z.coerce.number().positive().optional(),
+  // Agent: record every run (LLM calls and tool results) as a replayable cassette into this directory
+  AGENT_CASSETTE_DIR: z.string().optional(),
+
   // AI Providers
   OPENAI_API_KEY: z.string().min(1).optional(),
   ANTHROPIC_API_KEY: z.string().optional(),
   XAI_API_KEY: z.string().optional(),
   GOOGLE_API_KEY: z.string().optional(),
+  // Local OpenAI-compatible server (Ollama, llama.cpp, vLLM), e.g. http://localhost:11434/v1
+  LOCAL_LLM_BASE_URL: z.string().url().optional(),
+  LOCAL_LLM_API_KEY: z.string().optional(),
+  // Embedding model served by the local server; when set, embeddings never leave the machine
+  LOCAL_EMBEDDING_MODEL: z.string().optional(),
+  // Hosted embedding model of a new vector index (default text-embedding-004); switch an existing one via /api/embeddings/reembed
+  EMBEDDING_MODEL: z.string().optional(),
+  // Prompt overrides: <dir>/<environment>/<prompt id>.md and <dir>/<prompt id>.md (default .agenttom/prompts)
+  PROMPT_OVERRIDES_DIR: z.string().optional(),
+  // Environment matched by environment-scoped prompt overrides (default NODE_ENV)
+  PROMPT_ENVIRONMENT: z.string().optional(),
   // Images provider selection (default: OpenAI DALL·E). Set to 'vertex' to use Vertex Images.
   IMAGE_PROVIDER: z.string().optional(),
   VERTEX_PROJECT_ID: z.string().optional(),
@@ -29,18 +64,62 @@ const envSchema = z.object({
   DEFAULT_LLM_PROVIDER: z.string().optional(),
   DEFAULT_TEXT_MODEL: z.string().optional(),
   FALLBACK_TEXT_MODEL: z.string().optional(),
+  // Ordered fallback models per operation (comma-separated, tried after the requested model)
+  LLM_FALLBACK_TEXT: z.string().optional(),
+  LLM_FALLBACK_STREAM: z.string().optional(),
+  LLM_FALLBACK_OBJECT: z.string().optional(),
+  LLM_FALLBACK_EMBEDDING: z.string().optional(),
+  // Per-provider circuit breakers: consecutive failures that open one and how long it stays open
+  LLM_BREAKER_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(3),
+  LLM_BREAKER_COOLDOWN_MS: z.coerce.number().int().positive().default(30000),
+  // Response cache of deterministic (temperature 0) calls: switch, default TTL, per-phase TTLs (JSON) and similarity threshold
+  LLM_CACHE_ENABLED: z.enum(['true', 'false']).default('false'),
+  LLM_CACHE_TTL_SECONDS: z.coerce.number().int().min(0).default(3600),
+  LLM_CACHE_PHASE_TTLS: z.string().optional(),
+  LLM_CACHE_SEMANTIC_THRESHOLD: z.coerce.number().gt(0).max(1).optional(),
+  // Conversation-history compaction: switch, share of the context window, verbatim recent messages and messages per summary step
+  HISTORY_COMPACTION: z.enum(['true', 'false']).default('true'),
+  HISTORY_CONTEXT_RATIO: z.coerce.number().gt(0).max(1).default(0.5),
+  HISTORY_RECENT_MESSAGES: z.coerce.number().int().positive().default(10),
+  HISTORY_SUMMARY_BLOCK: z.coerce.number().int().min(2).default(20),
 
   // Langfuse
   LANGFUSE_SECRET_KEY: z.string().optional(),
   LANGFUSE_PUBLIC_KEY: z.string().optional(),
   LANGFUSE_BASEURL: z.string().optional(),
 
+  // Memory consolidation: merge repeated and drop outdated memories on write and in a periodic job
+  MEMORY_CONSOLIDATION: z.enum(['true', 'false']).optional(),
+  MEMORY_CONSOLIDATION_THRESHOLD: z.coerce.number().min(0).max(1).optional(),
+  MEMORY_CONSOLIDATION_CANDIDATES: z.coerce.number().int().positive().optional(),
+  MEMORY_CONSOLIDATION_INTERVAL: z.coerce.number().min(0).optional(), // minutes, 0 turns the job off
+  MEMORY_CONSOLIDATION_BATCH: z.coerce.number().int().positive().optional(),
+  // Memory retention: periodically delete memories scored low on importance, recalls and time since last use
+  MEMORY_RETENTION: z.enum(['true', 'false']).optional(),
+  MEMORY_RETENTION_THRESHOLD: z.coerce.number().min(0).optional(),
+  MEMORY_RETENTION_HALF_LIFE: z.coerce.number().min(1).optional(), // days
+  MEMORY_RETENTION_INTERVAL: z.coerce.number().min(1).optional(), // minutes
+  MEMORY_RETENTION_RULES: z.string().optional(), // e.g. profiles/basic=never,events=14
+
   // Vector Database
+  // Vector store: qdrant or local (SQLite file at VECTOR_STORE_PATH); default qdrant when QDRANT_URL is set, else local
+  VECTOR_STORE_BACKEND: z.enum(['qdrant', 'local']).optional(),
+  VECTOR_STORE_PATH: z.string().optional(),
   QDRANT_INDEX: z.string().optional(),
   QDRANT_URL: z.string().optional(),
   QDRANT_API_KEY: z.string().optional(),
 
   // Search
+  // Keyword search backend: fts (SQLite FTS5), algolia or none; default algolia when configured, else fts
+  LEXICAL_SEARCH_BACKEND: z.enum(['fts', 'algolia', 'none']).optional(),
+  // Weighted RRF fusion of the vector and keyword rankings, then an optional re-ranker of the top candidates
+  SEARCH_RRF_K: z.coerce.number().positive().optional(),
+  SEARCH_VECTOR_WEIGHT: z.coerce.number().min(0).optional(),
+  SEARCH_TEXT_WEIGHT: z.coerce.number().min(0).optional(),
+  SEARCH_RERANKER: z.enum(['none', 'llm', 'cross-encoder']).optional(),
+  SEARCH_RERANK_MODEL: z.string().optional(),
+  SEARCH_RERANK_URL: z.string().optional(),
+  SEARCH_RERANK_CANDIDATES: z.coerce.number().int().positive().optional(),
   ALGOLIA_INDEX: z.string().optional(),
   ALGOLIA_APP_ID: z.string().optional(),
   ALGOLIA_API_KEY: z.string().optional(),
@@ -174,6 +253,7 @@ export const isServiceEnabled = {
   spotify: () => !!(env.SPOTIFY_CLIENT_ID && env.SPOTIFY_CLIENT_SECRET),
   anthropic: () => !!env.ANTHROPIC_API_KEY,
   xai: () => !!env.XAI_API_KEY,
+  localLlm: () => !!env.LOCAL_LLM_BASE_URL,
   coinMarketCap: () => !!env.COIN_MARKET_CAP_API_KEY,
 };
 
@@ -189,6 +269,7 @@ export const logServiceStatus = () => {
     { name: 'OpenAI', enabled: !!env.OPENAI_API_KEY, required: false },
     { name: 'Anthropic', enabled: isServiceEnabled.anthropic(), required: false },
     { name: 'XAI', enabled: isServiceEnabled.xai(), required: false },
+    { name: 'Local LLM', enabled: isServiceEnabled.localLlm(), required: false },
     { name: 'Langfuse', enabled: isServiceEnabled.langfuse(), required: false },
     { name: 'Qdrant', enabled: isServiceEnabled.qdrant(), required: false },
     { name: 'Algolia', enabled: isServiceEnabled.algolia(), required: false },
@@ -232,6 +313,7 @@ export const getServiceStatus = () => {
     { name: 'OpenAI', enabled: !!env.OPENAI_API_KEY, required: false },
     { name: 'Anthropic', enabled: isServiceEnabled.anthropic(), required: false },
     { name: 'XAI', enabled: isServiceEnabled.xai(), required: false },
+    { name: 'Local LLM', enabled: isServiceEnabled.localLlm(), required: false },
     { name: 'Langfuse', enabled: isServiceEnabled.langfuse(), required: false },
     { name: 'Qdrant', enabled: isServiceEnabled.qdrant(), required: false },
     { name: 'Algolia', enabled: isServiceEnabled.algolia(), required: false },
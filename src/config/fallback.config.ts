@@ -0,0 +1,46 @@
+/**
+ * Ordered fallback models per LLM operation and the settings of the per-provider circuit breakers
+ * Chains come from the LLM_FALLBACK_* environment variables (comma-separated model ids, tried in order after the requested model)
+ * Without them text, stream and object fall back to FALLBACK_TEXT_MODEL and embeddings to OpenAI's text-embedding-3-large
+ */
+
+import {env, type EnvConfig} from './env.config';
+
+export type LlmOperation = 'text' | 'stream' | 'object' | 'embedding';
+
+export interface BreakerSettings {
+  /** Consecutive failures that open a provider's breaker */
+  failure_threshold: number;
+  /** How long an open breaker rejects calls before letting a trial call through */
+  cooldown_ms: number;
+}
+
+const chainVariables: Record<LlmOperation, keyof EnvConfig & `LLM_FALLBACK_${string}`> = {
+  text: 'LLM_FALLBACK_TEXT',
+  stream: 'LLM_FALLBACK_STREAM',
+  object: 'LLM_FALLBACK_OBJECT',
+  embedding: 'LLM_FALLBACK_EMBEDDING'
+};
+
+const readList = (value: string | undefined): string[] | undefined => {
+  const models = (value ?? '').split(',').map(model => model.trim()).filter(Boolean);
+  return models.length > 0 ? models : undefined;
+};
+
+/**
+ * Reads the fallback chain of an operation
+ * @param operation - LLM operation
+ * @returns Model ids to try in order when the requested model fails
+ */
+export const getFallbackChain = (operation: LlmOperation): string[] =>
+  readList(env[chainVariables[operation]]) ??
+  (operation === 'embedding' ? ['text-embedding-3-large'] : [env.FALLBACK_TEXT_MODEL || 'gpt-4o-mini']);
+
+/**
+ * Reads the circuit breaker settings
+ * @returns Failure threshold and cooldown shared by all providers
+ */
+export const getBreakerSettings = (): BreakerSettings => ({
+  failure_threshold: env.LLM_BREAKER_FAILURE_THRESHOLD,
+  cooldown_ms: env.LLM_BREAKER_COOLDOWN_MS
+});
@@ -0,0 +1,51 @@
+/**
+ * Settings of the conversation-history compaction
+ * History sent to a model may fill a share of its context window. Beyond it, older turns are replaced by
+ * rolling summaries, while the most recent messages always stay verbatim
+ */
+
+import {providers} from './llm.config';
+
+export interface HistorySettings {
+  enabled: boolean;
+  /** Share of the model context window the history may fill before it is compacted */
+  context_ratio: number;
+  /** Most recent messages that are never summarized */
+  recent_messages: number;
+  /** Messages folded into the rolling summary per step */
+  summary_block: number;
+}
+
+// Used for models without specs, e.g. local models that were never discovered
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+const readInteger = (value: string | undefined, fallback: number, min: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+};
+
+/**
+ * Reads the compaction settings
+ * @returns Switch and thresholds; invalid values fall back to the defaults
+ */
+export const getHistorySettings = (): HistorySettings => {
+  const ratio = Number(process.env.HISTORY_CONTEXT_RATIO);
+
+  return {
+    enabled: process.env.HISTORY_COMPACTION !== 'false',
+    context_ratio: ratio > 0 && ratio <= 1 ? ratio : 0.5,
+    recent_messages: readInteger(process.env.HISTORY_RECENT_MESSAGES, 10, 1),
+    summary_block: readInteger(process.env.HISTORY_SUMMARY_BLOCK, 20, 2)
+  };
+};
+
+/**
+ * Computes how many tokens of history a model gets
+ * @param settings - Compaction settings
+ * @param model - Model the history is sent to
+ * @returns Token budget of the history
+ */
+export const historyBudget = (settings: HistorySettings, model: string): number => {
+  const specs = Object.values(providers).find(models => models[model])?.[model];
+  return Math.floor((specs?.contextWindow ?? DEFAULT_CONTEXT_WINDOW) * settings.context_ratio);
+};
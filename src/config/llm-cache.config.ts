@@ -0,0 +1,77 @@
+/**
+ * Settings of the LLM response cache
+ * Deterministic calls (temperature 0) to completion.text and completion.object can be answered from the cache.
+ * It is off unless LLM_CACHE_ENABLED=true; entries expire after the TTL of the agent phase that made the call
+ */
+
+import {z} from 'zod';
+import {ValidationError} from '../utils/errors';
+import type {AgentPhase} from './routing.config';
+
+export interface LlmCacheSettings {
+  enabled: boolean;
+  /** TTL in seconds of calls made outside a routed agent phase */
+  default_ttl: number;
+  /** TTL in seconds per agent phase; 0 turns the cache off for the phase */
+  phase_ttls: Partial<Record<AgentPhase, number>>;
+  /** Cosine similarity a near-duplicate needs to be served; null turns the similarity lookup off */
+  semantic_threshold: number | null;
+}
+
+// Phases that read the clock, tasks or action results go stale sooner than the ones that read the message alone
+const defaultPhaseTtls: Partial<Record<AgentPhase, number>> = {
+  fast_track: 600,
+  environment: 300,
+  context: 900,
+  tools: 1800,
+  memory: 1800,
+  task_planning: 600,
+  action_selection: 300,
+  tool_use: 300
+};
+
+const phaseTtlsSchema = z.record(z.string(), z.number().int().min(0));
+
+const readPhaseTtls = (): Record<string, number> => {
+  const raw = process.env.LLM_CACHE_PHASE_TTLS;
+  if (!raw) return {};
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    throw new ValidationError('LLM_CACHE_PHASE_TTLS is not valid JSON', {cause: error});
+  }
+
+  const parsed = phaseTtlsSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new ValidationError('LLM_CACHE_PHASE_TTLS must map phases to seconds', {context: {issues: parsed.error.issues}});
+  }
+  return parsed.data;
+};
+
+/**
+ * Reads the cache settings
+ * @returns Switch, TTLs and similarity threshold
+ * @throws {ValidationError} When LLM_CACHE_PHASE_TTLS is not a JSON object of seconds
+ */
+export const getLlmCacheSettings = (): LlmCacheSettings => {
+  const default_ttl = Number(process.env.LLM_CACHE_TTL_SECONDS);
+  const threshold = Number(process.env.LLM_CACHE_SEMANTIC_THRESHOLD);
+
+  return {
+    enabled: process.env.LLM_CACHE_ENABLED === 'true',
+    default_ttl: Number.isFinite(default_ttl) && default_ttl >= 0 ? default_ttl : 3600,
+    phase_ttls: {...defaultPhaseTtls, ...readPhaseTtls()},
+    semantic_threshold: threshold > 0 && threshold <= 1 ? threshold : null
+  };
+};
+
+/**
+ * Resolves the TTL of a call
+ * @param settings - Cache settings
+ * @param phase - Agent phase that made the call, if any
+ * @returns TTL in seconds; 0 means the call is not cached
+ */
+export const resolveCacheTtl = (settings: LlmCacheSettings, phase?: string): number =>
+  (phase ? settings.phase_ttls[phase as AgentPhase] : undefined) ?? settings.default_ttl;
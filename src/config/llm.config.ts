@@ -1,8 +1,20 @@
-interface ModelSpecs {
+interface ModelPricing {
+  /** USD per 1M input (prompt) tokens */
+  input: number;
+  /** USD per 1M output (completion) tokens */
+  output: number;
+}
+
+// Attachment kinds a model reads besides text; document means PDF
+export type AttachmentKind = 'image' | 'audio' | 'document';
+
+export interface ModelSpecs {
   id: string;
   contextWindow: number;
   maxOutput: number;
   knowledgeCutoff: string;
+  /** Attachments passed to the model as content parts; others are replaced by a note (default: none) */
+  attachments?: AttachmentKind[];
 }
 
 export const providers: Record<string, Record<string, ModelSpecs>> = {
@@ -12,13 +24,15 @@ export const providers: Record<string, Record<string, ModelSpecs>> = {
       id: 'gpt-4o',
       contextWindow: 128_000,
       maxOutput: 16_384,
-      knowledgeCutoff: '2023-10'
+      knowledgeCutoff: '2023-10',
+      attachments: ['image']
     },
     'gpt-4o-mini': {
       id: 'gpt-4o-mini',
       contextWindow: 128_000,
       maxOutput: 16_384,
-      knowledgeCutoff: '2023-10'
+      knowledgeCutoff: '2023-10',
+      attachments: ['image']
     },
     'o1-preview': {
       id: 'o1-preview',
@@ -39,14 +53,16 @@ export const providers: Record<string, Record<string, ModelSpecs>> = {
       id: 'gemini-2.5-flash',
       contextWindow: 1_000_000,
       maxOutput: 8_192,
-      knowledgeCutoff: '2024-07'
+      knowledgeCutoff: '2024-07',
+      attachments: ['image', 'audio', 'document']
     },
     // NOTE: 'gemini-2.0-flash' is intentionally omitted from defaults; prefer 2.5.
     'gemini-1.5-flash': {
       id: 'gemini-1.5-flash',
       contextWindow: 1_000_000,
       maxOutput: 8_192,
-      knowledgeCutoff: '2024-07'
+      knowledgeCutoff: '2024-07',
+      attachments: ['image', 'audio', 'document']
     }
   },
   anthropic: {
@@ -54,7 +70,24 @@ export const providers: Record<string, Record<string, ModelSpecs>> = {
       id: 'claude-3-5-sonnet-latest',
       contextWindow: 200_000,
       maxOutput: 8_192,
-      knowledgeCutoff: '2024-04'
+      knowledgeCutoff: '2024-04',
+      attachments: ['image', 'document']
     }
-  }
+  },
+  // Models of the local OpenAI-compatible server, filled by model discovery (local-llm.service)
+  local: {}
+};
+
+// Prices in USD per 1M tokens; models without an entry are tracked with a cost of 0
+export const pricing: Record<string, ModelPricing> = {
+  'gpt-4o': {input: 2.5, output: 10},
+  'gpt-4o-mini': {input: 0.15, output: 0.6},
+  'o1-preview': {input: 15, output: 60},
+  'o1-mini': {input: 3, output: 12},
+  'gemini-2.5-flash': {input: 0.3, output: 2.5},
+  'gemini-1.5-flash': {input: 0.075, output: 0.3},
+  'claude-3-5-sonnet-latest': {input: 3, output: 15},
+  // Embedding models
+  'text-embedding-004': {input: 0, output: 0},
+  'text-embedding-3-large': {input: 0.13, output: 0}
 };
@@ -9,6 +9,14 @@ import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs';
 import * as path from 'path';
 import { encryptSensitiveData, decryptSensitiveData, maskApiKey } from '../utils/encryption';
+import { personaUpdateSchema, resolvePersona, type Persona, type PersonaUpdate } from './persona.config';
+import { modelRoutingSchema, type ModelRouting } from './routing.config';
+
+// Local OpenAI-compatible model server (Ollama, llama.cpp, vLLM)
+export const localProviderSchema = z.object({
+  baseUrl: z.string().url(),
+  embeddingModel: z.string().optional(),
+});
 
 // Local user configuration schema
 const localUserSchema = z.object({
@@ -21,6 +29,8 @@ const localUserSchema = z.object({
     timezone: z.string().default('Europe/Warsaw'),
     model: z.string().default('gemini-2.5-flash'),
     setupCompleted: z.boolean().default(false),
+    // OpenAI-compatible server for offline use; its key is stored encrypted under apiKeys.local
+    localProvider: localProviderSchema.optional(),
   }).default(() => ({
     theme: 'system' as const,
     language: 'en',
@@ -28,11 +38,18 @@ const localUserSchema = z.object({
     model: 'gemini-2.5-flash',
     setupCompleted: false,
   })),
+  // Free-text background about the user that the agent takes into account
+  context: z.string().optional(),
+  // Assistant persona overrides; missing fields use the defaults from persona.config
+  persona: personaUpdateSchema.default({}),
+  // Per-phase model routes of the agent loop; they override AGENT_MODEL_ROUTING and are overridden by the chat request
+  modelRouting: modelRoutingSchema.default({}),
   apiKeys: z.object({
     google: z.string().optional(),
     openai: z.string().optional(),
     anthropic: z.string().optional(),
     xai: z.string().optional(),
+    local: z.string().optional(),
     elevenlabs: z.string().optional(),
     resend: z.string().optional(),
     firecrawl: z.string().optional(),
@@ -47,6 +64,7 @@ const localUserSchema = z.object({
     openai: z.object({ createdAt: z.string(), lastRotated: z.string().optional() }).optional(),
     anthropic: z.object({ createdAt: z.string(), lastRotated: z.string().optional() }).optional(),
     xai: z.object({ createdAt: z.string(), lastRotated: z.string().optional() }).optional(),
+    local: z.object({ createdAt: z.string(), lastRotated: z.string().optional() }).optional(),
     elevenlabs: z.object({ createdAt: z.string(), lastRotated: z.string().optional() }).optional(),
     resend: z.object({ createdAt: z.string(), lastRotated: z.string().optional() }).optional(),
     firecrawl: z.object({ createdAt: z.string(), lastRotated: z.string().optional() }).optional(),
@@ -58,6 +76,7 @@ const localUserSchema = z.object({
 });
 
 export type LocalUserConfig = z.infer<typeof localUserSchema>;
+export type LocalProviderConfig = z.infer<typeof localProviderSchema>;
 
 // Default configuration
 const defaultConfig: LocalUserConfig = {
@@ -70,6 +89,8 @@ const defaultConfig: LocalUserConfig = {
     model: 'gemini-2.5-flash',
     setupCompleted: false,
   },
+  persona: {},
+  modelRouting: {},
   apiKeys: {},
   apiKeyMetadata: {},
   createdAt: new Date(),
@@ -242,6 +263,21 @@ export const updateUserPreferences = (preferences: Partial<LocalUserConfig['pref
   return saveLocalUserConfig(config);
 };
 
+/**
+ * Update the local model server; null removes it together with its API key
+ */
+export const updateLocalProvider = (localProvider: LocalProviderConfig | null, apiKey?: string) => {
+  if (apiKey) setApiKey('local', apiKey);
+  const config = loadLocalUserConfig();
+  config.preferences = { ...config.preferences, localProvider: localProvider ?? undefined };
+  if (!localProvider) {
+    delete config.apiKeys.local;
+    delete config.apiKeyMetadata.local;
+  }
+  config.updatedAt = new Date();
+  return saveLocalUserConfig(config).preferences.localProvider ?? null;
+};
+
 /**
  * Check if we're in local mode
  */
@@ -269,10 +305,58 @@ export const getLocalUser = () => {
     email: config.email || null,
     scopes: ['user', 'local'],
     preferences: config.preferences,
+    context: config.context ?? null,
+    persona: config.persona,
     isLocal: true,
   };
 };
 
+/**
+ * Get the assistant persona with defaults for unset fields
+ */
+export const getPersona = (): Persona => {
+  const config = loadLocalUserConfig();
+  return resolvePersona(config.persona);
+};
+
+/**
+ * Update the assistant persona
+ */
+export const updatePersona = (persona: PersonaUpdate): Persona => {
+  const config = loadLocalUserConfig();
+  config.persona = { ...config.persona, ...persona };
+  config.updatedAt = new Date();
+  return resolvePersona(saveLocalUserConfig(config).persona);
+};
+
+/**
+ * Get the user's per-phase model routes
+ */
+export const getModelRouting = (): ModelRouting => {
+  const config = loadLocalUserConfig();
+  return config.modelRouting;
+};
+
+/**
+ * Replace the user's per-phase model routes; null clears them
+ */
+export const updateModelRouting = (routing: ModelRouting | null): ModelRouting => {
+  const config = loadLocalUserConfig();
+  config.modelRouting = routing ?? {};
+  config.updatedAt = new Date();
+  return saveLocalUserConfig(config).modelRouting;
+};
+
+/**
+ * Update the free-text context about the user; null clears it
+ */
+export const updateUserContext = (context: string | null) => {
+  const config = loadLocalUserConfig();
+  config.context = context ?? undefined;
+  config.updatedAt = new Date();
+  return saveLocalUserConfig(config).context ?? null;
+};
+
 /**
  * Delete API key for a specific service
  */
@@ -304,7 +388,7 @@ export const getApiKeyMetadata = (service: keyof LocalUserConfig['apiKeys']) =>
  */
 export const listApiKeys = () => {
   const config = loadLocalUserConfig();
-  const services = ['google', 'openai', 'anthropic', 'xai', 'elevenlabs', 'resend', 'firecrawl', 'linear', 'spotify'] as const;
+  const services = ['google', 'openai', 'anthropic', 'xai', 'local', 'elevenlabs', 'resend', 'firecrawl', 'linear', 'spotify'] as const;
   
   return services.reduce((acc, service) => {
     const metadata = getApiKeyMetadata(service);
@@ -47,10 +47,14 @@ export const getFileTypeFromExtension = (extension: string): FileType | null =>
   )?.[0] as FileType | null;
 };
 
+// Extensions that share the mime type of another extension and have no entry of their own in `mimes`
+const extensionAliases: Record<string, string> = {'.jpeg': 'image/jpeg'};
+
 export const getMimeTypeFromExtension = (extension: string): string | null => {
   const normalized_ext = extension.startsWith('.') ? extension : `.${extension}`;
+  if (extensionAliases[normalized_ext]) return extensionAliases[normalized_ext];
   for (const config of Object.values(mimeTypes)) {
-    const index = config.extensions.indexOf(normalized_ext);
+    const index = config.extensions.filter(ext => !extensionAliases[ext]).indexOf(normalized_ext);
     if (index !== -1) {
       return config.mimes[Math.min(index, config.mimes.length - 1)];
     }
@@ -209,6 +209,34 @@ All endpoints return consistent error responses with appropriate HTTP status cod
         responses: { '200': { description: 'OK' } }
       }
     },
+    '/api/users/{uuid}/persona': {
+      get: { tags: ['Users'], summary: 'Get the assistant persona of a user', parameters: [{ name: 'uuid', in: 'path', required: true }], responses: { '200': { description: 'OK' }, '404': { description: 'Not Found' } } },
+      patch: { tags: ['Users'], summary: 'Update the assistant persona of a user', parameters: [{ name: 'uuid', in: 'path', required: true }], requestBody: { required: true }, responses: { '200': { description: 'OK' }, '404': { description: 'Not Found' } } }
+    },
+    '/api/users/{uuid}/context': {
+      get: { tags: ['Users'], summary: 'Get the free-text context about a user', parameters: [{ name: 'uuid', in: 'path', required: true }], responses: { '200': { description: 'OK' }, '404': { description: 'Not Found' } } },
+      put: { tags: ['Users'], summary: 'Replace the free-text context about a user', parameters: [{ name: 'uuid', in: 'path', required: true }], requestBody: { required: true }, responses: { '200': { description: 'OK' }, '404': { description: 'Not Found' } } }
+    },
+    '/api/local-user/persona': {
+      get: { tags: ['Users'], summary: 'Get the assistant persona of the local user', responses: { '200': { description: 'OK' } } },
+      patch: { tags: ['Users'], summary: 'Update the assistant persona of the local user', requestBody: { required: true }, responses: { '200': { description: 'OK' } } }
+    },
+    '/api/local-user/context': {
+      get: { tags: ['Users'], summary: 'Get the free-text context about the local user', responses: { '200': { description: 'OK' } } },
+      put: { tags: ['Users'], summary: 'Replace the free-text context about the local user', requestBody: { required: true }, responses: { '200': { description: 'OK' } } }
+    },
+    '/api/local-user/model-routing': {
+      get: { tags: ['Users'], summary: 'Get the per-phase model routes of the local user and the resolved routing', responses: { '200': { description: 'OK' } } },
+      put: { tags: ['Users'], summary: 'Replace the per-phase model routes of the local user (null clears them)', requestBody: { required: true }, responses: { '200': { description: 'OK' }, '400': { description: 'Invalid routing' } } }
+    },
+    '/api/local-user/local-provider': {
+      get: { tags: ['Users'], summary: 'Get the local model server and its discovered models', responses: { '200': { description: 'OK' } } },
+      put: { tags: ['Users'], summary: 'Connect a local OpenAI-compatible model server and discover its models', requestBody: { required: true }, responses: { '200': { description: 'OK' }, '400': { description: 'Server not reachable' } } },
+      delete: { tags: ['Users'], summary: 'Remove the local model server', responses: { '200': { description: 'OK' } } }
+    },
+    '/api/setup/local-provider': {
+      post: { tags: ['Users'], summary: 'Setup wizard: connect a local OpenAI-compatible model server', requestBody: { required: true }, responses: { '200': { description: 'OK' }, '400': { description: 'Server not reachable' } } }
+    },
     '/api/tools': {
       get: {
         tags: ['Tools'],
@@ -277,12 +305,51 @@ All endpoints return consistent error responses with appropriate HTTP status cod
     '/api/web/health/details': {
       get: { tags: ['Health'], summary: 'Health details', responses: { '200': { description: 'OK' } } }
     },
+    '/api/web/health/llm': {
+      get: { tags: ['Health'], summary: 'LLM provider circuit breakers, recent failovers and response cache hit rates', responses: { '200': { description: 'OK' } } }
+    },
     '/api/agi/conversations': {
       post: { tags: ['AGI'], summary: 'Create conversation', responses: { '200': { description: 'OK' } } }
     },
     '/api/agi/messages': {
       post: { tags: ['AGI'], summary: 'Send message', requestBody: { required: true }, responses: { '200': { description: 'OK' } } }
     },
+    '/api/agi/agent': {
+      post: { tags: ['AGI'], summary: 'Run the agent: fast-track simple queries, otherwise the full loop (observe, draft, plan, act), then answer', parameters: [{ name: 'X-Cache-Bypass', in: 'header', required: false }], requestBody: { required: true }, responses: { '200': { description: 'OK' } } }
+    },
+    '/api/agi/agent/stream': {
+      post: { tags: ['AGI'], summary: 'Run the agent loop streaming phase, tool and answer events (SSE)', parameters: [{ name: 'X-Cache-Bypass', in: 'header', required: false }], requestBody: { required: true }, responses: { '200': { description: 'text/event-stream of agent events' } } }
+    },
+    '/api/agi/conversations/{id}/approvals': {
+      get: { tags: ['AGI'], summary: 'List actions awaiting approval', parameters: [{ name: 'id', in: 'path', required: true }], responses: { '200': { description: 'OK' }, '404': { description: 'Not Found' } } }
+    },
+    '/api/agi/actions/{uuid}/payload': {
+      put: { tags: ['AGI'], summary: 'Edit the payload of an action awaiting approval', parameters: [{ name: 'uuid', in: 'path', required: true }], requestBody: { required: true }, responses: { '200': { description: 'OK' }, '404': { description: 'Not Found' }, '409': { description: 'Not awaiting approval' } } }
+    },
+    '/api/agi/actions/{uuid}/approve': {
+      post: { tags: ['AGI'], summary: 'Approve an action and resume the agent run', parameters: [{ name: 'uuid', in: 'path', required: true }], requestBody: { required: true }, responses: { '200': { description: 'OK' }, '404': { description: 'Not Found' }, '409': { description: 'Not awaiting approval' } } }
+    },
+    '/api/agi/actions/{uuid}/reject': {
+      post: { tags: ['AGI'], summary: 'Reject an action and resume the agent run', parameters: [{ name: 'uuid', in: 'path', required: true }], requestBody: { required: true }, responses: { '200': { description: 'OK' }, '404': { description: 'Not Found' }, '409': { description: 'Not awaiting approval' } } }
+    },
+    '/api/agi/runs/unfinished': {
+      get: { tags: ['AGI'], summary: 'List interrupted agent runs of the current user', responses: { '200': { description: 'OK' } } }
+    },
+    '/api/agi/runs/{conversation_id}/resume': {
+      post: { tags: ['AGI'], summary: 'Resume an interrupted agent run at the step it reached', parameters: [{ name: 'conversation_id', in: 'path', required: true }], responses: { '200': { description: 'OK' }, '400': { description: 'No unfinished run' }, '404': { description: 'Not Found' } } }
+    },
+    '/api/agi/usage': {
+      get: { tags: ['AGI'], summary: 'LLM usage of the current user today and the configured budgets', responses: { '200': { description: 'OK' } } }
+    },
+    '/api/agi/metrics/fast-track': {
+      get: { tags: ['AGI'], summary: 'Fast-track vs full agent runs of the current user with estimated savings', parameters: [{ name: 'days', in: 'query', required: false }], responses: { '200': { description: 'OK' } } }
+    },
+    '/api/agi/metrics/tool-modes': {
+      get: { tags: ['AGI'], summary: 'Classic vs native tool-calling runs of the current user: steps, LLM calls, tokens and latency', parameters: [{ name: 'days', in: 'query', required: false }], responses: { '200': { description: 'OK' } } }
+    },
+    '/api/agi/conversations/{id}/usage': {
+      get: { tags: ['AGI'], summary: 'LLM usage of a conversation', parameters: [{ name: 'id', in: 'path', required: true }], responses: { '200': { description: 'OK' }, '404': { description: 'Not Found' } } }
+    },
     '/api/agi/conversations/{id}/messages': {
       get: { tags: ['AGI'], summary: 'Get conversation messages', parameters: [{ name: 'id', in: 'path', required: true }], responses: { '200': { description: 'OK' } } }
     },
@@ -0,0 +1,64 @@
+/**
+ * Assistant persona configuration
+ * Every user can give the assistant a name, a tone, a reply language, a preferred response length
+ * and standing instructions; unset values fall back to the defaults below
+ */
+
+import {z} from 'zod';
+
+const aiName = z.string().min(1).max(50);
+const tone = z.enum(['neutral', 'friendly', 'formal', 'casual', 'playful']);
+const language = z.string().min(1);
+const responseLength = z.enum(['short', 'balanced', 'detailed']);
+const instructions = z.array(z.string().min(1).max(500)).max(20);
+
+export const personaSchema = z.object({
+  ai_name: aiName.default('Alice'),
+  tone: tone.default('friendly'),
+  /** Language code or name of the reply language; `auto` answers in the language of the user's message */
+  language: language.default('auto'),
+  response_length: responseLength.default('short'),
+  /** Standing instructions the assistant follows in every conversation */
+  instructions: instructions.default([])
+});
+
+export type Persona = z.infer<typeof personaSchema>;
+
+/** Partial update of a stored persona; omitted fields keep their current value */
+export const personaUpdateSchema = z.object({
+  ai_name: aiName.optional(),
+  tone: tone.optional(),
+  language: language.optional(),
+  response_length: responseLength.optional(),
+  instructions: instructions.optional()
+});
+
+export type PersonaUpdate = z.infer<typeof personaUpdateSchema>;
+
+export const defaultPersona: Persona = personaSchema.parse({});
+
+/**
+ * Builds a complete persona from a stored value, which may be partial, a JSON string or missing
+ * Invalid fields are replaced by their defaults instead of failing the request
+ * @param stored - Persona as stored for the user
+ * @returns Persona with every field set
+ */
+export const resolvePersona = (stored: unknown): Persona => {
+  let value = stored;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      value = {};
+    }
+  }
+  if (!value || typeof value !== 'object') return {...defaultPersona};
+
+  const resolved: Record<string, unknown> = {...defaultPersona};
+  for (const [key, field] of Object.entries(personaSchema.shape)) {
+    const parsed = field.safeParse((value as Record<string, unknown>)[key]);
+    if (parsed.success) resolved[key] = parsed.data;
+  }
+
+  return resolved as Persona;
+};
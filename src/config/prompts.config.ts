@@ -0,0 +1,43 @@
+/**
+ * Settings of the prompt overrides
+ * Built-in prompts (src/prompts/registry.ts) can be changed without a redeploy. Overrides are looked up from the most
+ * specific to the least: database rows of the user, of the environment and for everyone, then
+ * PROMPT_OVERRIDES_DIR/<environment>/<prompt id>.md and PROMPT_OVERRIDES_DIR/<prompt id>.md
+ */
+
+import {createHash} from 'crypto';
+
+export interface PromptSettings {
+  /** Directory of the file overrides */
+  overrides_dir: string;
+  /** Environment the environment-scoped overrides are matched against */
+  environment: string;
+}
+
+/**
+ * Reads the override settings
+ * @returns PROMPT_OVERRIDES_DIR (default .agenttom/prompts) and PROMPT_ENVIRONMENT, else NODE_ENV
+ */
+export const getPromptSettings = (): PromptSettings => ({
+  overrides_dir: process.env.PROMPT_OVERRIDES_DIR || '.agenttom/prompts',
+  environment: process.env.PROMPT_ENVIRONMENT || process.env.NODE_ENV || 'development'
+});
+
+/**
+ * Picks one of the variants of an A/B test by weight
+ * The same key always gets the same variant, so a user sees one wording for as long as the test runs
+ * @param variants - Active variants of one scope
+ * @param key - Stable key of the caller, e.g. prompt id and user
+ * @returns The picked variant; variants without weight are only picked when no variant has weight
+ */
+export const pickVariant = <T extends {weight: number}>(variants: T[], key: string): T => {
+  const total = variants.reduce((sum, variant) => sum + Math.max(0, variant.weight), 0);
+  if (total === 0) return variants[0];
+
+  let point = parseInt(createHash('sha256').update(key).digest('hex').slice(0, 8), 16) % total;
+  for (const variant of variants) {
+    point -= Math.max(0, variant.weight);
+    if (point < 0) return variant;
+  }
+  return variants[variants.length - 1];
+};
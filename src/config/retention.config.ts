@@ -0,0 +1,112 @@
+/**
+ * Settings of the memory retention
+ * Every memory gets a retention score from its importance (1-5), how often it was recalled and how long ago it was
+ * last used (stored, changed or recalled); the score halves every half-life. Memories scoring below the threshold
+ * are deleted by a periodic job. Rules per category change the half-life or keep the memories of a category for good
+ */
+
+export interface RetentionRule {
+  category: string;
+  /** Applies to every subcategory when missing */
+  subcategory?: string;
+  /** Days after which the score halves; null keeps the memories for good */
+  half_life_days: number | null;
+}
+
+export interface RetentionSettings {
+  enabled: boolean;
+  /** Score below which a memory is deleted */
+  threshold: number;
+  /** Days after which the score halves, unless a rule says otherwise */
+  half_life_days: number;
+  /** Minutes between retention jobs */
+  interval_minutes: number;
+  rules: RetentionRule[];
+}
+
+export interface RetentionInput {
+  /** 1 (trivia) to 5 (core fact) */
+  importance: number;
+  access_count: number;
+  created_at: string | null;
+  updated_at: string | null;
+  last_recalled_at: string | null;
+}
+
+export const DEFAULT_IMPORTANCE = 3;
+
+const MAX_IMPORTANCE = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_RULES = 'profiles/basic=never';
+
+const readNumber = (value: string | undefined, fallback: number, min: number, max = Infinity) => {
+  const parsed = Number(value);
+  return value !== undefined && value.trim() !== '' && Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : fallback;
+};
+
+/**
+ * Parses retention rules, e.g. `profiles/basic=never,events=14`
+ * @param value - Comma-separated `category[/subcategory]=never|<half-life in days>` entries
+ * @returns Rules; malformed entries are skipped
+ */
+export const parseRetentionRules = (value: string): RetentionRule[] =>
+  value
+    .split(',')
+    .map(entry => entry.trim().match(/^([^/=\s]+)(?:\/([^=\s]+))?\s*=\s*(never|\d+(?:\.\d+)?)$/i))
+    .filter((match): match is RegExpMatchArray => match !== null && (match[3].toLowerCase() === 'never' || Number(match[3]) > 0))
+    .map(([, category, subcategory, half_life]) => ({
+      category,
+      ...(subcategory ? {subcategory} : {}),
+      half_life_days: half_life.toLowerCase() === 'never' ? null : Number(half_life)
+    }));
+
+/**
+ * Reads the retention settings
+ * @returns MEMORY_RETENTION (default off), MEMORY_RETENTION_THRESHOLD (default 0.1), MEMORY_RETENTION_HALF_LIFE
+ * (days, default 30), MEMORY_RETENTION_INTERVAL (minutes, default 1440) and MEMORY_RETENTION_RULES
+ * (default profiles/basic=never); invalid values fall back to the defaults
+ */
+export const getRetentionSettings = (): RetentionSettings => ({
+  enabled: process.env.MEMORY_RETENTION === 'true',
+  threshold: readNumber(process.env.MEMORY_RETENTION_THRESHOLD, 0.1, 0),
+  half_life_days: readNumber(process.env.MEMORY_RETENTION_HALF_LIFE, 30, 1),
+  interval_minutes: readNumber(process.env.MEMORY_RETENTION_INTERVAL, 1440, 1),
+  rules: parseRetentionRules(process.env.MEMORY_RETENTION_RULES ?? DEFAULT_RULES)
+});
+
+/**
+ * Finds the half-life of a category; a rule of the subcategory wins over a rule of the whole category
+ * @returns Days, or null when the memories of the category are kept for good
+ */
+export const resolveHalfLife = (settings: Pick<RetentionSettings, 'half_life_days' | 'rules'>, category: string, subcategory: string | null): number | null => {
+  const rule =
+    settings.rules.find(item => item.category === category && item.subcategory !== undefined && item.subcategory === subcategory) ??
+    settings.rules.find(item => item.category === category && item.subcategory === undefined);
+
+  return rule ? rule.half_life_days : settings.half_life_days;
+};
+
+/**
+ * Scores how much a memory is worth keeping
+ * A never-recalled memory of default importance starts at 0.6; every doubling of its recalls adds the starting score again
+ * @param memory - Importance, recalls and timestamps of the memory
+ * @param half_life_days - Days after which the score halves; null keeps the memory for good
+ * @param now - Time to score at
+ * @returns Score, Infinity for memories kept for good
+ */
+export const retentionScore = (memory: RetentionInput, half_life_days: number | null, now = Date.now()): number => {
+  if (half_life_days === null) return Infinity;
+
+  const last_used = Math.max(
+    ...[memory.created_at, memory.updated_at, memory.last_recalled_at].map(value => (value ? Date.parse(value) : NaN)).filter(Number.isFinite),
+    0
+  );
+  const idle_days = Math.max(0, (now - last_used) / DAY_MS);
+
+  const importance = Math.min(MAX_IMPORTANCE, Math.max(1, memory.importance)) / MAX_IMPORTANCE;
+  const usage = 1 + Math.log2(1 + Math.max(0, memory.access_count));
+
+  return importance * usage * Math.pow(0.5, idle_days / half_life_days);
+};
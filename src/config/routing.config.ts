@@ -0,0 +1,111 @@
+/**
+ * Model routing for the agent loop
+ * Every agent phase can run on its own model, temperature and token limit. Routes are layered:
+ * built-in defaults, then AGENT_MODEL_ROUTING (global), then the local user's preferences, then the chat request.
+ * A field a layer leaves out comes from the layer below; phases without a model use the model of the request
+ */
+
+import {z} from 'zod';
+import {ValidationError} from '../utils/errors';
+
+export const agentPhases = [
+  'fast_track',
+  'environment',
+  'context',
+  'tools',
+  'memory',
+  'task_planning',
+  'action_selection',
+  'tool_use',
+  'answer'
+] as const;
+
+export type AgentPhase = (typeof agentPhases)[number];
+
+export const phaseRouteSchema = z.object({
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  max_tokens: z.number().int().positive().optional()
+});
+
+export type PhaseRoute = z.infer<typeof phaseRouteSchema>;
+
+/** Routes keyed by phase; phases that are left out keep the route of the layer below */
+export const modelRoutingSchema = z.partialRecord(z.enum(agentPhases), phaseRouteSchema);
+
+export type ModelRouting = z.infer<typeof modelRoutingSchema>;
+
+export interface ResolvedPhaseRoute {
+  model: string;
+  temperature: number;
+  max_tokens?: number;
+}
+
+// Structured phases decide rather than write, so they run deterministically; the answer uses the request settings
+const defaultRouting: ModelRouting = {
+  fast_track: {temperature: 0},
+  environment: {temperature: 0},
+  context: {temperature: 0},
+  tools: {temperature: 0},
+  memory: {temperature: 0},
+  task_planning: {temperature: 0},
+  action_selection: {temperature: 0},
+  tool_use: {temperature: 0}
+};
+
+/**
+ * Reads the global routing from AGENT_MODEL_ROUTING (JSON, e.g. {"task_planning": {"model": "gemini-2.5-flash"}})
+ * @returns Global routes; empty when the variable is not set
+ * @throws {ValidationError} When AGENT_MODEL_ROUTING is not valid routing JSON
+ */
+export const getGlobalRouting = (): ModelRouting => {
+  const raw = process.env.AGENT_MODEL_ROUTING;
+  if (!raw) return {};
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    throw new ValidationError('AGENT_MODEL_ROUTING is not valid JSON', {cause: error});
+  }
+
+  const parsed = modelRoutingSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new ValidationError('AGENT_MODEL_ROUTING does not match the routing schema', {context: {issues: parsed.error.issues}});
+  }
+  return parsed.data;
+};
+
+/**
+ * Layers routing tables; later layers win field by field
+ * @param layers - Routing tables from lowest to highest priority; missing layers are skipped
+ * @returns Merged routing
+ */
+export const mergeRouting = (...layers: Array<ModelRouting | undefined>): ModelRouting =>
+  layers.reduce<ModelRouting>((merged, layer) => {
+    for (const phase of agentPhases) {
+      const route = layer?.[phase];
+      if (route) merged[phase] = {...merged[phase], ...route};
+    }
+    return merged;
+  }, {});
+
+/**
+ * Resolves the model settings of one phase, with the built-in defaults below the routing
+ * @param routing - Merged routing of the run
+ * @param phase - Agent phase
+ * @param fallback - Model, temperature and token limit of the request, used for fields no layer sets
+ * @returns Model, temperature and token limit for the phase
+ */
+export const resolvePhaseRoute = (
+  routing: ModelRouting,
+  phase: AgentPhase,
+  fallback: ResolvedPhaseRoute
+): ResolvedPhaseRoute => {
+  const route = {...defaultRouting[phase], ...routing[phase]};
+  return {
+    model: route.model ?? fallback.model,
+    temperature: route.temperature ?? fallback.temperature,
+    max_tokens: route.max_tokens ?? fallback.max_tokens
+  };
+};
@@ -0,0 +1,68 @@
+/**
+ * Settings of the hybrid search
+ * LEXICAL_SEARCH_BACKEND picks the keyword backend: `fts` (SQLite FTS5 over the documents table, no external service),
+ * `algolia` or `none`. Without it Algolia is used when it is configured and FTS5 otherwise.
+ * The vector and keyword rankings are fused with weighted Reciprocal Rank Fusion and can then be re-ranked by
+ * SEARCH_RERANKER: `llm` (a chat model scores each candidate) or `cross-encoder` (a /rerank endpoint of a local server)
+ */
+
+export type LexicalBackendName = 'fts' | 'algolia' | 'none';
+
+const backendNames: LexicalBackendName[] = ['fts', 'algolia', 'none'];
+
+/**
+ * Reads the configured lexical backend
+ * @returns The backend name; unknown values fall back to the default
+ */
+export const getLexicalBackend = (): LexicalBackendName => {
+  const configured = process.env.LEXICAL_SEARCH_BACKEND as LexicalBackendName | undefined;
+  if (configured && backendNames.includes(configured)) return configured;
+
+  const algolia = process.env.ALGOLIA_APP_ID && process.env.ALGOLIA_API_KEY && process.env.ALGOLIA_INDEX;
+  return algolia ? 'algolia' : 'fts';
+};
+
+export type RerankerName = 'none' | 'llm' | 'cross-encoder';
+
+const rerankerNames: RerankerName[] = ['none', 'llm', 'cross-encoder'];
+
+export interface HybridSearchSettings {
+  /** RRF constant; a larger k flattens the difference between top and lower ranks */
+  rrf_k: number;
+  /** Weight of each ranking in the fused score; 0 ignores a ranking */
+  weights: {vector: number; text: number};
+  reranker: RerankerName;
+  /** Chat model of the llm re-ranker, or cross-encoder model served by the re-rank server */
+  rerank_model?: string;
+  /** Server of the cross-encoder; default the local model server */
+  rerank_url?: string;
+  /** Number of top fused results that are re-ranked */
+  rerank_candidates: number;
+}
+
+const number = (value: string | undefined, fallback: number, min: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value.trim() !== '' && Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+};
+
+/**
+ * Reads the fusion and re-ranking settings
+ * @returns SEARCH_RRF_K (default 60), SEARCH_VECTOR_WEIGHT and SEARCH_TEXT_WEIGHT (default 1), SEARCH_RERANKER
+ * (default none), SEARCH_RERANK_MODEL, SEARCH_RERANK_URL and SEARCH_RERANK_CANDIDATES (default 20); invalid values
+ * fall back to the defaults
+ */
+export const getHybridSearchSettings = (): HybridSearchSettings => {
+  const reranker = process.env.SEARCH_RERANKER as RerankerName | undefined;
+
+  return {
+    rrf_k: number(process.env.SEARCH_RRF_K, 60, 1),
+    weights: {
+      vector: number(process.env.SEARCH_VECTOR_WEIGHT, 1, 0),
+      text: number(process.env.SEARCH_TEXT_WEIGHT, 1, 0)
+    },
+    reranker: reranker && rerankerNames.includes(reranker) ? reranker : 'none',
+    rerank_model: process.env.SEARCH_RERANK_MODEL || undefined,
+    rerank_url: process.env.SEARCH_RERANK_URL || undefined,
+    rerank_candidates: Math.floor(number(process.env.SEARCH_RERANK_CANDIDATES, 20, 1))
+  };
+};
@@ -1,6 +1,8 @@
 /**
  * Validation schemas for tool parameters
  * Provides type-safe validation for all tool actions and payloads
+ * Action names and payloads match what each tool's `execute` handles; `conversation_uuid` is left out because the
+ * agent adds it to every payload itself
  * @module tool-schemas
  */
 
@@ -8,17 +10,11 @@ import { z } from 'zod';
 
 // Spotify Tool Schemas
 export const spotifySchemas = {
-  search: z.object({
-    query: z.string(),
-    type: z.enum(['track', 'album', 'artist', 'playlist']),
-    limit: z.number().int().min(1).max(50).default(20)
-  }),
-  play: z.object({
-    uri: z.string().startsWith('spotify:'),
-    device_id: z.string().optional()
+  play_music: z.object({
+    query: z.string()
   }),
-  pause: z.object({
-    device_id: z.string().optional()
+  search_music: z.object({
+    query: z.string()
   })
 };
 
@@ -26,23 +22,41 @@ export const spotifySchemas = {
 export const memorySchemas = {
   recall: z.object({
     query: z.string(),
-    limit: z.number().int().min(1).max(100).default(10),
-    threshold: z.number().min(0).max(1).default(0.7)
+    filters: z.object({
+      source_uuid: z.string().uuid().optional(),
+      source: z.string().optional(),
+      content_type: z.enum(['chunk', 'full', 'memory']).optional(),
+      category: z.string().optional(),
+      subcategory: z.string().optional()
+    }).optional(),
+    limit: z.number().int().min(1).max(100).default(15)
+  }),
+  remember: z.object({
+    name: z.string(),
+    text: z.string(),
+    category: z.string(),
+    subcategory: z.string(),
+    importance: z.number().int().min(1).max(5).optional()
   }),
-  store: z.object({
-    content: z.string(),
-    metadata: z.record(z.string(), z.string()).optional()
+  update: z.object({
+    memory_uuid: z.string(),
+    name: z.string().optional(),
+    category_uuid: z.string().optional(),
+    text: z.string().optional(),
+    importance: z.number().int().min(1).max(5).optional()
+  }),
+  forget: z.object({
+    memory_uuid: z.string()
   })
 };
 
 // Resend Tool Schemas
 export const resendSchemas = {
-  send: z.object({
-    to: z.string().email(),
+  send_email: z.object({
+    to: z.string().email().optional(),
     subject: z.string(),
     text: z.string(),
-    html: z.string().optional(),
-    from: z.string().email().optional()
+    attachments: z.array(z.string()).optional()
   })
 };
 
@@ -63,57 +77,63 @@ export const fileSchemas = {
 
 // Speak Tool Schemas
 export const speakSchemas = {
-  textToSpeech: z.object({
+  speak: z.object({
     text: z.string(),
     voice: z.string().optional(),
-    speed: z.number().min(0.5).max(2).default(1)
+    mode: z.enum(['speak', 'elevenlabs']).default('elevenlabs')
   })
 };
 
 // Linear Tool Schemas
+const linearIssueFields = {
+  title: z.string(),
+  description: z.string().optional(),
+  priority: z.number().min(0).max(4).optional(),
+  assigneeId: z.string().optional(),
+  projectId: z.string().optional(),
+  stateId: z.string().optional(),
+  estimate: z.number().optional(),
+  labelIds: z.array(z.string()).optional(),
+  startDate: z.string().optional(),
+  dueDate: z.string().optional()
+};
+
 export const linearSchemas = {
-  createIssue: z.object({
-    title: z.string(),
-    description: z.string().optional(),
-    teamId: z.string(),
-    priority: z.number().min(0).max(4).default(2),
-    labels: z.array(z.string()).optional()
+  add_tasks: z.object({
+    tasks: z.array(z.object({ ...linearIssueFields, teamId: z.string().optional() }))
   }),
-  updateIssue: z.object({
-    issueId: z.string(),
-    title: z.string().optional(),
-    description: z.string().optional(),
-    stateId: z.string().optional(),
-    priority: z.number().min(0).max(4).optional()
-  })
+  update_tasks: z.object({
+    tasks: z.array(z.object({ ...linearIssueFields, issueId: z.string(), title: z.string().optional() }))
+  }),
+  search_tasks: z.object({
+    projectIds: z.array(z.string()).optional(),
+    startDate: z.string(),
+    endDate: z.string()
+  }),
+  get_projects: z.object({}),
+  get_states: z.object({})
 };
 
 // Map Tool Schemas
 export const mapSchemas = {
-  search: z.object({
-    query: z.string(),
-    location: z.object({
-      lat: z.number(),
-      lng: z.number()
-    }).optional(),
-    radius: z.number().min(1).max(50000).default(5000)
+  search_place: z.object({
+    query: z.string()
+  }),
+  place_details: z.object({
+    place_id: z.string()
   }),
   directions: z.object({
     origin: z.string(),
     destination: z.string(),
-    mode: z.enum(['driving', 'walking', 'bicycling', 'transit']).default('driving')
+    mode: z.enum(['driving', 'walking']).default('driving')
   })
 };
 
 // Crypto Tool Schemas
 export const cryptoSchemas = {
-  encrypt: z.object({
-    text: z.string(),
-    key: z.string().min(32)
-  }),
-  decrypt: z.object({
-    text: z.string(),
-    key: z.string().min(32)
+  get_price: z.object({
+    symbols: z.string().describe('Space-separated symbols, e.g. "BTC ETH"'),
+    amount: z.number().optional().default(1)
   })
 };
 
@@ -150,26 +170,43 @@ export const imageSchemas = {
     image_url: z.string().url(),
     n: z.number().int().min(1).max(10).default(1),
     size: z.enum(['256x256', '512x512', '1024x1024']).default('1024x1024')
+  }),
+  upload: z.object({
+    image_data: z.string(),
+    filename: z.string(),
+    description: z.string().optional()
   })
 };
 
 // Calendar Tool Schemas
+const calendarTime = z.object({
+  dateTime: z.string(),
+  timeZone: z.string().optional()
+});
+
 export const calendarSchemas = {
-  createEvent: z.object({
+  create_event: z.object({
     summary: z.string(),
     description: z.string().optional(),
-    start: z.string().datetime(),
-    end: z.string().datetime(),
-    attendees: z.array(z.string().email()).optional()
+    location: z.string().optional(),
+    start: calendarTime,
+    end: calendarTime
   }),
-  updateEvent: z.object({
+  update_event: z.object({
     eventId: z.string(),
-    summary: z.string().optional(),
+    summary: z.string(),
     description: z.string().optional(),
-    start: z.string().datetime().optional(),
-    end: z.string().datetime().optional(),
-    attendees: z.array(z.string().email()).optional()
-  })
+    location: z.string().optional(),
+    start: calendarTime,
+    end: calendarTime
+  }),
+  search_events: z.object({
+    query: z.string(),
+    timeMin: z.string(),
+    timeMax: z.string(),
+    maxResults: z.number().optional()
+  }),
+  get_auth_url: z.object({})
 };
 
 // Combined schemas for all tools
@@ -188,5 +225,5 @@ export const toolSchemas = {
 } as const;
 
 // Type for tool action payloads
-export type ToolActionPayload<T extends keyof typeof toolSchemas, A extends keyof typeof toolSchemas[T]> = 
-  z.infer<typeof toolSchemas[T][A] extends z.ZodType ? typeof toolSchemas[T][A] : never>; 
\ No newline at end of file
+export type ToolActionPayload<T extends keyof typeof toolSchemas, A extends keyof typeof toolSchemas[T]> =
+  z.infer<typeof toolSchemas[T][A] extends z.ZodType ? typeof toolSchemas[T][A] : never>;
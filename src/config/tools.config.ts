@@ -12,6 +12,8 @@ import { calendarService } from '../services/agent/calendar.service';
 import type { DocumentType } from '../services/agent/document.service';
 import { toolSchemas } from './tool-schemas';
 import { z } from 'zod';
+import { tool, type ToolSet } from 'ai';
+import type { Tool } from '../types/agent';
 
 interface ToolService {
   execute: (action: string, payload: unknown, span?: any) => Promise<DocumentType>;
@@ -57,4 +59,60 @@ export const validateToolPayload = <T extends ToolName>(
     throw new Error(`Invalid action '${action}' for tool '${tool}'`);
   }
   return schema.parse(payload);
-}; 
\ No newline at end of file
+};
+
+// Native tool names join the tool and its action, e.g. `spotify__play_music`
+const NATIVE_TOOL_SEPARATOR = '__';
+
+export const FINAL_ANSWER_TOOL = 'final_answer';
+
+// Every native call also names its action and the task it belongs to, like the classic action selection
+const nativeCallSchema = <T extends z.ZodType>(payload: T) =>
+  z.object({
+    task_uuid: z.string().describe('UUID of the task from current_tasks this action belongs to'),
+    name: z.string().describe('Brief name of the action, e.g. check_tomorrow_schedule'),
+    payload
+  });
+
+/**
+ * Turns the session tools into AI SDK tools for native function calling
+ * Every action of a tool becomes its own function with the action's payload schema; tools without schemas are skipped.
+ * The functions have no `execute`, so the model's call is returned and executed by the agent loop
+ * @param tools - Tools available in the session
+ * @returns Functions keyed by `<tool>__<action>`, plus `final_answer`
+ */
+export const buildNativeTools = (tools: Pick<Tool, 'name' | 'description'>[]): ToolSet => {
+  const schemas = toolSchemas as Partial<ToolSchema>;
+  const native: ToolSet = {};
+
+  for (const { name, description } of tools) {
+    for (const [action, payload] of Object.entries(schemas[name] ?? {})) {
+      native[`${name}${NATIVE_TOOL_SEPARATOR}${action}`] = tool({
+        description: `${description || name} Action: ${action}.`,
+        inputSchema: nativeCallSchema(payload)
+      });
+    }
+  }
+
+  native[FINAL_ANSWER_TOOL] = tool({
+    description: "Answer the user. Call it when the user's latest request is fulfilled or no other tool is needed.",
+    inputSchema: z.object({
+      task_uuid: z.string().describe('UUID of the task from current_tasks this action belongs to'),
+      name: z.string().describe('Brief name of the action')
+    })
+  });
+
+  return native;
+};
+
+/**
+ * Splits a native function name into its tool and action
+ * @param name - Function name returned by the model, e.g. `spotify__play_music`
+ * @returns Tool and action; the action is empty for `final_answer`
+ */
+export const parseNativeToolName = (name: string): { tool: string; action: string } => {
+  const index = name.indexOf(NATIVE_TOOL_SEPARATOR);
+  return index === -1
+    ? { tool: name, action: '' }
+    : { tool: name.slice(0, index), action: name.slice(index + NATIVE_TOOL_SEPARATOR.length) };
+};
@@ -0,0 +1,29 @@
+/**
+ * Settings of the vector store
+ * VECTOR_STORE_BACKEND picks where embeddings are stored and searched: `qdrant` (a Qdrant server) or `local`
+ * (a SQLite file next to the application database, no server needed). Without it Qdrant is used when QDRANT_URL is
+ * set and the local store otherwise. `bun run vectors:migrate <from> <to>` copies the collections between them
+ */
+
+export type VectorStoreName = 'qdrant' | 'local';
+
+export const vectorStoreNames: VectorStoreName[] = ['qdrant', 'local'];
+
+export interface VectorStoreSettings {
+  backend: VectorStoreName;
+  /** File of the local store */
+  local_path: string;
+}
+
+/**
+ * Reads the vector store settings
+ * @returns The backend (unknown values fall back to the default) and VECTOR_STORE_PATH (default vectors.db)
+ */
+export const getVectorStoreSettings = (): VectorStoreSettings => {
+  const configured = process.env.VECTOR_STORE_BACKEND as VectorStoreName | undefined;
+
+  return {
+    backend: configured && vectorStoreNames.includes(configured) ? configured : process.env.QDRANT_URL ? 'qdrant' : 'local',
+    local_path: process.env.VECTOR_STORE_PATH || 'vectors.db'
+  };
+};
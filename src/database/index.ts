@@ -5,9 +5,12 @@ import { drizzle as drizzleSqlite } from 'drizzle-orm/bun-sqlite';
 import { Database } from 'bun:sqlite';
 import { isLocalMode } from '../config/local-user.config';
 
+// SQLite file of the app; the cassette replay script points it at a throwaway copy
+const databasePath = process.env.DATABASE_PATH || 'agi.db';
+
 // Initialize libSQL client
 const client = createClient({
-  url: 'file:agi.db',
+  url: `file:${databasePath}`,
 });
 
 // Create Drizzle instance with all schemas
@@ -18,7 +21,7 @@ export const db = drizzle(client, {
 });
 
 // SQLite setup for migrations
-const sqliteDb = new Database('./agi.db');
+const sqliteDb = new Database(databasePath);
 export const sqlite = drizzleSqlite(sqliteDb, {
   schema: {
     ...schema,
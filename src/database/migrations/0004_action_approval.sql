@@ -0,0 +1,3 @@
+-- Human approval gate for side-effecting tool actions
+-- Actions awaiting approval keep a checkpoint of the paused agent run so it can resume where it stopped
+ALTER TABLE `actions` ADD `checkpoint` text;
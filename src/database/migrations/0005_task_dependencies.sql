@@ -0,0 +1,2 @@
+-- Planned tasks can depend on other tasks; independent tasks run in parallel
+ALTER TABLE `tasks` ADD `depends_on` text;
@@ -0,0 +1,2 @@
+-- Assistant persona per user (name, tone, language, response length, standing instructions)
+ALTER TABLE `users` ADD `persona` text;
\ No newline at end of file
@@ -0,0 +1,17 @@
+-- Token usage and cost of every LLM call, used for run, conversation and user budgets
+CREATE TABLE IF NOT EXISTS `llm_usage` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`run_id` text,
+	`user_uuid` text,
+	`conversation_uuid` text,
+	`model` text NOT NULL,
+	`operation` text NOT NULL,
+	`input_tokens` integer DEFAULT 0 NOT NULL,
+	`output_tokens` integer DEFAULT 0 NOT NULL,
+	`cost` real DEFAULT 0 NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `llm_usage_user_created_at_idx` ON `llm_usage` (`user_uuid`,`created_at`);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `llm_usage_conversation_idx` ON `llm_usage` (`conversation_uuid`);
@@ -0,0 +1,17 @@
+-- Path (fast-track or full loop), latency and token usage of every agent run
+CREATE TABLE IF NOT EXISTS `agent_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`run_id` text NOT NULL,
+	`user_uuid` text,
+	`conversation_uuid` text,
+	`path` text NOT NULL,
+	`status` text NOT NULL,
+	`duration_ms` integer NOT NULL,
+	`llm_calls` integer DEFAULT 0 NOT NULL,
+	`input_tokens` integer DEFAULT 0 NOT NULL,
+	`output_tokens` integer DEFAULT 0 NOT NULL,
+	`cost` real DEFAULT 0 NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `agent_runs_user_created_at_idx` ON `agent_runs` (`user_uuid`,`created_at`);
@@ -0,0 +1,3 @@
+-- Tool mode (classic or native function calling) and loop steps of every agent run, so both modes can be compared
+ALTER TABLE `agent_runs` ADD `tool_mode` text DEFAULT 'classic' NOT NULL;--> statement-breakpoint
+ALTER TABLE `agent_runs` ADD `steps` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+-- Embedding model and dimension of every vector collection, and the progress of re-embeddings into new ones
+CREATE TABLE IF NOT EXISTS `embedding_collections` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`model` text NOT NULL,
+	`dimensions` integer NOT NULL,
+	`status` text NOT NULL,
+	`total` integer DEFAULT 0 NOT NULL,
+	`processed` integer DEFAULT 0 NOT NULL,
+	`failed` integer DEFAULT 0 NOT NULL,
+	`error` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP,
+	`activated_at` text
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS `embedding_collections_name_unique` ON `embedding_collections` (`name`);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `embedding_collections_status_idx` ON `embedding_collections` (`status`);
@@ -0,0 +1,29 @@
+-- Prompt overrides per environment or user, A/B variants, and the variants every agent run used
+CREATE TABLE IF NOT EXISTS `prompt_versions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`uuid` text NOT NULL,
+	`prompt_id` text NOT NULL,
+	`version` text NOT NULL,
+	`variant` text DEFAULT 'default' NOT NULL,
+	`template` text NOT NULL,
+	`user_uuid` text,
+	`environment` text,
+	`weight` integer DEFAULT 100 NOT NULL,
+	`active` integer DEFAULT true NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS `prompt_versions_uuid_unique` ON `prompt_versions` (`uuid`);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `prompt_versions_prompt_active_idx` ON `prompt_versions` (`prompt_id`,`active`);--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS `prompt_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`run_id` text NOT NULL,
+	`prompt_id` text NOT NULL,
+	`version` text NOT NULL,
+	`variant` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS `prompt_runs_run_prompt_idx` ON `prompt_runs` (`run_id`,`prompt_id`,`version`,`variant`);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `prompt_runs_prompt_created_at_idx` ON `prompt_runs` (`prompt_id`,`created_at`);
@@ -0,0 +1,13 @@
+-- FTS5 index of the documents for keyword search without Algolia; filter columns are stored but not tokenized
+CREATE VIRTUAL TABLE IF NOT EXISTS `documents_fts` USING fts5(
+	`document_uuid` UNINDEXED,
+	`name`,
+	`description`,
+	`text`,
+	`source_uuid` UNINDEXED,
+	`source` UNINDEXED,
+	`content_type` UNINDEXED,
+	`category` UNINDEXED,
+	`subcategory` UNINDEXED,
+	tokenize = 'porter unicode61 remove_diacritics 2'
+);
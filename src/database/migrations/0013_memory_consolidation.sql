@@ -0,0 +1,19 @@
+-- Memory consolidation: merges and supersessions for review, and when each memory was last checked
+CREATE TABLE IF NOT EXISTS `memory_merges` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`uuid` text(36) NOT NULL,
+	`survivor_memory_uuid` text NOT NULL,
+	`replaced_memory_uuid` text NOT NULL,
+	`replaced_name` text NOT NULL,
+	`replaced_text` text NOT NULL,
+	`action` text NOT NULL,
+	`reason` text NOT NULL,
+	`similarity` real NOT NULL,
+	`trigger` text NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS `memory_merges_uuid_unique` ON `memory_merges` (`uuid`);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `memory_merges_survivor_idx` ON `memory_merges` (`survivor_memory_uuid`);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `memory_merges_created_at_idx` ON `memory_merges` (`created_at`);--> statement-breakpoint
+ALTER TABLE `memories` ADD `consolidated_at` text;
@@ -0,0 +1,4 @@
+-- Memory retention: importance and recall statistics of every memory
+ALTER TABLE `memories` ADD `importance` integer DEFAULT 3 NOT NULL;--> statement-breakpoint
+ALTER TABLE `memories` ADD `access_count` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `memories` ADD `last_recalled_at` text;
@@ -1,5 +1,7 @@
 import {z} from 'zod';
 import {CoreMessage} from 'ai';
+import {personaUpdateSchema} from '../config/persona.config';
+import {modelRoutingSchema} from '../config/routing.config';
 
 // Common schemas
 const BaseMessageContent = z.union([
@@ -21,6 +23,16 @@ const BaseMessageContent = z.union([
   )
 ]);
 
+// Chat message content: plain text, or text parts and attachments that reference uploads (/api/files/upload)
+export const ChatPartDto = z.union([
+  z.object({type: z.literal('text'), text: z.string().min(1)}),
+  z.object({type: z.enum(['image', 'audio', 'file']), file_uuid: z.string().uuid()})
+]);
+
+export const ChatContentDto = z.union([z.string().min(1), z.array(ChatPartDto).min(1)]);
+
+export type ChatPart = z.infer<typeof ChatPartDto>;
+
 // External DTO for raw input
 export const ExternalChatRequestDto = z.object({
   conversation_id: z.string().optional(),
@@ -34,11 +46,14 @@ export const ExternalChatRequestDto = z.object({
   stream: z.boolean().optional(),
   temperature: z.number().optional(),
   max_tokens: z.number().optional(),
+  tool_mode: z.enum(['classic', 'native']).optional(),
+  model_routing: modelRoutingSchema.optional(),
   user: z.object({
     uuid: z.string(),
     name: z.string(),
     context: z.string().optional(),
-    environment: z.string().optional()
+    environment: z.string().optional(),
+    persona: personaUpdateSchema.optional()
   })
 });
 
@@ -50,11 +65,15 @@ export const ChatRequestDto = z.object({
   stream: z.boolean().optional(),
   temperature: z.number().optional().default(0.7),
   max_tokens: z.number().optional().default(16384),
+  tool_mode: z.enum(['classic', 'native']).optional(),
+  model_routing: modelRoutingSchema.optional(),
+  cache_bypass: z.boolean().optional(),
   user: z.object({
     uuid: z.string(),
     name: z.string(),
     context: z.string().optional(),
-    environment: z.string().optional()
+    environment: z.string().optional(),
+    persona: personaUpdateSchema.optional()
   })
 });
 
@@ -4,6 +4,15 @@ import { sqlite } from './database';
 import { env, logServiceStatus } from './config/env.config';
 import { logger } from './services/common/logger.service';
 import { memoryTracker, timerRegistry } from './utils/memory-management';
+import { recoveryService } from './services/agent/recovery.service';
+import { localLlmService } from './services/common/local-llm.service';
+import { reembedService } from './services/common/reembed.service';
+import { ftsService } from './services/common/fts.service';
+import { vectorService } from './services/common/vector.service';
+import { memoryConsolidationService } from './services/agent/memory-consolidation.service';
+import { getConsolidationSettings } from './config/consolidation.config';
+import { memoryRetentionService } from './services/agent/memory-retention.service';
+import { getRetentionSettings } from './config/retention.config';
 
 // Initialize memory monitoring
 const MEMORY_CHECK_INTERVAL = 15 * 60 * 1000; // 15 minutes
@@ -26,6 +35,62 @@ try {
 // Log service configuration status
 logServiceStatus();
 
+// Register the models of the local model server before the first request needs them
+if (localLlmService.getSettings()) {
+  localLlmService
+    .discoverModels()
+    .then((models) => logger.startup(`Discovered ${models.length} local model(s)`))
+    .catch((error) => logger.warn('Failed to discover local models', { message: error instanceof Error ? error.message : String(error) }));
+}
+
+// Continue agent runs that were interrupted by the previous shutdown
+if (env.RESUME_RUNS_ON_STARTUP !== 'false') {
+  recoveryService
+    .resumeUnfinishedRuns()
+    .then((resumed) => {
+      if (resumed > 0) logger.startup(`Resumed ${resumed} interrupted agent run(s)`);
+    })
+    .catch((error) => logger.warn('Failed to resume interrupted agent runs', { message: error instanceof Error ? error.message : String(error) }));
+}
+
+// Index the documents stored before the keyword index existed
+ftsService
+  .ensureIndexed()
+  .catch((error) => logger.warn('Failed to build the keyword index', { message: error instanceof Error ? error.message : String(error) }));
+
+// Register the active vector collection and check that the selected store holds it
+vectorService
+  .initializeCollection()
+  .catch((error) => logger.warn('Failed to initialize the vector store', { message: error instanceof Error ? error.message : String(error) }));
+
+// Continue a re-embedding that was interrupted by the previous shutdown; the active collection serves meanwhile
+reembedService
+  .resumeInterrupted()
+  .then((collection) => {
+    if (collection) logger.startup(`Resumed re-embedding with ${collection.model}`);
+  })
+  .catch((error) => logger.warn('Failed to resume re-embedding', { message: error instanceof Error ? error.message : String(error) }));
+
+// Merge repeated and drop outdated memories stored or changed since their last check
+const consolidation = getConsolidationSettings();
+if (consolidation.enabled && consolidation.interval_minutes > 0) {
+  timerRegistry.setInterval(() => {
+    memoryConsolidationService
+      .runJob()
+      .catch((error) => logger.warn('Memory consolidation job failed', { message: error instanceof Error ? error.message : String(error) }));
+  }, consolidation.interval_minutes * 60 * 1000, 'memory-consolidation');
+}
+
+// Drop memories whose importance and recalls no longer outweigh the time since they were last used
+const retention = getRetentionSettings();
+if (retention.enabled) {
+  timerRegistry.setInterval(() => {
+    memoryRetentionService
+      .runJob()
+      .catch((error) => logger.warn('Memory retention job failed', { message: error instanceof Error ? error.message : String(error) }));
+  }, retention.interval_minutes * 60 * 1000, 'memory-retention');
+}
+
 // Start server
 const port = env.PORT;
 logger.startup(`Server is running on port ${port}`);
@@ -1,8 +1,11 @@
 import {State} from '../../types/state';
+import {personaContext} from './persona';
 
 export const prompt = (state: State) => {
   return `You are an AI assistant responsible for determining the next immediate action to take based on the ongoing conversation, current tasks, and all available information. Your goal is to decide on the most appropriate next step.
 
+${personaContext(state)}
+
 <prompt_objective>
 Analyze the conversation context, current tasks, their actions, and all available information. Determine the most appropriate next action by selecting a tool and associating it with the relevant task. Always output a JSON string containing your internal reasoning and a detailed action object, including the associated task UUID.
 
@@ -0,0 +1,91 @@
+import type {State} from '../../types/state';
+import {personaContext} from './persona';
+
+// Native tool mode: the model picks the next action and writes its payload in a single function call
+export const prompt = (state: State) => {
+  return `You're ${state.profile.ai_name} working on the user's request for ${state.profile.user_name}. Your job is to take the very next action by calling exactly one of the available functions.
+
+${personaContext(state)}
+
+<prompt_objective>
+Analyze the conversation, the current tasks and their actions, and all available information. Then call the one function that moves the first pending task forward, with a payload that is complete and ready to run.
+
+Every function except final_answer is a tool action: its name is "<tool>__<action>" and its "payload" argument is what the tool receives. Within the payload you can refer to document / action result contents by using [[uuid]] syntax, but only when you need their entire content.
+
+Current datetime: ${state.config.time}. You can use it to generate dates in the payload.
+</prompt_objective>
+
+<prompt_rules>
+- ALWAYS call exactly one function; never answer with plain text
+- "task_uuid" MUST be the UUID of the associated task from current_tasks
+- "name" is a brief snake_case description of the action, e.g. check_tomorrow_schedule
+- Focus on the first task with status "pending"; an action may be a middle step (such as searching for information) of a longer task
+- Don't repeat completed actions; use their results instead
+- When the user's latest request is fulfilled or needs no tool, call final_answer
+</prompt_rules>
+
+<dynamic_context>
+<general_context>${state.thoughts.context || 'No general context is available'}</general_context>
+
+<environment>${state.thoughts.environment || 'No environment context is available'}</environment>
+
+<initial_thoughts_about_tools_needed note="These are your initial thoughts you had when you received the user's message. Some of them might be outdated.">
+${
+  state.thoughts.tools?.map(tool => `<tool_thought>${tool.query} using ${tool.tool}</tool_thought>`).join('\n') ||
+  'Final answer is the only tool needed'
+}
+</initial_thoughts_about_tools_needed>
+
+<memories name="already recalled memories">
+${state.thoughts.memory
+  ?.map(memory => `<memory category="${memory.category}" subcategory="${memory.subcategory}">${memory.query}</memory>`)
+  .join('\n')}
+</memories>
+
+<tool_context>
+${
+  state.interaction.tool_context?.length
+    ? state.interaction.tool_context
+        .map(ctx => `<context name="${ctx.metadata.name}" description="${ctx.metadata.description}">${ctx.text}</context>`)
+        .join('\n')
+    : 'No tool context is available'
+}
+</tool_context>
+
+<current_tasks note="These are your current tasks, not the user's todo list">
+${state.interaction.tasks
+  .map(
+    task => `
+<task uuid="${task.uuid}" name="${task.name}" status="${task.status}">
+  <description>${task.description}</description>
+  <actions>
+    ${
+      task.actions.length > 0
+        ? task.actions
+            .map(action => {
+              const tool = state.session.tools.find(t => t.uuid === action.tool_uuid);
+              return `
+    <action uuid="${action.uuid}" name="${action.name}" tool_name="${tool?.name || 'unknown'}" status="${action.status}">
+      ${action.payload ? `<payload>${JSON.stringify(action.payload)}</payload>` : ''}
+      ${
+        action.documents?.length
+          ? `<documents>${action.documents.map(doc => `<document type="${doc.metadata.type}">${doc.text}</document>`).join('')}</documents>`
+          : action.result
+          ? `<result>${JSON.stringify(action.result)}</result>`
+          : ''
+      }
+    </action>`;
+            })
+            .join('\n')
+        : 'No actions taken yet for this task'
+    }
+  </actions>
+</task>`
+  )
+  .join('\n')}
+</current_tasks>
+</dynamic_context>
+
+Remember — if the current tasks and completed actions show that the user's latest request was performed, call final_answer.
+`;
+};
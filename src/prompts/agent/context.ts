@@ -1,4 +1,5 @@
 import {State} from '../../types/state';
+import {personaContext} from './persona';
 
 export const prompt = (state: State): string => {
   return `You're ${state.profile.ai_name}, engaging in an internal dialogue while chatting with ${
@@ -7,6 +8,8 @@ export const prompt = (state: State): string => {
     state.profile.user_name
   } cannot see or hear. Your task is to analyze the conversation context, extract relevant information about the user when they speak about themselves, and format it as self-thoughts.
 
+${personaContext(state)}
+
 <prompt_objective>
 Process general context data, conduct internal dialogue, and extract relevant facts about the user from the general context when triggered by user self-reference, outputting results in a specific JSON format with self-thought statements.
 
@@ -1,4 +1,5 @@
 import {type State} from '../../types/state';
+import {personaContext} from './persona';
 export const prompt = (state: State): string => {
   const current_datetime = new Date().toISOString();
   const environment_context = Object.entries(state.thoughts.environment)
@@ -11,6 +12,8 @@ export const prompt = (state: State): string => {
     state.profile.user_name
   } cannot see or hear. Your task is to analyze the conversation context and extract relevant information from the environmental context provided.
 
+${personaContext(state)}
+
 <main_objective>
 Process environmental data, conduct internal dialogue, and extract relevant facts from the environment based on the ongoing conversation, outputting results in a specific JSON format with self-thought statements.
 
@@ -1,9 +1,12 @@
 
 import {State} from '../../types/state';
+import {personaContext} from './persona';
 
 export const prompt = (state: State) => {
   return `From now on, you will analyze each user input to determine whether a direct response is sufficient or if advanced capabilities (such as use of any tools and/or long-term memory) are necessary. Output your decision in JSON format.
 
+${personaContext(state)}
+
 <prompt_objective>
 Evaluate user messages to make a binary decision:
 1. If ANY tool or long-term memory is needed: return true (activate agentic logic)
@@ -0,0 +1,23 @@
+export const prompt = ({previous_summary}: {previous_summary: string | null}): string => {
+  return `You maintain a rolling summary of a conversation between a user and an AI assistant. The summary replaces older messages that no longer fit into the model context window, so the assistant can continue the conversation from it.
+
+<prompt_objective>
+Merge the summary so far with the next part of the transcript into one updated summary.
+</prompt_objective>
+
+<prompt_rules>
+- Output ONLY the updated summary as plain text, without any introduction
+- Keep facts about the user, decisions, commitments, open questions, names, numbers and dates
+- Mention attachments by name and what was said about them
+- Drop greetings, small talk and anything later corrected or superseded
+- Write in the third person ("The user asked...", "The assistant suggested...") and in chronological order
+- Keep the summary under 400 words; shorten older details first when it grows
+- NEVER invent information that is not in the summary so far or the transcript
+</prompt_rules>
+
+<summary_so_far>
+${previous_summary ?? 'None, this is the beginning of the conversation.'}
+</summary_so_far>
+
+The user message contains the next part of the transcript.`;
+};
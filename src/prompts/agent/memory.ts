@@ -1,4 +1,5 @@
 import {State} from '../../types/state';
+import {personaContext} from './persona';
 
 export const prompt = (state: State) => `
 You're ${state.profile.ai_name}, engaging in an internal dialogue while chatting with the user named ${
@@ -7,6 +8,8 @@ You're ${state.profile.ai_name}, engaging in an internal dialogue while chatting
 
 Your task is to analyze the conversation context and generate relevant queries to recall information from long-term memory.
 
+${personaContext(state)}
+
 <prompt_objective>
 Process the conversation context and output a JSON object containing the internal reasoning and an array of independent queries for each relevant memory category.
 Consider both general context and environment context to write more relevant queries. 
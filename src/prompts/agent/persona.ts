@@ -0,0 +1,36 @@
+import type {State} from '../../types/state';
+
+const lengths = {
+  short: 'as short as possible while still complete',
+  balanced: 'moderately detailed; a few sentences or a short list',
+  detailed: 'thorough, with explanations and examples where they help'
+};
+
+/**
+ * Shared <persona> block included in every agent prompt
+ * The user-facing answer follows the persona fully; internal phases only follow the standing instructions
+ * and write user-facing text (e.g. email or message payloads) in the persona's language and tone
+ */
+export const personaContext = (state: State, {audience = 'internal'}: {audience?: 'user' | 'internal'} = {}) => {
+  const {persona} = state.profile;
+  const language =
+    persona.language === 'auto' ? "the language of the user's latest message" : persona.language;
+  const instructions =
+    persona.instructions.length > 0
+      ? persona.instructions.map(instruction => `- ${instruction}`).join('\n')
+      : 'none';
+
+  return `<persona>
+Name: ${persona.ai_name}
+Tone: ${persona.tone}
+Reply language: ${language}
+Response length: ${lengths[persona.response_length]}
+Standing instructions from ${state.profile.user_name}:
+${instructions}
+</persona>
+${
+  audience === 'user'
+    ? 'Speak as described in <persona>. Standing instructions always apply unless the latest message explicitly overrides them.'
+    : 'Respect the standing instructions in <persona> when making decisions. Tone, language and length apply only to text that the user will read.'
+}`;
+};
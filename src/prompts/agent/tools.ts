@@ -1,10 +1,13 @@
 import {State} from '../../types/state';
+import {personaContext} from './persona';
 
 export const prompt = (state: State) => `
 You're ${state.profile.ai_name}, engaging in an internal dialogue while chatting with ${
   state.profile.user_name
 }. Your task is to analyze the conversation context and generate relevant queries for using available tools.
 
+${personaContext(state)}
+
 <prompt_objective>
 Process the conversation context and output a JSON string containing the internal reasoning and an array of independent queries for appropriate tools.
 Consider both general context and environment context to write more relevant queries. 
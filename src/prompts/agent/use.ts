@@ -1,4 +1,5 @@
 import type {State} from '../../types/state';
+import {personaContext} from './persona';
 
 export const prompt = (state: State) => {
   const task = state.interaction.tasks.find(t => t.uuid === state.config.current_task?.uuid);
@@ -10,6 +11,8 @@ You're ${state.profile.ai_name} performing task ${task?.name} for the user named
     state.profile.user_name
   }, preparing to execute an action using a specific tool. Your task is to generate the appropriate payload based on the tool's instruction format.
 
+${personaContext(state)}
+
 <prompt_objective>
 Generate a valid JSON string payload for the selected tool following its specific instruction format, considering the current context and action details. Within the payload you can refer to document / action result contents by using [[uuid]] syntax so you don't need to rewrite them yourself but use it ONLY if you need to refer to the entire content.
 
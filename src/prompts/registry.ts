@@ -0,0 +1,107 @@
+/**
+ * Registry of the built-in prompts
+ * Every prompt has an id (its path under src/prompts) and a version. Bump the version whenever the wording of a
+ * prompt changes, so Langfuse generations and variant reports tell the texts apart.
+ *
+ * Overrides (files or database, see prompt.service) are templates with {{name}} placeholders:
+ * - {{builtin}} is the built-in prompt, so a variant can add to it instead of replacing it
+ * - every <tag>...</tag> block of the built-in prompt is available by its tag name, e.g. {{persona}} or {{dynamic_context}}
+ * - string arguments of the prompt by their name, e.g. {{previous_summary}}, and {{datetime}}
+ */
+
+import {prompt as fastTrackPrompt} from './agent/fast';
+import {prompt as environmentPrompt} from './agent/environment';
+import {prompt as generalContextPrompt} from './agent/context';
+import {prompt as toolsPrompt} from './agent/tools';
+import {prompt as memoryPrompt} from './agent/memory';
+import {prompt as taskPrompt} from './agent/task';
+import {prompt as actionPrompt} from './agent/action';
+import {prompt as callPrompt} from './agent/call';
+import {prompt as usePrompt} from './agent/use';
+import {prompt as answerPrompt} from './agent/answer';
+import {prompt as historyPrompt} from './agent/history';
+import {prompt as writePrompt} from './tools/file.write';
+import {memoryCreatePrompt} from './tools/memory.create';
+import {memoryRecallPrompt} from './tools/memory.recall';
+import {memoryUpdatePrompt} from './tools/memory.update';
+import {memoryVerifyPrompt} from './tools/memory.verify';
+import {prompt as askSearchPrompt} from './tools/search.ask';
+import {prompt as pickResourcesPrompt} from './tools/search.pick';
+import {prompt as rerankPrompt} from './tools/search.rerank';
+import {prompt as useSearchPrompt} from './tools/search.use';
+import {prompt as spotifyPlayPrompt} from './tools/spotify.play';
+
+export interface PromptDefinition<A> {
+  version: string;
+  description: string;
+  render: (args: A) => string;
+}
+
+const define = <A>(definition: PromptDefinition<A>) => definition;
+
+export const prompts = {
+  'agent.fast': define({version: '1', description: 'Decides whether a message can skip the full agent loop', render: fastTrackPrompt}),
+  'agent.environment': define({version: '1', description: 'Observes the environment of the conversation', render: environmentPrompt}),
+  'agent.context': define({version: '1', description: 'Summarizes the general context of the conversation', render: generalContextPrompt}),
+  'agent.tools': define({version: '1', description: 'Drafts the tool queries a message needs', render: toolsPrompt}),
+  'agent.memory': define({version: '1', description: 'Drafts the memory categories to recall', render: memoryPrompt}),
+  'agent.task': define({version: '1', description: 'Plans and updates the task list', render: taskPrompt}),
+  'agent.action': define({version: '1', description: 'Selects the next action (classic tool mode)', render: actionPrompt}),
+  'agent.call': define({version: '1', description: 'Calls the next tool (native tool mode)', render: callPrompt}),
+  'agent.use': define({version: '1', description: 'Writes the payload of the selected tool', render: usePrompt}),
+  'agent.answer': define({version: '1', description: 'Writes the final answer to the user', render: answerPrompt}),
+  'agent.history': define({version: '1', description: 'Folds older messages into the rolling conversation summary', render: historyPrompt}),
+  'tools.file.write': define({version: '1', description: 'Picks and writes the document the file tool saves', render: writePrompt}),
+  'tools.memory.create': define({version: '1', description: 'Explains the payload of new memories, importance included', render: (_: void) => memoryCreatePrompt}),
+  'tools.memory.update': define({version: '1', description: 'Explains the payload of memory updates, importance included', render: (_: void) => memoryUpdatePrompt}),
+  'tools.memory.recall': define({version: '1', description: 'Asks the questions that recall memories', render: (_: void) => memoryRecallPrompt()}),
+  'tools.memory.verify': define({version: '1', description: 'Merges or supersedes memories that repeat or contradict a memory', render: memoryVerifyPrompt}),
+  'tools.search.ask': define({version: '1', description: 'Writes web search queries for the allowed domains', render: askSearchPrompt}),
+  'tools.search.pick': define({version: '1', description: 'Picks the search results worth loading', render: pickResourcesPrompt}),
+  'tools.search.rerank': define({version: '1', description: 'Scores hybrid search results for re-ranking', render: rerankPrompt}),
+  'tools.search.use': define({version: '1', description: 'Decides whether a web search is needed', render: (_: void) => useSearchPrompt()}),
+  'tools.spotify.play': define({version: '1', description: 'Picks what Spotify plays from the search results', render: spotifyPlayPrompt})
+};
+
+export type PromptId = keyof typeof prompts;
+
+export type PromptArgs<I extends PromptId> = Parameters<(typeof prompts)[I]['render']>[0];
+
+export const isPromptId = (id: string): id is PromptId => Object.hasOwn(prompts, id);
+
+/**
+ * Collects the values an override template can use
+ * @param builtin - Built-in prompt rendered with the same arguments
+ * @param args - Arguments of the prompt
+ * @returns Variables by name; a tag name maps to its first block, tags included
+ */
+export const promptVariables = (builtin: string, args: unknown): Record<string, string> => {
+  const variables: Record<string, string> = {};
+
+  const collect = (text: string) => {
+    for (const match of text.matchAll(/<([a-z_][\w-]*)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/gi)) {
+      variables[match[1]] ??= match[0];
+      collect(match[2]);
+    }
+  };
+  collect(builtin);
+
+  if (args && typeof args === 'object' && !Array.isArray(args)) {
+    for (const [name, value] of Object.entries(args)) {
+      if (typeof value === 'string' || typeof value === 'number') variables[name] = String(value);
+    }
+  }
+
+  variables.builtin = builtin;
+  variables.datetime = new Date().toISOString();
+  return variables;
+};
+
+/**
+ * Fills the {{name}} placeholders of a template
+ * @param template - Override template
+ * @param variables - Values by name
+ * @returns Prompt text; unknown placeholders are kept, so they show up in the trace
+ */
+export const renderTemplate = (template: string, variables: Record<string, string>): string =>
+  template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, name: string) => variables[name] ?? placeholder);
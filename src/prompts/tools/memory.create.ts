@@ -1,3 +1,13 @@
-export const memoryCreatePrompt = `
+export const memoryCreatePrompt = `<action name="remember">
+Stores a new memory. Payload: {"name": "string", "text": "string", "category": "string", "subcategory": "string", "importance": 1-5}
 
-`;
\ No newline at end of file
+- name: a short title of the memory
+- text: the fact to remember, self-contained and naming the people it is about
+- category / subcategory: a pair listed in the memory categories above
+- importance: how much the memory matters over time; less important memories are forgotten sooner
+  - 1: trivia, useful for a few days (e.g. what the user had for lunch)
+  - 2: minor detail or passing preference
+  - 3: a regular fact worth keeping (default)
+  - 4: a lasting preference, plan or relationship
+  - 5: a core fact about the user or yourself (e.g. name, family, job)
+</action>`;
@@ -1,3 +1,7 @@
-export const memoryUpdatePrompt = `
+export const memoryUpdatePrompt = `<action name="update">
+Changes a stored memory. Payload: {"memory_uuid": "string", "name"?: "string", "text"?: "string", "category_uuid"?: "string", "importance"?: 1-5}
 
-`;
\ No newline at end of file
+- memory_uuid: the uuid of the memory to change
+- name, text, category_uuid: only the fields that change; text replaces the whole text of the memory
+- importance: only when the memory now matters more or less than before, using the same 1-5 scale as remember
+</action>`;
@@ -2,6 +2,8 @@ import { Hono } from 'hono';
 import type { AppEnv } from '../types/hono';
 import { z } from 'zod';
 import { zValidator } from '@hono/zod-validator';
+import { streamSSE } from 'hono/streaming';
+import type { Context } from 'hono';
 import { v4 as uuidv4 } from 'uuid';
 import { db } from '../database';
 import { conversations } from '../schema/conversation';
@@ -10,6 +12,23 @@ import { eq } from 'drizzle-orm';
 import { completion } from '../services/common/llm.service';
 import { streamResponse } from '../utils/response';
 import { observer } from '../services/agent/observer.service';
+import { agentService } from '../services/agent/agent.service';
+import { messageService } from '../services/agent/message.service';
+import { actionService } from '../services/agent/action.service';
+import { taskService } from '../services/agent/task.service';
+import { recoveryService } from '../services/agent/recovery.service';
+import { getUserByUUID } from '../services/common/user.service';
+import { usageService } from '../services/common/usage.service';
+import { metricsService } from '../services/agent/metrics.service';
+import { getBudgets } from '../config/budget.config';
+import { providers } from '../config/llm.config';
+import { isLocalMode, getUserPreferences } from '../config/local-user.config';
+import { modelRoutingSchema } from '../config/routing.config';
+import type { CoreMessage } from 'ai';
+import { ChatContentDto, type ChatRequest } from '../dto/chat.dto';
+import { attachmentService } from '../services/common/attachment.service';
+import { historyService } from '../services/agent/history.service';
+import type { AgentEvent } from '../types/agent';
 
 // The auth middleware populates c.get('request').user
 const agi = new Hono<AppEnv>();
@@ -17,18 +36,87 @@ const agi = new Hono<AppEnv>();
 // Default model for AGI routes
 const DEFAULT_MODEL = 'gemini-2.5-flash';
 
-// Validation schemas
+// Models of all providers, including the ones discovered on a local model server
+const supportedModels = () => Object.values(providers).flatMap(models => Object.keys(models));
+
+// In local mode the model picked in the preferences replaces the default
+const defaultModel = () => {
+  const preferred = isLocalMode() ? getUserPreferences().model : undefined;
+  return preferred && supportedModels().includes(preferred) ? preferred : DEFAULT_MODEL;
+};
+
+// Validation schemas; content is text or a list of text parts and upload attachments
 const messageSchema = z.union([
   z.object({
-    content: z.string().min(1),
+    content: ChatContentDto,
     conversation_id: z.string().optional(),
   }),
   z.object({
-    message: z.string().min(1),
+    message: ChatContentDto,
     conversation_id: z.string().optional(),
   })
 ]);
 
+// Agent run schema (full observe/draft/plan/act loop)
+const agentOptions = {
+  conversation_id: z.string().optional(),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  max_tokens: z.number().int().positive().optional(),
+  tool_mode: z.enum(['classic', 'native']).optional(),
+  model_routing: modelRoutingSchema.optional(),
+};
+
+const agentSchema = z.union([
+  z.object({ content: ChatContentDto, ...agentOptions }),
+  z.object({ message: ChatContentDto, ...agentOptions })
+]);
+
+// User the auth middleware resolved for the request
+const currentUserId = (c: Context<AppEnv>): string => c.get('request')?.user?.uuid;
+
+// User message of a chat request; attachments are checked against the uploads of the current user
+const toUserMessage = async (c: Context<AppEnv>, content: z.infer<typeof ChatContentDto>): Promise<CoreMessage> => ({
+  role: 'user',
+  content: typeof content === 'string' ? content : await attachmentService.toContent(content, currentUserId(c)),
+});
+
+// A conversation of the current user; conversations of other users are reported as missing
+const findOwnedConversation = (c: Context<AppEnv>, conversation_id: string) =>
+  db.query.conversations.findFirst({
+    where: (conversations, { eq, and }) => and(
+      eq(conversations.uuid, conversation_id),
+      eq(conversations.user_id, currentUserId(c))
+    ),
+  });
+
+// A chat may continue a conversation of the current user or start one under a new id, never read another user's
+const canUseConversation = async (c: Context<AppEnv>, conversation_id: string | undefined): Promise<boolean> => {
+  if (!conversation_id) return true;
+
+  const conversation = await db.query.conversations.findFirst({
+    where: (conversations, { eq }) => eq(conversations.uuid, conversation_id),
+  });
+  return !conversation || conversation.user_id === currentUserId(c);
+};
+
+// Conversation history for the model, compacted to fit its context window; multi-part messages keep their attachments
+const loadHistory = (conversation_id: string, model: string, user: { uuid: string; name: string }) =>
+  historyService.assemble(conversation_id, { model, user });
+
+// Approval gate schemas
+const approveSchema = z.object({
+  payload: z.record(z.string(), z.unknown()).optional(),
+});
+
+const rejectSchema = z.object({
+  reason: z.string().optional(),
+});
+
+const payloadSchema = z.object({
+  payload: z.record(z.string(), z.unknown()),
+});
+
 // Cron/system chat schema
 const cronChatSchema = z.object({
   conversation_id: z.string().uuid().optional(),
@@ -61,6 +149,13 @@ agi.post('/messages', zValidator('json', messageSchema), async (c) => {
   const req = c.get('request') as any;
   const user_id = req?.user?.uuid || req?.user?.id;
 
+  if (!(await canUseConversation(c, conversation_id))) {
+    return c.json({ error: 'Conversation not found' }, 404);
+  }
+
+  // Unknown or mismatched uploads fail with a ValidationError (400)
+  const user_message = await toUserMessage(c, content);
+
   // Get or create conversation
   let current_conversation_id = conversation_id;
   if (!current_conversation_id) {
@@ -72,33 +167,16 @@ agi.post('/messages', zValidator('json', messageSchema), async (c) => {
     });
   }
 
-  // Store user message
-  const user_message_id = uuidv4();
-  await db.insert(messages).values({
-    uuid: user_message_id,
-    conversation_uuid: current_conversation_id,
-    role: 'user',
-    content_type: 'text',
-    content,
-  });
-
-  // Get conversation history
-  const history = await db.query.messages.findMany({
-    where: (messages, { eq }) => eq(messages.conversation_uuid, current_conversation_id),
-    orderBy: (messages, { asc }) => [asc(messages.created_at)],
-  });
+  // Store user message (attachments go to the multipart column)
+  await messageService.create({ conversation_uuid: current_conversation_id, message: user_message });
 
-  // Prepare messages for LLM (filter out tool messages and ensure content exists)
-  const llm_messages = history
-    .filter(msg => msg.role !== 'tool' && msg.content) // Filter out tool messages and null content
-    .map(msg => ({
-      role: msg.role as 'user' | 'assistant' | 'system',
-      content: msg.content!,
-    }));
+  // Prepare messages for LLM (without tool messages and empty content)
+  const model = defaultModel();
+  const llm_messages = await loadHistory(current_conversation_id, model, { uuid: user_id, name: 'agi' });
 
   // Get AI response via centralized LLM service
   const ai_response = await completion.text({
-    model: DEFAULT_MODEL,
+    model,
     messages: llm_messages,
     temperature: 0.7,
     max_tokens: 2000,
@@ -134,6 +212,13 @@ agi.post('/chat/stream', zValidator('json', messageSchema), async (c) => {
   const req = c.get('request') as any;
   const user_id = req?.user?.uuid || req?.user?.id;
 
+  if (!(await canUseConversation(c, conversation_id))) {
+    return c.json({ error: 'Conversation not found' }, 404);
+  }
+
+  // Unknown or mismatched uploads fail with a ValidationError (400)
+  const user_message = await toUserMessage(c, content);
+
   // Ensure conversation exists
   let current_conversation_id = conversation_id;
   if (!current_conversation_id) {
@@ -145,27 +230,12 @@ agi.post('/chat/stream', zValidator('json', messageSchema), async (c) => {
     });
   }
 
-  // Store user message
-  await db.insert(messages).values({
-    uuid: uuidv4(),
-    conversation_uuid: current_conversation_id,
-    role: 'user',
-    content_type: 'text',
-    content,
-  });
+  // Store user message (attachments go to the multipart column)
+  await messageService.create({ conversation_uuid: current_conversation_id, message: user_message });
 
   // Build conversation history
-  const history = await db.query.messages.findMany({
-    where: (messages, { eq }) => eq(messages.conversation_uuid, current_conversation_id),
-    orderBy: (messages, { asc }) => [asc(messages.created_at)],
-  });
-
-  const llm_messages = history
-    .filter(msg => msg.role !== 'tool' && msg.content)
-    .map(msg => ({
-      role: msg.role as 'user' | 'assistant' | 'system',
-      content: msg.content!,
-    }));
+  const model = defaultModel();
+  const llm_messages = await loadHistory(current_conversation_id, model, { uuid: user_id, name: 'agi-stream' });
 
   // Initialize trace and generation for streaming
   const trace = observer.initializeTrace('agi_chat_stream')!;
@@ -176,7 +246,7 @@ agi.post('/chat/stream', zValidator('json', messageSchema), async (c) => {
 
   // Create async iterable text stream
   const text_stream = await completion.stream({
-    model: DEFAULT_MODEL,
+    model,
     messages: llm_messages,
     temperature: 0.7,
     max_tokens: 2000,
@@ -206,10 +276,226 @@ agi.post('/chat/stream', zValidator('json', messageSchema), async (c) => {
       messages: llm_messages,
       conversation_id: current_conversation_id,
     },
-    DEFAULT_MODEL
+    model
   );
 });
 
+/**
+ * Builds the agent chat request: resolves the user profile and model and loads previous turns
+ */
+const buildAgentRequest = async (c: Context<AppEnv>, body: z.infer<typeof agentSchema>): Promise<ChatRequest> => {
+  const content = 'content' in body ? body.content : body.message;
+  const user_id = currentUserId(c);
+
+  const user = await getUserByUUID(user_id);
+  const model = body.model && supportedModels().includes(body.model) ? body.model : (c.get('request')?.model || defaultModel());
+
+  // Previous turns are loaded from the database; the new message is persisted by the agent run
+  const history = body.conversation_id
+    ? await loadHistory(body.conversation_id, model, { uuid: user_id, name: user?.name || 'User' })
+    : [];
+  const environment = user?.environment;
+
+  return {
+    conversation_id: body.conversation_id,
+    model,
+    messages: [...history, await toUserMessage(c, content)],
+    temperature: body.temperature ?? 0.7,
+    max_tokens: body.max_tokens ?? 16384,
+    tool_mode: body.tool_mode,
+    model_routing: body.model_routing,
+    cache_bypass: c.req.header('X-Cache-Bypass') === 'true',
+    user: {
+      uuid: user_id,
+      name: user?.name || 'User',
+      context: user?.context || undefined,
+      environment: typeof environment === 'string' ? environment : environment ? JSON.stringify(environment) : undefined,
+      persona: user?.persona ?? undefined
+    }
+  };
+};
+
+// Agent chat: runs the full agent loop and returns the answer with the work it produced
+agi.post('/agent', zValidator('json', agentSchema), async (c) => {
+  const body = c.req.valid('json');
+  if (!(await canUseConversation(c, body.conversation_id))) {
+    return c.json({ error: 'Conversation not found' }, 404);
+  }
+
+  const request = await buildAgentRequest(c, body);
+  const result = await agentService.run(request);
+
+  return c.json(result);
+});
+
+// Agent chat with live progress (SSE): one typed event per phase, tool call and answer token
+agi.post('/agent/stream', zValidator('json', agentSchema), async (c) => {
+  const body = c.req.valid('json');
+  if (!(await canUseConversation(c, body.conversation_id))) {
+    return c.json({ error: 'Conversation not found' }, 404);
+  }
+
+  const request = await buildAgentRequest(c, body);
+
+  return streamSSE(c, async (stream) => {
+    // Events are emitted synchronously by the agent; keep writes ordered
+    let pending = Promise.resolve();
+    const write = (event: string, data: unknown) => {
+      pending = pending.then(() => stream.writeSSE({ event, data: JSON.stringify(data) }));
+    };
+
+    try {
+      const result = await agentService.run(request, {
+        stream: true,
+        onEvent: (event: AgentEvent) => write(event.type, event)
+      });
+      write('done', { type: 'done', ...result });
+    } catch (error) {
+      write('error', { type: 'error', message: error instanceof Error ? error.message : 'Agent run failed' });
+    }
+
+    await pending;
+  });
+});
+
+/**
+ * Loads an action if it belongs to a conversation of the current user
+ */
+const findOwnedAction = async (c: Context<AppEnv>, action_uuid: string) => {
+  const action = await actionService.findByUuid(action_uuid);
+  if (!action) return null;
+
+  const conversation = await findOwnedConversation(c, action.task.conversation_uuid);
+
+  return conversation ? action : null;
+};
+
+// Actions of a conversation waiting for the user's approval
+agi.get('/conversations/:id/approvals', async (c) => {
+  const conversation_id = c.req.param('id');
+
+  const conversation = await findOwnedConversation(c, conversation_id);
+
+  if (!conversation) {
+    return c.json({ error: 'Conversation not found' }, 404);
+  }
+
+  const tasks = await taskService.findByConversationId(conversation_id);
+  const pending = tasks.flatMap(task => task.actions).filter(action => action.status === 'awaiting_approval');
+
+  return c.json({ actions: pending });
+});
+
+// Edit the payload of an action before approving it
+agi.put('/actions/:uuid/payload', zValidator('json', payloadSchema), async (c) => {
+  const action = await findOwnedAction(c, c.req.param('uuid'));
+  if (!action) {
+    return c.json({ error: 'Action not found' }, 404);
+  }
+  if (action.status !== 'awaiting_approval') {
+    return c.json({ error: 'Action is not awaiting approval' }, 409);
+  }
+
+  const { payload } = c.req.valid('json');
+  await actionService.updatePendingPayload(action.uuid, payload);
+
+  return c.json({ action_uuid: action.uuid, payload });
+});
+
+// Approve an action (optionally with an edited payload) and resume the paused run
+agi.post('/actions/:uuid/approve', zValidator('json', approveSchema), async (c) => {
+  const action = await findOwnedAction(c, c.req.param('uuid'));
+  if (!action) {
+    return c.json({ error: 'Action not found' }, 404);
+  }
+  if (action.status !== 'awaiting_approval') {
+    return c.json({ error: 'Action is not awaiting approval' }, 409);
+  }
+
+  const { payload } = c.req.valid('json');
+  const result = await agentService.resume(action.uuid, { approved: true, payload });
+
+  return c.json(result);
+});
+
+// Reject an action and resume the paused run without it
+agi.post('/actions/:uuid/reject', zValidator('json', rejectSchema), async (c) => {
+  const action = await findOwnedAction(c, c.req.param('uuid'));
+  if (!action) {
+    return c.json({ error: 'Action not found' }, 404);
+  }
+  if (action.status !== 'awaiting_approval') {
+    return c.json({ error: 'Action is not awaiting approval' }, 409);
+  }
+
+  const { reason } = c.req.valid('json');
+  const result = await agentService.resume(action.uuid, { approved: false, reason });
+
+  return c.json(result);
+});
+
+// Agent runs of the current user that were interrupted before answering
+agi.get('/runs/unfinished', async (c) => {
+  const runs = await recoveryService.findUnfinishedRuns(currentUserId(c));
+
+  return c.json({ runs });
+});
+
+// Continue an interrupted agent run at the step it reached
+agi.post('/runs/:conversation_id/resume', async (c) => {
+  const conversation_id = c.req.param('conversation_id');
+
+  const conversation = await findOwnedConversation(c, conversation_id);
+
+  if (!conversation) {
+    return c.json({ error: 'Conversation not found' }, 404);
+  }
+
+  const result = await recoveryService.resume(conversation_id);
+
+  return c.json(result);
+});
+
+// LLM usage of the current user today, with the configured budgets
+agi.get('/usage', async (c) => {
+  const usage = await usageService.getUserDailyUsage(currentUserId(c));
+
+  return c.json({ usage, budgets: getBudgets() });
+});
+
+// Fast-track vs full-loop runs of the current user: path share, averages and estimated savings
+agi.get('/metrics/fast-track', async (c) => {
+  const days = Math.max(1, Number(c.req.query('days')) || 30);
+
+  const metrics = await metricsService.getFastTrackMetrics(currentUserId(c), days);
+
+  return c.json({ days, ...metrics });
+});
+
+// Classic vs native tool-calling runs of the current user: steps, LLM calls, tokens and latency per mode
+agi.get('/metrics/tool-modes', async (c) => {
+  const days = Math.max(1, Number(c.req.query('days')) || 30);
+
+  const metrics = await metricsService.getToolModeMetrics(currentUserId(c), days);
+
+  return c.json({ days, ...metrics });
+});
+
+// LLM usage of a conversation across all its runs
+agi.get('/conversations/:id/usage', async (c) => {
+  const conversation_id = c.req.param('id');
+
+  const conversation = await findOwnedConversation(c, conversation_id);
+
+  if (!conversation) {
+    return c.json({ error: 'Conversation not found' }, 404);
+  }
+
+  const usage = await usageService.getConversationUsage(conversation_id);
+
+  return c.json({ usage, budgets: getBudgets().conversation });
+});
+
 // Get conversation history
 agi.get('/conversations/:id/messages', async (c) => {
   const conversation_id = c.req.param('id');
@@ -267,21 +553,15 @@ agi.post('/chat', zValidator('json', cronChatSchema), async (c) => {
   }
 
   // Build history from DB and prepend system messages from incoming
-  const history = await db.query.messages.findMany({
-    where: (messages, { eq }) => eq(messages.conversation_uuid, current_conversation_id!),
-    orderBy: (messages, { asc }) => [asc(messages.created_at)],
-  });
-
-  const llm_messages = [
+  const model = defaultModel();
+  const llm_messages: CoreMessage[] = [
     ...incoming.filter(m => m.role === 'system').map(m => ({ role: 'system' as const, content: m.content })),
-    ...history
-      .filter(msg => msg.role !== 'tool' && msg.content)
-      .map(msg => ({ role: msg.role as 'user' | 'assistant' | 'system', content: msg.content! })),
+    ...(await loadHistory(current_conversation_id, model, { uuid: user_id, name: 'agi-cron' })),
     ...incoming.filter(m => m.role !== 'system').map(m => ({ role: m.role as 'user' | 'assistant' | 'system', content: m.content }))
   ];
 
   const ai_response = await completion.text({
-    model: DEFAULT_MODEL,
+    model,
     messages: llm_messages,
     temperature: 0.7,
     max_tokens: 2000,
@@ -0,0 +1,52 @@
+/**
+ * Embedding model routes
+ * Lists the vector collections with their embedding model and switches the index to another model
+ * @module embedding-routes
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { AppEnv } from '../types/hono';
+import { embeddingModels, getEmbeddingModel } from '../config/embedding.config';
+import { localLlmService } from '../services/common/local-llm.service';
+import { reembedService } from '../services/common/reembed.service';
+
+const embeddings = new Hono<AppEnv>();
+
+// Registered collections, the models available for a re-embedding and the model new indexes use
+embeddings.get('/', async (c) => {
+  const { collections } = await reembedService.getStatus();
+  const local = localLlmService.embeddingModel();
+
+  return c.json({
+    collections,
+    models: {
+      ...embeddingModels,
+      ...(local ? { [local.id]: { provider: 'local', dimensions: null } } : {})
+    },
+    configured: local?.id ?? getEmbeddingModel()
+  });
+});
+
+const reembedSchema = z.object({
+  model: z.string().min(1, 'Model is required')
+});
+
+// Start re-embedding every indexed document; searches keep using the active collection until it completes
+embeddings.post('/reembed', zValidator('json', reembedSchema), async (c) => {
+  const { model } = c.req.valid('json');
+
+  const collection = await reembedService.start(model);
+
+  return c.json({ collection }, 202);
+});
+
+// Progress of the running re-embedding
+embeddings.get('/reembed', async (c) => {
+  const { running, active, building } = await reembedService.getStatus();
+
+  return c.json({ running, active, building });
+});
+
+export default embeddings;
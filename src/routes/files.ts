@@ -10,7 +10,6 @@ const files = new Hono<AppEnv>().post('/upload', async c => {
     const formData = await c.req.formData();
     const file = formData.get('file') as File;
     const type = formData.get('type') as FileType;
-    const uuid = formData.get('uuid') as string;
 
     if (!file) {
       throw new ValidationError('No file provided');
@@ -20,7 +19,9 @@ const files = new Hono<AppEnv>().post('/upload', async c => {
       file: file,
       type: type || 'document',
       original_name: file.name,
-      uuid: uuid || uuidv4()
+      // Always generated here: ownership of an upload must not hinge on an id the client picked
+      uuid: uuidv4(),
+      user_uuid: c.get('request')?.user?.uuid
     });
 
     return c.json(
@@ -51,7 +52,8 @@ const files = new Hono<AppEnv>().post('/upload', async c => {
         mime_type: body.file.mime_type
       },
       type: body.type,
-      original_name: body.original_name
+      original_name: body.original_name,
+      user_uuid: c.get('request')?.user?.uuid
     });
 
     return c.json(
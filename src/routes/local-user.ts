@@ -18,8 +18,16 @@ import {
   getLocalUser,
   listApiKeys,
   getApiKeyMetadata,
-  testApiKey
+  testApiKey,
+  getPersona,
+  updatePersona,
+  updateUserContext,
+  getModelRouting,
+  updateModelRouting
 } from '../config/local-user.config';
+import { personaUpdateSchema } from '../config/persona.config';
+import { modelRoutingSchema, getGlobalRouting, mergeRouting } from '../config/routing.config';
+import { localLlmService } from '../services/common/local-llm.service';
 import { AppEnv } from '../types/hono';
 
 const localUser = new Hono<AppEnv>();
@@ -86,6 +94,84 @@ localUser.patch('/preferences', zValidator('json', updatePreferencesSchema), asy
   return c.json(updated.preferences);
 });
 
+// Get the assistant persona (defaults filled in)
+localUser.get('/persona', async (c) => {
+  return c.json(getPersona());
+});
+
+// Update the assistant persona
+localUser.patch('/persona', zValidator('json', personaUpdateSchema), async (c) => {
+  const persona = c.req.valid('json');
+  return c.json(updatePersona(persona));
+});
+
+// Get the free-text context about the user
+localUser.get('/context', async (c) => {
+  const config = loadLocalUserConfig();
+  return c.json({ context: config.context ?? null });
+});
+
+// Replace the free-text context about the user
+const updateContextSchema = z.object({
+  context: z.string().max(10000).nullable(),
+});
+
+localUser.put('/context', zValidator('json', updateContextSchema), async (c) => {
+  const { context } = c.req.valid('json');
+  return c.json({ context: updateUserContext(context) });
+});
+
+// Get the user's per-phase model routes and the routing they produce on top of the global one
+localUser.get('/model-routing', async (c) => {
+  const routing = getModelRouting();
+  return c.json({ routing, resolved: mergeRouting(getGlobalRouting(), routing) });
+});
+
+// Replace the user's per-phase model routes; null or {} clears them
+localUser.put('/model-routing', zValidator('json', modelRoutingSchema.nullable()), async (c) => {
+  const routing = updateModelRouting(c.req.valid('json'));
+  return c.json({ routing, resolved: mergeRouting(getGlobalRouting(), routing) });
+});
+
+// Get the local model server and its discovered models (without the API key)
+localUser.get('/local-provider', async (c) => {
+  const { localProvider } = getUserPreferences();
+  return c.json({
+    configured: !!localProvider,
+    baseUrl: localProvider?.baseUrl ?? null,
+    embeddingModel: localProvider?.embeddingModel ?? null,
+    hasApiKey: !!getApiKey('local'),
+    models: localLlmService.getModels(),
+  });
+});
+
+// Configure the local model server; it is only saved when its models can be discovered
+const localProviderSchema = z.object({
+  baseUrl: z.string().url(),
+  apiKey: z.string().optional(),
+  embeddingModel: z.string().optional(),
+});
+
+localUser.put('/local-provider', zValidator('json', localProviderSchema), async (c) => {
+  const settings = c.req.valid('json');
+
+  try {
+    const models = await localLlmService.configure(settings);
+    return c.json({ success: true, models });
+  } catch (error) {
+    return c.json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Local model server is not reachable' 
+    }, 400);
+  }
+});
+
+// Remove the local model server
+localUser.delete('/local-provider', async (c) => {
+  localLlmService.remove();
+  return c.json({ success: true });
+});
+
 // Get available API keys with metadata (without actual key values)
 localUser.get('/api-keys', async (c) => {
   const keys = listApiKeys();
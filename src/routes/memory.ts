@@ -2,6 +2,8 @@ import { Hono } from 'hono';
 import { AppEnv } from '../types/hono';
 import { z } from 'zod';
 import { memoryService } from '../services/agent/memory.service';
+import { memoryConsolidationService } from '../services/agent/memory-consolidation.service';
+import { memoryRetentionService } from '../services/agent/memory-retention.service';
 
 const SearchRequestSchema = z.object({
   query: z.string(),
@@ -19,14 +21,14 @@ const SearchRequestSchema = z.object({
 const memory = new Hono<AppEnv>()
   .post('/', async c => {
     try {
-      const { text, name, category, subcategory, conversation_uuid } = await c.req.json();
+      const { text, name, category, subcategory, importance, conversation_uuid } = await c.req.json();
 
       if (!text) {
         return c.json({ success: false, error: 'Text is required' }, 400);
       }
 
       const result = await memoryService.execute('remember', {
-        name, text, category, subcategory,
+        name, text, category, subcategory, importance,
         conversation_uuid: conversation_uuid || 'default'
       });
 
@@ -41,7 +43,7 @@ const memory = new Hono<AppEnv>()
   .patch('/:memory_uuid', async c => {
     try {
         const memory_uuid = c.req.param('memory_uuid');
-        const { name, category_uuid, conversation_uuid, text } = await c.req.json();
+        const { name, category_uuid, conversation_uuid, text, importance } = await c.req.json();
   
         if (!memory_uuid) {
           return c.json(
@@ -58,6 +60,7 @@ const memory = new Hono<AppEnv>()
           name,
           category_uuid,
           text,
+          importance,
           conversation_uuid: conversation_uuid || 'default'
         });
   
@@ -96,6 +99,57 @@ const memory = new Hono<AppEnv>()
         }, 400);
       }
 
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  })
+  .get('/consolidation', async c => {
+    try {
+      const days = Math.max(1, Number(c.req.query('days')) || 30);
+      const limit = Math.min(500, Math.max(1, Number(c.req.query('limit')) || 100));
+      const memory_uuid = c.req.query('memory_uuid') || undefined;
+
+      const merges = await memoryConsolidationService.getReport({ days, limit, memory_uuid });
+      return c.json({ success: true, data: { days, merges } });
+    } catch (error) {
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  })
+  .post('/consolidation', async c => {
+    try {
+      const result = await memoryConsolidationService.runJob();
+      return c.json({ success: true, data: result });
+    } catch (error) {
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  })
+  // Dry run: the memories the retention job would delete
+  .get('/retention', async c => {
+    try {
+      const limit = Math.min(500, Math.max(1, Number(c.req.query('limit')) || 100));
+
+      const preview = await memoryRetentionService.preview(limit);
+      return c.json({ success: true, data: preview });
+    } catch (error) {
+      return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 500);
+    }
+  })
+  .post('/retention', async c => {
+    try {
+      const result = await memoryRetentionService.runJob();
+      return c.json({ success: true, data: result });
+    } catch (error) {
       return c.json({
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -0,0 +1,65 @@
+/**
+ * Prompt registry routes
+ * Lists the versioned prompts, stores overrides and A/B variants and reports the outcomes per variant
+ * @module prompt-routes
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { AppEnv } from '../types/hono';
+import { promptService } from '../services/common/prompt.service';
+
+const prompts = new Hono<AppEnv>();
+
+// Registered prompts with their built-in version and number of active overrides
+prompts.get('/', async (c) => {
+  return c.json({ prompts: await promptService.list() });
+});
+
+// Built-in version, file override and every stored version of a prompt
+prompts.get('/:id', async (c) => {
+  return c.json(await promptService.get(c.req.param('id')));
+});
+
+// Outcomes of the agent runs per version and variant of a prompt
+prompts.get('/:id/report', async (c) => {
+  const days = Math.max(1, Number(c.req.query('days')) || 30);
+
+  const variants = await promptService.getVariantReport(c.req.param('id'), days);
+
+  return c.json({ days, variants });
+});
+
+const versionSchema = z.object({
+  template: z.string().trim().min(1, 'Template is required'),
+  version: z.string().min(1).optional(),
+  variant: z.string().min(1).optional(),
+  scope: z.enum(['user', 'environment', 'global']),
+  environment: z.string().min(1).optional(),
+  weight: z.number().int().min(0).optional()
+});
+
+// Store an override; user-scoped overrides apply to the current user only
+prompts.post('/:id/versions', zValidator('json', versionSchema), async (c) => {
+  const req = c.get('request') as any;
+  const user_uuid = req?.user?.uuid || req?.user?.id;
+
+  const version = await promptService.createVersion(c.req.param('id'), { ...c.req.valid('json'), user_uuid });
+
+  return c.json({ version }, 201);
+});
+
+const updateSchema = z.object({
+  active: z.boolean().optional(),
+  weight: z.number().int().min(0).optional()
+});
+
+// Turn a stored version on or off or change its share of the traffic
+prompts.patch('/versions/:uuid', zValidator('json', updateSchema), async (c) => {
+  const version = await promptService.updateVersion(c.req.param('uuid'), c.req.valid('json'));
+
+  return c.json({ version });
+});
+
+export default prompts;
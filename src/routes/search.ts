@@ -0,0 +1,53 @@
+/**
+ * Hybrid search routes
+ * Runs the vector and keyword search with fusion and re-ranking, optionally explaining every ranking
+ * @module search-routes
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { AppEnv } from '../types/hono';
+import { searchService } from '../services/common/search.service';
+
+const search = new Hono<AppEnv>();
+
+const searchSchema = z.object({
+  query: z.string().trim().min(1, 'Query is required'),
+  text_query: z.string().trim().min(1).optional(),
+  filters: z.object({
+    source_uuid: z.string().uuid().optional(),
+    source: z.string().optional(),
+    content_type: z.enum(['chunk', 'full', 'memory']).optional(),
+    category: z.string().optional(),
+    subcategory: z.string().optional()
+  }).optional(),
+  limit: z.number().int().min(1).max(100).default(15),
+  explain: z.boolean().default(false),
+  rerank: z.boolean().default(true)
+});
+
+// Search the indexed documents; explain adds the contribution of each retriever and the re-ranker per result
+search.post('/', zValidator('json', searchSchema), async (c) => {
+  const { query, text_query, filters, limit, explain, rerank } = c.req.valid('json');
+
+  const results = await searchService.search(
+    { vector_query: query, text_query: text_query ?? query },
+    filters,
+    limit,
+    { explain, rerank }
+  );
+
+  return c.json({
+    results: results.map(({ document, memory, score, explanation }) => ({
+      document_uuid: document.uuid,
+      name: document.metadata?.name,
+      text: document.text,
+      score,
+      ...(memory ? { memory: { uuid: memory.uuid, name: memory.name } } : {}),
+      ...(explanation ? { explanation } : {})
+    }))
+  });
+});
+
+export default search;
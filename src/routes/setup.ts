@@ -10,6 +10,7 @@ import { z } from 'zod';
 import { setupService } from '../services/common/setup.service';
 import { AppEnv } from '../types/hono';
 import { isLocalMode } from '../config/local-user.config';
+import { localLlmService } from '../services/common/local-llm.service';
 
 const setup = new Hono<AppEnv>();
 
@@ -24,6 +25,11 @@ setup.use('*', async (c, next) => {
 // Get setup status and guide
 setup.get('/status', async (c) => {
   try {
+    // Refresh the local models so the model list reflects what the server serves now
+    if (localLlmService.getSettings()) {
+      await localLlmService.discoverModels().catch(() => []);
+    }
+
     const status = setupService.getSetupStatus();
     const guide = setupService.getSetupGuide();
     
@@ -81,6 +87,20 @@ setup.post('/api-key', zValidator('json', apiKeySchema), async (c) => {
   }
 });
 
+// Setup a local OpenAI-compatible model server (Ollama, llama.cpp, vLLM)
+const localProviderSchema = z.object({
+  baseUrl: z.string().url('Valid server URL is required'),
+  apiKey: z.string().optional(),
+  embeddingModel: z.string().optional(),
+});
+
+setup.post('/local-provider', zValidator('json', localProviderSchema), async (c) => {
+  const data = c.req.valid('json');
+  const result = await setupService.setupLocalProvider(data);
+
+  return c.json(result, result.success ? 200 : 400);
+});
+
 // Setup preferences
 const preferencesSchema = z.object({
   theme: z.enum(['light', 'dark', 'system']).optional(),
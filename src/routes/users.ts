@@ -13,6 +13,8 @@ import {
   PaginationOptions 
 } from '../database/query-utils';
 import { logger } from '../services/common/logger.service';
+import { updateContext, updatePersona } from '../services/common/user.service';
+import { personaUpdateSchema, resolvePersona } from '../config/persona.config';
 
 const userLogger = logger.child('USER_ROUTES');
 const users_router = new Hono<AppEnv>();
@@ -94,7 +96,8 @@ users_router.get('/:uuid', async (c) => {
           createdAt: users.createdAt,
           updatedAt: users.updatedAt,
           context: users.context,
-          environment: users.environment
+          environment: users.environment,
+          persona: users.persona
         })
         .from(users)
         .where(eq(users.uuid, uuid));
@@ -108,7 +111,7 @@ users_router.get('/:uuid', async (c) => {
 
       return c.json({
         success: true,
-        data: user
+        data: { ...user, persona: resolvePersona(user.persona) }
       });
     });
   } catch (error) {
@@ -235,6 +238,122 @@ users_router.put('/:uuid', async (c) => {
   }
 });
 
+// GET /api/users/:uuid/persona - Get the assistant persona of a user (defaults filled in)
+users_router.get('/:uuid/persona', async (c) => {
+  try {
+    const uuid = c.req.param('uuid');
+    const [user] = await db
+      .select({ persona: users.persona })
+      .from(users)
+      .where(eq(users.uuid, uuid));
+
+    if (!user) {
+      return c.json({
+        success: false,
+        error: 'User not found'
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: resolvePersona(user.persona)
+    });
+  } catch (error) {
+    userLogger.error('Error fetching persona:', error as Error);
+    return c.json({
+      success: false,
+      error: 'Failed to fetch persona'
+    }, 500);
+  }
+});
+
+// PATCH /api/users/:uuid/persona - Update the assistant persona of a user
+users_router.patch('/:uuid/persona', zValidator('json', personaUpdateSchema), async (c) => {
+  try {
+    const uuid = c.req.param('uuid');
+    const persona = await updatePersona(uuid, c.req.valid('json'));
+
+    if (!persona) {
+      return c.json({
+        success: false,
+        error: 'User not found'
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: persona,
+      message: 'Persona updated successfully'
+    });
+  } catch (error) {
+    userLogger.error('Error updating persona:', error as Error);
+    return c.json({
+      success: false,
+      error: 'Failed to update persona'
+    }, 500);
+  }
+});
+
+// GET /api/users/:uuid/context - Get the free-text context about a user
+users_router.get('/:uuid/context', async (c) => {
+  try {
+    const uuid = c.req.param('uuid');
+    const [user] = await db
+      .select({ context: users.context })
+      .from(users)
+      .where(eq(users.uuid, uuid));
+
+    if (!user) {
+      return c.json({
+        success: false,
+        error: 'User not found'
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: { context: user.context }
+    });
+  } catch (error) {
+    userLogger.error('Error fetching context:', error as Error);
+    return c.json({
+      success: false,
+      error: 'Failed to fetch context'
+    }, 500);
+  }
+});
+
+// PUT /api/users/:uuid/context - Replace the free-text context about a user
+const updateContextSchema = z.object({
+  context: z.string().max(10000).nullable()
+});
+
+users_router.put('/:uuid/context', zValidator('json', updateContextSchema), async (c) => {
+  try {
+    const uuid = c.req.param('uuid');
+    const { context } = c.req.valid('json');
+
+    if (!(await updateContext(uuid, context))) {
+      return c.json({
+        success: false,
+        error: 'User not found'
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      data: { context },
+      message: 'Context updated successfully'
+    });
+  } catch (error) {
+    userLogger.error('Error updating context:', error as Error);
+    return c.json({
+      success: false,
+      error: 'Failed to update context'
+    }, 500);
+  }
+});
+
 // DELETE /api/users/:uuid - Deactivate user
 users_router.delete('/:uuid', async (c) => {
   try {
@@ -5,6 +5,8 @@ import { validateBody } from '../middleware/validation';
 import { WebSchemas, CommonSchemas } from '../validation/schemas';
 import { z } from 'zod';
 import { getServiceStatus } from '../config/env.config';
+import { circuitBreakerService } from '../services/common/circuit-breaker.service';
+import { cacheService } from '../services/common/cache.service';
 
 // Extend Hono context for validated data access
 declare module 'hono' {
@@ -91,6 +93,12 @@ const web = new Hono<AppEnv>()
   .get('/health/details', c => {
     const status = getServiceStatus();
     return c.json({ status: 'ok', ...status });
+  })
+  // LLM provider circuit breakers, recent failovers and response cache hit rates; degraded while any breaker is not closed
+  .get('/health/llm', c => {
+    const health = circuitBreakerService.getHealth();
+    const degraded = health.providers.some(provider => provider.state !== 'closed');
+    return c.json({ status: degraded ? 'degraded' : 'ok', ...health, cache: cacheService.getStats() });
   });
 
 export default web; 
\ No newline at end of file
@@ -18,7 +18,8 @@ export const actions = sqliteTable('actions', {
   payload: text('payload', {mode: 'json'}),
   result: text('result', {mode: 'json'}),
   sequence: integer('sequence'),
-  status: text('status').default('pending'),
+  status: text('status').default('pending'), // pending / awaiting_approval / completed / rejected / failed
+  checkpoint: text('checkpoint', {mode: 'json'}), // paused agent run, kept while the action awaits approval
   created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updated_at: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
 }, (table) => ({
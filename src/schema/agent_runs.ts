@@ -0,0 +1,25 @@
+import {sql} from 'drizzle-orm';
+import {text, integer, real, sqliteTable, index} from 'drizzle-orm/sqlite-core';
+
+// One row per agent run with the path it took, so fast-track and full runs can be compared
+export const agent_runs = sqliteTable('agent_runs', {
+  id: integer('id').primaryKey({autoIncrement: true}),
+  run_id: text('run_id').notNull(),
+  user_uuid: text('user_uuid'),
+  conversation_uuid: text('conversation_uuid'),
+  path: text('path').notNull(), // fast / full
+  tool_mode: text('tool_mode').notNull().default('classic'), // classic / native
+  steps: integer('steps').notNull().default(0),
+  status: text('status').notNull(),
+  duration_ms: integer('duration_ms').notNull(),
+  llm_calls: integer('llm_calls').notNull().default(0),
+  input_tokens: integer('input_tokens').notNull().default(0),
+  output_tokens: integer('output_tokens').notNull().default(0),
+  cost: real('cost').notNull().default(0), // USD
+  created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  userCreatedAtIdx: index('agent_runs_user_created_at_idx').on(table.user_uuid, table.created_at)
+}));
+
+export type AgentRunRecord = typeof agent_runs.$inferSelect;
+export type NewAgentRunRecord = typeof agent_runs.$inferInsert;
@@ -4,9 +4,8 @@ import { conversations } from './conversation';
 import { messageDocuments } from './messageDocuments';
 import { actionDocuments } from './actionDocuments';
 import { taskDocuments } from './taskDocuments';
-import { embedding } from "../services/common/llm.service";
 import { vectorService } from "../services/common/vector.service";
-import { algoliaService } from '../services/common/algolia.service';
+import { lexicalSearchService } from '../services/common/lexical-search.service';
 
 export const documents = sqliteTable('documents', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -89,9 +88,8 @@ export const documentHooks = {
         : document.metadata;
       
       if (metadata.should_index) {
-        const embeddings = await embedding(document.text);
-        
-        await vectorService.upsertPoint(embeddings, {
+        // Embedded with the model of each collection, including one a re-embedding is building
+        await vectorService.upsertText(document.text, {
           document_uuid: document.uuid,
           source_uuid: document.source_uuid,
           source: 'document',
@@ -101,7 +99,7 @@ export const documentHooks = {
           updated_at: document.updated_at || new Date().toISOString()
         });
 
-        await algoliaService.indexDocument({
+        await lexicalSearchService.indexDocument({
           ...document,
           metadata: metadata
         });
@@ -131,7 +129,7 @@ export const documentHooks = {
         });
       }
 
-      await algoliaService.updateDocument({
+      await lexicalSearchService.updateDocument({
         ...document,
         metadata: metadata
       });
@@ -145,7 +143,7 @@ export const documentHooks = {
     try {
       await Promise.all([
         vectorService.deletePoints([document.uuid]),
-        algoliaService.deleteDocument(document.uuid)
+        lexicalSearchService.deleteDocument(document.uuid)
       ]);
     } catch (error) {
       console.error('Failed to delete document from search services:', error);
@@ -0,0 +1,24 @@
+import {sql} from 'drizzle-orm';
+import {text, integer, sqliteTable, index} from 'drizzle-orm/sqlite-core';
+
+// One row per vector collection (Qdrant or the local store) with the embedding model and dimension its vectors were made with.
+// A re-embedding builds a new collection and reports its progress here until it replaces the active one
+export const embedding_collections = sqliteTable('embedding_collections', {
+  id: integer('id').primaryKey({autoIncrement: true}),
+  name: text('name').notNull().unique(),
+  model: text('model').notNull(),
+  dimensions: integer('dimensions').notNull(),
+  status: text('status').notNull(), // building / active / retired / failed
+  total: integer('total').notNull().default(0), // documents to embed
+  processed: integer('processed').notNull().default(0),
+  failed: integer('failed').notNull().default(0),
+  error: text('error'),
+  created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updated_at: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+  activated_at: text('activated_at')
+}, (table) => ({
+  statusIdx: index('embedding_collections_status_idx').on(table.status)
+}));
+
+export type EmbeddingCollection = typeof embedding_collections.$inferSelect;
+export type NewEmbeddingCollection = typeof embedding_collections.$inferInsert;
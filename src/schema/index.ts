@@ -14,4 +14,10 @@ export * from './category';
 export * from './conversationMemories';
 export * from './taskDocuments';
 export * from './jobs';
-export * from './api-keys';
\ No newline at end of file
+export * from './api-keys';
+export * from './usage';
+export * from './agent_runs';
+export * from './embedding_collections';
+export * from './prompt_versions';
+export * from './prompt_runs';
+export * from './memory_merges';
\ No newline at end of file
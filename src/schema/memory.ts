@@ -15,6 +15,12 @@ export const memories = sqliteTable('memories', {
   document_uuid: text('document_uuid').notNull().references(() => documents.uuid),
   created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updated_at: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+  // Last time consolidation compared it with similar memories; null until it has been
+  consolidated_at: text('consolidated_at'),
+  // 1 (trivia) to 5 (core fact); with the recalls it decides how long retention keeps the memory
+  importance: integer('importance').notNull().default(3),
+  access_count: integer('access_count').notNull().default(0),
+  last_recalled_at: text('last_recalled_at'),
 }, (table) => ({
   // Index for category-based queries (most common memory search pattern)
   categoryIdx: index('memories_category_idx').on(table.category_uuid),
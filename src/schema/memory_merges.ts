@@ -0,0 +1,24 @@
+import {sql} from 'drizzle-orm';
+import {text, integer, real, sqliteTable, index} from 'drizzle-orm/sqlite-core';
+
+// One row per memory that consolidation folded into another. The replaced memory is deleted; its name and text
+// are kept here, so every merge can be reviewed and undone by hand
+export const memory_merges = sqliteTable('memory_merges', {
+  id: integer('id').primaryKey({autoIncrement: true}),
+  uuid: text('uuid', {length: 36}).notNull().unique(),
+  survivor_memory_uuid: text('survivor_memory_uuid').notNull(), // the memory that replaced it
+  replaced_memory_uuid: text('replaced_memory_uuid').notNull(),
+  replaced_name: text('replaced_name').notNull(),
+  replaced_text: text('replaced_text').notNull(),
+  action: text('action').notNull(), // merge / supersede
+  reason: text('reason').notNull(),
+  similarity: real('similarity').notNull(),
+  trigger: text('trigger').notNull(), // write / job
+  created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  survivorIdx: index('memory_merges_survivor_idx').on(table.survivor_memory_uuid),
+  createdAtIdx: index('memory_merges_created_at_idx').on(table.created_at)
+}));
+
+export type MemoryMerge = typeof memory_merges.$inferSelect;
+export type NewMemoryMerge = typeof memory_merges.$inferInsert;
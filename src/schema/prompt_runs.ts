@@ -0,0 +1,18 @@
+import {sql} from 'drizzle-orm';
+import {text, integer, sqliteTable, index, uniqueIndex} from 'drizzle-orm/sqlite-core';
+
+// Prompt versions and variants an agent run used; joined with agent_runs to compare the outcomes of variants
+export const prompt_runs = sqliteTable('prompt_runs', {
+  id: integer('id').primaryKey({autoIncrement: true}),
+  run_id: text('run_id').notNull(),
+  prompt_id: text('prompt_id').notNull(),
+  version: text('version').notNull(),
+  variant: text('variant').notNull(),
+  created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  runPromptIdx: uniqueIndex('prompt_runs_run_prompt_idx').on(table.run_id, table.prompt_id, table.version, table.variant),
+  promptCreatedAtIdx: index('prompt_runs_prompt_created_at_idx').on(table.prompt_id, table.created_at)
+}));
+
+export type PromptRunRecord = typeof prompt_runs.$inferSelect;
+export type NewPromptRunRecord = typeof prompt_runs.$inferInsert;
@@ -0,0 +1,24 @@
+import {sql} from 'drizzle-orm';
+import {text, integer, sqliteTable, index} from 'drizzle-orm/sqlite-core';
+
+// Prompt overrides stored in the database. A row applies to everyone, to one environment or to one user;
+// active rows of the same scope are variants of an A/B test and split the traffic by weight
+export const prompt_versions = sqliteTable('prompt_versions', {
+  id: integer('id').primaryKey({autoIncrement: true}),
+  uuid: text('uuid').notNull().unique(),
+  prompt_id: text('prompt_id').notNull(),
+  version: text('version').notNull(),
+  variant: text('variant').notNull().default('default'),
+  template: text('template').notNull(),
+  user_uuid: text('user_uuid'), // null: every user
+  environment: text('environment'), // null: every environment
+  weight: integer('weight').notNull().default(100),
+  active: integer('active', {mode: 'boolean'}).notNull().default(true),
+  created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updated_at: text('updated_at').default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  promptActiveIdx: index('prompt_versions_prompt_active_idx').on(table.prompt_id, table.active)
+}));
+
+export type PromptVersionRecord = typeof prompt_versions.$inferSelect;
+export type NewPromptVersionRecord = typeof prompt_versions.$inferInsert;
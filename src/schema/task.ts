@@ -17,6 +17,7 @@ export const tasks = sqliteTable('tasks', {
   scheduled_for: text('scheduled_for'),
   completed_at: text('completed_at'),
   result: text('result'),
+  depends_on: text('depends_on', {mode: 'json'}).$type<string[]>(), // uuids of tasks that must be completed first
   created_at: text('created_at')
     .notNull()
     .default(sql`CURRENT_TIMESTAMP`),
@@ -0,0 +1,22 @@
+import {sql} from 'drizzle-orm';
+import {text, integer, real, sqliteTable, index} from 'drizzle-orm/sqlite-core';
+
+// One row per LLM call; summed per run, conversation and user for budgets
+export const llm_usage = sqliteTable('llm_usage', {
+  id: integer('id').primaryKey({autoIncrement: true}),
+  run_id: text('run_id'),
+  user_uuid: text('user_uuid'),
+  conversation_uuid: text('conversation_uuid'),
+  model: text('model').notNull(),
+  operation: text('operation').notNull(), // text / stream / object / tools / embedding
+  input_tokens: integer('input_tokens').notNull().default(0),
+  output_tokens: integer('output_tokens').notNull().default(0),
+  cost: real('cost').notNull().default(0), // USD
+  created_at: text('created_at').default(sql`CURRENT_TIMESTAMP`)
+}, (table) => ({
+  userCreatedAtIdx: index('llm_usage_user_created_at_idx').on(table.user_uuid, table.created_at),
+  conversationIdx: index('llm_usage_conversation_idx').on(table.conversation_uuid)
+}));
+
+export type LlmUsage = typeof llm_usage.$inferSelect;
+export type NewLlmUsage = typeof llm_usage.$inferInsert;
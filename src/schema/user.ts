@@ -1,6 +1,7 @@
 import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
 import { sql, relations } from 'drizzle-orm';
 import { conversations } from './conversation';
+import type { PersonaUpdate } from '../config/persona.config';
 
 export const users = sqliteTable('users', {
   id: integer('id', { mode: 'number' }).primaryKey({ autoIncrement: true }),
@@ -14,6 +15,8 @@ export const users = sqliteTable('users', {
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`CURRENT_TIMESTAMP`),
   context: text('context'),
   environment: text('environment', { mode: 'json' }),
+  // Assistant persona overrides; missing fields use the defaults from persona.config
+  persona: text('persona', { mode: 'json' }).$type<PersonaUpdate>(),
   googleAccessToken: text('google_access_token'),
   googleRefreshToken: text('google_refresh_token'),
   googleTokenExpiry: integer('google_token_expiry', { mode: 'timestamp' }),
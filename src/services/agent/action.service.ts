@@ -1,10 +1,10 @@
 import { db } from '../../database';
 import {actions} from '../../schema/action';
-import {eq} from 'drizzle-orm';
+import {and, eq} from 'drizzle-orm';
 import {z} from 'zod';
 import {documentService} from './document.service';
 import {actionDocuments} from '../../schema/actionDocuments';
-import {Action} from '../../types/agent';
+import {Action, AgentCheckpoint} from '../../types/agent';
 import { NotFoundError, ValidationError } from '../../utils/errors';
 
 const actionSchema = z.object({
@@ -13,7 +13,7 @@ const actionSchema = z.object({
   tool_uuid: z.string(),
   name: z.string(),
   sequence: z.number(),
-  status: z.enum(['pending', 'completed', 'failed']),
+  status: z.enum(['pending', 'awaiting_approval', 'completed', 'rejected', 'failed']),
   payload: z.record(z.string(), z.unknown()).nullable()
 });
 
@@ -52,6 +52,63 @@ export const actionService = {
     return updated_action;
   },
 
+  findByUuid: async (uuid: string) => {
+    const action = await db.query.actions.findFirst({
+      where: eq(actions.uuid, uuid),
+      with: {task: true, tool: true}
+    });
+
+    return action ?? null;
+  },
+
+  awaitApproval: async (uuid: string, checkpoint: AgentCheckpoint) => {
+    const [updated_action] = await db
+      .update(actions)
+      .set({status: 'awaiting_approval', checkpoint, updated_at: new Date().toISOString()})
+      .where(eq(actions.uuid, uuid))
+      .returning();
+
+    if (!updated_action) throw new NotFoundError('Action');
+
+    return updated_action;
+  },
+
+  updatePendingPayload: async (uuid: string, payload: Record<string, unknown>) => {
+    const [updated_action] = await db
+      .update(actions)
+      .set({payload: JSON.stringify(payload), updated_at: new Date().toISOString()})
+      .where(and(eq(actions.uuid, uuid), eq(actions.status, 'awaiting_approval')))
+      .returning();
+
+    if (!updated_action) throw new ValidationError('Action is not awaiting approval');
+
+    return updated_action;
+  },
+
+  // Removes an action that was chosen but never ran, so its task is planned again
+  discardPendingAction: async (uuid: string) => {
+    await db.delete(actions).where(and(eq(actions.uuid, uuid), eq(actions.status, 'pending')));
+  },
+
+  // Only one decision wins: the status check makes concurrent approve/reject calls safe
+  resolveApproval: async (uuid: string, decision: {status: 'pending' | 'rejected'; payload?: Record<string, unknown>; result?: string}) => {
+    const [updated_action] = await db
+      .update(actions)
+      .set({
+        status: decision.status,
+        payload: decision.payload ? JSON.stringify(decision.payload) : undefined,
+        result: decision.result,
+        checkpoint: null,
+        updated_at: new Date().toISOString()
+      })
+      .where(and(eq(actions.uuid, uuid), eq(actions.status, 'awaiting_approval')))
+      .returning();
+
+    if (!updated_action) throw new ValidationError('Action is not awaiting approval');
+
+    return updated_action;
+  },
+
   updateActionWithResult: async (uuid: string, result: unknown): Promise<Action> => {
     const updated_data = await db.transaction(async tx => {
       const formatted_text = typeof result === 'string' 
@@ -0,0 +1,301 @@
+/**
+ * Agent run orchestration
+ * Runs the complete agent pipeline for a chat request: fast-track check, observation,
+ * drafting, the plan/next/use/act loop and the final answer
+ * @module agent.service
+ */
+
+import type {CoreMessage} from 'ai';
+import type {LangfuseTraceClient} from 'langfuse';
+import type {ChatRequest} from '../../dto/chat.dto';
+import type {Action, AgentCheckpoint, AgentEvent, AgentPath, Task} from '../../types/agent';
+import type {Document} from '../../types/document';
+import {aiService} from './ai.service';
+import {restoreInteractionState, setAssistantResponse, setInteractionState} from './agi.service';
+import {actionService} from './action.service';
+import {observer} from './observer.service';
+import {stateManager} from './state.service';
+import {taskService} from './task.service';
+import {createLogger} from '../common/logger.service';
+import {usageService, type BudgetStatus, type UsageTotals} from '../common/usage.service';
+import {cassetteService, type Cassette} from '../common/cassette.service';
+import {metricsService} from './metrics.service';
+import {NotFoundError, ValidationError} from '../../utils/errors';
+
+const log = createLogger('AgentService');
+
+export interface AgentRunResult {
+  conversation_id: string;
+  /**
+   * `awaiting_approval` when the run paused on an action the user has to decide on,
+   * `budget_exceeded` when a hard cost budget stopped the run without an answer; a soft budget still completes (see `budget`)
+   */
+  status: 'completed' | 'awaiting_approval' | 'budget_exceeded';
+  /** `fast` when the query was answered directly with recalled memories, `full` when it went through the agent loop */
+  path: AgentPath;
+  response: string;
+  tasks: Task[];
+  actions: Action[];
+  documents: Document[];
+  pending_action: Action | null;
+  /** Tokens and cost of LLM calls made by this run */
+  usage: UsageTotals;
+  budget: BudgetStatus | null;
+}
+
+export interface AgentRunOptions {
+  /** Generate the final answer token by token (published as `answer_token` events) */
+  stream?: boolean;
+  /** Receives every progress event of this run */
+  onEvent?: (event: AgentEvent) => void;
+  /** Answers the LLM, tool and store calls of this run from a recorded cassette instead of the real services */
+  cassette?: Cassette;
+}
+
+export type ApprovalDecision =
+  | {approved: true; payload?: Record<string, unknown>}
+  | {approved: false; reason?: string};
+
+// Conversations with a run in progress in this process; recovery never picks them up
+const active_conversations = new Set<string>();
+
+const withActiveConversation = async <T>(conversation_id: string, callback: () => Promise<T>): Promise<T> => {
+  active_conversations.add(conversation_id);
+  try {
+    return await callback();
+  } finally {
+    active_conversations.delete(conversation_id);
+  }
+};
+
+const describeBudget = ({scope, limit, spent}: BudgetStatus) =>
+  `I had to stop because the ${scope === 'user' ? 'daily' : scope} usage budget of $${limit.toFixed(2)} is used up ($${spent.toFixed(2)} spent).`;
+
+// Remembers what existed before a run so only new work is reported back
+const snapshotWork = (tasks: Task[]) => ({
+  task_uuids: new Set(tasks.map(task => task.uuid)),
+  action_uuids: new Set(tasks.flatMap(task => task.actions.map(action => action.uuid)))
+});
+
+/**
+ * Answers the user (unless the run is waiting for approval) and collects the work produced by the run
+ * A hard budget replaces the answer with an explanation, so no further LLM call is made
+ */
+const finishRun = async (
+  trace: LangfuseTraceClient,
+  conversation_id: string,
+  previous: ReturnType<typeof snapshotWork>,
+  stream: boolean
+): Promise<AgentRunResult> => {
+  const state = stateManager.getState();
+  const messages = state.interaction.messages as CoreMessage[];
+  const awaiting_approval = state.config.current_phase === 'awaiting_approval';
+  const budget = usageService.getBudgetStatus();
+
+  let response: string;
+  if (awaiting_approval) {
+    // Nothing is stored in the conversation until the run can finish
+    response = `Waiting for your approval before running "${state.config.current_action?.name}" (${state.config.current_tool?.name}).`;
+  } else if (budget?.level === 'hard') {
+    response = describeBudget(budget);
+    await setAssistantResponse({conversation_id, response});
+  } else {
+    response = await aiService.answer(trace, {stream});
+    await setAssistantResponse({conversation_id, response});
+  }
+
+  const persisted_tasks: Task[] = await taskService.findByConversationId(conversation_id);
+  const actions = persisted_tasks.flatMap(task => task.actions).filter(action => !previous.action_uuids.has(action.uuid));
+  const action_task_uuids = new Set(actions.map(action => action.task_uuid));
+  const tasks = persisted_tasks.filter(task => !previous.task_uuids.has(task.uuid) || action_task_uuids.has(task.uuid));
+  const documents = actions.flatMap(action => action.documents ?? []);
+  const pending_action = actions.find(action => action.status === 'awaiting_approval') ?? null;
+
+  const usage = usageService.getRunUsage();
+
+  log.debug('Agent run finished', {conversation_id, awaiting_approval, budget, tasks: tasks.length, actions: actions.length, documents: documents.length, cost: usage.cost});
+
+  await observer.finalizeTrace(trace.id, messages, [response]);
+
+  return {
+    conversation_id,
+    status: awaiting_approval ? 'awaiting_approval' : budget?.level === 'hard' ? 'budget_exceeded' : 'completed',
+    path: state.config.fast_track ? 'fast' : 'full',
+    response,
+    tasks,
+    actions,
+    documents,
+    pending_action,
+    usage,
+    budget
+  };
+};
+
+/**
+ * Agent service coordinating a single agent run
+ * @namespace agentService
+ */
+export const agentService = {
+  /**
+   * Runs the full agent loop for a chat request and stores the assistant reply
+   * Side-effecting tool actions pause the run with status `awaiting_approval` until {@link agentService.resume} is called
+   * Cost budgets stop the loop: a soft budget still answers, a hard one only explains why it stopped and ends the run with status `budget_exceeded`
+   * Simple queries are fast-tracked: they skip observe, draft and plan and are answered directly with recalled memories
+   * With AGENT_CASSETTE_DIR set, the LLM calls, tool results and store reads of the run are recorded as a replayable
+   * cassette; with a `cassette` option they are answered from that cassette instead
+   * @param request - Chat request with the conversation history and the user profile
+   * @param options - Optional streaming of the answer, a listener for progress events and a cassette to replay
+   * @returns Promise that resolves to the answer and the tasks, actions and documents produced by this run
+   * @example
+   * ```typescript
+   * const result = await agentService.run(request);
+   * console.log(result.response, result.actions.length);
+   * ```
+   */
+  run: (request: ChatRequest, {stream = false, onEvent, cassette}: AgentRunOptions = {}): Promise<AgentRunResult> =>
+    // Each run gets its own agent state so concurrent conversations never overwrite each other
+    stateManager.run(() => {
+      const execute = async () => {
+        if (onEvent) stateManager.onEvent(onEvent);
+
+        const started_at = Date.now();
+        const conversation_id = await setInteractionState(request);
+
+        return withActiveConversation(conversation_id, async () => {
+          const previous = snapshotWork(stateManager.getState().interaction.tasks);
+
+          const trace = observer.initializeTrace('agi_agent')!;
+
+          // Conversation and user budgets may already be used up by earlier runs
+          if (await aiService.withinBudget()) {
+            if (await aiService.fastTrack(trace)) {
+              await aiService.recall(trace);
+            } else {
+              await aiService.think();
+            }
+          }
+
+          const result = await finishRun(trace, conversation_id, previous, stream);
+          await metricsService.recordRun({path: result.path, status: result.status, started_at});
+
+          return result;
+        });
+      };
+
+      // Cassettes cover only this run's state, so they start inside it
+      return cassette ? cassetteService.replay(cassette, execute).then(({result}) => result) : cassetteService.recordRun(request, execute);
+    }),
+
+  /**
+   * Continues a run that was interrupted (e.g. by a restart) from the given step
+   * Tasks and actions come from the database, so completed actions are not repeated
+   * @param request - Chat request rebuilt from the conversation; its last user message is already stored
+   * @param step - Loop step to continue from
+   * @param options - Optional streaming of the answer and a listener for progress events
+   * @returns Promise that resolves to the result of the recovered run
+   * @example
+   * ```typescript
+   * const result = await agentService.recover(request, 3);
+   * ```
+   */
+  recover: (request: ChatRequest, step: number, {stream = false, onEvent}: AgentRunOptions = {}): Promise<AgentRunResult> =>
+    stateManager.run(async () => {
+      if (onEvent) stateManager.onEvent(onEvent);
+
+      const started_at = Date.now();
+      const conversation_id = await setInteractionState(request, {persist_message: false});
+
+      return withActiveConversation(conversation_id, async () => {
+        stateManager.updateConfig({step});
+        const previous = snapshotWork(stateManager.getState().interaction.tasks);
+
+        const trace = observer.initializeTrace('agi_agent_recover')!;
+
+        if (await aiService.withinBudget()) {
+          await aiService.think();
+        }
+
+        const result = await finishRun(trace, conversation_id, previous, stream);
+        await metricsService.recordRun({path: result.path, status: result.status, started_at});
+
+        return result;
+      });
+    }),
+
+  /**
+   * Checks whether a run for the conversation is in progress in this process
+   * @param conversation_id - Conversation to check
+   * @returns True while a run, resume or recovery of the conversation is executing
+   */
+  isActive: (conversation_id: string): boolean => active_conversations.has(conversation_id),
+
+  /**
+   * Resumes a run paused on an action awaiting approval
+   * An approved action runs with its (optionally edited) payload; a rejected one is recorded so the agent can plan around it
+   * @param action_uuid - Action the run paused on
+   * @param decision - The user's decision, with an edited payload or a rejection reason
+   * @param options - Optional streaming of the answer and a listener for progress events
+   * @returns Promise that resolves to the result of the resumed run, which may pause again on a later action
+   * @throws NotFoundError if the action does not exist
+   * @throws ValidationError if the action is not awaiting approval
+   * @example
+   * ```typescript
+   * const result = await agentService.resume(action_uuid, {approved: true});
+   * ```
+   */
+  resume: (action_uuid: string, decision: ApprovalDecision, {stream = false, onEvent}: AgentRunOptions = {}): Promise<AgentRunResult> =>
+    stateManager.run(async () => {
+      if (onEvent) stateManager.onEvent(onEvent);
+
+      const started_at = Date.now();
+      const action = await actionService.findByUuid(action_uuid);
+      if (!action) throw new NotFoundError('Action');
+
+      const checkpoint = action.checkpoint as AgentCheckpoint | null;
+      if (action.status !== 'awaiting_approval' || !checkpoint) {
+        throw new ValidationError('Action is not awaiting approval', {context: {action_uuid, status: action.status}});
+      }
+
+      const conversation_id = await restoreInteractionState(checkpoint);
+
+      return withActiveConversation(conversation_id, async () => {
+        const previous = snapshotWork(stateManager.getState().interaction.tasks);
+        previous.action_uuids.delete(action_uuid);
+
+        const trace = observer.initializeTrace('agi_agent_resume')!;
+        const resumingSpan = observer.startSpan(`thinking #${stateManager.getState().config.step}`, {
+          phase: 'reasoning_loop'
+        });
+
+        if (decision.approved) {
+          const payload = decision.payload ?? (typeof action.payload === 'string' ? JSON.parse(action.payload) : action.payload) ?? {};
+          await actionService.resolveApproval(action_uuid, {status: 'pending', payload});
+
+          stateManager.updateConfig({current_phase: 'reasoning_loop'});
+          await aiService.act({action: checkpoint.action, payload}, resumingSpan);
+        } else {
+          const result = `Rejected by the user${decision.reason ? `: ${decision.reason}` : ''}`;
+          await actionService.resolveApproval(action_uuid, {status: 'rejected', result});
+
+          const state = stateManager.getState();
+          stateManager.updateInteraction({
+            tasks: state.interaction.tasks.map(task => ({
+              ...task,
+              actions: task.actions.map(item => (item.uuid === action_uuid ? {...item, status: 'rejected', result} : item))
+            }))
+          });
+          stateManager.updateConfig({current_phase: 'reasoning_loop'});
+        }
+
+        stateManager.updateConfig({step: stateManager.getState().config.step + 1});
+        observer.endSpan(resumingSpan.id);
+
+        await aiService.loop();
+
+        const result = await finishRun(trace, conversation_id, previous, stream);
+        await metricsService.recordRun({path: result.path, status: result.status, started_at});
+
+        return result;
+      });
+    })
+};
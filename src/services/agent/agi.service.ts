@@ -5,6 +5,7 @@ import {messageService} from '../../services/agent/message.service';
 import {v4 as uuidv4} from 'uuid';
 import {CoreMessage, Message} from 'ai';
 import {SetAssistantResponseParams} from '../../types/agi';
+import type {AgentCheckpoint, Task} from '../../types/agent';
 import {toolService} from './tool.service';
 import {categoryService} from './category.service';
 import {memoryService} from './memory.service';
@@ -12,6 +13,9 @@ import {actionService} from './action.service';
 import {Document} from '../../types/document';
 import {taskService} from './task.service';
 import { createLogger } from '../common/logger.service';
+import {resolvePersona} from '../../config/persona.config';
+import {getGlobalRouting, mergeRouting} from '../../config/routing.config';
+import {getModelRouting, isLocalMode} from '../../config/local-user.config';
 
 export const shouldContinueThinking = (): boolean => {
   const state = stateManager.getState();
@@ -21,11 +25,24 @@ export const shouldContinueThinking = (): boolean => {
   return step < max_steps && !is_final_answer;
 };
 
-export const setInteractionState = async (request: ChatRequest) => {
-  // Create conversation if not provided
-  const conversation_id = await conversationService.getOrCreate(request.conversation_id || uuidv4(), request.user.uuid);
+// Pending tasks whose dependencies are completed; the closing answer task is left for the end
+export const getReadyTasks = (): Task[] => {
+  const {tasks} = stateManager.getState().interaction;
+  const known = new Set(tasks.map(task => task.uuid));
+  const completed = new Set(tasks.filter(task => task.status === 'completed').map(task => task.uuid));
+
+  return tasks.filter(
+    task =>
+      task.status === 'pending' &&
+      task.type !== 'final' &&
+      task.name !== 'contact_user' &&
+      // Dependencies on tasks that no longer exist don't block
+      (task.depends_on ?? []).every(uuid => completed.has(uuid) || !known.has(uuid))
+  );
+};
 
-  // Load tools, categories, memories, tasks, and check fast track
+// Loads tools, categories and memories into the session state and returns the conversation's tasks
+const loadConversationState = async (conversation_id: string) => {
   const [tools, categories, memories, tasks] = await Promise.all([
     toolService.getAvailableTools(),
     categoryService.findAll(),
@@ -33,23 +50,6 @@ export const setInteractionState = async (request: ChatRequest) => {
     taskService.findByConversationId(conversation_id),
   ]);
 
-  // Update interaction state with messages and tasks
-  stateManager.updateInteraction({
-    messages: request.messages as Message[],
-    tasks: tasks || []
-  });
-
-  // Save the last user message
-  const lastMessage = request.messages[request.messages.length - 1];
-  if (lastMessage.role === 'user') {
-    await messageService.create({
-      conversation_uuid: conversation_id,
-      message: lastMessage as CoreMessage,
-      source: request.user.name
-    });
-  }
-
-  // Update session state with loaded data
   stateManager.updateSession({
     tools,
     categories: categories.map(({name, subcategory, description}) => ({
@@ -64,6 +64,32 @@ export const setInteractionState = async (request: ChatRequest) => {
     }))
   });
 
+  return tasks || [];
+};
+
+export const setInteractionState = async (request: ChatRequest, {persist_message = true}: {persist_message?: boolean} = {}) => {
+  // Create conversation if not provided
+  const conversation_id = await conversationService.getOrCreate(request.conversation_id || uuidv4(), request.user.uuid);
+
+  // Load tools, categories, memories and tasks
+  const tasks = await loadConversationState(conversation_id);
+
+  // Update interaction state with messages and tasks
+  stateManager.updateInteraction({
+    messages: request.messages as Message[],
+    tasks
+  });
+
+  // Save the last user message (recovered runs load it from the database already)
+  const lastMessage = request.messages[request.messages.length - 1];
+  if (persist_message && lastMessage.role === 'user') {
+    await messageService.create({
+      conversation_uuid: conversation_id,
+      message: lastMessage as CoreMessage,
+      source: request.user.name
+    });
+  }
+
   stateManager.updateConfig({
     step: 1,
     current_phase: 'initialization',
@@ -75,6 +101,9 @@ export const setInteractionState = async (request: ChatRequest) => {
     model: request.model,
     temperature: request.temperature || 0.7,
     max_tokens: request.max_tokens || 16384,
+    ...(request.tool_mode && {tool_mode: request.tool_mode}),
+    model_routing: mergeRouting(getGlobalRouting(), isLocalMode() ? getModelRouting() : undefined, request.model_routing),
+    cache_bypass: request.cache_bypass ?? false,
     time: new Date()
       .toLocaleString('en-GB', {
         timeZone: process.env.APP_TIMEZONE || 'Europe/Warsaw',
@@ -88,16 +117,36 @@ export const setInteractionState = async (request: ChatRequest) => {
       .replace(/(\d+)\/(\d+)\/(\d+), (\d+):(\d+)/, '$3-$2-$1 $4:$5')
   });
 
+  const persona = resolvePersona(request.user.persona);
+
   stateManager.updateProfile({
-    ai_name: 'Alice',
+    ai_name: persona.ai_name,
     user_name: request.user.name,
     context: request.user.context,
-    environment: JSON.parse(request.user.environment || '{}')
+    environment: JSON.parse(request.user.environment || '{}'),
+    persona
   });
 
   return conversation_id;
 };
 
+export const restoreInteractionState = async ({state}: AgentCheckpoint) => {
+  const conversation_id = state.config.conversation_uuid;
+  if (!conversation_id) {
+    throw new Error('Checkpoint has no conversation');
+  }
+
+  // Tasks and actions may have changed while the run was paused, so they come from the database
+  const tasks = await loadConversationState(conversation_id);
+
+  stateManager.updateInteraction({...state.interaction, tasks});
+  stateManager.updateConfig(state.config);
+  stateManager.updateThoughts(state.thoughts);
+  stateManager.updateProfile(state.profile);
+
+  return conversation_id;
+};
+
 export const setAssistantResponse = async ({conversation_id, response, source = 'assistant'}: SetAssistantResponseParams): Promise<void> => {
   if (!conversation_id) {
     throw new Error('Conversation ID is required');
@@ -7,26 +7,80 @@
 
 import {completion} from '../common/llm.service';
 import {stateManager} from './state.service';
-import {prompt as environmentPrompt} from '../../prompts/agent/environment';
-import {prompt as generalContextPrompt} from '../../prompts/agent/context';
-import {prompt as toolsPrompt} from '../../prompts/agent/tools';
-import {prompt as memoryPrompt} from '../../prompts/agent/memory';
-import {prompt as taskPrompt} from '../../prompts/agent/task';
-import {prompt as actionPrompt} from '../../prompts/agent/action';
-import {prompt as usePrompt} from '../../prompts/agent/use';
 import {CoreMessage} from 'ai';
 import {observer} from './observer.service';
-import {shouldContinueThinking, updateActionState} from './agi.service';
+import {getReadyTasks, shouldContinueThinking, updateActionState} from './agi.service';
 import {taskService} from './task.service';
 import {actionService} from './action.service';
+import {env} from '../../config/env.config';
 
-import type {Action, AgentThoughts, Task, ToolUsePayload, ToolUseResponse} from '../../types/agent';
+import type {Action, AgentCheckpoint, AgentThoughts, Task, ToolUsePayload, ToolUseResponse} from '../../types/agent';
+import type {State} from '../../types/state';
+import type {DocumentType} from './document.service';
 import {LangfuseSpanClient, LangfuseTraceClient} from 'langfuse';
-import {prompt as fastTrackPrompt} from '../../prompts/agent/fast';
+import {promptService} from '../common/prompt.service';
 import { linearService } from '../tools/linear.service';
 import { calendarService } from './calendar.service';
-import { toolsMap } from '../../config/tools.config';
+import { toolsMap, buildNativeTools, parseNativeToolName, FINAL_ANSWER_TOOL } from '../../config/tools.config';
+import { requiresApproval } from '../../config/approval.config';
+import { resolvePhaseRoute, type AgentPhase } from '../../config/routing.config';
 import { memoryService } from './memory.service';
+import { usageService } from '../common/usage.service';
+import { cassetteService } from '../common/cassette.service';
+import {
+  actionSchema,
+  contextSchema,
+  environmentSchema,
+  fastTrackSchema,
+  memorySchema,
+  taskSchema,
+  toolsSchema,
+  toolUseSchema
+} from '../../config/agent-schemas';
+
+// How many independent actions may run at the same time; runs with a cassette need a reproducible call order
+const maxParallelActions = () => (cassetteService.isActive() ? 1 : env.AGENT_MAX_PARALLEL_ACTIONS);
+
+// How many memories a fast-tracked answer may use
+const FAST_TRACK_MEMORIES = 5;
+
+// Text of a message whose content may be a list of parts
+const messageText = (content: unknown): string =>
+  typeof content === 'string'
+    ? content
+    : Array.isArray(content)
+      ? content.map(part => (part?.type === 'text' ? part.text : '')).filter(Boolean).join('\n')
+      : '';
+
+interface BranchResult {
+  tool_context: DocumentType[];
+  approval?: {
+    payload: ToolUsePayload;
+    config: Pick<State['config'], 'current_action' | 'current_tool' | 'current_task'>;
+  };
+}
+
+/**
+ * Maps items with at most `limit` callbacks in flight; results keep the order of the items
+ */
+const settleWithConcurrency = async <T, R>(items: T[], limit: number, callback: (item: T) => Promise<R>) => {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next_index = 0;
+
+  const worker = async () => {
+    while (next_index < items.length) {
+      const index = next_index++;
+      try {
+        results[index] = {status: 'fulfilled', value: await callback(items[index])};
+      } catch (reason) {
+        results[index] = {status: 'rejected', reason};
+      }
+    }
+  };
+
+  await Promise.all(Array.from({length: Math.min(limit, items.length)}, worker));
+  return results;
+};
 
 /**
  * AI service for agent reasoning and execution
@@ -38,15 +92,16 @@ export const aiService = {
   /**
    * Determines if a query can be answered quickly without complex reasoning
    * Uses fast-track analysis to bypass full reasoning loop for simple queries
+   * The decision is stored as `config.fast_track` and published as a `route` event; when in doubt the full loop is used
    * @param span - Langfuse trace client for tracking the fast-track decision
    * @returns Promise that resolves to true if fast-track should be used, false otherwise
    * @example
    * ```typescript
    * const shouldFastTrack = await aiService.fastTrack(span);
    * if (shouldFastTrack) {
-   *   // Handle simple query directly
+   *   await aiService.recall(span); // answer directly with recalled memories
    * } else {
-   *   // Use full reasoning loop
+   *   await aiService.think(); // use full reasoning loop
    * }
    * ```
    */
@@ -56,32 +111,74 @@ export const aiService = {
       .filter(message => message.role === 'user' || message.role === 'assistant')
       .slice(-3) as CoreMessage[];
 
+    const fastTrackPrompt = await promptService.render('agent.fast', stateManager.getState());
+
     const fastTrackMessages: CoreMessage[] = [
-      {role: 'system', content: fastTrackPrompt(stateManager.getState())},
+      {role: 'system', content: fastTrackPrompt.content},
       ...last_three_user_messages
     ];
 
+    const route = phaseRoute(stateManager.getState(), 'fast_track');
+
     const fastTrackGeneration = span.generation({
       name: 'fast_track',
       input: fastTrackMessages,
-      model: stateManager.getState().config.model
+      model: route.model,
+      ...promptService.tags(fastTrackPrompt)
     });
 
-    const fastTrack = await completion.object<{result: boolean}>({
-      messages: fastTrackMessages,
-      model: stateManager.getState().config.model,
-      temperature: 0,
-      user: {
-        uuid: stateManager.getState().config.user_uuid || '',
-        name: stateManager.getState().profile.user_name
-      }
-    });
+    // A failed decision falls back to the full loop
+    const fastTrack = await completion
+      .object({
+        messages: fastTrackMessages,
+        ...route,
+        schema: fastTrackSchema,
+        user: {
+          uuid: stateManager.getState().config.user_uuid || '',
+          name: stateManager.getState().profile.user_name
+        }
+      })
+      .catch(() => null);
 
     fastTrackGeneration.end({output: fastTrack});
 
-    stateManager.updateConfig({fast_track: !fastTrack?.result || false });
+    // The prompt returns true when tools or long-term memory are needed, i.e. when the query must NOT be fast-tracked
+    const fast_track = fastTrack?.result === false;
+
+    stateManager.updateConfig({fast_track});
+    stateManager.emit({type: 'route', path: fast_track ? 'fast' : 'full'});
 
-    return fastTrack?.result || false;
+    return fast_track;
+  },
+
+  /**
+   * Recalls memories related to the latest message for a fast-tracked answer
+   * Uses a single memory search instead of the observe/draft/plan phases; the memories are passed to the answer as documents
+   * @param span - Langfuse trace or span for tracing the recall
+   * @returns Promise that resolves to the recalled memory documents
+   * @example
+   * ```typescript
+   * if (await aiService.fastTrack(trace)) await aiService.recall(trace);
+   * const answer = await aiService.answer(trace);
+   * ```
+   */
+  recall: async (span: LangfuseSpanClient | LangfuseTraceClient): Promise<DocumentType[]> => {
+    const state = stateManager.getState();
+    const query = messageText(state.interaction.messages.at(-1)?.content);
+    if (!query) return [];
+
+    const memories = await memoryService.searchMemories(query, undefined, FAST_TRACK_MEMORIES);
+    const documents = memories.flatMap(memory => (memory.document ? [memory.document] : []));
+
+    stateManager.updateSession({documents: [...state.session.documents, ...documents]});
+
+    await span.event({
+      name: 'fast_track_recall',
+      input: {query},
+      output: {memories: memories.map(memory => memory.name)}
+    });
+
+    return documents;
   },
 
   /**
@@ -104,20 +201,67 @@ export const aiService = {
 
     observer.endSpan(observingSpan.id);
 
+    await aiService.loop();
+  },
+
+  /**
+   * Checks the LLM cost budgets of the run, its conversation and its user
+   * An exceeded budget is published as a `budget_exceeded` event
+   * @returns Promise that resolves to false when the agent has to stop
+   * @example
+   * ```typescript
+   * if (await aiService.withinBudget()) await aiService.think();
+   * ```
+   */
+  withinBudget: async (): Promise<boolean> => {
+    const budget = await usageService.checkBudget();
+    if (!budget) return true;
+
+    stateManager.emit({type: 'budget_exceeded', ...budget});
+    return false;
+  },
+
+  /**
+   * Runs the plan/next/use/act cycle from the current step
+   * Stops on the final answer, at the step limit, when a budget is used up or when an action has to wait for the user's approval
+   * @example
+   * ```typescript
+   * await aiService.loop();
+   * const paused = stateManager.getState().config.current_phase === 'awaiting_approval';
+   * ```
+   */
+  loop: async () => {
     while (shouldContinueThinking()) {
+      if (!(await aiService.withinBudget())) break;
+
       const thinkingSpan = observer.startSpan(`thinking #${stateManager.getState().config.step}`, {
         phase: 'reasoning_loop'
       });
 
       await aiService.plan(thinkingSpan);
-      await aiService.next(thinkingSpan);
 
-      const state = stateManager.getState();
-      if (state.config.current_tool?.name === 'final_answer') break;
+      const ready_tasks = getReadyTasks();
+      if (ready_tasks.length > 1 && maxParallelActions() > 1) {
+        await aiService.parallel(ready_tasks, thinkingSpan);
+      } else {
+        const payload = await aiService.choose(thinkingSpan);
+
+        const state = stateManager.getState();
+        if (state.config.current_tool?.name === FINAL_ANSWER_TOOL) {
+          observer.endSpan(thinkingSpan.id);
+          break;
+        }
 
-      const payload = await aiService.use(thinkingSpan);
-      if (payload) {
-        await aiService.act(payload, thinkingSpan);
+        if (payload && requiresApproval(state.config.current_tool?.name ?? 'unknown', payload.action)) {
+          await aiService.requestApproval(payload);
+        } else if (payload) {
+          await aiService.act(payload, thinkingSpan);
+        }
+      }
+
+      if (stateManager.getState().config.current_phase === 'awaiting_approval') {
+        observer.endSpan(thinkingSpan.id);
+        break;
       }
 
       stateManager.updateConfig({
@@ -143,33 +287,43 @@ export const aiService = {
     const state = stateManager.getState();
     const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
 
+    const [environmentPrompt, generalContextPrompt] = await Promise.all([
+      promptService.render('agent.environment', state),
+      promptService.render('agent.context', state)
+    ]);
+
     const environmentMessages: CoreMessage[] = [
-      {role: 'system', content: environmentPrompt(state)},
+      {role: 'system', content: environmentPrompt.content},
       {role: 'user', content: user_message}
     ];
 
     const generalContextMessages: CoreMessage[] = [
-      {role: 'system', content: generalContextPrompt(state)},
+      {role: 'system', content: generalContextPrompt.content},
       {role: 'user', content: user_message}
     ];
 
+    const environmentRoute = phaseRoute(state, 'environment');
+    const contextRoute = phaseRoute(state, 'context');
+
     const envGeneration = span.generation({
       name: 'environment',
       input: environmentMessages,
-      model: state.config.alt_model
+      model: environmentRoute.model,
+      ...promptService.tags(environmentPrompt)
     });
 
     const contextGeneration = span.generation({
       name: 'context',
       input: generalContextMessages,
-      model: state.config.alt_model
+      model: contextRoute.model,
+      ...promptService.tags(generalContextPrompt)
     });
 
     const [environmentObservation, generalContextObservation] = await Promise.all([
       completion.object<AgentThoughts['environment']>({
         messages: environmentMessages,
-        model: state.config.alt_model ?? state.config.model,
-        temperature: 0,
+        ...environmentRoute,
+        schema: environmentSchema,
         user: {
           uuid: state.config.user_uuid || '',
           name: state.profile.user_name
@@ -177,8 +331,8 @@ export const aiService = {
       }),
       completion.object<AgentThoughts['context']>({
         messages: generalContextMessages,
-        model: state.config.alt_model ?? state.config.model,
-        temperature: 0,
+        ...contextRoute,
+        schema: contextSchema,
         user: {
           uuid: state.config.user_uuid || '',
           name: state.profile.user_name
@@ -191,6 +345,8 @@ export const aiService = {
       context: generalContextObservation?.result ?? ''
     });
 
+    stateManager.emit({type: 'observation', environment: environmentObservation?.result ?? '', context: generalContextObservation?.result ?? ''});
+
     await Promise.all([envGeneration.end({output: environmentObservation}), contextGeneration.end({output: generalContextObservation})]);
 
     return stateManager.getState();
@@ -212,33 +368,43 @@ export const aiService = {
     const state = stateManager.getState();
     const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
 
+    const [toolsPrompt, memoryPrompt] = await Promise.all([
+      promptService.render('agent.tools', state),
+      promptService.render('agent.memory', state)
+    ]);
+
     const toolsMessages: CoreMessage[] = [
-      {role: 'system', content: toolsPrompt(state)},
+      {role: 'system', content: toolsPrompt.content},
       {role: 'user', content: user_message}
     ];
 
     const memoryMessages: CoreMessage[] = [
-      {role: 'system', content: memoryPrompt(state)},
+      {role: 'system', content: memoryPrompt.content},
       {role: 'user', content: user_message}
     ];
 
+    const toolsRoute = phaseRoute(state, 'tools');
+    const memoryRoute = phaseRoute(state, 'memory');
+
     const toolsGeneration = span.generation({
       name: 'tools',
       input: toolsMessages,
-      model: state.config.alt_model ?? state.config.model
+      model: toolsRoute.model,
+      ...promptService.tags(toolsPrompt)
     });
 
     const memoryGeneration = span.generation({
       name: 'memory',
       input: memoryMessages,
-      model: state.config.alt_model ?? state.config.model
+      model: memoryRoute.model,
+      ...promptService.tags(memoryPrompt)
     });
 
     const [toolsObservation, memoryObservation] = await Promise.all([
       completion.object<AgentThoughts['tools']>({
         messages: toolsMessages,
-        model: state.config.alt_model ?? state.config.model,
-        temperature: 0,
+        ...toolsRoute,
+        schema: toolsSchema,
         user: {
           uuid: state.config.user_uuid || '',
           name: state.profile.user_name
@@ -246,8 +412,8 @@ export const aiService = {
       }),
       completion.object<AgentThoughts['memory']>({
         messages: memoryMessages,
-        model: state.config.alt_model ?? state.config.model,
-        temperature: 0,
+        ...memoryRoute,
+        schema: memorySchema,
         user: {
           uuid: state.config.user_uuid || '',
           name: state.profile.user_name
@@ -260,6 +426,8 @@ export const aiService = {
       memory: memoryObservation?.result ?? []
     });
 
+    stateManager.emit({type: 'draft', tools: toolsObservation?.result ?? [], memory: memoryObservation?.result ?? []});
+
     await Promise.all([toolsGeneration.end({output: toolsObservation}), memoryGeneration.end({output: memoryObservation})]);
 
     return stateManager.getState();
@@ -281,23 +449,26 @@ export const aiService = {
 
     const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
 
+    const taskPrompt = await promptService.render('agent.task', state);
+
     const taskMessages: CoreMessage[] = [
-      {role: 'system', content: taskPrompt(state)},
+      {role: 'system', content: taskPrompt.content},
       {role: 'user', content: user_message}
     ];
 
+    const route = phaseRoute(state, 'task_planning');
+
     const task_generation = span.generation({
       name: 'task_planning',
       input: taskMessages,
-      // NOTE: Never use 'gemini-2.0-flash'.
-      model: 'gemini-2.5-flash'
+      model: route.model,
+      ...promptService.tags(taskPrompt)
     });
 
     const taskPlanning = await completion.object<AgentThoughts['task']>({
       messages: taskMessages,
-      // NOTE: Never use 'gemini-2.0-flash'.
-      model: 'gemini-2.5-flash',
-      temperature: 0,
+      ...route,
+      schema: taskSchema,
       user: {
         uuid: state.config.user_uuid || '',
         name: state.profile.user_name
@@ -310,6 +481,11 @@ export const aiService = {
       tasks: persisted_tasks
     });
 
+    stateManager.emit({
+      type: 'plan',
+      tasks: persisted_tasks.map(({uuid, name, description, status}) => ({uuid, name, description, status}))
+    });
+
     await task_generation.end({output: taskPlanning});
 
     return stateManager.getState();
@@ -319,6 +495,7 @@ export const aiService = {
    * Selects the next action to take based on current tasks and context
    * Chooses appropriate tools and creates action records for execution
    * @param span - Langfuse span client for tracing the action selection phase
+   * @param options - Set `task_uuid` to select the action for that task only (used for parallel execution)
    * @returns Promise that resolves to the selected action or undefined if no action needed
    * @example
    * ```typescript
@@ -328,44 +505,47 @@ export const aiService = {
    * }
    * ```
    */
-  next: async (span: LangfuseSpanClient) => {
+  next: async (span: LangfuseSpanClient, {task_uuid}: {task_uuid?: string} = {}) => {
     const state = stateManager.getState();
     const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
 
+    const actionPrompt = await promptService.render('agent.action', state);
+
     const actionMessages: CoreMessage[] = [
-      {role: 'system', content: actionPrompt(state)},
+      {role: 'system', content: actionPrompt.content},
+      ...(task_uuid
+        ? [{role: 'system', content: `Select the next action for the task with uuid "${task_uuid}" only. Other pending tasks are handled separately.`} as CoreMessage]
+        : []),
       {role: 'user', content: user_message}
     ];
 
+    const route = phaseRoute(state, 'action_selection');
+
     const action_generation = span.generation({
       name: 'action_selection',
       input: actionMessages,
-      model: state.config.model
+      model: route.model,
+      ...promptService.tags(actionPrompt)
     });
 
-    const actionPlanning = await completion.object<{
-      _thinking: string;
-      result: {
-        name: string;
-        tool_name: string;
-        task_uuid: string;
-      };
-    }>({
+    const actionPlanning = await completion.object({
       messages: actionMessages,
-      model: state.config.model,
-      temperature: 0,
+      ...route,
+      schema: actionSchema,
       user: {
         uuid: state.config.user_uuid || '',
         name: state.profile.user_name
       }
     });
 
-    if (!actionPlanning?.result) {
+    const selection = actionPlanning?.result;
+
+    if (!selection) {
       await action_generation.end({output: null});
       return;
     }
 
-    const selected_tool = state.session.tools.find(tool => tool.name === actionPlanning.result.tool_name);
+    const selected_tool = state.session.tools.find(tool => tool.name === selection.tool_name);
 
     if (!selected_tool) {
       await action_generation.end({output: null});
@@ -377,48 +557,189 @@ export const aiService = {
       return;
     }
 
-    const action: Action = {
-      uuid: crypto.randomUUID(),
-      task_uuid: actionPlanning.result.task_uuid,
-      tool_uuid: selected_tool.uuid,
-      name: actionPlanning.result.name,
-      payload: null,
-      sequence: state.config.step,
-      status: 'pending' as const
-    };
+    const action = await startAction({uuid: selected_tool.uuid, name: selected_tool.name}, {
+      name: selection.name,
+      task_uuid: task_uuid ?? selection.task_uuid
+    });
 
-    const persisted_action = await actionService.createAction(action);
+    await action_generation.end({output: actionPlanning});
 
-    const current_task = state.interaction.tasks.find(task => task.uuid === action.task_uuid);
-    if (current_task) {
-      const updated_tasks = state.interaction.tasks.map(task =>
-        task.uuid === current_task.uuid
-          ? {
-              ...task,
-              actions: [...(task.actions || []), mapActionRecordToAction(persisted_action)]
-            }
-          : task
-      );
+    return action;
+  },
 
-      stateManager.updateInteraction({tasks: updated_tasks});
+  /**
+   * Selects the next action and generates its payload with one native function call (native tool mode)
+   * The session tools are offered as functions with their payload schemas, so the model picks the tool,
+   * the action and its payload in a single round-trip instead of the two JSON prompts of `next` and `use`.
+   * The tool is only known after the call, so context is loaded up front for the tools the draft phase expects
+   * @param span - Langfuse span client for tracing the tool call
+   * @param options - Restrict the call to one task (used when tasks run in parallel)
+   * @returns Promise that resolves to the tool use payload, or null for the final answer or when no tool was found
+   * @example
+   * ```typescript
+   * const payload = await aiService.call(span);
+   * if (payload) {
+   *   await aiService.act(payload, span);
+   * }
+   * ```
+   */
+  call: async (span: LangfuseSpanClient, {task_uuid}: {task_uuid?: string} = {}): Promise<ToolUsePayload | null> => {
+    for (const tool_name of new Set(stateManager.getState().thoughts.tools.map(thought => thought.tool))) {
+      await loadToolContext(tool_name);
     }
 
-    await stateManager.updateConfig({
-      current_action: {uuid: action.uuid, name: action.name},
-      current_tool: {uuid: selected_tool.uuid, name: selected_tool.name},
-      current_task: current_task
-        ? {
-            uuid: current_task.uuid,
-            name: current_task.name
-          }
-        : undefined
+    const state = stateManager.getState();
+    const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
+
+    const callPrompt = await promptService.render('agent.call', state);
+
+    const callMessages: CoreMessage[] = [
+      {role: 'system', content: callPrompt.content},
+      ...(task_uuid
+        ? [{role: 'system', content: `Take the next action for the task with uuid "${task_uuid}" only. Other pending tasks are handled separately.`} as CoreMessage]
+        : []),
+      {role: 'user', content: user_message}
+    ];
+
+    const route = phaseRoute(state, 'action_selection');
+
+    const call_generation = span.generation({
+      name: 'tool_call',
+      input: callMessages,
+      model: route.model,
+      ...promptService.tags(callPrompt)
     });
 
-    const updatedState = stateManager.getState();
+    const call = await completion.toolCall({
+      messages: callMessages,
+      ...route,
+      tools: buildNativeTools(state.session.tools),
+      user: {
+        uuid: state.config.user_uuid || '',
+        name: state.profile.user_name
+      }
+    });
 
-    await action_generation.end({output: actionPlanning});
+    const {tool: tool_name, action: action_name} = parseNativeToolName(call.name);
+    const input = call.input as {task_uuid: string; name: string; payload?: Record<string, unknown>};
+    const selected_tool = state.session.tools.find(tool => tool.name === tool_name);
 
-    return action;
+    if (!selected_tool?.uuid) {
+      await call_generation.end({output: null});
+      return null;
+    }
+
+    await startAction({uuid: selected_tool.uuid, name: selected_tool.name}, {
+      name: input.name,
+      task_uuid: task_uuid ?? input.task_uuid
+    });
+
+    await call_generation.end({output: call});
+
+    if (tool_name === FINAL_ANSWER_TOOL) {
+      return null;
+    }
+
+    const payload: ToolUsePayload = {action: action_name, payload: input.payload ?? {}};
+    await recordPayload(payload);
+
+    return payload;
+  },
+
+  /**
+   * Chooses the next action and its payload in the tool mode of the run
+   * Classic mode selects the action (`next`) and then generates its payload (`use`); native mode does both in one function call (`call`)
+   * @param span - Langfuse span client of the current reasoning step
+   * @param options - Restrict the choice to one task (used when tasks run in parallel)
+   * @returns Promise that resolves to the tool use payload, or null for the final answer or when no action was chosen
+   * @example
+   * ```typescript
+   * const payload = await aiService.choose(span);
+   * if (stateManager.getState().config.current_tool?.name === 'final_answer') {
+   *   // the loop is done
+   * }
+   * ```
+   */
+  choose: async (span: LangfuseSpanClient, {task_uuid}: {task_uuid?: string} = {}): Promise<ToolUsePayload | null> => {
+    if (stateManager.getState().config.tool_mode === 'native') {
+      return aiService.call(span, {task_uuid});
+    }
+
+    const action = await aiService.next(span, {task_uuid});
+    if (!action || stateManager.getState().config.current_tool?.name === FINAL_ANSWER_TOOL) {
+      return null;
+    }
+
+    return aiService.use(span);
+  },
+
+  /**
+   * Executes one action for each of the given independent tasks concurrently
+   * Every task runs in its own branch of the agent state and shows up as a sibling span under the current step.
+   * Results are merged back in plan order, so the state does not depend on which action finished first.
+   * Actions that need approval are not executed: the first one pauses the run, the others are discarded and their
+   * tasks stay pending, so they are planned again once the run resumes.
+   * @param ready_tasks - Pending tasks whose dependencies are completed
+   * @param span - Langfuse span client of the current reasoning step
+   * @returns Promise that resolves once every branch has finished and the state is merged
+   * @throws The first error of a failed branch, after the results of the other branches are merged
+   * @example
+   * ```typescript
+   * await aiService.parallel(getReadyTasks(), span);
+   * ```
+   */
+  parallel: async (ready_tasks: Task[], span: LangfuseSpanClient) => {
+    const initial_state = stateManager.getState();
+    const tool_context_length = initial_state.interaction.tool_context.length;
+
+    const runBranch = (task: Task) =>
+      stateManager.fork(async (): Promise<BranchResult> => {
+        const branchSpan = observer.startSpan(`task: ${task.name}`, {phase: 'parallel_action', task_uuid: task.uuid}, span.id);
+
+        try {
+          const payload = await aiService.choose(branchSpan, {task_uuid: task.uuid});
+          if (!payload) {
+            return {tool_context: []};
+          }
+
+          const {config, interaction} = stateManager.getState();
+          const tool_context = interaction.tool_context.slice(tool_context_length);
+
+          if (requiresApproval(config.current_tool?.name ?? 'unknown', payload.action)) {
+            const {current_action, current_tool, current_task} = config;
+            return {tool_context, approval: {payload, config: {current_action, current_tool, current_task}}};
+          }
+
+          await aiService.act(payload, branchSpan);
+
+          return {tool_context};
+        } finally {
+          observer.endSpan(branchSpan.id);
+        }
+      });
+
+    const results = await settleWithConcurrency(ready_tasks, maxParallelActions(), runBranch);
+    const branches = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+
+    // Only one action can wait for approval at a time; the others go back to the queue as if they were never chosen
+    const [approval, ...deferred] = branches.flatMap(branch => (branch.approval ? [branch.approval] : []));
+    await Promise.all(deferred.map(({config}) => actionService.discardPendingAction(config.current_action!.uuid)));
+
+    const persisted_tasks = await taskService.findByConversationId(initial_state.config.conversation_uuid!);
+    stateManager.updateInteraction({
+      tasks: persisted_tasks,
+      tool_context: [...initial_state.interaction.tool_context, ...branches.flatMap(branch => branch.tool_context)]
+    });
+
+    const failed = results.find(result => result.status === 'rejected');
+    if (failed) {
+      throw failed.reason;
+    }
+
+    if (approval) {
+      stateManager.updateConfig(approval.config);
+      await aiService.requestApproval(approval.payload);
+    }
   },
 
   /**
@@ -435,43 +756,31 @@ export const aiService = {
    * ```
    */
   use: async (span: LangfuseSpanClient) => {
-    let state = stateManager.getState();
-    const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
+    await loadToolContext(stateManager.getState().config.current_tool?.name);
 
-    if (state.config.current_tool?.name === 'linear') {
-      const linearContext = await linearService.getRecentTasksContext();
-      stateManager.updateInteraction({
-        tool_context: [...(stateManager.getState().interaction.tool_context || []), linearContext]
-      });
-    } else if (state.config.current_tool?.name === 'calendar') {
-      const calendarContext = await calendarService.getRecentEventsContext();
-      stateManager.updateInteraction({
-        tool_context: [...(stateManager.getState().interaction.tool_context || []), calendarContext]
-      });
-    } else if (state.config.current_tool?.name === 'memory') {
-      const memoryContext = await memoryService.getRecentMemoriesContext();
-      stateManager.updateInteraction({
-        tool_context: [...(stateManager.getState().interaction.tool_context || []), memoryContext]
-      });
-    }
+    const state = stateManager.getState();
+    const user_message = state.interaction.messages.at(-1)?.content ?? 'Hello';
 
-    state = stateManager.getState();
+    const usePrompt = await promptService.render('agent.use', state);
 
     const useMessages: CoreMessage[] = [
-      {role: 'system', content: usePrompt(state)},
+      {role: 'system', content: usePrompt.content},
       {role: 'user', content: user_message}
     ];
 
+    const route = phaseRoute(state, 'tool_use');
+
     const use_generation = span.generation({
       name: 'tool_use',
       input: useMessages,
-      model: state.config.model
+      model: route.model,
+      ...promptService.tags(usePrompt)
     });
 
     const toolUse = await completion.object<ToolUseResponse>({
       messages: useMessages,
-      model: state.config.model,
-      temperature: 0,
+      ...route,
+      schema: toolUseSchema,
       user: {
         uuid: state.config.user_uuid || '',
         name: state.profile.user_name
@@ -483,32 +792,59 @@ export const aiService = {
       return null;
     }
 
-    if (state.config.current_action?.uuid) {
-      const updated_action = await actionService.updateAction(state.config.current_action.uuid, {
-        payload: toolUse.result.payload,
-        status: 'pending'
-      });
-
-      const current_task = state.interaction.tasks.find(t => t.uuid === state.config.current_task?.uuid);
-      if (current_task) {
-        const updated_tasks: Task[] = state.interaction.tasks.map((task: Task) =>
-          task.uuid === current_task.uuid
-            ? {
-                ...task,
-                actions: task.actions.map(action => (action.uuid === updated_action.uuid ? mapActionRecordToAction(updated_action) : action))
-              }
-            : task
-        );
-
-        stateManager.updateInteraction({tasks: updated_tasks});
-      }
-    }
+    await recordPayload(toolUse.result);
 
     await use_generation.end({output: toolUse});
 
     return toolUse.result;
   },
 
+  /**
+   * Pauses the run on the current action until the user approves, edits or rejects it
+   * Stores a checkpoint of the run with the action so it can resume exactly where it stopped
+   * @param payload - Tool use payload the action would run with
+   * @returns Promise that resolves once the action is marked as awaiting approval
+   * @example
+   * ```typescript
+   * await aiService.requestApproval({action: 'send_email', payload: {to: 'jane@example.com'}});
+   * ```
+   */
+  requestApproval: async ({action, payload}: ToolUsePayload) => {
+    const state = stateManager.getState();
+    const action_uuid = state.config.current_action?.uuid;
+    if (!action_uuid) {
+      throw new Error('No current action to approve');
+    }
+
+    const checkpoint: AgentCheckpoint = {
+      action,
+      state: {
+        config: {...state.config, current_phase: 'awaiting_approval'},
+        thoughts: state.thoughts,
+        profile: state.profile,
+        interaction: {messages: state.interaction.messages, tool_context: state.interaction.tool_context}
+      }
+    };
+
+    await actionService.awaitApproval(action_uuid, checkpoint);
+
+    stateManager.updateInteraction({
+      tasks: state.interaction.tasks.map(task => ({
+        ...task,
+        actions: task.actions.map(item => (item.uuid === action_uuid ? {...item, payload, status: 'awaiting_approval'} : item))
+      }))
+    });
+    stateManager.updateConfig({current_phase: 'awaiting_approval'});
+
+    stateManager.emit({
+      type: 'approval_required',
+      action_uuid,
+      tool: state.config.current_tool?.name ?? 'unknown',
+      action,
+      payload
+    });
+  },
+
   /**
    * Executes the selected tool with the generated payload
    * Handles tool execution, result processing, and state updates
@@ -547,6 +883,13 @@ export const aiService = {
         });
       }
 
+      stateManager.emit({
+        type: 'tool_result',
+        action_uuid: state.config.current_action?.uuid ?? null,
+        tool: current_tool?.name ?? 'unknown',
+        document: result
+      });
+
       await span.event({
         name: `${current_tool?.name.toLowerCase()}_execution_complete`,
         input: {action, payload},
@@ -563,9 +906,192 @@ export const aiService = {
     } catch (error) {
       throw error;
     }
+  },
+
+  /**
+   * Generates the final answer for the user from everything gathered during the loop
+   * Uses the answer prompt with the performed tasks, their action results and recalled memories
+   * When streaming, every chunk is published as an `answer_token` event of the current run
+   * @param span - Langfuse span client for tracing the answer generation
+   * @param options - Set `stream` to generate the answer token by token
+   * @returns Promise that resolves to the final answer text
+   * @example
+   * ```typescript
+   * const answer = await aiService.answer(span);
+   * await setAssistantResponse({conversation_id, response: answer});
+   * ```
+   */
+  answer: async (span: LangfuseSpanClient | LangfuseTraceClient, {stream = false}: {stream?: boolean} = {}) => {
+    const state = stateManager.getState();
+
+    const answerPrompt = await promptService.render('agent.answer', state);
+
+    // System messages of the history hold the summary of its older, compacted turns
+    const answerMessages: CoreMessage[] = [
+      {role: 'system', content: answerPrompt.content},
+      ...(state.interaction.messages.filter(message => message.role !== 'tool') as CoreMessage[])
+    ];
+
+    // A soft budget stopped the loop early, so the answer has to say what was left undone
+    const budget = usageService.getBudgetStatus();
+    if (budget) {
+      answerMessages.push({
+        role: 'system',
+        content: `The usage budget for this ${budget.scope} was reached, so you stopped before finishing every task. Briefly tell ${state.profile.user_name} what is still left to do.`
+      });
+    }
+
+    const route = phaseRoute(state, 'answer');
+
+    const answer_generation = span.generation({
+      name: 'answer',
+      input: answerMessages,
+      model: route.model,
+      ...promptService.tags(answerPrompt)
+    });
+
+    const answerConfig = {
+      messages: answerMessages,
+      ...route,
+      user: {
+        uuid: state.config.user_uuid || '',
+        name: state.profile.user_name
+      }
+    };
+
+    let answer = '';
+    if (stream) {
+      for await (const chunk of await completion.stream(answerConfig)) {
+        answer += chunk;
+        stateManager.emit({type: 'answer_token', text: chunk});
+      }
+    } else {
+      answer = (await completion.text(answerConfig)) as string;
+    }
+
+    const final_task = state.interaction.tasks.find(task => task.type === 'final');
+    if (final_task) {
+      await Promise.all([taskService.updateTaskStatus(final_task.uuid, 'completed'), taskService.updateTaskResult(final_task.uuid, answer)]);
+    }
+
+    await answer_generation.end({output: answer});
+
+    return answer;
   }
 };
 
+// Model settings of a phase from the run's routing; the request's max_tokens only limits the answer
+const phaseRoute = (state: State, phase: AgentPhase) => ({
+  ...resolvePhaseRoute(state.config.model_routing, phase, {
+    model: state.config.model,
+    temperature: state.config.temperature,
+    max_tokens: phase === 'answer' ? state.config.max_tokens : undefined
+  }),
+  cache: {phase, bypass: state.config.cache_bypass}
+});
+
+// Linear, calendar and memory payloads refer to existing records, so their recent ones are loaded as tool context
+const loadToolContext = async (tool_name: string | undefined) => {
+  let context: DocumentType | undefined;
+  if (tool_name === 'linear') {
+    context = await linearService.getRecentTasksContext();
+  } else if (tool_name === 'calendar') {
+    context = await calendarService.getRecentEventsContext();
+  } else if (tool_name === 'memory') {
+    context = await memoryService.getRecentMemoriesContext();
+  }
+
+  if (context) {
+    stateManager.updateInteraction({
+      tool_context: [...(stateManager.getState().interaction.tool_context || []), context]
+    });
+  }
+};
+
+// Persists a chosen action, attaches it to its task and makes it the current action of the run
+const startAction = async (tool: {uuid: string; name: string}, {name, task_uuid}: {name: string; task_uuid: string}): Promise<Action> => {
+  const state = stateManager.getState();
+  const action: Action = {
+    uuid: crypto.randomUUID(),
+    task_uuid,
+    tool_uuid: tool.uuid,
+    name,
+    payload: null,
+    sequence: state.config.step,
+    status: 'pending' as const
+  };
+
+  const persisted_action = await actionService.createAction(action);
+
+  const current_task = state.interaction.tasks.find(task => task.uuid === action.task_uuid);
+  if (current_task) {
+    const updated_tasks = state.interaction.tasks.map(task =>
+      task.uuid === current_task.uuid
+        ? {
+            ...task,
+            actions: [...(task.actions || []), mapActionRecordToAction(persisted_action)]
+          }
+        : task
+    );
+
+    stateManager.updateInteraction({tasks: updated_tasks});
+  }
+
+  await stateManager.updateConfig({
+    current_action: {uuid: action.uuid, name: action.name},
+    current_tool: {uuid: tool.uuid, name: tool.name},
+    current_task: current_task
+      ? {
+          uuid: current_task.uuid,
+          name: current_task.name
+        }
+      : undefined
+  });
+
+  stateManager.emit({
+    type: 'action',
+    action: {uuid: action.uuid, name: action.name},
+    tool: {uuid: tool.uuid, name: tool.name},
+    task: current_task ? {uuid: current_task.uuid, name: current_task.name} : null
+  });
+
+  return action;
+};
+
+// Stores the payload on the current action and publishes it
+const recordPayload = async (result: ToolUsePayload) => {
+  const state = stateManager.getState();
+
+  if (state.config.current_action?.uuid) {
+    const updated_action = await actionService.updateAction(state.config.current_action.uuid, {
+      payload: result.payload,
+      status: 'pending'
+    });
+
+    const current_task = state.interaction.tasks.find(t => t.uuid === state.config.current_task?.uuid);
+    if (current_task) {
+      const updated_tasks: Task[] = state.interaction.tasks.map((task: Task) =>
+        task.uuid === current_task.uuid
+          ? {
+              ...task,
+              actions: task.actions.map(action => (action.uuid === updated_action.uuid ? mapActionRecordToAction(updated_action) : action))
+            }
+          : task
+      );
+
+      stateManager.updateInteraction({tasks: updated_tasks});
+    }
+  }
+
+  stateManager.emit({
+    type: 'payload',
+    action_uuid: state.config.current_action?.uuid ?? null,
+    tool: state.config.current_tool?.name ?? 'unknown',
+    action: result.action,
+    payload: result.payload
+  });
+};
+
 /**
  * Maps database action record to Action type
  * Converts database record format to the internal Action interface
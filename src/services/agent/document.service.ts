@@ -30,7 +30,8 @@ const DocumentMetadataSchema = z.object({
   should_index: z.boolean().optional(),
   updated_at: z.string().optional(),
   category: z.string().optional(),
-  subcategory: z.string().optional()
+  subcategory: z.string().optional(),
+  history: z.object({block: z.number(), messages: z.number(), fingerprint: z.string()}).optional()
 });
 
 export interface DocumentType extends Omit<Document, 'metadata'> {
@@ -0,0 +1,237 @@
+/**
+ * Token-aware assembly of the conversation history sent to a model
+ * History that fits its share of the model context window is sent verbatim. Longer history keeps the most recent
+ * messages and replaces the older ones by a rolling summary: messages are folded into it block by block, and every
+ * step is stored as a conversation document. A step is regenerated when a message it covers, or an earlier step,
+ * has changed since, so edited and deleted messages never linger in the summary
+ * @module history.service
+ */
+
+import {createHash} from 'crypto';
+import type {CoreMessage} from 'ai';
+import {and, eq} from 'drizzle-orm';
+import {db} from '../../database';
+import {conversationDocuments, documents} from '../../schema';
+import type {Message} from '../../schema/message';
+import {messageService} from './message.service';
+import {documentService, type DocumentType} from './document.service';
+import {completion} from '../common/llm.service';
+import {createTokenizer} from '../common/text.service';
+import {createLogger} from '../common/logger.service';
+import {getHistorySettings, historyBudget} from '../../config/history.config';
+import {promptService} from '../common/prompt.service';
+
+const log = createLogger('HistoryService');
+
+const SUMMARY_NAME = 'conversation_summary';
+
+// Rough cost of an image, audio or file part; the tokenizer only sees text
+const ATTACHMENT_TOKENS = 1_000;
+
+const SUMMARY_MAX_TOKENS = 1_024;
+
+interface AssembleOptions {
+  /** Model the history is sent to; sets the token budget and writes the summaries */
+  model: string;
+  user: {uuid: string; name: string};
+}
+
+type Tokenizer = Pick<Awaited<ReturnType<typeof createTokenizer>>, 'countTokens'>;
+
+// Used while the tokenizer cannot be loaded, e.g. when its encoding cannot be downloaded
+const approximateTokenizer: Tokenizer = {countTokens: text => Math.ceil(text.length / 4)};
+
+const tokenizers = new Map<string, Promise<Tokenizer>>();
+
+const tokenizerFor = (model: string) => {
+  if (!tokenizers.has(model)) {
+    tokenizers.set(
+      model,
+      createTokenizer(model).catch(error => {
+        log.warn('Tokenizer unavailable, approximating token counts', {model, error: error instanceof Error ? error.message : String(error)});
+        tokenizers.delete(model);
+        return approximateTokenizer;
+      })
+    );
+  }
+  return tokenizers.get(model)!;
+};
+
+const attachmentNames = (message: Message): string[] =>
+  Array.isArray(message.multipart)
+    ? message.multipart
+        .filter((part: any) => part?.type === 'image' || part?.type === 'file')
+        .map((part: any) => part.filename ?? part.type)
+    : [];
+
+const toCoreMessage = (message: Message) =>
+  ({
+    role: message.role,
+    content: message.content_type === 'multi_part' ? message.multipart : message.content
+  }) as CoreMessage;
+
+const isSent = (message: Message) =>
+  message.role !== 'tool' &&
+  (message.content_type === 'multi_part' ? Array.isArray(message.multipart) && message.multipart.length > 0 : !!message.content);
+
+const countTokens = (tokenizer: Tokenizer, message: Message) =>
+  tokenizer.countTokens(message.content ?? '') + attachmentNames(message).length * ATTACHMENT_TOKENS;
+
+const fingerprint = (previous: string | null, block: Message[]) =>
+  createHash('sha256')
+    .update(JSON.stringify([previous, block.map(message => [message.uuid, message.updated_at, message.role, message.content, message.multipart])]))
+    .digest('hex');
+
+const transcript = (block: Message[]) =>
+  block
+    .map(message => {
+      const attachments = attachmentNames(message).map(name => `[attachment: ${name}]`);
+      return `${message.role.toUpperCase()}: ${[message.content ?? '', ...attachments].filter(Boolean).join(' ')}`;
+    })
+    .join('\n\n');
+
+const summaryMessage = (summary: string): CoreMessage => ({
+  role: 'system',
+  content: `<conversation_summary>\nOlder messages of this conversation are not shown; this is their summary:\n${summary}\n</conversation_summary>`
+});
+
+const findSummaries = async (conversation_uuid: string): Promise<DocumentType[]> => {
+  const rows = await db
+    .select({document: documents})
+    .from(conversationDocuments)
+    .innerJoin(documents, eq(conversationDocuments.document_uuid, documents.uuid))
+    .where(eq(conversationDocuments.conversation_uuid, conversation_uuid));
+
+  return rows
+    .map(row => documentService.mapToDocumentType(row.document))
+    .filter(document => document.metadata.name === SUMMARY_NAME && document.metadata.history);
+};
+
+const removeSummary = async (conversation_uuid: string, document: DocumentType) => {
+  try {
+    await db
+      .delete(conversationDocuments)
+      .where(and(eq(conversationDocuments.conversation_uuid, conversation_uuid), eq(conversationDocuments.document_uuid, document.uuid)));
+    await documentService.deleteDocument(document.uuid);
+  } catch (error) {
+    log.warn('Stale history summary could not be removed', {
+      document_uuid: document.uuid,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+/**
+ * Folds the given messages into the rolling summary, reusing the stored steps that are still valid
+ * @returns Summary of all given messages
+ */
+const rollSummary = async (
+  conversation_uuid: string,
+  summarized: Message[],
+  block_size: number,
+  {model, user}: AssembleOptions
+): Promise<string> => {
+  const stored = await findSummaries(conversation_uuid);
+  const by_block = new Map(stored.map(document => [document.metadata.history!.block, document]));
+
+  let previous: {text: string; fingerprint: string} | null = null;
+  const blocks = Math.ceil(summarized.length / block_size);
+
+  for (let block = 0; block < blocks; block++) {
+    const messages = summarized.slice(block * block_size, (block + 1) * block_size);
+    const step_fingerprint = fingerprint(previous?.fingerprint ?? null, messages);
+    const document = by_block.get(block);
+
+    if (document?.metadata.history?.fingerprint === step_fingerprint) {
+      previous = {text: document.text, fingerprint: step_fingerprint};
+      continue;
+    }
+
+    const historyPrompt = await promptService.render(
+      'agent.history',
+      {previous_summary: previous?.text ?? null},
+      {user_uuid: user.uuid, conversation_uuid}
+    );
+
+    const text = (await completion.text({
+      model,
+      messages: [
+        {role: 'system', content: historyPrompt.content},
+        {role: 'user', content: transcript(messages)}
+      ],
+      temperature: 0,
+      max_tokens: SUMMARY_MAX_TOKENS,
+      user
+    })) as string;
+
+    const history = {block, messages: (block + 1) * block_size, fingerprint: step_fingerprint};
+    if (document) {
+      log.info('Regenerating history summary after changed messages', {conversation_uuid, block});
+      await documentService.updateDocument(document.uuid, {text, metadata_override: {history}});
+    } else {
+      const created = await documentService.createDocument({
+        conversation_uuid,
+        source_uuid: conversation_uuid,
+        text,
+        name: SUMMARY_NAME,
+        description: `Summary of the first ${history.messages} messages`,
+        metadata_override: {source: 'history', history}
+      });
+      await db.insert(conversationDocuments).values({conversation_uuid, document_uuid: created.uuid});
+    }
+
+    previous = {text, fingerprint: step_fingerprint};
+  }
+
+  // Steps past the current chain are left over from deleted messages
+  await Promise.all(stored.filter(document => document.metadata.history!.block >= blocks).map(document => removeSummary(conversation_uuid, document)));
+
+  return previous?.text ?? '';
+};
+
+/**
+ * Conversation history service
+ * @namespace historyService
+ */
+export const historyService = {
+  /**
+   * Loads the history of a conversation, compacted to fit the model context window
+   * Tool messages and empty messages are left out. Over budget, full blocks of messages before the recent ones are
+   * replaced by a summary, sent as a system message first; if that is still too long, the oldest verbatim
+   * messages are dropped, always keeping the last one
+   * @param conversation_uuid - Conversation to load
+   * @param options - Target model and the user the summary calls are made for
+   * @returns Messages to send to the model
+   */
+  assemble: async (conversation_uuid: string, options: AssembleOptions): Promise<CoreMessage[]> => {
+    const records = (await messageService.findRecordsByConversationId(conversation_uuid)).filter(isSent);
+    const settings = getHistorySettings();
+    if (!settings.enabled) return records.map(toCoreMessage);
+
+    const budget = historyBudget(settings, options.model);
+    const tokenizer = await tokenizerFor(options.model);
+    const tokens = records.map(record => countTokens(tokenizer, record));
+    const total = tokens.reduce((sum, count) => sum + count, 0);
+    if (total <= budget) return records.map(toCoreMessage);
+
+    const older = Math.max(records.length - settings.recent_messages, 0);
+    const summarized = older - (older % settings.summary_block);
+    const summary = summarized ? await rollSummary(conversation_uuid, records.slice(0, summarized), settings.summary_block, options) : '';
+
+    let used = summary ? tokenizer.countTokens(summary) : 0;
+    let first = summarized;
+    let remaining = tokens.slice(summarized).reduce((sum, count) => sum + count, 0);
+    while (used + remaining > budget && first < records.length - 1) {
+      remaining -= tokens[first];
+      first++;
+    }
+    used += remaining;
+
+    if (first > summarized) {
+      log.warn('History exceeds its budget even with a summary, dropping old messages', {conversation_uuid, dropped: first - summarized});
+    }
+    log.debug('History compacted', {conversation_uuid, total, budget, used, summarized, dropped: first - summarized});
+
+    return [...(summary ? [summaryMessage(summary)] : []), ...records.slice(first).map(toCoreMessage)];
+  }
+};
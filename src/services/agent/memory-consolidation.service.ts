@@ -0,0 +1,271 @@
+/**
+ * Memory consolidation
+ * Keeps the long-term memory free of repeated and outdated facts. Each checked memory is compared with the most
+ * similar memories of its category (vector search); a model decides per candidate whether to keep it, merge it into
+ * the checked memory or drop it as superseded. Replaced memories are deleted and recorded in memory_merges with
+ * their text, and their conversation links move to the memory that replaced them.
+ * Runs after every new memory and as a periodic job over the memories stored or changed since their last check
+ * @module memory-consolidation.service
+ */
+
+import {and, asc, desc, eq, gte, isNull, lt, notInArray, or, sql} from 'drizzle-orm';
+import {z} from 'zod';
+import {v4 as uuidv4} from 'uuid';
+import {db} from '../../database';
+import {memories, type Memory} from '../../schema/memory';
+import {memory_merges, type MemoryMerge} from '../../schema/memory_merges';
+import {conversationMemories} from '../../schema/conversationMemories';
+import {categoryService} from './category.service';
+import {documentService} from './document.service';
+import {memoryService} from './memory.service';
+import {stateManager} from './state.service';
+import {vectorService} from '../common/vector.service';
+import {completion, embedding} from '../common/llm.service';
+import {promptService} from '../common/prompt.service';
+import {getConsolidationSettings, planConsolidation} from '../../config/consolidation.config';
+import {memoryVerifySchema} from '../../config/agent-schemas';
+import {createLogger} from '../common/logger.service';
+
+const log = createLogger('MemoryConsolidation');
+
+export type ConsolidationTrigger = 'write' | 'job';
+
+export interface ConsolidationResult {
+  memory_uuid: string;
+  /** Memories merged into it */
+  merged: string[];
+  /** Memories it superseded */
+  superseded: string[];
+}
+
+interface Candidate {
+  memory: Memory;
+  text: string;
+  similarity: number;
+}
+
+let job_running = false;
+
+const findMemory = async (uuid: string): Promise<Memory | undefined> => {
+  const [memory] = await db.select().from(memories).where(eq(memories.uuid, uuid));
+  return memory;
+};
+
+const markChecked = async (uuid: string) => {
+  await db.update(memories).set({consolidated_at: new Date().toISOString()}).where(eq(memories.uuid, uuid));
+};
+
+/**
+ * Finds the memories of the same category that are similar enough to be duplicates
+ */
+const findCandidates = async (memory: Memory, text: string, category: {name: string; subcategory: string | null}): Promise<Candidate[]> => {
+  const {threshold, candidates} = getConsolidationSettings();
+
+  const {model} = await vectorService.getActiveCollection();
+  const results = await vectorService.searchSimilar(
+    await embedding(text, {model}),
+    {content_type: 'memory', category: category.name, ...(category.subcategory ? {subcategory: category.subcategory} : {})},
+    candidates + 1
+  );
+
+  const found: Candidate[] = [];
+  for (const result of results) {
+    if (result.score < threshold || result.payload.document_uuid === memory.document_uuid) continue;
+
+    const other = await memoryService.getMemoryByDocumentUuid(result.payload.document_uuid);
+    const document = other && (await documentService.getDocumentByUuid(other.document_uuid));
+    if (other && document) found.push({memory: other, text: document.text, similarity: result.score});
+  }
+  return found.slice(0, candidates);
+};
+
+const judge = async (memory: Memory, text: string, candidates: Candidate[]) => {
+  const state = stateManager.getState();
+  const verifyPrompt = await promptService.render('tools.memory.verify', {
+    memory: {name: memory.name, text, created_at: memory.created_at ?? ''},
+    candidates: candidates.map(candidate => ({
+      memory_uuid: candidate.memory.uuid,
+      name: candidate.memory.name,
+      text: candidate.text,
+      created_at: candidate.memory.created_at ?? '',
+      similarity: candidate.similarity
+    }))
+  });
+
+  return completion.object<z.infer<typeof memoryVerifySchema>>({
+    // NOTE: Never use 'gemini-2.0-flash'.
+    model: state.config.model ?? 'gemini-2.5-flash',
+    messages: [{role: 'system', content: verifyPrompt.content}],
+    temperature: 0,
+    schema: memoryVerifySchema,
+    user: {
+      uuid: state.config.user_uuid ?? '',
+      name: state.profile.user_name
+    }
+  });
+};
+
+/**
+ * Deletes a replaced memory after recording it; its conversations now refer to the survivor
+ */
+const replace = async (
+  candidate: Candidate,
+  survivor: Memory,
+  change: {action: 'merge' | 'supersede'; reason: string; trigger: ConsolidationTrigger}
+) => {
+  await db.insert(memory_merges).values({
+    uuid: uuidv4(),
+    survivor_memory_uuid: survivor.uuid,
+    replaced_memory_uuid: candidate.memory.uuid,
+    replaced_name: candidate.memory.name,
+    replaced_text: candidate.text,
+    action: change.action,
+    reason: change.reason,
+    similarity: candidate.similarity,
+    trigger: change.trigger,
+    created_at: new Date().toISOString()
+  });
+
+  // Conversations that already refer to the survivor keep a single link
+  const linked = db
+    .select({conversation_uuid: conversationMemories.conversation_uuid})
+    .from(conversationMemories)
+    .where(eq(conversationMemories.memory_uuid, survivor.uuid));
+  await db
+    .update(conversationMemories)
+    .set({memory_uuid: survivor.uuid})
+    .where(and(eq(conversationMemories.memory_uuid, candidate.memory.uuid), notInArray(conversationMemories.conversation_uuid, linked)));
+  await db.delete(conversationMemories).where(eq(conversationMemories.memory_uuid, candidate.memory.uuid));
+
+  // The survivor carries the fact on, so it keeps the higher importance and the recalls for retention
+  await db
+    .update(memories)
+    .set({
+      importance: sql`max(${memories.importance}, ${candidate.memory.importance})`,
+      access_count: sql`${memories.access_count} + ${candidate.memory.access_count}`
+    })
+    .where(eq(memories.uuid, survivor.uuid));
+
+  await memoryService.deleteMemory(candidate.memory.uuid);
+  await documentService.deleteDocument(candidate.memory.document_uuid);
+};
+
+/**
+ * Memory consolidation service
+ * @namespace memoryConsolidationService
+ */
+export const memoryConsolidationService = {
+  /**
+   * Compares a memory with similar memories of its category and applies the model's decision
+   * @param memory_uuid - Memory to check
+   * @param trigger - What started the check, recorded with every merge
+   * @returns Replaced memories, or null when the memory no longer exists
+   * @throws {Error} When the similarity search or the model call fails; nothing is changed then
+   */
+  async consolidate(memory_uuid: string, trigger: ConsolidationTrigger): Promise<ConsolidationResult | null> {
+    const memory = await findMemory(memory_uuid);
+    if (!memory) return null;
+
+    const result: ConsolidationResult = {memory_uuid, merged: [], superseded: []};
+
+    const [document, category] = await Promise.all([
+      documentService.getDocumentByUuid(memory.document_uuid),
+      categoryService.findByUuid(memory.category_uuid)
+    ]);
+    const candidates = document && category ? await findCandidates(memory, document.text, category) : [];
+
+    if (document && candidates.length > 0) {
+      const plan = planConsolidation(await judge(memory, document.text, candidates), candidates.map(candidate => candidate.memory.uuid));
+      const byUuid = new Map(candidates.map(candidate => [candidate.memory.uuid, candidate]));
+
+      if (plan.merged) {
+        const current_time = new Date().toISOString();
+        await documentService.updateDocument(memory.document_uuid, {
+          text: plan.merged.text,
+          metadata_override: {name: plan.merged.name || memory.name, should_index: true, updated_at: current_time},
+          updated_at: current_time
+        });
+        await memoryService.updateMemory(memory.uuid, {name: plan.merged.name || memory.name});
+      }
+
+      for (const {memory_uuid: replaced, reason} of plan.merge) {
+        await replace(byUuid.get(replaced)!, memory, {action: 'merge', reason, trigger});
+        result.merged.push(replaced);
+      }
+      for (const {memory_uuid: replaced, reason} of plan.supersede) {
+        await replace(byUuid.get(replaced)!, memory, {action: 'supersede', reason, trigger});
+        result.superseded.push(replaced);
+      }
+
+      if (result.merged.length + result.superseded.length > 0) {
+        memoryService.flushCache();
+        log.info('Memories consolidated', {...result, trigger});
+      }
+    }
+
+    // Marked after the updates, so a merged memory is not picked up again by the next job
+    await markChecked(memory_uuid);
+    return result;
+  },
+
+  /**
+   * Checks the memories stored or changed since their last check, oldest change first
+   * One job runs at a time; a memory that fails is logged and retried by the next job
+   * @returns Number of checked memories and of the memories they replaced
+   */
+  async runJob(): Promise<{checked: number; merged: number; superseded: number}> {
+    const summary = {checked: 0, merged: 0, superseded: 0};
+    if (job_running) return summary;
+
+    job_running = true;
+    try {
+      const pending = await db
+        .select({uuid: memories.uuid})
+        .from(memories)
+        .where(or(isNull(memories.consolidated_at), lt(memories.consolidated_at, memories.updated_at)))
+        .orderBy(asc(memories.updated_at))
+        .limit(getConsolidationSettings().batch_size);
+
+      for (const {uuid} of pending) {
+        try {
+          // Memories replaced earlier in this job are gone and return null
+          const result = await memoryConsolidationService.consolidate(uuid, 'job');
+          if (!result) continue;
+
+          summary.checked++;
+          summary.merged += result.merged.length;
+          summary.superseded += result.superseded.length;
+        } catch (error) {
+          log.warn('Memory consolidation failed', {memory_uuid: uuid, message: error instanceof Error ? error.message : String(error)});
+        }
+      }
+
+      if (summary.checked > 0) log.info('Consolidation job finished', summary);
+      return summary;
+    } finally {
+      job_running = false;
+    }
+  },
+
+  /**
+   * Lists recent merges for review
+   * @param options - Period in days, maximum number of rows and an optional survivor to filter by
+   * @returns Merges, newest first, with the current name of the surviving memory (null when it was deleted since)
+   */
+  async getReport({days, limit, memory_uuid}: {days: number; limit: number; memory_uuid?: string}): Promise<(MemoryMerge & {survivor_name: string | null})[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const rows = await db
+      .select({merge: memory_merges, survivor_name: memories.name})
+      .from(memory_merges)
+      .leftJoin(memories, eq(memories.uuid, memory_merges.survivor_memory_uuid))
+      .where(and(
+        gte(memory_merges.created_at, since),
+        memory_uuid ? eq(memory_merges.survivor_memory_uuid, memory_uuid) : undefined
+      ))
+      .orderBy(desc(memory_merges.created_at))
+      .limit(limit);
+
+    return rows.map(row => ({...row.merge, survivor_name: row.survivor_name}));
+  }
+};
@@ -0,0 +1,124 @@
+/**
+ * Memory retention
+ * Drops the memories that are no longer worth keeping. Each memory is scored from its importance, its recalls and
+ * the time since it was last used (see retention.config); memories scoring below the threshold are deleted with
+ * their documents by a periodic job. A dry run lists the same memories without deleting them
+ * @module memory-retention.service
+ */
+
+import {eq} from 'drizzle-orm';
+import {db} from '../../database';
+import {memories} from '../../schema/memory';
+import {categories} from '../../schema/category';
+import {conversationMemories} from '../../schema/conversationMemories';
+import {documentService} from './document.service';
+import {memoryService} from './memory.service';
+import {getRetentionSettings, resolveHalfLife, retentionScore} from '../../config/retention.config';
+import {createLogger} from '../common/logger.service';
+
+const log = createLogger('MemoryRetention');
+
+export interface RetentionCandidate {
+  memory_uuid: string;
+  document_uuid: string;
+  name: string;
+  category: string | null;
+  subcategory: string | null;
+  importance: number;
+  access_count: number;
+  last_recalled_at: string | null;
+  updated_at: string | null;
+  score: number;
+  half_life_days: number;
+}
+
+let job_running = false;
+
+/**
+ * Scores every memory and returns the ones below the threshold, lowest score first
+ */
+const findExpired = async (now: number): Promise<{checked: number; expired: RetentionCandidate[]}> => {
+  const settings = getRetentionSettings();
+
+  const rows = await db
+    .select({memory: memories, category: categories.name, subcategory: categories.subcategory})
+    .from(memories)
+    .leftJoin(categories, eq(categories.uuid, memories.category_uuid));
+
+  const expired: RetentionCandidate[] = [];
+  for (const {memory, category, subcategory} of rows) {
+    const half_life_days = resolveHalfLife(settings, category ?? '', subcategory);
+    if (half_life_days === null) continue;
+
+    const score = retentionScore(memory, half_life_days, now);
+    if (score >= settings.threshold) continue;
+
+    expired.push({
+      memory_uuid: memory.uuid,
+      document_uuid: memory.document_uuid,
+      name: memory.name,
+      category,
+      subcategory,
+      importance: memory.importance,
+      access_count: memory.access_count,
+      last_recalled_at: memory.last_recalled_at,
+      updated_at: memory.updated_at,
+      score,
+      half_life_days
+    });
+  }
+
+  return {checked: rows.length, expired: expired.sort((a, b) => a.score - b.score)};
+};
+
+/**
+ * Memory retention service
+ * @namespace memoryRetentionService
+ */
+export const memoryRetentionService = {
+  /**
+   * Lists the memories the next job would delete, without deleting them
+   * @param limit - Maximum number of listed memories
+   * @returns Threshold, number of scored memories and the expired ones, lowest score first
+   */
+  async preview(limit: number): Promise<{threshold: number; checked: number; expired: number; memories: RetentionCandidate[]}> {
+    const {checked, expired} = await findExpired(Date.now());
+
+    return {threshold: getRetentionSettings().threshold, checked, expired: expired.length, memories: expired.slice(0, limit)};
+  },
+
+  /**
+   * Deletes the memories scoring below the threshold, with their documents and conversation links
+   * One job runs at a time; a memory that fails to delete is logged and tried again by the next job
+   * @returns Number of scored and of deleted memories
+   */
+  async runJob(): Promise<{checked: number; deleted: number}> {
+    const summary = {checked: 0, deleted: 0};
+    if (job_running) return summary;
+
+    job_running = true;
+    try {
+      const {checked, expired} = await findExpired(Date.now());
+      summary.checked = checked;
+
+      for (const candidate of expired) {
+        try {
+          await db.delete(conversationMemories).where(eq(conversationMemories.memory_uuid, candidate.memory_uuid));
+          await memoryService.deleteMemory(candidate.memory_uuid);
+          await documentService.deleteDocument(candidate.document_uuid);
+          summary.deleted++;
+        } catch (error) {
+          log.warn('Memory retention failed', {memory_uuid: candidate.memory_uuid, message: error instanceof Error ? error.message : String(error)});
+        }
+      }
+
+      if (summary.deleted > 0) {
+        memoryService.flushCache();
+        log.info('Retention job finished', summary);
+      }
+      return summary;
+    } finally {
+      job_running = false;
+    }
+  }
+};
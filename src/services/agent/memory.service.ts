@@ -9,15 +9,19 @@ import { z } from 'zod';
 import { db } from '../../database';
 import { memories, type Memory, type NewMemory } from '../../schema/memory';
 import { conversationMemories } from '../../schema/conversationMemories';
-import { eq, and, lt } from 'drizzle-orm';
+import { eq, inArray, sql } from 'drizzle-orm';
 import { documentService, type DocumentType } from './document.service';
 import { v4 as uuidv4 } from 'uuid';
 import { categoryService } from './category.service';
 import { searchService } from '../common/search.service';
 import { completion } from '../common/llm.service';
 import { stateManager } from './state.service';
-import { memoryRecallPrompt } from '../../prompts/tools/memory.recall';
+import { promptService } from '../common/prompt.service';
 import { memory_categories } from '../../config/memory.config';
+import { memoryRecallSchema } from '../../config/agent-schemas';
+import { getConsolidationSettings } from '../../config/consolidation.config';
+import { DEFAULT_IMPORTANCE } from '../../config/retention.config';
+import { memoryConsolidationService, type ConsolidationResult } from './memory-consolidation.service';
 import { LangfuseSpanClient } from 'langfuse';
 import NodeCache from 'node-cache';
 import { createLogger } from '../common/logger.service';
@@ -108,6 +112,7 @@ const MemoryActionSchema = z.discriminatedUnion('action', [
       text: z.string(),
       category: z.string(),
       subcategory: z.string(),
+      importance: z.coerce.number().int().min(1).max(5).optional(),
       conversation_uuid: z.string().optional().default('default')
     })
   }),
@@ -125,6 +130,7 @@ const MemoryActionSchema = z.discriminatedUnion('action', [
       name: z.string().optional(),
       category_uuid: z.string().optional(),
       text: z.string().optional(),
+      importance: z.coerce.number().int().min(1).max(5).optional(),
       conversation_uuid: z.string().optional().default('default')
     })
   })
@@ -192,6 +198,32 @@ export const memoryService = {
     await db.delete(memories).where(eq(memories.uuid, uuid));
   },
 
+  /**
+   * Drops the cached memories and searches, e.g. after consolidation merged or deleted memories
+   */
+  flushCache(): void {
+    memoryCache.flushAll();
+  },
+
+  /**
+   * Counts a recall of memories; recalls keep a memory from being dropped by retention
+   * Does not change updated_at, so recalled memories are not checked by consolidation again
+   * @param {string[]} uuids - UUIDs of the recalled memories
+   * @returns {Promise<void>}
+   */
+  async recordRecall(uuids: string[]): Promise<void> {
+    if (uuids.length === 0) return;
+
+    try {
+      await db
+        .update(memories)
+        .set({ access_count: sql`${memories.access_count} + 1`, last_recalled_at: new Date().toISOString() })
+        .where(inArray(memories.uuid, [...new Set(uuids)]));
+    } catch (error) {
+      memoryService.log.warn('Failed to record memory recall', { count: uuids.length, message: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
   /**
    * Finds all memories associated with a specific conversation with caching
    * @param {string} conversation_uuid - UUID of the conversation
@@ -236,7 +268,9 @@ export const memoryService = {
       const cachedResults = memoryCache.get<MemoryWithDocument[]>(cacheKey);
       
       if (cachedResults) {
-        return cachedResults.slice(0, limit);
+        const cached = cachedResults.slice(0, limit);
+        await memoryService.recordRecall(cached.map(memory => memory.uuid));
+        return cached;
       }
 
       // Optimize vector search by using a more efficient query
@@ -270,8 +304,10 @@ export const memoryService = {
         .filter(memory => memory.document); // Filter out memories without documents
 
       memoryCache.set(cacheKey, memories_with_documents);
-      
-      return memories_with_documents.slice(0, limit);
+
+      const found = memories_with_documents.slice(0, limit);
+      await memoryService.recordRecall(found.map(memory => memory.uuid));
+      return found;
     } catch (error) {
       memoryService.log.error('Memory search failed', error as Error);
       return [];
@@ -325,6 +361,8 @@ export const memoryService = {
       const final_memories = Array.from(unique_memories.values())
         .slice(0, limit);
 
+      await memoryService.recordRecall(final_memories.map(memory => memory.uuid));
+
       const response_text = final_memories.length > 0
         ? `Found ${final_memories.length} relevant memories:\n\n${
             final_memories.map(memory => 
@@ -351,15 +389,17 @@ export const memoryService = {
 
   /**
    * Creates a new memory with associated document and category
+   * Similar memories of the category are then consolidated with it; a failed consolidation keeps the memory as stored
    * @param {string} name - Name of the memory
    * @param {string} text - Content of the memory
    * @param {string} category - Memory category
    * @param {string} subcategory - Memory subcategory
    * @param {string} conversation_uuid - UUID of the conversation context
+   * @param {number} [importance=3] - 1 (trivia) to 5 (core fact)
    * @returns {Promise<DocumentType>} Document containing the created memory
    * @throws {Error} When category is not found
    */
-  async createNewMemory(name: string, text: string, category: string, subcategory: string, conversation_uuid: string): Promise<DocumentType> {
+  async createNewMemory(name: string, text: string, category: string, subcategory: string, conversation_uuid: string, importance = DEFAULT_IMPORTANCE): Promise<DocumentType> {
     const document_uuid = uuidv4();
     const memory_uuid = uuidv4();
     
@@ -394,6 +434,7 @@ export const memoryService = {
       name,
       category_uuid: category_record.uuid,
       document_uuid: document.uuid,
+      importance,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     });
@@ -404,10 +445,27 @@ export const memoryService = {
       created_at: new Date().toISOString()
     });
 
+    let consolidation: ConsolidationResult | null = null;
+    if (getConsolidationSettings().enabled) {
+      consolidation = await memoryConsolidationService.consolidate(memory.uuid, 'write').catch(error => {
+        memoryService.log.warn('Memory consolidation failed', { memory_uuid: memory.uuid, message: error instanceof Error ? error.message : String(error) });
+        return null;
+      });
+    }
+
+    const merged = consolidation?.merged.length ?? 0;
+    const superseded = consolidation?.superseded.length ?? 0;
+    const [final_memory, final_document] = merged > 0
+      ? await Promise.all([memoryService.getMemoryByUuid(memory.uuid), documentService.getDocumentByUuid(document.uuid)])
+      : [memory, document];
+    const note = merged + superseded > 0
+      ? `\nMerged ${merged} and superseded ${superseded} existing memories of ${category}/${subcategory} into this memory.`
+      : '';
+
     return documentService.createDocument({
       conversation_uuid,
       source_uuid: 'memory_service',
-      text: `<memory name="${memory.name}" memory-uuid="${memory.uuid}">${document.text}</memory>`,
+      text: `<memory name="${final_memory?.name ?? memory.name}" memory-uuid="${memory.uuid}">${final_document?.text ?? document.text}</memory>${note}`,
       metadata_override: {
         type: 'text',
         content_type: 'full',
@@ -423,10 +481,11 @@ export const memoryService = {
    * @param {string} [category_uuid] - New category UUID
    * @param {string} [text] - New text content
    * @param {string} conversation_uuid - UUID of the conversation context
+   * @param {number} [importance] - New importance, 1 (trivia) to 5 (core fact)
    * @returns {Promise<DocumentType>} Document confirming the update
    * @throws {Error} When memory or category is not found
    */
-  async updateExistingMemory(memory_uuid: string, name: string | undefined, category_uuid: string | undefined, text: string | undefined, conversation_uuid: string): Promise<DocumentType> {
+  async updateExistingMemory(memory_uuid: string, name: string | undefined, category_uuid: string | undefined, text: string | undefined, conversation_uuid: string, importance?: number): Promise<DocumentType> {
     const memory = await memoryService.getMemoryByUuid(memory_uuid);
     if (!memory) {
       throw new Error(`Memory with UUID ${memory_uuid} not found`);
@@ -461,6 +520,7 @@ export const memoryService = {
     const updated_memory = await memoryService.updateMemory(memory_uuid, {
       name: name || memory.name,
       category_uuid: category_uuid || memory.category_uuid,
+      importance: importance ?? memory.importance,
       updated_at: current_time
     });
 
@@ -513,15 +573,17 @@ export const memoryService = {
    */
   async selfQuery(query: string): Promise<MemoryQuery> {
     const state = stateManager.getState();
+    const memoryRecallPrompt = await promptService.render('tools.memory.recall', undefined);
     
     const queries = await completion.object<MemoryQuery>({
       // NOTE: Never use 'gemini-2.0-flash'.
       model: state.config.model ?? 'gemini-2.5-flash',
       messages: [
-        {role: 'system', content: memoryRecallPrompt()},
+        {role: 'system', content: memoryRecallPrompt.content},
         {role: 'user', content: query}
       ],
       temperature: 0,
+      schema: memoryRecallSchema,
       user: {
         uuid: state.config.user_uuid ?? '',
         name: state.profile.user_name
@@ -554,7 +616,8 @@ export const memoryService = {
           parsed.payload.text,
           parsed.payload.category,
           parsed.payload.subcategory,
-          parsed.payload.conversation_uuid
+          parsed.payload.conversation_uuid,
+          parsed.payload.importance
         );
       case 'update':
         return memoryService.updateExistingMemory(
@@ -562,7 +625,8 @@ export const memoryService = {
           parsed.payload.name,
           parsed.payload.category_uuid,
           parsed.payload.text,
-          parsed.payload.conversation_uuid
+          parsed.payload.conversation_uuid,
+          parsed.payload.importance
         );
       case 'forget':
         return memoryService.deleteExistingMemory(parsed.payload.memory_uuid, parsed.payload.conversation_uuid);
@@ -609,7 +673,14 @@ export const memoryService = {
             .map(query => `<category name="${query.category}" subcategory="${query.subcategory}"/>`)
             .join('\n');
 
-        const final_content = formatted_content.trim() || 'No recent memory categories found.';
+        const categories = formatted_content.trim() || 'No recent memory categories found.';
+
+        // The payloads of new and changed memories, so the agent picks their importance
+        const [create, update] = await Promise.all([
+            promptService.render('tools.memory.create', undefined),
+            promptService.render('tools.memory.update', undefined)
+        ]);
+        const final_content = `${categories}\n\n${create.content}\n\n${update.content}`;
 
         return documentService.createDocument({
             conversation_uuid: state.config.conversation_uuid ?? 'unknown',
@@ -620,7 +691,7 @@ export const memoryService = {
                 content_type: 'full',
                 name: 'RecentMemoryCategories',
                 source: 'memory_service',
-                description: 'Recent memory categories and subcategories from the last 7 days'
+                description: 'Memory categories and subcategories, and how to write remember and update payloads'
             }
         });
     } catch (error) {
@@ -631,46 +702,5 @@ export const memoryService = {
             source_uuid: 'memory_service'
         });
     }
-  },
-
-  /**
-   * Prunes old and unused memories to optimize storage and performance
-   * @param {number} daysThreshold - Number of days after which memories are considered old
-   * @returns {Promise<void>}
-   */
-  async pruneOldMemories(daysThreshold = 30): Promise<void> {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysThreshold);
-
-    try {
-      // Find old memories that haven't been accessed
-      const oldMemories = await db
-        .select()
-        .from(memories)
-        .where(
-          and(
-            lt(memories.updated_at, cutoffDate.toISOString())
-          )
-        );
-
-      // Batch process memory deletion
-      const batchSize = 100;
-      for (let i = 0; i < oldMemories.length; i += batchSize) {
-        const batch = oldMemories.slice(i, i + batchSize);
-        await Promise.all(
-          batch.map(async memory => {
-            await Promise.all([
-              memoryService.deleteMemory(memory.uuid),
-              documentService.deleteDocument(memory.document_uuid)
-            ]);
-          })
-        );
-      }
-
-      // Clear cache after pruning
-      memoryCache.flushAll();
-    } catch (error) {
-      memoryService.log.error('Memory pruning failed', error as Error);
-    }
   }
 };
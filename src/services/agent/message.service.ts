@@ -1,5 +1,5 @@
 import { db } from '../../database';
-import {messages, type NewMessage} from '../../schema/message';
+import {messages, type Message, type NewMessage} from '../../schema/message';
 import {v4 as uuidv4} from 'uuid';
 import {CoreMessage} from 'ai';
 import {eq} from 'drizzle-orm';
@@ -35,6 +35,14 @@ export const messageService = {
     }
   },
 
+  findRecordsByConversationId: async (conversation_uuid: string): Promise<Message[]> => {
+    try {
+      return await db.select().from(messages).where(eq(messages.conversation_uuid, conversation_uuid)).orderBy(messages.created_at, messages.id);
+    } catch (error) {
+      throw new Error(`Error fetching messages: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+
   findByConversationId: async (conversation_uuid: string): Promise<CoreMessage[]> => {
     try {
       const conversation_messages = await db.select().from(messages).where(eq(messages.conversation_uuid, conversation_uuid)).orderBy(messages.created_at);
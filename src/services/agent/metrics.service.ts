@@ -0,0 +1,215 @@
+/**
+ * Agent run metrics
+ * Stores the path (fast-track or full loop), latency and token usage of every agent run
+ * and compares the two paths to show what fast-tracking saves, and the classic and native tool modes by loop steps
+ * @module metrics.service
+ */
+
+import {and, eq, gte, sql} from 'drizzle-orm';
+import {db} from '../../database';
+import {agent_runs} from '../../schema/agent_runs';
+import type {AgentPath, ToolMode} from '../../types/agent';
+import {stateManager} from './state.service';
+import {usageService} from '../common/usage.service';
+import {promptService} from '../common/prompt.service';
+import {createLogger} from '../common/logger.service';
+
+const log = createLogger('MetricsService');
+
+export interface PathMetrics {
+  runs: number;
+  avg_duration_ms: number;
+  /** Input and output tokens */
+  avg_tokens: number;
+  /** USD */
+  avg_cost: number;
+}
+
+export interface FastTrackMetrics {
+  fast: PathMetrics;
+  full: PathMetrics;
+  /** Share of runs that took the fast path (0-1) */
+  fast_track_rate: number;
+  /** What the fast runs saved compared to an average full run; null until both paths have runs */
+  saved: {duration_ms: number; tokens: number; cost: number} | null;
+}
+
+export interface ToolModeRunMetrics extends PathMetrics {
+  /** Reasoning loop iterations */
+  avg_steps: number;
+  avg_llm_calls: number;
+}
+
+export interface ToolModeMetrics {
+  classic: ToolModeRunMetrics;
+  native: ToolModeRunMetrics;
+  /** Average steps and LLM calls native runs take less than classic ones; null until both modes have runs */
+  saved_per_run: {steps: number; llm_calls: number} | null;
+}
+
+const emptyPath = (): PathMetrics => ({runs: 0, avg_duration_ms: 0, avg_tokens: 0, avg_cost: 0});
+
+const sinceDays = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().replace('T', ' ').slice(0, 19);
+
+/**
+ * Compares fast-track runs with full runs
+ * @param fast - Metrics of the fast path
+ * @param full - Metrics of the full loop
+ * @returns Both paths, the fast-track rate and the estimated savings
+ */
+export const comparePaths = (fast: PathMetrics, full: PathMetrics): FastTrackMetrics => {
+  const runs = fast.runs + full.runs;
+  return {
+    fast,
+    full,
+    fast_track_rate: runs > 0 ? fast.runs / runs : 0,
+    saved:
+      fast.runs > 0 && full.runs > 0
+        ? {
+            duration_ms: Math.round((full.avg_duration_ms - fast.avg_duration_ms) * fast.runs),
+            tokens: Math.round((full.avg_tokens - fast.avg_tokens) * fast.runs),
+            cost: (full.avg_cost - fast.avg_cost) * fast.runs
+          }
+        : null
+  };
+};
+
+/**
+ * Compares full runs of the classic and native tool modes
+ * @param classic - Metrics of runs that selected actions and wrote payloads with two JSON prompts
+ * @param native - Metrics of runs that used native function calling
+ * @returns Both modes and how many steps and LLM calls an average native run saves
+ */
+export const compareToolModes = (classic: ToolModeRunMetrics, native: ToolModeRunMetrics): ToolModeMetrics => ({
+  classic,
+  native,
+  saved_per_run:
+    classic.runs > 0 && native.runs > 0
+      ? {steps: classic.avg_steps - native.avg_steps, llm_calls: classic.avg_llm_calls - native.avg_llm_calls}
+      : null
+});
+
+/**
+ * Metrics service for agent runs
+ * @namespace metricsService
+ */
+export const metricsService = {
+  /**
+   * Stores the path, tool mode, loop steps, latency and LLM usage of the current run
+   * Never throws; a failed write is logged so metrics cannot break a run
+   * @param run - Path the run took, its final status and when it started (ms timestamp)
+   * @example
+   * ```typescript
+   * const started_at = Date.now();
+   * // ... run the agent
+   * await metricsService.recordRun({path: 'fast', status: result.status, started_at});
+   * ```
+   */
+  recordRun: async ({path, status, started_at}: {path: AgentPath; status: string; started_at: number}) => {
+    try {
+      const usage = usageService.getRunUsage();
+      const {config} = stateManager.getState();
+      const duration_ms = Date.now() - started_at;
+
+      const run_id = stateManager.getRunId();
+
+      await db.insert(agent_runs).values({
+        run_id,
+        user_uuid: config.user_uuid,
+        conversation_uuid: config.conversation_uuid,
+        path,
+        tool_mode: config.tool_mode,
+        steps: config.step,
+        status,
+        duration_ms,
+        llm_calls: usage.calls,
+        input_tokens: usage.input_tokens,
+        output_tokens: usage.output_tokens,
+        cost: usage.cost
+      });
+      await promptService.recordRun(run_id);
+
+      log.info('Agent run recorded', {path, status, duration_ms, llm_calls: usage.calls, tokens: usage.input_tokens + usage.output_tokens});
+    } catch (error) {
+      log.warn('Failed to record agent run', {path, error: error instanceof Error ? error.message : String(error)});
+    }
+  },
+
+  /**
+   * Compares the fast-track and full runs of a user
+   * Only completed runs are compared; paused and budget-stopped runs would skew the averages
+   * @param user_uuid - User whose runs are compared
+   * @param days - How many days back to look
+   * @returns Promise that resolves to per-path averages and the estimated savings
+   */
+  getFastTrackMetrics: async (user_uuid: string, days = 30): Promise<FastTrackMetrics> => {
+    const since = sinceDays(days);
+
+    const rows = await db
+      .select({
+        path: agent_runs.path,
+        runs: sql<number>`count(*)`,
+        avg_duration_ms: sql<number>`coalesce(avg(${agent_runs.duration_ms}), 0)`,
+        avg_tokens: sql<number>`coalesce(avg(${agent_runs.input_tokens} + ${agent_runs.output_tokens}), 0)`,
+        avg_cost: sql<number>`coalesce(avg(${agent_runs.cost}), 0)`
+      })
+      .from(agent_runs)
+      .where(and(eq(agent_runs.user_uuid, user_uuid), eq(agent_runs.status, 'completed'), gte(agent_runs.created_at, since)))
+      .groupBy(agent_runs.path);
+
+    const byPath = (path: AgentPath): PathMetrics => {
+      const row = rows.find(row => row.path === path);
+      return row
+        ? {runs: Number(row.runs), avg_duration_ms: Math.round(Number(row.avg_duration_ms)), avg_tokens: Math.round(Number(row.avg_tokens)), avg_cost: Number(row.avg_cost)}
+        : emptyPath();
+    };
+
+    return comparePaths(byPath('fast'), byPath('full'));
+  },
+
+  /**
+   * Compares the classic and native tool modes of a user by steps, LLM calls, tokens and latency
+   * Only completed full runs are compared; fast-tracked runs never select tools
+   * @param user_uuid - User whose runs are compared
+   * @param days - How many days back to look
+   * @returns Promise that resolves to per-mode averages and what native function calling saves per run
+   */
+  getToolModeMetrics: async (user_uuid: string, days = 30): Promise<ToolModeMetrics> => {
+    const rows = await db
+      .select({
+        tool_mode: agent_runs.tool_mode,
+        runs: sql<number>`count(*)`,
+        avg_steps: sql<number>`coalesce(avg(${agent_runs.steps}), 0)`,
+        avg_llm_calls: sql<number>`coalesce(avg(${agent_runs.llm_calls}), 0)`,
+        avg_duration_ms: sql<number>`coalesce(avg(${agent_runs.duration_ms}), 0)`,
+        avg_tokens: sql<number>`coalesce(avg(${agent_runs.input_tokens} + ${agent_runs.output_tokens}), 0)`,
+        avg_cost: sql<number>`coalesce(avg(${agent_runs.cost}), 0)`
+      })
+      .from(agent_runs)
+      .where(
+        and(
+          eq(agent_runs.user_uuid, user_uuid),
+          eq(agent_runs.path, 'full'),
+          eq(agent_runs.status, 'completed'),
+          gte(agent_runs.created_at, sinceDays(days))
+        )
+      )
+      .groupBy(agent_runs.tool_mode);
+
+    const byMode = (tool_mode: ToolMode): ToolModeRunMetrics => {
+      const row = rows.find(row => row.tool_mode === tool_mode);
+      return row
+        ? {
+            runs: Number(row.runs),
+            avg_steps: Number(row.avg_steps),
+            avg_llm_calls: Number(row.avg_llm_calls),
+            avg_duration_ms: Math.round(Number(row.avg_duration_ms)),
+            avg_tokens: Math.round(Number(row.avg_tokens)),
+            avg_cost: Number(row.avg_cost)
+          }
+        : {...emptyPath(), avg_steps: 0, avg_llm_calls: 0};
+    };
+
+    return compareToolModes(byMode('classic'), byMode('native'));
+  }
+};
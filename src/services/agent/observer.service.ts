@@ -37,14 +37,18 @@ export const createObserver = () => {
     // Avoid noisy console error in observers; consider integrating with logger if needed
   });
 
-  const observer: ObserverService = {
-    trace: null,
-    activeSpans: new Map(),
-    activeGenerations: new Map()
-  };
+  // Traces and spans are kept per agent run so concurrent conversations never end up in each other's trace
+  const scope = Symbol('observer');
+  const current = () =>
+    stateManager.local<ObserverService>(scope, () => ({
+      trace: null,
+      activeSpans: new Map(),
+      activeGenerations: new Map()
+    }));
 
   return {
     initializeTrace: (name: string) => {
+      const observer = current();
       const state = stateManager.getState();
 
       observer.trace = langfuse.trace({
@@ -61,10 +65,17 @@ export const createObserver = () => {
       return observer.trace;
     },
 
-    startSpan: (name: string, metadata?: Record<string, unknown>) => {
+    startSpan: (name: string, metadata?: Record<string, unknown>, parentId?: string) => {
+      const observer = current();
       if (!observer.trace) throw new ValidationError('Trace not initialized');
 
-      const span = observer.trace.span({
+      // Spans started with the same parent show up as siblings (e.g. actions executed in parallel)
+      const parentSpan = parentId ? observer.activeSpans.get(parentId) : null;
+      if (!parentSpan && parentId) {
+        throw new NotFoundError(`Parent span with id ${parentId}`);
+      }
+
+      const span = (parentSpan || observer.trace).span({
         name,
         metadata: {
           ...metadata,
@@ -74,18 +85,22 @@ export const createObserver = () => {
       });
 
       observer.activeSpans.set(span.id, span);
+      stateManager.emit({type: 'phase_start', span_id: span.id, name, phase: typeof metadata?.phase === 'string' ? metadata.phase : null});
       return span;
     },
 
     endSpan: (spanId: string, output?: unknown) => {
+      const observer = current();
       const span = observer.activeSpans.get(spanId);
       if (!span) throw new NotFoundError(`Span with id ${spanId}`);
 
       span.end({output});
       observer.activeSpans.delete(spanId);
+      stateManager.emit({type: 'phase_end', span_id: spanId});
     },
 
     startGeneration: (params: GenerationInput, parentId?: string) => {
+      const observer = current();
       if (!observer.trace) throw new ValidationError('Trace not initialized');
 
       const parentSpan = parentId ? observer.activeSpans.get(parentId) : null;
@@ -111,6 +126,7 @@ export const createObserver = () => {
     },
 
     endGeneration: (generationId: string, output?: unknown) => {
+      const observer = current();
       const generation = observer.activeGenerations.get(generationId);
       if (!generation) throw new NotFoundError(`Generation with id ${generationId}`);
 
@@ -119,6 +135,7 @@ export const createObserver = () => {
     },
 
     recordEvent: (name: string, data?: Record<string, unknown>, parentId?: string) => {
+      const observer = current();
       let parent: LangfuseTraceClient | LangfuseSpanClient;
 
       if (parentId) {
@@ -137,6 +154,7 @@ export const createObserver = () => {
     },
 
     finalizeTrace: async (traceId: string, messages: CoreMessage[], completions: unknown[]) => {
+      const observer = current();
       if (!observer.trace) throw new ValidationError('Trace not initialized');
 
       await observer.trace.update({
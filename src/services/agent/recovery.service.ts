@@ -0,0 +1,198 @@
+/**
+ * Recovery of interrupted agent runs
+ * Detects runs that stopped mid-loop (e.g. the process died) from the tasks, actions and messages tables
+ * and continues them at the step they reached
+ * @module recovery.service
+ */
+
+import {and, desc, eq, inArray} from 'drizzle-orm';
+import {db} from '../../database';
+import {tasks} from '../../schema/task';
+import {actions} from '../../schema/action';
+import {messages} from '../../schema/message';
+import {conversations} from '../../schema/conversation';
+import type {ChatRequest} from '../../dto/chat.dto';
+import {env} from '../../config/env.config';
+import {agentService, type AgentRunOptions, type AgentRunResult} from './agent.service';
+import {actionService} from './action.service';
+import {historyService} from './history.service';
+import {getUserByUUID} from '../common/user.service';
+import {createLogger} from '../common/logger.service';
+import {ValidationError} from '../../utils/errors';
+
+const log = createLogger('RecoveryService');
+
+export interface UnfinishedRun {
+  conversation_id: string;
+  user_id: string | null;
+  /** Loop step the run continues from */
+  next_step: number;
+  /** Actions that were started but never finished; they are marked as failed instead of being repeated */
+  interrupted_action_uuids: string[];
+  /** When the user message that started the run was stored */
+  started_at: string;
+}
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone, updates store ISO strings
+const toTime = (value: string | null) => (value ? Date.parse(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`) : 0);
+
+/**
+ * Checks a conversation for a run that started after the last user message but never answered it
+ */
+const inspectConversation = async (conversation_id: string): Promise<UnfinishedRun | null> => {
+  if (agentService.isActive(conversation_id)) return null;
+
+  const [last_message] = await db
+    .select({role: messages.role, created_at: messages.created_at})
+    .from(messages)
+    .where(eq(messages.conversation_uuid, conversation_id))
+    .orderBy(desc(messages.created_at), desc(messages.id))
+    .limit(1);
+
+  if (!last_message || last_message.role !== 'user') return null;
+
+  const started_at = toTime(last_message.created_at);
+
+  const [conversation_tasks, conversation_actions] = await Promise.all([
+    db
+      .select({status: tasks.status, created_at: tasks.created_at, updated_at: tasks.updated_at})
+      .from(tasks)
+      .where(eq(tasks.conversation_uuid, conversation_id)),
+    db
+      .select({uuid: actions.uuid, status: actions.status, sequence: actions.sequence, created_at: actions.created_at})
+      .from(actions)
+      .innerJoin(tasks, eq(actions.task_uuid, tasks.uuid))
+      .where(eq(tasks.conversation_uuid, conversation_id))
+  ]);
+
+  // A run paused for approval is waiting for the user, not interrupted
+  if (conversation_actions.some(action => action.status === 'awaiting_approval')) return null;
+
+  const run_actions = conversation_actions.filter(action => toTime(action.created_at) >= started_at);
+  const planned = conversation_tasks.some(task => toTime(task.created_at) >= started_at || toTime(task.updated_at) >= started_at);
+
+  // Without planned tasks or actions the agent never entered its loop for this message
+  if (!planned && run_actions.length === 0) return null;
+
+  const [conversation] = await db.select({user_id: conversations.user_id}).from(conversations).where(eq(conversations.uuid, conversation_id)).limit(1);
+
+  return {
+    conversation_id,
+    user_id: conversation?.user_id ?? null,
+    next_step: Math.max(0, ...run_actions.map(action => action.sequence ?? 0)) + 1,
+    interrupted_action_uuids: run_actions.filter(action => action.status === 'pending').map(action => action.uuid),
+    started_at: last_message.created_at ?? ''
+  };
+};
+
+/**
+ * Recovery service for agent runs interrupted mid-loop
+ * @namespace recoveryService
+ */
+export const recoveryService = {
+  /**
+   * Finds runs that planned tasks or started actions but never answered the user
+   * @param user_id - Optionally limit the search to conversations of one user
+   * @returns Promise that resolves to the unfinished runs
+   * @example
+   * ```typescript
+   * const runs = await recoveryService.findUnfinishedRuns();
+   * console.log(runs.map(run => run.conversation_id));
+   * ```
+   */
+  findUnfinishedRuns: async (user_id?: string): Promise<UnfinishedRun[]> => {
+    // Every run plans a final_answer task that stays pending until the answer is written
+    const candidates = await db
+      .selectDistinct({conversation_uuid: tasks.conversation_uuid})
+      .from(tasks)
+      .where(eq(tasks.status, 'pending'));
+
+    let conversation_ids = candidates.map(candidate => candidate.conversation_uuid);
+
+    if (user_id && conversation_ids.length > 0) {
+      const owned = await db
+        .select({uuid: conversations.uuid})
+        .from(conversations)
+        .where(and(inArray(conversations.uuid, conversation_ids), eq(conversations.user_id, user_id)));
+      conversation_ids = owned.map(conversation => conversation.uuid);
+    }
+
+    const runs = await Promise.all(conversation_ids.map(inspectConversation));
+
+    return runs.filter((run): run is UnfinishedRun => run !== null);
+  },
+
+  /**
+   * Rehydrates an interrupted run from the database and continues it at the step it reached
+   * @param conversation_id - Conversation whose run was interrupted
+   * @param options - Optional streaming of the answer and a listener for progress events
+   * @returns Promise that resolves to the result of the recovered run
+   * @throws ValidationError if the conversation has no unfinished run
+   * @example
+   * ```typescript
+   * const result = await recoveryService.resume(conversation_id);
+   * ```
+   */
+  resume: async (conversation_id: string, options: AgentRunOptions = {}): Promise<AgentRunResult> => {
+    const run = await inspectConversation(conversation_id);
+    if (!run) {
+      throw new ValidationError('Conversation has no unfinished agent run', {context: {conversation_id}});
+    }
+
+    // The tool may or may not have run before the interruption, so the agent decides whether to try again
+    await Promise.all(
+      run.interrupted_action_uuids.map(uuid => actionService.updateAction(uuid, {status: 'failed', result: 'Interrupted before it finished'}))
+    );
+
+    const user = run.user_id ? await getUserByUUID(run.user_id) : undefined;
+    const environment = user?.environment;
+
+    const model = env.DEFAULT_TEXT_MODEL || 'gemini-2.5-flash';
+    const request: ChatRequest = {
+      conversation_id,
+      model,
+      messages: await historyService.assemble(conversation_id, {model, user: {uuid: run.user_id ?? '', name: user?.name || 'User'}}),
+      temperature: 0.7,
+      max_tokens: 16384,
+      user: {
+        uuid: run.user_id ?? '',
+        name: user?.name || 'User',
+        context: user?.context || undefined,
+        environment: typeof environment === 'string' ? environment : environment ? JSON.stringify(environment) : undefined,
+        persona: user?.persona ?? undefined
+      }
+    };
+
+    log.info('Resuming interrupted agent run', {conversation_id, step: run.next_step, interrupted_actions: run.interrupted_action_uuids.length});
+
+    return agentService.recover(request, run.next_step, options);
+  },
+
+  /**
+   * Resumes every unfinished run one after another; failures are logged and do not stop the others
+   * @returns Promise that resolves to the number of runs that were resumed
+   * @example
+   * ```typescript
+   * // On startup
+   * void recoveryService.resumeUnfinishedRuns();
+   * ```
+   */
+  resumeUnfinishedRuns: async (): Promise<number> => {
+    const runs = await recoveryService.findUnfinishedRuns();
+    if (runs.length === 0) return 0;
+
+    log.info('Found unfinished agent runs', {count: runs.length});
+
+    let resumed = 0;
+    for (const run of runs) {
+      try {
+        await recoveryService.resume(run.conversation_id);
+        resumed++;
+      } catch (error) {
+        log.error('Failed to resume agent run', error as Error, {conversation_id: run.conversation_id});
+      }
+    }
+
+    return resumed;
+  }
+};
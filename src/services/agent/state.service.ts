@@ -1,7 +1,12 @@
 import {z} from 'zod';
 import { env } from '../../config/env.config';
+import {defaultPersona, personaSchema} from '../../config/persona.config';
+import {modelRoutingSchema} from '../../config/routing.config';
 import {type State} from '../../types/state';
+import type {AgentEvent} from '../../types/agent';
 import {EventEmitter} from 'events';
+import {AsyncLocalStorage} from 'async_hooks';
+import {randomUUID} from 'crypto';
 
 // State validation schemas
 const ConfigSchema = z.object({
@@ -14,9 +19,12 @@ const ConfigSchema = z.object({
   user_uuid: z.string().nullable(),
   conversation_uuid: z.string().nullable(),
   model: z.string(),
+  model_routing: modelRoutingSchema,
+  cache_bypass: z.boolean(),
   temperature: z.number(),
   max_tokens: z.number(),
   fast_track: z.boolean(),
+  tool_mode: z.enum(['classic', 'native']),
   time: z.string()
 });
 
@@ -39,7 +47,8 @@ const StateSchema = z.object({
     environment: z.record(z.string(), z.unknown()),
     context: z.string(),
     ai_name: z.string(),
-    user_name: z.string()
+    user_name: z.string(),
+    persona: personaSchema
   }),
   interaction: z.object({
     tasks: z.array(z.any()),
@@ -64,53 +73,82 @@ interface StateUpdate {
   timestamp: string;
 }
 
-const createStateManager = () => {
-  const events = new EventEmitter();
-  const history: StateUpdate[] = [];
+/**
+ * Everything that belongs to a single agent run
+ * Each run gets its own state, update history and event emitter so concurrent conversations never share data
+ */
+interface AgentRun {
+  id: string;
+  state: Readonly<State>;
+  history: StateUpdate[];
+  events: EventEmitter;
+  locals: Map<symbol | string, unknown>;
+  /** Run this branch was forked from; progress events bubble up to it */
+  parent?: AgentRun;
+}
+
+const createInitialState = (): State => ({
+  config: {
+    fast_track: false,
+    tool_mode: env.AGENT_TOOL_MODE ?? 'classic',
+    step: 0,
+    max_steps: 10,
+    current_phase: null,
+    current_task: null,
+    current_tool: null,
+    current_action: null,
+    user_uuid: null,
+    conversation_uuid: null,
+    // NOTE: Never use 'gemini-2.0-flash'.
+    model: env.DEFAULT_TEXT_MODEL || 'gemini-2.5-flash',
+    model_routing: {},
+    cache_bypass: false,
+    temperature: 0.7,
+    max_tokens: 16384,
+    time: new Date().toISOString()
+  },
+  thoughts: {
+    environment: '',
+    context: '',
+    memory: [],
+    tools: []
+  },
+  profile: {
+    environment: {},
+    context: '',
+    ai_name: '',
+    user_name: '',
+    persona: {...defaultPersona}
+  },
+  interaction: {
+    tasks: [],
+    messages: [],
+    tool_context: []
+  },
+  session: {
+    memories: [],
+    tools: [],
+    categories: [],
+    documents: []
+  }
+});
 
+const createRun = (): AgentRun => ({
+  id: randomUUID(),
   // Make state readonly to prevent direct mutations
-  let state: Readonly<State> = {
-    config: {
-      fast_track: false,
-      step: 0,
-      max_steps: 10,
-      current_phase: null,
-      current_task: null,
-      current_tool: null,
-      current_action: null,
-      user_uuid: null,
-      conversation_uuid: null,
-      // NOTE: Never use 'gemini-2.0-flash'.
-      model: env.DEFAULT_TEXT_MODEL || 'gemini-2.5-flash',
-      alt_model: 'gemini-2.5-flash',
-      temperature: 0.7,
-      max_tokens: 16384,
-      time: new Date().toISOString()
-    },
-    thoughts: {
-      environment: '',
-      context: '',
-      memory: [],
-      tools: []
-    },
-    profile: {
-      environment: {},
-      context: '',
-      ai_name: '',
-      user_name: ''
-    },
-    interaction: {
-      tasks: [],
-      messages: [],
-      tool_context: []
-    },
-    session: {
-      memories: [],
-      tools: [],
-      categories: [],
-      documents: []
-    }
-  } as const;
+  state: Object.freeze(createInitialState()),
+  history: [],
+  events: new EventEmitter(),
+  locals: new Map()
+});
+
+const createStateManager = () => {
+  const storage = new AsyncLocalStorage<AgentRun>();
+
+  // Used by code running outside of an agent run (scripts, tests, direct tool calls)
+  const defaultRun = createRun();
+
+  const currentRun = (): AgentRun => storage.getStore() ?? defaultRun;
 
   const validateState = (newState: State) => {
     try {
@@ -120,14 +158,14 @@ const createStateManager = () => {
     }
   };
 
-  const recordUpdate = (path: string[], value: unknown) => {
+  const recordUpdate = (run: AgentRun, path: string[], value: unknown) => {
     const update: StateUpdate = {
       path,
       value,
       timestamp: new Date().toISOString()
     };
-    history.push(update);
-    events.emit('stateUpdate', update);
+    run.history.push(update);
+    run.events.emit('stateUpdate', update);
   };
 
   const setNestedValue = (obj: any, path: string[], value: unknown): any => {
@@ -145,19 +183,21 @@ const createStateManager = () => {
   };
 
   const updateState = <T>(path: string[], value: T): State => {
+    const run = currentRun();
+
     // Create new immutable state
-    const newState = setNestedValue(state, path, value);
+    const newState = setNestedValue(run.state, path, value);
 
     // Validate before updating
     validateState(newState);
 
     // Record the update
-    recordUpdate(path, value);
+    recordUpdate(run, path, value);
 
     // Update state reference with new immutable state
-    state = Object.freeze(newState);
+    run.state = Object.freeze(newState);
 
-    return structuredClone(state);
+    return structuredClone(run.state);
   };
 
   const updateThoughts = (thoughts: Partial<State['thoughts']>) => {
@@ -166,41 +206,101 @@ const createStateManager = () => {
       throw new Error('thoughts.memory must be an array, received: ' + thoughts.memory);
     }
 
-    return updateState(['thoughts'], {...structuredClone(state.thoughts), ...thoughts});
+    return updateState(['thoughts'], {...structuredClone(currentRun().state.thoughts), ...thoughts});
   };
 
   return {
-    getState: () => structuredClone(state),
+    /**
+     * Runs the callback inside a fresh agent run
+     * Every getState/update call made within the callback (including awaited calls in other services) sees only this run
+     * @param callback - Work to perform within the run
+     * @returns Promise resolving to the callback result
+     */
+    run: <T>(callback: () => Promise<T>): Promise<T> => storage.run(createRun(), callback),
+
+    /**
+     * Runs the callback in a branch of the current run, used to execute independent actions concurrently
+     * The branch starts with a copy of the current state and keeps its own updates; the caller merges results back.
+     * Run locals (e.g. the Langfuse trace) are shared and progress events reach the listeners of the parent run.
+     * @param callback - Work to perform within the branch
+     * @returns Promise resolving to the callback result
+     */
+    fork: <T>(callback: () => Promise<T>): Promise<T> => {
+      const parent = currentRun();
+      const branch: AgentRun = {
+        id: randomUUID(),
+        state: Object.freeze(structuredClone(parent.state)),
+        history: [],
+        events: new EventEmitter(),
+        locals: parent.locals,
+        parent
+      };
+      return storage.run(branch, callback);
+    },
+
+    getRunId: () => currentRun().id,
+
+    /**
+     * Returns a value scoped to the current run, creating it on first access
+     * Lets other services keep per-run bookkeeping without module-level globals
+     */
+    local: <T>(key: symbol | string, init: () => T): T => {
+      const run = currentRun();
+      if (!run.locals.has(key)) {
+        run.locals.set(key, init());
+      }
+      return run.locals.get(key) as T;
+    },
 
-    getHistory: () => [...history],
+    getState: () => structuredClone(currentRun().state),
+
+    getHistory: () => [...currentRun().history],
 
     subscribe: (callback: (update: StateUpdate) => void) => {
+      const {events} = currentRun();
       events.on('stateUpdate', callback);
       return () => events.off('stateUpdate', callback);
     },
 
+    /**
+     * Publishes a progress event to listeners of the current run
+     * @param event - Typed agent event (phase boundaries, tool calls, answer tokens)
+     */
+    emit: (event: AgentEvent) => {
+      for (let run: AgentRun | undefined = currentRun(); run; run = run.parent) {
+        run.events.emit('agentEvent', event);
+      }
+    },
+
+    onEvent: (callback: (event: AgentEvent) => void) => {
+      const {events} = currentRun();
+      events.on('agentEvent', callback);
+      return () => events.off('agentEvent', callback);
+    },
+
     transaction: async (updates: Array<{path: string[]; value: unknown}>) => {
-      const oldState = structuredClone(state);
+      const run = currentRun();
+      const oldState = run.state;
       try {
         for (const update of updates) {
           updateState(update.path, update.value);
         }
-        return state;
+        return run.state;
       } catch (error) {
-        state = oldState; // Rollback
+        run.state = oldState; // Rollback
         throw error;
       }
     },
 
-    updateConfig: (config: Partial<State['config']>) => updateState(['config'], {...structuredClone(state.config), ...config}),
+    updateConfig: (config: Partial<State['config']>) => updateState(['config'], {...structuredClone(currentRun().state.config), ...config}),
 
     updateThoughts: updateThoughts,
 
-    updateProfile: (profile: Partial<State['profile']>) => updateState(['profile'], {...structuredClone(state.profile), ...profile}),
+    updateProfile: (profile: Partial<State['profile']>) => updateState(['profile'], {...structuredClone(currentRun().state.profile), ...profile}),
 
-    updateInteraction: (interaction: Partial<State['interaction']>) => updateState(['interaction'], {...structuredClone(state.interaction), ...interaction}),
+    updateInteraction: (interaction: Partial<State['interaction']>) => updateState(['interaction'], {...structuredClone(currentRun().state.interaction), ...interaction}),
 
-    updateSession: (session: Partial<State['session']>) => updateState(['session'], {...structuredClone(state.session), ...session})
+    updateSession: (session: Partial<State['session']>) => updateState(['session'], {...structuredClone(currentRun().state.session), ...session})
   };
 };
 
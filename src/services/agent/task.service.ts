@@ -13,7 +13,8 @@ const taskSchema = z.object({
   name: z.string(),
   description: z.string(),
   status: z.enum(['pending', 'completed']),
-  uuid: z.string().nullable()
+  uuid: z.string().nullable(),
+  depends_on: z.array(z.string()).optional().default([])
 });
 
 // Add this interface to match the database schema
@@ -27,6 +28,7 @@ interface TaskRecord {
   scheduled_for?: string | null;
   completed_at?: string | null;
   result?: string | null;
+  depends_on?: string[] | null;
 }
 
 interface ActionRecord {
@@ -63,6 +65,7 @@ const mapTaskRecordToTask = (record: TaskRecord) => ({
   scheduled_for: record.scheduled_for,
   completed_at: record.completed_at,
   result: record.result,
+  depends_on: record.depends_on ?? [],
   actions: [] as Action[]
 });
 
@@ -141,14 +144,24 @@ export const taskService = {
 
     const completed_uuids = new Set(current_tasks.filter(task => task.status === 'completed').map(task => task.uuid));
 
+    const new_uuids = new_tasks.map(() => uuidv4());
+
+    // Dependencies may point at tasks by uuid or, for tasks created in this plan, by name
+    const uuid_by_name = new Map<string, string>(current_tasks.map(task => [task.name, task.uuid]));
+    new_tasks.forEach((task, index) => uuid_by_name.set(task.name, new_uuids[index]));
+    const known_uuids = new Set(uuid_by_name.values());
+    const resolveDependencies = (depends_on: string[]) =>
+      [...new Set(depends_on.map(ref => (known_uuids.has(ref) ? ref : uuid_by_name.get(ref))).filter((uuid): uuid is string => !!uuid))];
+
     // Insert new tasks
-    const tasks_to_insert = new_tasks.map(task => ({
-      uuid: uuidv4(),
+    const tasks_to_insert = new_tasks.map((task, index) => ({
+      uuid: new_uuids[index],
       conversation_uuid,
       name: task.name,
       type: task.name === 'final_answer' ? 'final' : 'regular',
       status: task.status,
-      description: task.description
+      description: task.description,
+      depends_on: resolveDependencies(task.depends_on).filter(uuid => uuid !== new_uuids[index])
     }));
 
     // Update existing pending tasks
@@ -160,7 +173,8 @@ export const taskService = {
         name: task.name,
         type: task.name === 'final_answer' ? 'final' : 'regular',
         status: task.status,
-        description: task.description
+        description: task.description,
+        depends_on: resolveDependencies(task.depends_on).filter(uuid => uuid !== task.uuid)
       }));
 
     await Promise.all([
@@ -173,6 +187,7 @@ export const taskService = {
             type: task.type,
             status: task.status,
             description: task.description,
+            depends_on: task.depends_on,
             updated_at: new Date().toISOString()
           })
           .where(and(eq(tasks.uuid, task.uuid), eq(tasks.status, 'pending')))
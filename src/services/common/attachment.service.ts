@@ -0,0 +1,116 @@
+/**
+ * Attachments of chat messages
+ * Chat parts reference uploads by UUID. They are stored in messages.multipart as AI SDK content parts whose data
+ * is an `upload:<uuid>` reference, and only resolved to the file contents right before a model call.
+ * Attachments the model cannot read are replaced by a note, text files are inlined for every model
+ * @module attachment.service
+ */
+
+import type {CoreMessage, FilePart, ImagePart, TextPart, UserContent} from 'ai';
+import {findFileByUuid} from './upload.service';
+import {ValidationError} from '../../utils/errors';
+import type {ChatPart} from '../../dto/chat.dto';
+import type {AttachmentKind} from '../../config/llm.config';
+import {createLogger} from './logger.service';
+
+const log = createLogger('AttachmentService');
+
+const UPLOAD_PREFIX = 'upload:';
+
+// Text-like files are inlined, so every model can read them
+const INLINE_MIMES = ['application/json', 'application/xml'];
+
+type ContentPart = TextPart | ImagePart | FilePart;
+
+const uploadRef = (data: unknown): string | null =>
+  typeof data === 'string' && data.startsWith(UPLOAD_PREFIX) ? data.slice(UPLOAD_PREFIX.length) : null;
+
+const kindOf = (media_type: string): AttachmentKind | null => {
+  if (media_type.startsWith('image/')) return 'image';
+  if (media_type.startsWith('audio/')) return 'audio';
+  if (media_type === 'application/pdf') return 'document';
+  return null;
+};
+
+const isInline = (media_type: string) => media_type.startsWith('text/') || INLINE_MIMES.includes(media_type);
+
+const resolvePart = async (part: ContentPart, attachments: AttachmentKind[], model: string): Promise<ContentPart> => {
+  const uuid = part.type === 'image' ? uploadRef(part.image) : part.type === 'file' ? uploadRef(part.data) : null;
+  if (!uuid || part.type === 'text') return part;
+
+  const name = part.type === 'file' ? part.filename ?? uuid : uuid;
+  const file = await findFileByUuid(uuid);
+  if (!file) {
+    log.warn('Attached upload not found', {uuid});
+    return {type: 'text', text: `[Attachment "${name}" is no longer available]`};
+  }
+
+  if (isInline(file.mime_type)) {
+    return {type: 'text', text: `<attachment name="${file.original_name}">\n${file.buffer.toString('utf-8')}\n</attachment>`};
+  }
+
+  const kind = kindOf(file.mime_type);
+  if (!kind || !attachments.includes(kind)) {
+    return {type: 'text', text: `[Attached ${kind ?? 'file'} "${file.original_name}" cannot be read by ${model}]`};
+  }
+
+  return part.type === 'image'
+    ? {...part, image: file.buffer, mediaType: file.mime_type}
+    : {...part, data: file.buffer, mediaType: file.mime_type};
+};
+
+/**
+ * Attachment service for chat messages
+ * @namespace attachmentService
+ */
+export const attachmentService = {
+  /**
+   * Turns chat parts into the content of a user message, checking that every referenced upload exists and belongs to the user
+   * @param parts - Text parts and attachments from the chat request
+   * @param user_uuid - User sending the message
+   * @returns Content parts with `upload:<uuid>` references, ready to be stored
+   * @throws {ValidationError} When an upload does not exist, belongs to another user or does not match the part type
+   */
+  toContent: async (parts: ChatPart[], user_uuid: string): Promise<UserContent> =>
+    Promise.all(
+      parts.map(async (part): Promise<ContentPart> => {
+        if (part.type === 'text') return part;
+
+        // Uploads of other users are reported as missing
+        const file = await findFileByUuid(part.file_uuid);
+        if (!file || file.user_uuid !== user_uuid) {
+          throw new ValidationError(`Upload ${part.file_uuid} not found`, {context: {file_uuid: part.file_uuid}});
+        }
+        if (part.type !== 'file' && !file.mime_type.startsWith(`${part.type}/`)) {
+          throw new ValidationError(`Upload ${part.file_uuid} is not an ${part.type} (${file.mime_type})`);
+        }
+
+        const data = `${UPLOAD_PREFIX}${part.file_uuid}`;
+        return part.type === 'image'
+          ? {type: 'image', image: data, mediaType: file.mime_type}
+          : {type: 'file', data, mediaType: file.mime_type, filename: file.original_name};
+      })
+    ),
+
+  /**
+   * Replaces upload references with the file contents for a model call
+   * @param messages - Messages of the call
+   * @param options.model - Model the messages are sent to
+   * @param options.attachments - Attachment kinds the model reads
+   * @returns Messages whose attachments the model can read
+   */
+  resolve: async (messages: CoreMessage[], {model, attachments}: {model: string; attachments: AttachmentKind[]}): Promise<CoreMessage[]> => {
+    const hasUploads = messages.some(
+      message => Array.isArray(message.content) && message.content.some(part => uploadRef('image' in part ? part.image : 'data' in part ? part.data : null))
+    );
+    if (!hasUploads) return messages;
+
+    return Promise.all(
+      messages.map(async message =>
+        message.role === 'user' && Array.isArray(message.content)
+          ? {...message, content: await Promise.all(message.content.map(part => resolvePart(part, attachments, model)))}
+          : message
+      )
+    );
+  }
+};
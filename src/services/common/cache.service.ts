@@ -2,6 +2,7 @@
  * Redis caching service for frequently accessed data.
  * Provides caching functionality with TTL management, namespacing, and common patterns.
  * Supports object serialization, cache invalidation, and distributed caching across instances.
+ * Without Redis, entries stored with `fallback: true` are kept in process memory instead.
  * @module cache.service
  */
 
@@ -31,7 +32,7 @@ if (redis) {
   redis.on('error', (error: Error) => cacheLogger.error('Redis connection error', error));
   redis.on('close', () => cacheLogger.warn('Redis connection closed'));
 } else {
-  cacheLogger.warn('Redis disabled (missing REDIS_URL or ioredis). Cache will no-op.');
+  cacheLogger.warn('Redis disabled (missing REDIS_URL or ioredis). Only fallback entries are cached, in memory.');
 }
 
 /**
@@ -45,6 +46,17 @@ interface CacheOptions {
   namespace?: string;
   /** Whether to compress data for storage (default: false) */
   compress?: boolean;
+  /** Keep the entry in process memory when Redis is not available (default: false) */
+  fallback?: boolean;
+}
+
+/**
+ * Interface for lookup options
+ * @interface GetOptions
+ */
+interface GetOptions extends Pick<CacheOptions, 'namespace' | 'compress'> {
+  /** Whether the lookup counts towards the hit rate (default: true) */
+  track?: boolean;
 }
 
 /**
@@ -60,6 +72,19 @@ interface CacheStats {
   hitRate: number;
   /** Total cache operations */
   total: number;
+  /** Misses answered by a similar entry, see markSemanticHit */
+  semanticHits: number;
+}
+
+/**
+ * Interface for cache statistics of the whole service
+ * @interface CacheServiceStats
+ */
+interface CacheServiceStats extends CacheStats {
+  /** Where entries are stored: redis, or memory for fallback entries without Redis */
+  store: 'redis' | 'memory';
+  /** Statistics per namespace */
+  namespaces: Record<string, CacheStats>;
 }
 
 /**
@@ -69,16 +94,70 @@ interface CacheStats {
 const DEFAULT_OPTIONS: Required<CacheOptions> = {
   ttl: 3600, // 1 hour
   namespace: 'app',
-  compress: false
+  compress: false,
+  fallback: false
 };
 
+/** Upper bound of in-memory fallback entries; the oldest entry is evicted first */
+const MAX_MEMORY_ENTRIES = 1000;
+
 /**
- * Cache statistics tracking
+ * In-memory fallback store used without Redis
  * @private
  */
-let stats = {
-  hits: 0,
-  misses: 0
+const memory = new Map<string, { value: string; expires_at: number }>();
+
+/**
+ * Reads a live fallback entry, dropping it when it has expired
+ * @private
+ */
+const readMemory = (cacheKey: string): string | null => {
+  const entry = memory.get(cacheKey);
+  if (!entry) return null;
+  if (entry.expires_at <= Date.now()) {
+    memory.delete(cacheKey);
+    return null;
+  }
+  return entry.value;
+};
+
+/**
+ * Converts a Redis key pattern (* and ? wildcards) to a regular expression
+ * @private
+ */
+const patternToRegExp = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+
+/**
+ * Cache statistics tracking, per namespace
+ * @private
+ */
+let stats: Record<string, { hits: number; misses: number; semanticHits: number }> = {};
+
+/**
+ * Counts a lookup in its namespace
+ * @private
+ */
+const count = (namespace: string, outcome: 'hits' | 'misses' | 'semanticHits') => {
+  stats[namespace] ??= { hits: 0, misses: 0, semanticHits: 0 };
+  stats[namespace][outcome]++;
+};
+
+/**
+ * Builds the statistics of a set of counters
+ * @private
+ */
+const toStats = ({ hits, misses, semanticHits }: { hits: number; misses: number; semanticHits: number }): CacheStats => {
+  const total = hits + misses;
+  const hitRate = total > 0 ? (hits / total) * 100 : 0;
+
+  return {
+    hits,
+    misses,
+    hitRate: Math.round(hitRate * 100) / 100,
+    total,
+    semanticHits
+  };
 };
 
 /**
@@ -145,7 +224,15 @@ export const cacheService = {
       const cacheKey = this._generateKey(key, config.namespace);
       const serializedValue = this._serialize(value, config.compress);
 
-      if (!redis) return false;
+      if (!redis) {
+        if (!config.fallback) return false;
+        memory.delete(cacheKey);
+        memory.set(cacheKey, { value: serializedValue, expires_at: Date.now() + config.ttl * 1000 });
+        if (memory.size > MAX_MEMORY_ENTRIES) {
+          memory.delete(memory.keys().next().value!);
+        }
+        return true;
+      }
       const result = await redis.setex(cacheKey, config.ttl, serializedValue);
       
       cacheLogger.debug('Cache set operation', {
@@ -164,30 +251,30 @@ export const cacheService = {
   /**
    * Retrieves data from the cache
    * @param {string} key - Cache key
-   * @param {Pick<CacheOptions, 'namespace' | 'compress'>} [options] - Cache configuration options
+   * @param {GetOptions} [options] - Cache configuration options
    * @returns {Promise<any|null>} Cached data or null if not found/expired
    */
-  async get(key: string, options: Pick<CacheOptions, 'namespace' | 'compress'> = {}): Promise<any | null> {
+  async get(key: string, options: GetOptions = {}): Promise<any | null> {
+    const { track = true, ...rest } = options;
+    const config = { ...DEFAULT_OPTIONS, ...rest };
     try {
-      const config = { ...DEFAULT_OPTIONS, ...options };
       const cacheKey = this._generateKey(key, config.namespace);
 
-      if (!redis) return null;
-      const cachedData = await redis.get(cacheKey);
+      const cachedData = redis ? await redis.get(cacheKey) : readMemory(cacheKey);
       
       if (cachedData === null) {
-        stats.misses++;
+        if (track) count(config.namespace, 'misses');
         cacheLogger.debug('Cache miss', { key: cacheKey });
         return null;
       }
 
-      stats.hits++;
+      if (track) count(config.namespace, 'hits');
       const deserializedData = this._deserialize(cachedData, config.compress);
       
       cacheLogger.debug('Cache hit', { key: cacheKey });
       return deserializedData;
     } catch (error) {
-      stats.misses++;
+      if (track) count(config.namespace, 'misses');
       cacheLogger.error('Cache get failed', error as Error, { key });
       return null;
     }
@@ -204,7 +291,7 @@ export const cacheService = {
       const config = { ...DEFAULT_OPTIONS, ...options };
       const cacheKey = this._generateKey(key, config.namespace);
 
-      if (!redis) return false;
+      if (!redis) return memory.delete(cacheKey);
       const result = await redis.del(cacheKey);
       
       cacheLogger.debug('Cache delete operation', {
@@ -230,7 +317,12 @@ export const cacheService = {
       const config = { ...DEFAULT_OPTIONS, ...options };
       const searchPattern = this._generateKey(pattern, config.namespace);
 
-      if (!redis) return 0;
+      if (!redis) {
+        const matcher = patternToRegExp(searchPattern);
+        const keys = [...memory.keys()].filter(cacheKey => matcher.test(cacheKey));
+        keys.forEach(cacheKey => memory.delete(cacheKey));
+        return keys.length;
+      }
       const keys = await redis.keys(searchPattern);
       
       if (keys.length === 0) {
@@ -263,7 +355,7 @@ export const cacheService = {
       const config = { ...DEFAULT_OPTIONS, ...options };
       const cacheKey = this._generateKey(key, config.namespace);
 
-      if (!redis) return false;
+      if (!redis) return readMemory(cacheKey) !== null;
       const result = await redis.exists(cacheKey);
       return result === 1;
     } catch (error) {
@@ -283,7 +375,10 @@ export const cacheService = {
       const config = { ...DEFAULT_OPTIONS, ...options };
       const cacheKey = this._generateKey(key, config.namespace);
 
-      if (!redis) return -2;
+      if (!redis) {
+        const entry = readMemory(cacheKey) !== null ? memory.get(cacheKey) : undefined;
+        return entry ? Math.ceil((entry.expires_at - Date.now()) / 1000) : -2;
+      }
       return await redis.ttl(cacheKey);
     } catch (error) {
       cacheLogger.error('Cache TTL check failed', error as Error, { key });
@@ -300,19 +395,30 @@ export const cacheService = {
     return this.deletePattern('*', { namespace });
   },
 
+  /**
+   * Counts a tracked miss that a similarity lookup answered; it moves from the misses to the hits
+   * @param {string} [namespace='app'] - Namespace of the lookup
+   * @returns {void}
+   */
+  markSemanticHit(namespace: string = DEFAULT_OPTIONS.namespace): void {
+    count(namespace, 'hits');
+    count(namespace, 'semanticHits');
+    stats[namespace].misses = Math.max(0, stats[namespace].misses - 1);
+  },
+
   /**
    * Gets cache statistics
-   * @returns {CacheStats} Current cache statistics
+   * @returns {CacheServiceStats} Current cache statistics, in total and per namespace
    */
-  getStats(): CacheStats {
-    const total = stats.hits + stats.misses;
-    const hitRate = total > 0 ? (stats.hits / total) * 100 : 0;
+  getStats(): CacheServiceStats {
+    const counters = Object.values(stats);
+    const sum = (outcome: 'hits' | 'misses' | 'semanticHits') =>
+      counters.reduce((total, counter) => total + counter[outcome], 0);
 
     return {
-      hits: stats.hits,
-      misses: stats.misses,
-      hitRate: Math.round(hitRate * 100) / 100,
-      total
+      ...toStats({ hits: sum('hits'), misses: sum('misses'), semanticHits: sum('semanticHits') }),
+      store: redis ? 'redis' : 'memory',
+      namespaces: Object.fromEntries(Object.entries(stats).map(([namespace, counter]) => [namespace, toStats(counter)]))
     };
   },
 
@@ -321,7 +427,7 @@ export const cacheService = {
    * @returns {void}
    */
   resetStats(): void {
-    stats = { hits: 0, misses: 0 };
+    stats = {};
   },
 
   /**
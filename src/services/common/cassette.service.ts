@@ -0,0 +1,391 @@
+/**
+ * LLM and tool cassettes
+ * Records every LLM request/response, tool result and vector store or search index read of an agent run into a JSON
+ * cassette and replays a cassette without network access, so real conversations can be reproduced in tests.
+ * A cassette only covers the agent run it was started in (see stateManager.local); other runs keep calling the
+ * providers, tools and stores
+ * @module cassette.service
+ */
+
+import {mkdir, readFile, writeFile} from 'fs/promises';
+import {dirname, join} from 'path';
+import type {ChatRequest} from '../../dto/chat.dto';
+import {toolsMap} from '../../config/tools.config';
+import type {LanguageModelUsage} from 'ai';
+import {getAiOps, setRunAiOps, type AiOps} from './llm.service';
+import {vectorService} from './vector.service';
+import {algoliaService} from './algolia.service';
+import {stateManager} from '../agent/state.service';
+import {createLogger} from './logger.service';
+import {ValidationError} from '../../utils/errors';
+
+const log = createLogger('CassetteService');
+
+export type CassetteOperation = keyof AiOps;
+
+export type CassetteStore = 'vector' | 'algolia';
+
+export interface CassetteError {
+  name: string;
+  message: string;
+  status?: number;
+}
+
+export interface LlmCassetteEntry {
+  type: 'llm';
+  operation: CassetteOperation;
+  /** Model id and messages of the call; informational, replay matches by operation and order */
+  request: Record<string, unknown>;
+  /** `text`, `object`, `embedding` or stream `chunks`, plus the reported `usage` */
+  response?: Record<string, unknown>;
+  error?: CassetteError;
+}
+
+export interface ToolCassetteEntry {
+  type: 'tool';
+  tool: string;
+  action: string;
+  payload: unknown;
+  result?: unknown;
+  error?: CassetteError;
+}
+
+/** Read of the vector store or the search index; replay matches by store, method and order */
+export interface StoreCassetteEntry {
+  type: 'store';
+  store: CassetteStore;
+  method: string;
+  result?: unknown;
+  error?: CassetteError;
+}
+
+export type CassetteEntry = LlmCassetteEntry | ToolCassetteEntry | StoreCassetteEntry;
+
+export interface Cassette {
+  version: 1;
+  recorded_at: string;
+  /** Chat request the recorded run was started with */
+  request?: ChatRequest;
+  /** Calls in the order they were made */
+  entries: CassetteEntry[];
+}
+
+// How the calls of a run with a cassette are answered
+interface ActiveCassette {
+  mode: 'record' | 'replay';
+  tool: (tool: string, action: string, payload: unknown, execute: () => Promise<unknown>) => Promise<unknown>;
+  read: (store: CassetteStore, method: string, call: () => Promise<unknown>) => Promise<unknown>;
+}
+
+const ACTIVE_CASSETTE = Symbol('cassette');
+const runCassette = () => stateManager.local<{active: ActiveCassette | null}>(ACTIVE_CASSETTE, () => ({active: null}));
+
+// Plain JSON copy; drops functions, schemas' internals and anything else that can't be stored
+const toJson = (value: unknown): unknown => {
+  try {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  } catch {
+    return String(value);
+  }
+};
+
+// Config of any AI SDK call; only object calls have a schema and only text calls tools
+type RequestConfig = Parameters<AiOps[CassetteOperation]>[0] & {schema?: unknown; tools?: object};
+
+// Tool definitions hold zod schemas, so only their names are kept
+const describeRequest = ({model, schema, abortSignal, headers, tools, ...config}: RequestConfig): Record<string, unknown> => ({
+  model: typeof model === 'string' ? model : model.modelId,
+  ...(toJson(config) as Record<string, unknown>),
+  ...(tools && {tools: Object.keys(tools)})
+});
+
+// Fields providers put on their errors; any of them may be missing
+type ProviderError = {name?: string; message?: string; status?: number; statusCode?: number; response?: {status?: number}};
+
+const toCassetteError = (error: unknown): CassetteError => {
+  const err: ProviderError | undefined = typeof error === 'object' && error !== null ? error : undefined;
+  return {
+    name: err?.name ?? 'Error',
+    message: err?.message ?? String(error),
+    status: err?.status ?? err?.statusCode ?? err?.response?.status
+  };
+};
+
+const fromCassetteError = ({name, message, status}: CassetteError) => Object.assign(new Error(message), {name, status});
+
+const keyOf = (entry: CassetteEntry) =>
+  entry.type === 'llm' ? `llm:${entry.operation}` : entry.type === 'tool' ? `tool:${entry.tool}.${entry.action}` : `store:${entry.store}.${entry.method}`;
+
+// Wrappers stay on the service objects and pass calls straight through unless the calling run has a cassette
+const wrappers = new WeakSet<Function>();
+
+const wrap = <S, K extends keyof S>(service: S, method: K, divert: (cassette: ActiveCassette, call: () => Promise<unknown>, args: unknown[]) => Promise<unknown>) => {
+  const original = service[method];
+  if (typeof original !== 'function' || wrappers.has(original)) return;
+
+  const wrapper = (...args: unknown[]): Promise<unknown> => {
+    const call = () => Promise.resolve(original.apply(service, args));
+    const {active} = runCassette();
+    return active ? divert(active, call, args) : call();
+  };
+  wrappers.add(wrapper);
+  service[method] = wrapper as S[K];
+};
+
+// Reads are recorded and replayed; writes are skipped during a replay, so replaying never changes Qdrant or Algolia
+const wrapStore = <S>(store: CassetteStore, service: S, reads: Array<keyof S & string>, writes: Array<keyof S & string>) => {
+  reads.forEach(method => wrap(service, method, (active, call) => active.read(store, method, call)));
+  writes.forEach(method => wrap(service, method, (active, call) => (active.mode === 'replay' ? Promise.resolve(undefined) : call())));
+};
+
+/**
+ * Makes the current run answer its AI SDK, tool and store calls through the given cassette
+ * Tools are wrapped on their service objects, so direct calls (e.g. linearService.getRecentTasksContext) are covered
+ * too; methods replaced since the last cassette (e.g. by tests) are wrapped again
+ * @returns Function ending the cassette
+ * @throws ValidationError if the run already has a cassette
+ */
+const activate = (cassette: ActiveCassette, ops: AiOps) => {
+  const scope = runCassette();
+  if (scope.active) throw new ValidationError(`A cassette is already being ${scope.active.mode === 'record' ? 'recorded' : 'replayed'} in this run`);
+
+  for (const [name, service] of Object.entries(toolsMap)) {
+    wrap(service, 'execute', (active, call, [action, payload]) => active.tool(name, action as string, payload, call));
+  }
+  wrapStore('vector', vectorService, ['searchSimilar', 'getPointsBySource'], ['upsertText', 'upsertPoint', 'deletePoints', 'updatePointPayload', 'updatePoint']);
+  wrapStore('algolia', algoliaService, ['search'], ['indexDocument', 'updateDocument', 'deleteDocument']);
+
+  scope.active = cassette;
+  setRunAiOps(ops);
+
+  return () => {
+    scope.active = null;
+    setRunAiOps(null);
+  };
+};
+
+const startRecording = (request?: ChatRequest) => {
+  const cassette: Cassette = {version: 1, recorded_at: new Date().toISOString(), request: toJson(request) as ChatRequest | undefined, entries: []};
+  const ops = getAiOps();
+
+  // Entries are added when a call starts, so their order is the call order
+  const track = async <T>(entry: CassetteEntry, call: () => PromiseLike<T>, describe: (result: T) => unknown) => {
+    cassette.entries.push(entry);
+    try {
+      const result = await call();
+      if (entry.type === 'llm') entry.response = toJson(describe(result)) as Record<string, unknown>;
+      else entry.result = toJson(describe(result));
+      return result;
+    } catch (error) {
+      entry.error = toCassetteError(error);
+      throw error;
+    }
+  };
+
+  const recording: AiOps = {
+    generateText: config => track({type: 'llm', operation: 'generateText', request: describeRequest(config)}, () => ops.generateText(config), result => ({text: result.text, toolCalls: result.toolCalls, usage: result.usage})),
+    generateObject: config => track({type: 'llm', operation: 'generateObject', request: describeRequest(config)}, () => ops.generateObject(config), result => ({object: result.object, usage: result.usage})),
+    embed: config => track({type: 'llm', operation: 'embed', request: describeRequest(config)}, () => ops.embed(config), result => ({embedding: result.embedding, usage: result.usage})),
+    streamText: config => {
+      const chunks: string[] = [];
+      const entry: LlmCassetteEntry = {type: 'llm', operation: 'streamText', request: describeRequest(config), response: {chunks}};
+      cassette.entries.push(entry);
+
+      try {
+        const result = ops.streamText(config);
+        Promise.resolve(result.usage).then(
+          usage => (entry.response = {...entry.response, usage: toJson(usage)}),
+          () => undefined
+        );
+
+        async function* fullStream() {
+          for await (const part of result.fullStream) {
+            if (part.type === 'text-delta') chunks.push(part.text);
+            if (part.type === 'error') entry.error = toCassetteError(part.error);
+            yield part;
+          }
+        }
+
+        return {fullStream: fullStream(), usage: result.usage};
+      } catch (error) {
+        entry.error = toCassetteError(error);
+        throw error;
+      }
+    }
+  };
+
+  const stop = activate(
+    {
+      mode: 'record',
+      tool: (tool, action, payload, execute) => track({type: 'tool', tool, action, payload: toJson(payload)}, execute, result => result),
+      read: (store, method, call) => track({type: 'store', store, method}, call, result => result)
+    },
+    recording
+  );
+
+  return {cassette, stop};
+};
+
+/**
+ * Cassette service for recording and replaying agent runs
+ * @namespace cassetteService
+ */
+export const cassetteService = {
+  /**
+   * Records every LLM call, tool result and store read the current agent run makes while the callback runs
+   * @param callback - Code to record, usually the body of an agent run
+   * @param request - Chat request stored with the cassette so the run can be replayed as a whole
+   * @returns Promise that resolves to the callback result and the recorded cassette
+   * @throws ValidationError if the run already records or replays a cassette
+   * @example
+   * ```typescript
+   * const {cassette} = await stateManager.run(() => cassetteService.record(() => aiService.think()));
+   * await cassetteService.save(cassette, 'tests/cassettes/weather.json');
+   * ```
+   */
+  record: async <T>(callback: () => Promise<T>, request?: ChatRequest): Promise<{result: T; cassette: Cassette}> => {
+    const recording = startRecording(request);
+    try {
+      const result = await callback();
+      return {result, cassette: recording.cassette};
+    } finally {
+      recording.stop();
+    }
+  },
+
+  /**
+   * Records an agent run into AGENT_CASSETTE_DIR when it is set; otherwise just runs it
+   * The cassette is written even when the run fails, so failing runs can be reproduced
+   * @param request - Chat request of the run
+   * @param callback - Body of the run, called inside its agent state
+   * @returns Promise that resolves to the result of the run
+   */
+  recordRun: async <T extends {conversation_id?: string}>(request: ChatRequest, callback: () => Promise<T>): Promise<T> => {
+    const directory = process.env.AGENT_CASSETTE_DIR;
+    if (!directory) return callback();
+
+    if (cassetteService.isActive()) {
+      log.warn('Cassette already active, run is not recorded', {conversation_id: request.conversation_id});
+      return callback();
+    }
+
+    const recording = startRecording(request);
+    let conversation_id = request.conversation_id;
+    try {
+      const result = await callback();
+      conversation_id = result.conversation_id ?? conversation_id;
+      return result;
+    } finally {
+      recording.stop();
+      const file = join(directory, `${recording.cassette.recorded_at.replace(/[:.]/g, '-')}-${conversation_id ?? 'new'}.json`);
+      await cassetteService.save(recording.cassette, file).catch(error =>
+        log.warn('Failed to save cassette', {file, error: error instanceof Error ? error.message : String(error)})
+      );
+    }
+  },
+
+  /**
+   * Runs the callback against a cassette instead of the real LLM providers, tools, vector store and search index
+   * LLM calls are answered in recorded order per operation, tool calls per tool and action and store reads per store
+   * and method; store writes are skipped. Recorded errors are thrown again so fallbacks and error handling replay too
+   * @param cassette - Cassette to replay
+   * @param callback - Code to run in the current agent run, e.g. `() => aiService.think()`
+   * @returns Promise that resolves to the callback result and the recorded entries that were not used
+   * @throws ValidationError if the run makes a call the cassette has no (more) recordings for
+   * @example
+   * ```typescript
+   * const cassette = await cassetteService.load('tests/cassettes/weather.json');
+   * const {result, unused} = await stateManager.run(() => cassetteService.replay(cassette, () => aiService.think()));
+   * ```
+   */
+  replay: async <T>(cassette: Cassette, callback: () => Promise<T>): Promise<{result: T; unused: CassetteEntry[]}> => {
+    const queues = new Map<string, CassetteEntry[]>();
+    for (const entry of cassette.entries) {
+      queues.set(keyOf(entry), [...(queues.get(keyOf(entry)) ?? []), entry]);
+    }
+
+    const take = <E extends CassetteEntry>(key: string): E => {
+      const entry = queues.get(key)?.shift();
+      if (!entry) {
+        throw new ValidationError(`Cassette has no recorded ${key} call left`, {context: {key, recorded_at: cassette.recorded_at}});
+      }
+      if (entry.error) throw fromCassetteError(entry.error);
+      return entry as E;
+    };
+
+    // Recorded responses are JSON copies of what the operation answered; streams keep their text chunks
+    const takeLlm = <R>(operation: CassetteOperation, config: RequestConfig) => {
+      const entry = take<LlmCassetteEntry>(`llm:${operation}`);
+      const model = describeRequest(config).model;
+      if (entry.request.model !== model) {
+        log.warn('Replayed call uses a different model than recorded', {operation, recorded: entry.request.model, model});
+      }
+      return (entry.response ?? {}) as R;
+    };
+
+    const replaying: AiOps = {
+      generateText: async config => takeLlm('generateText', config),
+      generateObject: async config => takeLlm('generateObject', config),
+      embed: async config => takeLlm('embed', config),
+      streamText: config => {
+        const {chunks = [], usage} = takeLlm<{chunks?: string[]; usage: LanguageModelUsage}>('streamText', config);
+        async function* fullStream() {
+          for (const [index, text] of chunks.entries()) {
+            yield {type: 'text-delta' as const, id: String(index), text};
+          }
+        }
+        return {fullStream: fullStream(), usage: Promise.resolve(usage)};
+      }
+    };
+
+    const stop = activate(
+      {
+        mode: 'replay',
+        tool: async (tool, action) => take<ToolCassetteEntry>(`tool:${tool}.${action}`).result,
+        read: async (store, method) => take<StoreCassetteEntry>(`store:${store}.${method}`).result
+      },
+      replaying
+    );
+
+    try {
+      const result = await callback();
+      const unused = [...queues.values()].flat();
+      if (unused.length > 0) {
+        log.warn('Recorded calls were not used by the replay', {calls: unused.map(keyOf)});
+      }
+      return {result, unused};
+    } finally {
+      stop();
+    }
+  },
+
+  /**
+   * Writes a cassette as formatted JSON, creating the directory if needed
+   * @param cassette - Cassette to write
+   * @param file - Target path
+   */
+  save: async (cassette: Cassette, file: string): Promise<void> => {
+    await mkdir(dirname(file), {recursive: true});
+    await writeFile(file, JSON.stringify(cassette, null, 2));
+    log.info('Cassette saved', {file, entries: cassette.entries.length});
+  },
+
+  /**
+   * Reads a cassette written by {@link cassetteService.save}
+   * @param file - Cassette path
+   * @returns Promise that resolves to the cassette
+   * @throws ValidationError if the file is not a cassette
+   */
+  load: async (file: string): Promise<Cassette> => {
+    const cassette = JSON.parse(await readFile(file, 'utf-8'));
+    if (cassette?.version !== 1 || !Array.isArray(cassette.entries)) {
+      throw new ValidationError('Not a cassette file', {context: {file}});
+    }
+    return cassette as Cassette;
+  },
+
+  /**
+   * Checks whether the current agent run records or replays a cassette
+   */
+  isActive: (): boolean => runCassette().active !== null
+};
@@ -0,0 +1,142 @@
+/**
+ * Per-provider circuit breakers for LLM calls
+ * A provider that keeps failing with server, timeout, network or rate limit errors is skipped for a cooldown,
+ * so calls go straight to the next model of the fallback chain instead of waiting for another failure
+ * @module circuit-breaker.service
+ */
+
+import {getBreakerSettings, type LlmOperation} from '../../config/fallback.config';
+import {createLogger} from './logger.service';
+
+const log = createLogger('CircuitBreaker');
+
+// Recent failovers kept for the health endpoint
+const MAX_FAILOVER_EVENTS = 50;
+
+/**
+ * `closed` lets calls through, `open` rejects them until the cooldown ends, `half_open` lets a single trial call decide
+ */
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderBreaker {
+  provider: string;
+  state: BreakerState;
+  consecutive_failures: number;
+  opened_at: string | null;
+  /** When the half-open trial call started; other calls are rejected until it ends */
+  trial_started_at: string | null;
+  last_failure: {type: string; message: string; at: string} | null;
+}
+
+export interface FailoverEvent {
+  at: string;
+  operation: LlmOperation;
+  /** Model that failed or was skipped */
+  from: string;
+  /** Model tried next; null when the chain was exhausted */
+  to: string | null;
+  /** Normalized error type, or why the model was skipped: `circuit_open`, `not_configured` or `unknown_model` */
+  reason: string;
+}
+
+const breakers = new Map<string, ProviderBreaker>();
+let failovers: FailoverEvent[] = [];
+
+const breakerOf = (provider: string): ProviderBreaker => {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = {provider, state: 'closed', consecutive_failures: 0, opened_at: null, trial_started_at: null, last_failure: null};
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+};
+
+/**
+ * Circuit breaker service for LLM providers
+ * @namespace circuitBreakerService
+ */
+export const circuitBreakerService = {
+  /**
+   * Checks whether a provider may be called
+   * An open breaker whose cooldown has passed turns half-open and lets the call through as the only trial;
+   * a trial that never reported back is replaced by a new one after another cooldown
+   * @param provider - Provider name from the model configuration (e.g. google)
+   * @returns False while the provider's breaker is open or its trial call is in flight
+   */
+  canRequest: (provider: string): boolean => {
+    const breaker = breakerOf(provider);
+    if (breaker.state === 'closed') return true;
+
+    const {cooldown_ms} = getBreakerSettings();
+    const since = breaker.state === 'open' ? breaker.opened_at! : breaker.trial_started_at!;
+    if (Date.now() - new Date(since).getTime() < cooldown_ms) return false;
+
+    if (breaker.state === 'open') {
+      log.info('Circuit half-open, trying provider again', {provider});
+    }
+    breaker.state = 'half_open';
+    breaker.trial_started_at = new Date().toISOString();
+    return true;
+  },
+
+  /**
+   * Closes the provider's breaker after a successful call
+   * @param provider - Provider name
+   */
+  recordSuccess: (provider: string) => {
+    const breaker = breakerOf(provider);
+    if (breaker.state !== 'closed') {
+      log.info('Circuit closed', {provider});
+    }
+    breaker.state = 'closed';
+    breaker.consecutive_failures = 0;
+    breaker.opened_at = null;
+    breaker.trial_started_at = null;
+  },
+
+  /**
+   * Counts a failed call; the breaker opens at the failure threshold or when a half-open trial fails
+   * @param provider - Provider name
+   * @param failure - Normalized error type and message
+   */
+  recordFailure: (provider: string, {type, message}: {type: string; message: string}) => {
+    const breaker = breakerOf(provider);
+    const at = new Date().toISOString();
+    breaker.consecutive_failures += 1;
+    breaker.last_failure = {type, message, at};
+
+    if (breaker.state === 'half_open' || (breaker.state === 'closed' && breaker.consecutive_failures >= getBreakerSettings().failure_threshold)) {
+      breaker.state = 'open';
+      breaker.opened_at = at;
+      breaker.trial_started_at = null;
+      log.warn('Circuit opened', {provider, consecutive_failures: breaker.consecutive_failures, type});
+    }
+  },
+
+  /**
+   * Remembers that a call moved on to the next model of its chain
+   * @param event - Operation, failed model, next model and why
+   */
+  recordFailover: (event: Omit<FailoverEvent, 'at'>) => {
+    failovers = [{at: new Date().toISOString(), ...event}, ...failovers].slice(0, MAX_FAILOVER_EVENTS);
+    log.warn('LLM failover', event);
+  },
+
+  /**
+   * Reports the breaker of every provider called so far and the recent failovers
+   * @returns Breaker states, newest failovers first and the breaker settings
+   */
+  getHealth: () => ({
+    providers: [...breakers.values()].map(breaker => ({...breaker})),
+    failovers: [...failovers],
+    settings: getBreakerSettings()
+  }),
+
+  /**
+   * Forgets all breaker states and failovers
+   */
+  reset: () => {
+    breakers.clear();
+    failovers = [];
+  }
+};
@@ -0,0 +1,122 @@
+/**
+ * Registry of the vector collections and the embedding model each was built with
+ * Exactly one collection is active and serves searches; a collection being built by a re-embedding receives
+ * every write as well, so it is complete when it replaces the active one
+ * @module embedding-collection.service
+ */
+
+import {and, desc, eq, inArray} from 'drizzle-orm';
+import {db} from '../../database';
+import {embedding_collections, type EmbeddingCollection, type NewEmbeddingCollection} from '../../schema/embedding_collections';
+
+export type EmbeddingCollectionStatus = 'building' | 'active' | 'retired' | 'failed';
+
+// The active collection is read on every vector operation and only changes on a cutover
+let active_cache: EmbeddingCollection | null = null;
+
+/**
+ * Embedding collection registry service
+ * @namespace embeddingCollectionService
+ */
+export const embeddingCollectionService = {
+  /**
+   * Finds the collection that serves searches
+   * @returns The active collection, or null before the first one is registered
+   */
+  findActive: async (): Promise<EmbeddingCollection | null> => {
+    if (active_cache) return active_cache;
+
+    const [active] = await db.select().from(embedding_collections).where(eq(embedding_collections.status, 'active')).limit(1);
+    active_cache = active ?? null;
+    return active_cache;
+  },
+
+  /**
+   * Finds the collection a re-embedding is building
+   * @returns The building collection or null
+   */
+  findBuilding: async (): Promise<EmbeddingCollection | null> => {
+    const [building] = await db.select().from(embedding_collections).where(eq(embedding_collections.status, 'building')).limit(1);
+    return building ?? null;
+  },
+
+  /**
+   * Finds the collections that receive writes: the active one and the one being built
+   * @returns Writable collections, the active one first
+   */
+  findWritable: async (): Promise<EmbeddingCollection[]> => {
+    const collections = await db
+      .select()
+      .from(embedding_collections)
+      .where(inArray(embedding_collections.status, ['active', 'building']));
+    return collections.sort((a, b) => (a.status === 'active' ? -1 : b.status === 'active' ? 1 : 0));
+  },
+
+  /**
+   * Lists every registered collection, newest first
+   * @returns Collections with their model, dimension, status and re-embedding progress
+   */
+  list: async (): Promise<EmbeddingCollection[]> =>
+    db.select().from(embedding_collections).orderBy(desc(embedding_collections.id)),
+
+  /**
+   * Registers a collection
+   * @param collection - Name, model, dimension and status of the collection
+   * @returns The registered collection
+   */
+  register: async (collection: NewEmbeddingCollection & {status: EmbeddingCollectionStatus}): Promise<EmbeddingCollection> => {
+    const [registered] = await db.insert(embedding_collections).values(collection).returning();
+    if (registered.status === 'active') active_cache = registered;
+    return registered;
+  },
+
+  /**
+   * Records the progress of a re-embedding
+   * @param id - Collection being built
+   * @param progress - Documents embedded and documents that failed so far
+   */
+  updateProgress: async (id: number, progress: {processed: number; failed: number}): Promise<void> => {
+    await db
+      .update(embedding_collections)
+      .set({...progress, updated_at: new Date().toISOString()})
+      .where(eq(embedding_collections.id, id));
+  },
+
+  /**
+   * Marks a re-embedding as failed; the active collection stays in service
+   * @param id - Collection being built
+   * @param error - Reason of the failure
+   */
+  fail: async (id: number, error: string): Promise<void> => {
+    await db
+      .update(embedding_collections)
+      .set({status: 'failed', error, updated_at: new Date().toISOString()})
+      .where(and(eq(embedding_collections.id, id), eq(embedding_collections.status, 'building')));
+  },
+
+  /**
+   * Makes a built collection the active one and retires the previous one in a single transaction
+   * @param id - Collection to activate
+   * @returns The activated collection
+   */
+  activate: async (id: number): Promise<EmbeddingCollection> => {
+    const now = new Date().toISOString();
+
+    const activated = await db.transaction(async tx => {
+      await tx
+        .update(embedding_collections)
+        .set({status: 'retired', updated_at: now})
+        .where(eq(embedding_collections.status, 'active'));
+
+      const [collection] = await tx
+        .update(embedding_collections)
+        .set({status: 'active', activated_at: now, updated_at: now})
+        .where(eq(embedding_collections.id, id))
+        .returning();
+      return collection;
+    });
+
+    active_cache = activated;
+    return activated;
+  }
+};
@@ -0,0 +1,153 @@
+/**
+ * Keyword search with SQLite FTS5
+ * Indexes the documents in the documents_fts virtual table of the application database, so keyword search works
+ * without an external service. The index is kept up to date whichever backend serves searches, so switching to it
+ * needs no reindex. Results are ranked by BM25 with the name weighted above the description and the text
+ * @module fts.service
+ */
+
+import {asc, gt, sql} from 'drizzle-orm';
+import {db} from '../../database';
+import {documents} from '../../schema/document';
+import type {DocumentType} from '../agent/document.service';
+import type {LexicalSearchFilters, LexicalSearchHit} from '../../types/search';
+import {createLogger} from './logger.service';
+
+const log = createLogger('FtsService');
+
+const REBUILD_BATCH_SIZE = 200;
+
+// Longer queries only add noise to the ranking
+const MAX_QUERY_TERMS = 32;
+
+// BM25 weights in column order: document_uuid, name, description, text; the filter columns are not tokenized
+const BM25_WEIGHTS = sql.raw('0.0, 5.0, 2.0, 1.0');
+
+const filterColumns = ['source_uuid', 'source', 'content_type', 'category', 'subcategory'] as const;
+
+/**
+ * Turns free text into an FTS5 query that matches any of its words
+ * Words are quoted, so operators and punctuation in user input cannot break the query syntax
+ * @param query - Free text
+ * @returns FTS5 MATCH expression, or null when the text has no words
+ */
+export const buildMatchQuery = (query: string): string | null => {
+  const terms = [...new Set((query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []))].slice(0, MAX_QUERY_TERMS);
+  return terms.length > 0 ? terms.map(term => `"${term}"`).join(' OR ') : null;
+};
+
+const insert = async (document: DocumentType) => {
+  const metadata = document.metadata || ({} as DocumentType['metadata']);
+
+  await db.run(sql`
+    INSERT INTO documents_fts (document_uuid, name, description, text, source_uuid, source, content_type, category, subcategory)
+    VALUES (
+      ${document.uuid}, ${metadata.name ?? ''}, ${metadata.description ?? ''}, ${document.text}, ${document.source_uuid},
+      ${metadata.source ?? ''}, ${metadata.content_type ?? 'full'}, ${metadata.category ?? null}, ${metadata.subcategory ?? null}
+    )
+  `);
+};
+
+const remove = async (uuid: string) => {
+  await db.run(sql`DELETE FROM documents_fts WHERE document_uuid = ${uuid}`);
+};
+
+/**
+ * FTS5 lexical search service
+ * @namespace ftsService
+ */
+export const ftsService = {
+  name: 'fts' as const,
+
+  /**
+   * Adds a document to the index, replacing an earlier entry of it
+   * @param document - Document with parsed metadata
+   */
+  async indexDocument(document: DocumentType): Promise<void> {
+    if (document.metadata?.should_index === false) return;
+
+    await remove(document.uuid);
+    await insert(document);
+  },
+
+  /**
+   * Re-indexes a changed document; one that should no longer be indexed is removed
+   * @param document - Document with parsed metadata
+   */
+  async updateDocument(document: DocumentType): Promise<void> {
+    await remove(document.uuid);
+    if (document.metadata?.should_index) await insert(document);
+  },
+
+  /**
+   * Removes a document from the index
+   * @param uuid - Document to remove
+   */
+  async deleteDocument(uuid: string): Promise<void> {
+    await remove(uuid);
+  },
+
+  /**
+   * Searches the index for any of the words of the query
+   * @param query - Free text
+   * @param options - Exact-match filters and maximum number of hits
+   * @returns Hits ordered by BM25 relevance, best first
+   */
+  async search(query: string, {filters, limit}: {filters: LexicalSearchFilters; limit: number}): Promise<LexicalSearchHit[]> {
+    const match = buildMatchQuery(query);
+    if (!match) return [];
+
+    const conditions = filterColumns
+      .filter(column => filters[column])
+      .map(column => sql`AND ${sql.identifier(column)} = ${filters[column]}`);
+
+    const rows = await db.all<{document_uuid: string; rank: number}>(sql`
+      SELECT document_uuid, bm25(documents_fts, ${BM25_WEIGHTS}) AS rank
+      FROM documents_fts
+      WHERE documents_fts MATCH ${match} ${sql.join(conditions, sql` `)}
+      ORDER BY rank
+      LIMIT ${limit}
+    `);
+
+    // BM25 is negative in FTS5 and lower is better
+    return rows.map(row => ({document_uuid: row.document_uuid, score: -Number(row.rank)}));
+  },
+
+  /**
+   * Rebuilds the index from the documents table
+   * @returns Number of indexed documents
+   */
+  async rebuild(): Promise<number> {
+    await db.run(sql`DELETE FROM documents_fts`);
+
+    let indexed = 0;
+    let last_id = 0;
+    while (true) {
+      const batch = await db.select().from(documents).where(gt(documents.id, last_id)).orderBy(asc(documents.id)).limit(REBUILD_BATCH_SIZE);
+      if (batch.length === 0) break;
+      last_id = batch[batch.length - 1].id;
+
+      for (const document of batch) {
+        const metadata = typeof document.metadata === 'string' ? JSON.parse(document.metadata) : document.metadata;
+        if (!metadata?.should_index) continue;
+
+        await insert({...document, metadata} as DocumentType);
+        indexed++;
+      }
+    }
+
+    log.info('Keyword index rebuilt', {indexed});
+    return indexed;
+  },
+
+  /**
+   * Builds the index of the documents stored before it existed; runs at startup and only does work once
+   */
+  async ensureIndexed(): Promise<void> {
+    const [{entries}] = await db.all<{entries: number}>(sql`SELECT count(*) AS entries FROM documents_fts`);
+    if (Number(entries) > 0) return;
+
+    const [{stored}] = await db.all<{stored: number}>(sql`SELECT count(*) AS stored FROM documents`);
+    if (Number(stored) > 0) await this.rebuild();
+  }
+};
@@ -0,0 +1,116 @@
+/**
+ * Keyword (lexical) half of the hybrid search
+ * Searches go to the backend chosen by LEXICAL_SEARCH_BACKEND (search.config). The FTS5 index is maintained for every
+ * install, Algolia only while it is the selected backend
+ * @module lexical-search.service
+ */
+
+import type {DocumentType} from '../agent/document.service';
+import type {LexicalSearchBackend, LexicalSearchFilters, LexicalSearchHit} from '../../types/search';
+import {getLexicalBackend, type LexicalBackendName} from '../../config/search.config';
+import {ftsService} from './fts.service';
+import {algoliaService} from './algolia.service';
+
+/**
+ * Builds Algolia filter string from search filters object
+ * @param filters - Search filters to convert to Algolia format
+ * @returns Algolia-compatible filter string
+ */
+export const buildAlgoliaFilters = (filters: LexicalSearchFilters): string => {
+  const conditions: string[] = [];
+
+  if (filters.source_uuid) {
+    conditions.push(`source_uuid:'${filters.source_uuid}'`);
+  }
+  if (filters.source) {
+    conditions.push(`source:'${filters.source}'`);
+  }
+  if (filters.content_type) {
+    conditions.push(`content_type:'${filters.content_type}'`);
+  }
+  if (filters.category) {
+    conditions.push(`category:'${filters.category}'`);
+  }
+  if (filters.subcategory) {
+    conditions.push(`subcategory:'${filters.subcategory}'`);
+  }
+
+  return conditions.join(' AND ');
+};
+
+const algoliaBackend: LexicalSearchBackend = {
+  name: 'algolia',
+  indexDocument: document => algoliaService.indexDocument(document),
+  updateDocument: document => algoliaService.updateDocument(document),
+  deleteDocument: uuid => algoliaService.deleteDocument(uuid),
+  search: async (query, {filters, limit}) => {
+    const response = await algoliaService.search(query, {filters: buildAlgoliaFilters(filters), hitsPerPage: limit});
+    const hits: Array<{document_uuid: string}> = response?.hits ?? [];
+
+    // Algolia returns hits in ranking order without a comparable score
+    return hits.map((hit, index) => ({document_uuid: hit.document_uuid, score: 1 / (index + 1)}));
+  }
+};
+
+const noneBackend: LexicalSearchBackend = {
+  name: 'none',
+  indexDocument: async () => {},
+  updateDocument: async () => {},
+  deleteDocument: async () => {},
+  search: async () => []
+};
+
+// Resolved on use: the document hooks import this module while the database module that FTS5 needs is still loading
+const backendFor = (name: LexicalBackendName): LexicalSearchBackend =>
+  ({fts: ftsService, algolia: algoliaBackend, none: noneBackend})[name];
+
+// Backend whose index is kept next to the FTS5 one
+const external = (): LexicalSearchBackend | null => {
+  const name = getLexicalBackend();
+  return name === 'fts' ? null : backendFor(name);
+};
+
+/**
+ * Lexical search service
+ * @namespace lexicalSearchService
+ */
+export const lexicalSearchService = {
+  /**
+   * Names the backend searches go to
+   * @returns Configured backend
+   */
+  backend: (): LexicalBackendName => getLexicalBackend(),
+
+  /**
+   * Adds a document to the keyword indexes
+   * @param document - Document with parsed metadata
+   */
+  indexDocument: async (document: DocumentType): Promise<void> => {
+    await Promise.all([ftsService.indexDocument(document), external()?.indexDocument(document)]);
+  },
+
+  /**
+   * Updates a document in the keyword indexes; one that should no longer be indexed is removed
+   * @param document - Document with parsed metadata
+   */
+  updateDocument: async (document: DocumentType): Promise<void> => {
+    await Promise.all([ftsService.updateDocument(document), external()?.updateDocument(document)]);
+  },
+
+  /**
+   * Removes a document from the keyword indexes
+   * @param uuid - Document to remove
+   */
+  deleteDocument: async (uuid: string): Promise<void> => {
+    await Promise.all([ftsService.deleteDocument(uuid), external()?.deleteDocument(uuid)]);
+  },
+
+  /**
+   * Searches the configured backend
+   * @param query - Free text
+   * @param options - Exact-match filters and maximum number of hits
+   * @returns Hits ordered by relevance, best first
+   */
+  search: (query: string, options: {filters: LexicalSearchFilters; limit: number}): Promise<LexicalSearchHit[]> =>
+    backendFor(getLexicalBackend()).search(query, options)
+};
@@ -0,0 +1,153 @@
+/**
+ * Response cache for deterministic LLM calls
+ * Calls at temperature 0 are keyed on the operation, model, messages, parameters, output schema and user.
+ * With a similarity threshold, a miss is also answered by an earlier call whose prompt differs only in a
+ * similar last user message. Entries go through cache.service (Redis, or memory without it)
+ * @module llm-cache.service
+ */
+
+import {createHash} from 'crypto';
+import {z} from 'zod';
+import {cacheService} from './cache.service';
+import {getLlmCacheSettings, resolveCacheTtl} from '../../config/llm-cache.config';
+import {createLogger} from './logger.service';
+import type {CompletionConfig} from '../../types/llm';
+
+const log = createLogger('LlmCache');
+
+const NAMESPACE = 'llm';
+
+// Near-duplicates kept per prompt context for the similarity lookup
+const MAX_SEMANTIC_ENTRIES = 50;
+
+export type CachedOperation = 'text' | 'object';
+
+/**
+ * A cacheable call, prepared once and used for its lookup and store
+ */
+export interface LlmCacheEntry {
+  key: string;
+  ttl: number;
+  /** Key of the similarity index of calls that share everything but the last user message */
+  context_key: string | null;
+  /** Last user message, embedded for the similarity lookup */
+  query: string | null;
+  vector?: number[];
+}
+
+type SemanticIndex = Array<{key: string; vector: number[]}>;
+
+const hash = (value: unknown) => createHash('sha256').update(JSON.stringify(value)).digest('hex');
+
+const describeSchema = (schema: unknown) => {
+  if (!(schema instanceof z.ZodType)) return null;
+  return z.toJSONSchema(schema, {unrepresentable: 'any'});
+};
+
+const cosine = (a: number[], b: number[]) => {
+  // Vectors of different embedding models are not comparable
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let norm_a = 0;
+  let norm_b = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    norm_a += a[i] * a[i];
+    norm_b += b[i] * b[i];
+  }
+  return norm_a && norm_b ? dot / Math.sqrt(norm_a * norm_b) : 0;
+};
+
+/**
+ * LLM response cache service
+ * @namespace llmCacheService
+ */
+export const llmCacheService = {
+  /**
+   * Decides whether a call is cached and computes its keys
+   * @param operation - Completion operation
+   * @param config - Completion configuration; `cache.phase` selects the TTL and `cache.bypass` skips the cache
+   * @param schema - Output schema of object calls
+   * @returns The entry, or null when the cache is off, bypassed, the call is not deterministic or its TTL is 0
+   */
+  prepare: (operation: CachedOperation, config: CompletionConfig, schema?: unknown): LlmCacheEntry | null => {
+    const settings = getLlmCacheSettings();
+    if (!settings.enabled || config.cache?.bypass || config.temperature !== 0) return null;
+
+    const ttl = resolveCacheTtl(settings, config.cache?.phase);
+    if (ttl <= 0) return null;
+
+    let schema_description: unknown;
+    try {
+      schema_description = describeSchema(schema);
+    } catch (error) {
+      log.warn('Schema cannot be described, call is not cached', {error: error instanceof Error ? error.message : String(error)});
+      return null;
+    }
+
+    const {model, messages, temperature, max_tokens} = config;
+    const request = {operation, model, temperature, max_tokens, schema: schema_description, user: config.user?.uuid};
+    const last = messages[messages.length - 1];
+    const query = settings.semantic_threshold && last?.role === 'user' && typeof last.content === 'string' ? last.content : null;
+
+    return {
+      key: hash({...request, messages}),
+      ttl,
+      context_key: query ? `semantic:${hash({...request, messages: messages.slice(0, -1)})}` : null,
+      query
+    };
+  },
+
+  /**
+   * Looks up a call: first by its exact key, then among similar calls of the same context
+   * @param entry - Prepared entry; receives the query vector for the later store
+   * @param embed - Embeds the last user message
+   * @returns The cached result or null
+   */
+  lookup: async <T>(entry: LlmCacheEntry, embed: (text: string) => Promise<number[]>): Promise<T | null> => {
+    const exact = await cacheService.get(entry.key, {namespace: NAMESPACE});
+    if (exact !== null || !entry.context_key || !entry.query) return exact;
+
+    const threshold = getLlmCacheSettings().semantic_threshold;
+    const index: SemanticIndex | null = await cacheService.get(entry.context_key, {namespace: NAMESPACE, track: false});
+    try {
+      entry.vector = await embed(entry.query);
+    } catch (error) {
+      log.warn('Query embedding failed, similarity lookup skipped', {error: error instanceof Error ? error.message : String(error)});
+      return null;
+    }
+    if (!index?.length || threshold === null) return null;
+
+    const [best] = index
+      .map(candidate => ({key: candidate.key, similarity: cosine(entry.vector!, candidate.vector)}))
+      .sort((a, b) => b.similarity - a.similarity);
+    if (best.similarity < threshold) return null;
+
+    const similar = await cacheService.get(best.key, {namespace: NAMESPACE, track: false});
+    if (similar === null) return null;
+
+    cacheService.markSemanticHit(NAMESPACE);
+    log.debug('Semantic cache hit', {similarity: best.similarity});
+    return similar;
+  },
+
+  /**
+   * Stores the result of a call and adds it to the similarity index of its context
+   * @param entry - Prepared entry
+   * @param value - Result of the call
+   */
+  store: async (entry: LlmCacheEntry, value: unknown) => {
+    await cacheService.set(entry.key, value, {namespace: NAMESPACE, ttl: entry.ttl, fallback: true});
+    if (!entry.context_key || !entry.vector) return;
+
+    const index: SemanticIndex = (await cacheService.get(entry.context_key, {namespace: NAMESPACE, track: false})) ?? [];
+    const updated = [{key: entry.key, vector: entry.vector}, ...index.filter(candidate => candidate.key !== entry.key)];
+    await cacheService.set(entry.context_key, updated.slice(0, MAX_SEMANTIC_ENTRIES), {namespace: NAMESPACE, ttl: entry.ttl, fallback: true});
+  },
+
+  /**
+   * Drops every cached response
+   * @returns Number of removed entries
+   */
+  clear: () => cacheService.invalidateNamespace(NAMESPACE)
+};
@@ -1,18 +1,27 @@
 // @cspell:ignore chatcmpl logprobs
-import { embed as aiEmbed, generateText as aiGenerateText, generateObject as aiGenerateObject, streamText as aiStreamText } from 'ai';
+import { embed as aiEmbed, generateText as aiGenerateText, generateObject as aiGenerateObject, streamText as aiStreamText, NoObjectGeneratedError } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { google } from '@ai-sdk/google';
 import OpenAI, { toFile } from 'openai';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import {type CompletionConfig} from '../../types/llm';
-import type {CoreMessage} from 'ai';
+import {type CompletionConfig, type ObjectCompletionConfig, type ToolCallConfig, type ToolCallResult} from '../../types/llm';
+import type {ZodError, ZodType} from 'zod';
+import type {CoreMessage, LanguageModelUsage, TextStreamPart, ToolSet} from 'ai';
 import type {ChatCompletion} from 'openai/resources/chat/completions';
 import {tempFile} from './upload.service';
 import { ValidationError } from '../../utils/errors';
 import {providers} from '../../config/llm.config';
 import { env } from '../../config/env.config';
 import { isLocalMode, getApiKey } from '../../config/local-user.config';
+import { usageService } from './usage.service';
+import { localLlmService } from './local-llm.service';
+import { circuitBreakerService } from './circuit-breaker.service';
+import { llmCacheService, type CachedOperation } from './llm-cache.service';
+import { attachmentService } from './attachment.service';
+import { getFallbackChain, type LlmOperation } from '../../config/fallback.config';
+import { embeddingModels as embeddingSpecs, getEmbeddingModel } from '../../config/embedding.config';
+import { stateManager } from '../agent/state.service';
 
 /**
  * Get API key for a service, checking local user config first if in local mode
@@ -34,11 +43,12 @@ const getApiKeyForService = (envKey: string, localKey: string): string | undefin
 };
 
 // Lightweight indirection layer to make AI SDK calls testable without network I/O
-type AiOps = {
-  generateText: typeof aiGenerateText;
-  streamText: typeof aiStreamText;
-  generateObject: typeof aiGenerateObject;
-  embed: typeof aiEmbed;
+// Results are narrowed to the fields used here, so cassettes can answer calls from recorded JSON
+export type AiOps = {
+  generateText: (config: Parameters<typeof aiGenerateText>[0]) => Promise<Pick<Awaited<ReturnType<typeof aiGenerateText>>, 'text' | 'toolCalls' | 'usage'>>;
+  streamText: (config: Parameters<typeof aiStreamText>[0]) => {fullStream: AsyncIterable<TextStreamPart<ToolSet>>; usage: PromiseLike<LanguageModelUsage>};
+  generateObject: (config: Parameters<typeof aiGenerateObject>[0]) => Promise<Pick<Awaited<ReturnType<typeof aiGenerateObject>>, 'object' | 'usage'>>;
+  embed: (config: Parameters<typeof aiEmbed>[0]) => Promise<Pick<Awaited<ReturnType<typeof aiEmbed>>, 'embedding' | 'usage'>>;
 };
 
 let aiOps: AiOps = {
@@ -53,6 +63,23 @@ export function __setAiOpsForTest(overrides: Partial<AiOps>) {
   aiOps = { ...aiOps, ...overrides };
 }
 
+// AI SDK operations replaced for a single agent run (cassettes); other runs keep the shared ones
+const RUN_AI_OPS = Symbol('run_ai_ops');
+const runAiOps = () => stateManager.local<{ops: AiOps | null}>(RUN_AI_OPS, () => ({ops: null}));
+
+// Current AI SDK operations of the run; the cassette recorder wraps them to capture real calls
+export function getAiOps(): AiOps {
+  return runAiOps().ops ?? aiOps;
+}
+
+/**
+ * Replaces the AI SDK operations for the current agent run and its parallel branches only
+ * @param ops - Operations to use, or null to go back to the shared ones
+ */
+export function setRunAiOps(ops: AiOps | null) {
+  runAiOps().ops = ops;
+}
+
 /**
  * Creates a base configuration for LLM operations
  * Automatically selects the appropriate provider based on the model and validates configuration
@@ -67,18 +94,8 @@ const resolveDefaultModel = () => {
   return configured === 'gemini-2.0-flash' ? 'gemini-2.5-flash' : configured;
 };
 
-const resolveFallbackModel = () => {
-  const configured = env.FALLBACK_TEXT_MODEL || 'gpt-4o-mini';
-  // If user configured forbidden Gemini model, replace with 2.5 flash
-  return configured === 'gemini-2.0-flash' ? 'gemini-2.5-flash' : configured;
-};
-
-const isRateLimitOrQuotaError = (error: unknown): boolean => {
-  const err = error as any;
-  const status = err?.status || err?.response?.status || err?.cause?.status;
-  const message = (err?.message || err?.response?.data || '').toString().toLowerCase();
-  return status === 429 || message.includes('rate limit') || message.includes('quota') || message.includes('resource exhausted');
-};
+// If user configured forbidden Gemini model, replace with 2.5 flash
+const resolveModel = (model: string) => (model === 'gemini-2.0-flash' ? 'gemini-2.5-flash' : model);
 
 type NormalizedErrorType =
   | 'rate_limit'
@@ -112,7 +129,184 @@ function normalizeAIError(error: unknown, provider: string, model: string) {
   return { type, code, status, provider, model, message };
 }
 
-const createBaseConfig = ({model = resolveDefaultModel(), messages, temperature = 0.7, max_tokens = 16384, user}: CompletionConfig) => {
+// Stream usage is only known once the stream finished, so it is recorded in the background
+const recordStreamUsage = (usage: PromiseLike<LanguageModelUsage> | undefined, model: string, user_uuid?: string) => {
+  if (!usage) return;
+  Promise.resolve(usage)
+    .then(value => usageService.record({ model, operation: 'stream', usage: value, user_uuid }))
+    .catch(() => {
+      // A failed stream reports its own error to the consumer
+    });
+};
+
+/**
+ * Waits for the first text of a stream, since streamText reports failures as stream parts instead of throwing
+ * @param fullStream - All parts of the stream
+ * @returns Text chunks of the stream, starting with the one already read
+ * @throws The stream's error when it fails before any text arrived
+ */
+const startTextStream = async (fullStream: AsyncIterable<TextStreamPart<ToolSet>>): Promise<AsyncIterable<string>> => {
+  const parts = fullStream[Symbol.asyncIterator]();
+  let first = await parts.next();
+  while (!first.done && first.value.type !== 'text-delta') {
+    if (first.value.type === 'error') throw first.value.error;
+    first = await parts.next();
+  }
+
+  async function* textStream() {
+    if (first.done) return;
+    if (first.value.type === 'text-delta') yield first.value.text;
+    for (let part = await parts.next(); !part.done; part = await parts.next()) {
+      if (part.value.type === 'error') throw part.value.error;
+      if (part.value.type === 'text-delta') yield part.value.text;
+    }
+  }
+  return textStream();
+};
+
+// Errors another provider may not have; they also count towards the provider's circuit breaker
+const FAILOVER_ERROR_TYPES = new Set<NormalizedErrorType>(['server', 'timeout', 'network', 'rate_limit']);
+
+const findProvider = (model: string): string | undefined =>
+  Object.entries(providers).find(([_, models]) => Object.keys(models).includes(model))?.[0];
+
+const providerOf = (model: string): string => findProvider(model) ?? 'openai';
+
+// Models of providers without credentials are skipped instead of failing on the missing key
+const isProviderConfigured = (provider: string): boolean => {
+  if (provider === 'openai') return !!getApiKeyForService('OPENAI_API_KEY', 'openai');
+  if (provider === 'google') return !!getApiKeyForService('GOOGLE_API_KEY', 'google');
+  if (provider === 'anthropic') return !!getApiKeyForService('ANTHROPIC_API_KEY', 'anthropic');
+  if (provider === 'local') return !!localLlmService.getSettings();
+  return true;
+};
+
+const describeError = ({type, status, message}: ReturnType<typeof normalizeAIError>) => `[${type}${status ? ` ${status}` : ''}]: ${message}`;
+
+/**
+ * Runs an LLM call on the requested model and then on the fallback chain of the operation
+ * Moves on only for server, timeout, network and rate limit errors, which also feed the provider's circuit breaker;
+ * providers with an open breaker or without credentials are skipped. Other errors fail right away
+ * @param operation - Operation whose fallback chain is used
+ * @param label - Operation name for error messages (e.g. `Text completion`)
+ * @param primary - Requested model
+ * @param call - Makes the call on the given model
+ * @param resolveProvider - Provider of a model; models without one are skipped. Chat models default to OpenAI
+ * @returns Result of the first model that succeeded
+ * @throws {ValidationError} Passed through unchanged, e.g. unparseable JSON, which still closes the provider's breaker
+ * @throws {Error} When the call fails on every available model
+ */
+const withFailover = async <T>(
+  operation: LlmOperation,
+  label: string,
+  primary: string,
+  call: (model: string) => Promise<T>,
+  resolveProvider: (model: string) => string | undefined = providerOf
+): Promise<T> => {
+  const chain = [primary, ...getFallbackChain(operation).map(resolveModel).filter(model => model !== primary)];
+  let failure: {error: unknown; provider: string; model: string} | undefined;
+  let attempts = 0;
+
+  for (const [index, model] of chain.entries()) {
+    const next = chain[index + 1] ?? null;
+    const provider = resolveProvider(model);
+
+    if (!provider || !isProviderConfigured(provider)) {
+      circuitBreakerService.recordFailover({operation, from: model, to: next, reason: provider ? 'not_configured' : 'unknown_model'});
+      continue;
+    }
+    if (!circuitBreakerService.canRequest(provider)) {
+      circuitBreakerService.recordFailover({operation, from: model, to: next, reason: 'circuit_open'});
+      continue;
+    }
+
+    attempts += 1;
+    try {
+      const result = await call(model);
+      circuitBreakerService.recordSuccess(provider);
+      return result;
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        // Unparseable output still means the provider answered
+        if (isInvalidJsonError(error.cause)) circuitBreakerService.recordSuccess(provider);
+        throw error;
+      }
+
+      const norm = normalizeAIError(error, attempts > 1 ? 'fallback' : 'primary', model);
+      if (!FAILOVER_ERROR_TYPES.has(norm.type)) {
+        // The provider answered, so its breaker closes even though the call failed
+        circuitBreakerService.recordSuccess(provider);
+        throw new Error(`${label} failed${attempts > 1 ? ' after fallback' : ''} ${describeError(norm)}`);
+      }
+
+      circuitBreakerService.recordFailure(provider, norm);
+      circuitBreakerService.recordFailover({operation, from: model, to: next, reason: norm.type});
+      failure = {error, provider, model};
+    }
+  }
+
+  if (!failure) {
+    throw new Error(`${label} failed: no model of the fallback chain is available (${chain.join(', ')})`);
+  }
+  const norm = normalizeAIError(failure.error, attempts > 1 ? 'fallback' : 'primary', failure.model);
+  throw new Error(`${label} failed${attempts > 1 ? ' after fallback' : ''} ${describeError(norm)}`);
+};
+
+// How often completion.object sends invalid output back to the model before giving up
+const OBJECT_REPAIR_ATTEMPTS = 2;
+
+// Output that is not JSON at all; repaired like a schema mismatch
+const isInvalidJsonError = (error: unknown): boolean => error instanceof SyntaxError || NoObjectGeneratedError.isInstance(error);
+
+/**
+ * Lists validation issues as `path: message` lines the model can act on
+ * @param error - Failed schema validation
+ * @returns One line per issue
+ */
+export const formatSchemaIssues = (error: ZodError): string =>
+  error.issues.map(issue => `- ${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`).join('\n');
+
+/**
+ * Generates a JSON object without validating it
+ * Unparseable output is reported as a ValidationError with the model's text in `context.text`, so completion.object
+ * can send it back for repair
+ */
+const generateObject = async (config: CompletionConfig): Promise<unknown> => {
+  const primaryModel = (config.model && config.model !== 'gemini-2.0-flash') ? config.model : resolveDefaultModel();
+
+  const invalidJson = (error: unknown, model: string, text: string | undefined) =>
+    new ValidationError('Model output is not valid JSON', {cause: error, context: {model, text}});
+
+  return withFailover('object', 'Object completion', primaryModel, async model => {
+    // Anthropic models answer as text, which is parsed here
+    if (providerOf(model) === 'anthropic') {
+      const base = await createBaseConfig({...config, model, max_tokens: providers.anthropic[model].maxOutput});
+      const result = await getAiOps().generateText(base as Parameters<AiOps['generateText']>[0]);
+      await usageService.record({ model, operation: 'object', usage: result.usage, user_uuid: config.user?.uuid });
+      try {
+        return JSON.parse(result.text);
+      } catch (error) {
+        throw invalidJson(error, model, result.text);
+      }
+    }
+
+    try {
+      const {object, usage} = await getAiOps().generateObject({
+        ...await createBaseConfig({...config, model}),
+        output: 'no-schema'
+      });
+      await usageService.record({ model, operation: 'object', usage, user_uuid: config.user?.uuid });
+      return object;
+    } catch (error) {
+      if (isInvalidJsonError(error)) {
+        throw invalidJson(error, model, NoObjectGeneratedError.isInstance(error) ? error.text : undefined);
+      }
+      throw error;
+    }
+  });
+};
+
+const createBaseConfig = async ({model = resolveDefaultModel(), messages, temperature = 0.7, max_tokens = 16384, user}: CompletionConfig) => {
   const provider = Object.entries(providers).find(([_, models]) => 
     Object.keys(models).includes(model)
   )?.[0] ?? 'openai';
@@ -146,19 +340,82 @@ const createBaseConfig = ({model = resolveDefaultModel(), messages, temperature
       });
     }
     languageModel = google(model);
+  } else if (provider === 'local') {
+    languageModel = localLlmService.languageModel(model);
   } else {
     throw new Error(`Unsupported provider: ${provider}`);
   }
 
   return {
     model: languageModel,
-    messages: messages as CoreMessage[],
+    // Uploads are read per model, so a fallback model gets the attachments it can handle
+    messages: await attachmentService.resolve(messages, {model, attachments: modelSpec.attachments ?? []}),
     temperature,
     maxTokens: Math.min(max_tokens, modelSpec.maxOutput),
     user: user.uuid
   };
 };
 
+/**
+ * Generates an object that matches the schema, sending invalid output back for repair
+ */
+const generateValidObject = async <T>(config: CompletionConfig, schema: ZodType<T>, repair_attempts: number): Promise<T> => {
+  let messages = config.messages;
+
+  for (let attempt = 0; ; attempt++) {
+    let output: unknown;
+    let problem: string;
+    try {
+      output = await generateObject({...config, messages});
+      const parsed = schema.safeParse(output);
+      if (parsed.success) {
+        return parsed.data;
+      }
+      problem = `The JSON does not match the required schema:\n${formatSchemaIssues(parsed.error)}`;
+    } catch (error) {
+      if (!(error instanceof ValidationError && isInvalidJsonError(error.cause))) {
+        throw error;
+      }
+      output = typeof error.context?.text === 'string' ? error.context.text : '';
+      problem = 'The response is not valid JSON.';
+    }
+
+    if (attempt >= repair_attempts) {
+      throw new ValidationError(`Structured output is still invalid after ${attempt + 1} attempts`, {
+        context: {model: config.model, problem}
+      });
+    }
+
+    // Repair from the original conversation so failed attempts do not pile up; providers such as Anthropic reject
+    // empty assistant messages, so output without any text is left out
+    const previous = typeof output === 'string' ? output : JSON.stringify(output) ?? '';
+    messages = [
+      ...config.messages,
+      ...(previous.trim() ? [{role: 'assistant', content: previous} as CoreMessage] : []),
+      {role: 'user', content: `${problem}\nRespond again with the corrected JSON object only.`}
+    ];
+  }
+};
+
+/**
+ * Answers deterministic calls from the response cache and stores the results of the others
+ * Runs with their own AI SDK operations (cassettes) skip the cache, so every call is recorded or replayed and
+ * replayed responses never end up in the cache
+ */
+const withCache = async <T>(operation: CachedOperation, config: CompletionConfig, schema: unknown, call: () => Promise<T>): Promise<T> => {
+  if (runAiOps().ops) return call();
+
+  const entry = llmCacheService.prepare(operation, config, schema);
+  if (!entry) return call();
+
+  const cached = await llmCacheService.lookup<T>(entry, embedding);
+  if (cached !== null) return cached;
+
+  const result = await call();
+  await llmCacheService.store(entry, result);
+  return result;
+};
+
 /**
  * LLM Completion Service
  * 
@@ -166,9 +423,10 @@ const createBaseConfig = ({model = resolveDefaultModel(), messages, temperature
  * Supports OpenAI, Anthropic, and other providers with automatic model selection and configuration.
  * 
  * Key features:
- * - Multi-provider support (OpenAI, Anthropic, XAI)
+ * - Multi-provider support (OpenAI, Anthropic, XAI, local OpenAI-compatible servers)
  * - Streaming text generation
  * - Structured object generation
+ * - Ordered fallback models per operation with per-provider circuit breakers
  * - Automatic token limit management
  * - OpenAI-compatible response formatting
  * 
@@ -229,30 +487,17 @@ export const completion = {
    */
   text: async ({max_tokens = 16384, ...config}: CompletionConfig, openAIFormat = false): Promise<string | ChatCompletion> => {
     const primaryModel = (config.model && config.model !== 'gemini-2.0-flash') ? config.model : resolveDefaultModel();
-    const fallbackModel = resolveFallbackModel();
-    try {
-      const result = await aiOps.generateText({
-        ...createBaseConfig({...config, model: primaryModel}),
+    const call = () => withFailover('text', 'Text completion', primaryModel, async model => {
+      const result = await getAiOps().generateText({
+        ...await createBaseConfig({...config, model}),
         maxTokens: max_tokens
       });
-      return openAIFormat ? generateResponseBody(result.text, primaryModel, result.usage) : result.text;
-    } catch (error) {
-      // Retry with fallback on rate limit/quota
-      if (isRateLimitOrQuotaError(error) && fallbackModel !== primaryModel) {
-        try {
-          const result = await aiOps.generateText({
-            ...createBaseConfig({...config, model: fallbackModel}),
-            maxTokens: max_tokens
-          });
-          return openAIFormat ? generateResponseBody(result.text, fallbackModel, result.usage) : result.text;
-        } catch (fallbackError) {
-          const norm = normalizeAIError(fallbackError, 'fallback', fallbackModel);
-          throw new Error(`Text completion failed after fallback [${norm.type}${norm.status ? ` ${norm.status}` : ''}]: ${norm.message}`);
-        }
-      }
-      const norm = normalizeAIError(error, 'primary', primaryModel);
-      throw new Error(`Text completion failed [${norm.type}${norm.status ? ` ${norm.status}` : ''}]: ${norm.message}`);
-    }
+      await usageService.record({ model, operation: 'text', usage: result.usage, user_uuid: config.user?.uuid });
+      return openAIFormat ? generateResponseBody(result.text, model, result.usage) : result.text;
+    });
+
+    // The OpenAI format reports the usage of the call, which a cached answer does not have
+    return openAIFormat ? call() : withCache('text', {...config, model: primaryModel, max_tokens}, undefined, call);
   },
 
   /**
@@ -288,51 +533,41 @@ export const completion = {
    */
   stream: async ({max_tokens = 16384, ...config}: CompletionConfig) => {
     const primaryModel = (config.model && config.model !== 'gemini-2.0-flash') ? config.model : resolveDefaultModel();
-    const fallbackModel = resolveFallbackModel();
-    try {
-      const provider = Object.entries(providers).find(([_, models]) => 
-        Object.keys(models).includes(primaryModel)
-      )?.[0] ?? 'openai';
 
-      const {textStream} = aiOps.streamText({
-        ...createBaseConfig({...config, model: primaryModel}),
-        maxTokens: Math.min(max_tokens, providers[provider][primaryModel].maxOutput)
+    // Only errors raised before the first text can fail over; later ones reach the consumer
+    return withFailover('stream', 'Stream completion', primaryModel, async model => {
+      const {fullStream, usage} = getAiOps().streamText({
+        ...await createBaseConfig({...config, model}),
+        maxTokens: Math.min(max_tokens, providers[providerOf(model)][model].maxOutput)
       });
-      return textStream;
-    } catch (error) {
-      if (isRateLimitOrQuotaError(error) && fallbackModel !== primaryModel) {
-        const provider = Object.entries(providers).find(([_, models]) => 
-          Object.keys(models).includes(fallbackModel)
-        )?.[0] ?? 'openai';
-        const {textStream} = aiOps.streamText({
-          ...createBaseConfig({...config, model: fallbackModel}),
-          maxTokens: Math.min(max_tokens, providers[provider][fallbackModel].maxOutput)
-        });
-        return textStream;
-      }
-      const norm = normalizeAIError(error, 'primary', primaryModel);
-      throw new Error(`Stream completion failed [${norm.type}${norm.status ? ` ${norm.status}` : ''}]: ${norm.message}`);
-    }
+      recordStreamUsage(usage, model, config.user?.uuid);
+      return startTextStream(fullStream);
+    });
   },
 
   /**
    * Generates structured object completion
    * Returns a parsed JSON object based on the model's response
+   * With a schema the object is validated; on a mismatch the model gets its output back together with
+   * the validation errors and tries again, at most `repair_attempts` times
    * 
    * @template T - The expected return type of the generated object
    * @param config - The completion configuration
+   * @param config.schema - Zod schema the object must match (optional)
+   * @param config.repair_attempts - How often invalid output is sent back for repair (default: 2)
    * @returns Parsed object of type T
-   * @throws {Error} When object completion or parsing fails
+   * @throws {ValidationError} When the output still does not match the schema after all repair attempts
+   * @throws {Error} When object completion fails
    * 
    * @example
    * ```typescript
-   * interface AnalysisResult {
-   *   sentiment: 'positive' | 'negative' | 'neutral';
-   *   confidence: number;
-   *   keywords: string[];
-   * }
+   * const analysisSchema = z.object({
+   *   sentiment: z.enum(['positive', 'negative', 'neutral']),
+   *   confidence: z.number(),
+   *   keywords: z.array(z.string())
+   * });
    * 
-   * const analysis = await completion.object<AnalysisResult>({
+   * const analysis = await completion.object({
  *   model: 'gemini-2.5-flash',
    *   messages: [
    *     {
@@ -341,58 +576,97 @@ export const completion = {
    *     },
    *     { role: 'user', content: 'I love this new AI technology!' }
    *   ],
-   *   user: { uuid: 'user-123' }
+   *   user: { uuid: 'user-123' },
+   *   schema: analysisSchema
    * });
    * 
    * console.log(analysis.sentiment); // 'positive'
    * console.log(analysis.confidence); // 0.95
    * ```
    */
-  object: async <T = unknown>(config: CompletionConfig): Promise<T> => {
-    const primaryModel = (config.model && config.model !== 'gemini-2.0-flash') ? config.model : resolveDefaultModel();
-    const fallbackModel = resolveFallbackModel();
-    try {
-      const provider = Object.entries(providers).find(([_, models]) => 
-        Object.keys(models).includes(primaryModel)
-      )?.[0] ?? 'openai';
-
-      if (provider === 'anthropic') {
-        const result = await completion.text({
-          ...config,
-          model: primaryModel,
-          max_tokens: providers[provider][primaryModel].maxOutput
-        });
-        return JSON.parse(result as string) as T;
-      }
+  object: async <T = unknown>({schema, repair_attempts = OBJECT_REPAIR_ATTEMPTS, ...config}: ObjectCompletionConfig<T>): Promise<T> =>
+    schema
+      ? withCache('object', config, schema, () => generateValidObject(config, schema, repair_attempts))
+      : generateObject(config) as Promise<T>,
 
-      const {object} = await aiOps.generateObject({
-        ...createBaseConfig({...config, model: primaryModel}),
-        output: 'no-schema'
+  /**
+   * Makes the model call exactly one of the given tools through provider function calling
+   * The tools have no `execute`, so the call is returned to the caller instead of being run.
+   * Calls whose input does not match the tool's schema are sent back with the error, at most `repair_attempts` times
+   *
+   * @param config - The completion configuration
+   * @param config.tools - AI SDK tools keyed by name
+   * @param config.repair_attempts - How often an invalid call is sent back for repair (default: 2)
+   * @returns Name and validated input of the called tool
+   * @throws {ValidationError} When the model still makes no valid call after all repair attempts
+   * @throws {Error} When the completion fails
+   *
+   * @example
+   * ```typescript
+   * const call = await completion.toolCall({
+   *   model: 'gpt-4o-mini',
+   *   messages: [{role: 'user', content: 'Play some jazz'}],
+   *   tools: {spotify__play_music: tool({description: 'Play music', inputSchema: z.object({query: z.string()})})},
+   *   user: {uuid: 'user-123', name: 'Jane'}
+   * });
+   * console.log(call.name, call.input); // 'spotify__play_music' {query: 'jazz'}
+   * ```
+   */
+  toolCall: async ({tools, repair_attempts = OBJECT_REPAIR_ATTEMPTS, ...config}: ToolCallConfig): Promise<ToolCallResult> => {
+    const model = (config.model && config.model !== 'gemini-2.0-flash') ? config.model : resolveDefaultModel();
+
+    let messages = config.messages;
+    for (let attempt = 0; ; attempt++) {
+      const result = await withFailover('text', 'Tool call completion', model, async candidate => {
+        // createBaseConfig also types v1 models, which generateText no longer accepts
+        const response = await getAiOps().generateText({
+          ...await createBaseConfig({...config, model: candidate, messages}),
+          tools,
+          toolChoice: 'required'
+        } as Parameters<AiOps['generateText']>[0]);
+        await usageService.record({ model: candidate, operation: 'tools', usage: response.usage, user_uuid: config.user?.uuid });
+        return response;
       });
-      return object as T;
-    } catch (error) {
-      if (isRateLimitOrQuotaError(error) && fallbackModel !== primaryModel) {
-        // Fallback to text and JSON.parse if generateObject not supported by fallback
-        try {
-          const result = await completion.text({ ...config, model: fallbackModel });
-          return JSON.parse(result as string) as T;
-        } catch (fallbackError) {
-          const norm = normalizeAIError(fallbackError, 'fallback', fallbackModel);
-          throw new Error(`Object completion failed after fallback [${norm.type}${norm.status ? ` ${norm.status}` : ''}]: ${norm.message}`);
-        }
+
+      const [call] = result.toolCalls ?? [];
+      if (call && !call.invalid) {
+        return {name: call.toolName, input: call.input};
       }
-      const norm = normalizeAIError(error, 'primary', primaryModel);
-      throw new Error(`Object completion failed [${norm.type}${norm.status ? ` ${norm.status}` : ''}]: ${norm.message}`);
+
+      const problem = call
+        ? `The call to "${call.toolName}" is invalid: ${call.error instanceof Error ? call.error.message : String(call.error)}`
+        : 'No tool was called.';
+
+      if (attempt >= repair_attempts) {
+        throw new ValidationError(`Tool call is still invalid after ${attempt + 1} attempts`, {context: {model, problem}});
+      }
+
+      // Repair from the original conversation so failed attempts do not pile up
+      messages = [
+        ...config.messages,
+        {role: 'user', content: `${problem}\nCall exactly one of the available tools with input that matches its schema.`}
+      ];
     }
   }
 };
 
+// Hosted embedding models of the registry in embedding.config
+const embeddingModels: Record<string, () => Parameters<AiOps['embed']>[0]['model']> = {
+  'text-embedding-004': () => google.embedding('text-embedding-004'),
+  'text-embedding-3-small': () => openai.embedding('text-embedding-3-small'),
+  'text-embedding-3-large': () => openai.embedding('text-embedding-3-large')
+};
+
 /**
  * Generates text embeddings for semantic search and similarity operations
- * Uses OpenAI's text-embedding-3-large model for high-quality vector representations
+ * Uses EMBEDDING_MODEL (default: Google's text-embedding-004) and falls back along LLM_FALLBACK_EMBEDDING (default: OpenAI's text-embedding-3-large)
+ * A configured local embedding model is used instead, without falling back to hosted providers.
+ * With `model`, exactly that model is used: vectors stored in an index have to come from the model it was built with
  * 
  * @param text - The text to generate embeddings for
+ * @param options.model - Embedding model to use without fallback, e.g. the model of a vector collection
  * @returns Array of numbers representing the text embedding
+ * @throws {ValidationError} When `model` is neither a registered nor the local embedding model
  * @throws {Error} When embedding generation fails
  * 
  * @example
@@ -407,25 +681,35 @@ export const completion = {
  * });
  * ```
  */
-export const embedding = async (text: string) => {
-  try {
-    const {embedding} = await aiOps.embed({
-      model: google.embedding('text-embedding-004'),
-      value: text
-    });
+export const embedding = async (text: string, {model}: {model?: string} = {}) => {
+  // Vectors of different models are not comparable, so a local model never falls back
+  const local = localLlmService.embeddingModel();
+  if (local && (!model || model === local.id)) {
+    const {embedding, usage} = await getAiOps().embed({ model: local.model, value: text });
+    await usageService.record({ model: local.id, operation: 'embedding', usage });
     return embedding;
-  } catch (error) {
-    // Fallback to OpenAI embeddings if available
-    const openaiKey = getApiKeyForService('OPENAI_API_KEY', 'openai');
-    if (openaiKey) {
-      const {embedding} = await aiOps.embed({
-        model: openai.embedding('text-embedding-3-large'),
-        value: text
-      });
-      return embedding;
+  }
+
+  if (model) {
+    if (!embeddingModels[model]) {
+      throw new ValidationError(`Embedding model ${model} is not available`, {context: {model}});
     }
-    throw error instanceof Error ? error : new Error('Embedding generation failed');
+    const {embedding, usage} = await getAiOps().embed({ model: embeddingModels[model](), value: text });
+    await usageService.record({ model, operation: 'embedding', usage });
+    return embedding;
   }
+
+  return withFailover(
+    'embedding',
+    'Embedding',
+    getEmbeddingModel(),
+    async candidate => {
+      const {embedding, usage} = await getAiOps().embed({ model: embeddingModels[candidate](), value: text });
+      await usageService.record({ model: candidate, operation: 'embedding', usage });
+      return embedding;
+    },
+    candidate => (embeddingModels[candidate] ? embeddingSpecs[candidate]?.provider : undefined)
+  );
 };
 
 /**
@@ -0,0 +1,195 @@
+/**
+ * Local model provider
+ * Connects to an OpenAI-compatible server (Ollama, llama.cpp, vLLM) and registers the models it serves
+ * as the `local` provider, so the app can run without hosted providers
+ * @module local-llm.service
+ */
+
+import {createOpenAI} from '@ai-sdk/openai';
+import {providers, type ModelSpecs} from '../../config/llm.config';
+import {isLocalMode, getApiKey, getUserPreferences, updateLocalProvider} from '../../config/local-user.config';
+import {ValidationError} from '../../utils/errors';
+import {createLogger} from './logger.service';
+
+const log = createLogger('LocalLlmService');
+
+// Local servers rarely report limits; these fit the small models they usually serve
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+const DEFAULT_MAX_OUTPUT = 4_096;
+const DISCOVERY_TIMEOUT_MS = 5_000;
+
+export interface LocalProviderSettings {
+  /** OpenAI-compatible root, always ending with /v1 */
+  baseUrl: string;
+  apiKey?: string;
+  embeddingModel?: string;
+}
+
+/**
+ * Normalizes a server URL to its OpenAI-compatible root
+ * @param url - Server URL with or without the /v1 suffix (e.g. http://localhost:11434)
+ * @returns URL ending with /v1 and without a trailing slash
+ */
+export const normalizeBaseUrl = (url: string): string => {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  return trimmed.endsWith('/v1') ? trimmed : `${trimmed}/v1`;
+};
+
+/**
+ * Reads the model list returned by GET /v1/models
+ * vLLM reports `max_model_len` and some servers `context_length`; other models get the defaults
+ * @param body - Parsed response body
+ * @returns Model specs keyed by model id
+ */
+export const parseModelList = (body: unknown): Record<string, ModelSpecs> => {
+  const data = (body as {data?: unknown})?.data;
+  if (!Array.isArray(data)) {
+    throw new ValidationError('Local model server returned an unexpected model list', {context: {body}});
+  }
+
+  return data.reduce<Record<string, ModelSpecs>>((models, entry) => {
+    const id = typeof entry?.id === 'string' ? entry.id : undefined;
+    if (!id) return models;
+
+    const contextWindow = Number(entry.max_model_len ?? entry.context_length) || DEFAULT_CONTEXT_WINDOW;
+    models[id] = {
+      id,
+      contextWindow,
+      maxOutput: Math.min(DEFAULT_MAX_OUTPUT, contextWindow),
+      knowledgeCutoff: 'unknown'
+    };
+    return models;
+  }, {});
+};
+
+const createClient = (settings: LocalProviderSettings) =>
+  createOpenAI({
+    name: 'local',
+    baseURL: settings.baseUrl,
+    // Most local servers ignore the key, but the client requires one
+    apiKey: settings.apiKey || 'local'
+  });
+
+/**
+ * Local model provider service
+ * @namespace localLlmService
+ */
+export const localLlmService = {
+  /**
+   * Resolves the local server settings
+   * In local mode the setup wizard settings win; the LOCAL_LLM_* environment variables are the fallback
+   * @returns Settings, or null when no local server is configured
+   */
+  getSettings: (): LocalProviderSettings | null => {
+    const preferences = isLocalMode() ? getUserPreferences().localProvider : undefined;
+    if (preferences) {
+      return {
+        baseUrl: normalizeBaseUrl(preferences.baseUrl),
+        apiKey: getApiKey('local') || process.env.LOCAL_LLM_API_KEY,
+        embeddingModel: preferences.embeddingModel
+      };
+    }
+
+    if (!process.env.LOCAL_LLM_BASE_URL) return null;
+    return {
+      baseUrl: normalizeBaseUrl(process.env.LOCAL_LLM_BASE_URL),
+      apiKey: process.env.LOCAL_LLM_API_KEY,
+      embeddingModel: process.env.LOCAL_EMBEDDING_MODEL
+    };
+  },
+
+  /**
+   * Fetches the models the server serves and registers them as the `local` provider
+   * The previous list is replaced, so models removed from the server stop being selectable
+   * @param settings - Server to query (default: the configured one)
+   * @returns Promise that resolves to the discovered model ids
+   * @throws {ValidationError} When no server is configured or the server cannot be reached
+   * @example
+   * ```typescript
+   * const models = await localLlmService.discoverModels();
+   * await completion.text({model: models[0], messages, user});
+   * ```
+   */
+  discoverModels: async (settings: LocalProviderSettings | null = localLlmService.getSettings()): Promise<string[]> => {
+    if (!settings) {
+      throw new ValidationError('Local model server not configured', {
+        context: {suggestion: 'Set the server URL in the setup wizard or the LOCAL_LLM_BASE_URL environment variable'}
+      });
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${settings.baseUrl}/models`, {
+        headers: settings.apiKey ? {Authorization: `Bearer ${settings.apiKey}`} : undefined,
+        signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS)
+      });
+    } catch (error) {
+      throw new ValidationError(`Local model server at ${settings.baseUrl} is not reachable`, {cause: error});
+    }
+
+    if (!response.ok) {
+      throw new ValidationError(`Local model server returned HTTP ${response.status}`, {context: {baseUrl: settings.baseUrl}});
+    }
+
+    const models = parseModelList(await response.json());
+    providers.local = models;
+
+    log.info('Local models discovered', {baseUrl: settings.baseUrl, models: Object.keys(models)});
+    return Object.keys(models);
+  },
+
+  /**
+   * Stores the local server in the local-user config after checking that it serves models
+   * @param settings - Server URL, optional API key and embedding model
+   * @returns Promise that resolves to the discovered model ids
+   * @throws {ValidationError} When the server cannot be reached; nothing is stored then
+   */
+  configure: async ({baseUrl, apiKey, embeddingModel}: LocalProviderSettings): Promise<string[]> => {
+    const models = await localLlmService.discoverModels({baseUrl: normalizeBaseUrl(baseUrl), apiKey, embeddingModel});
+    updateLocalProvider({baseUrl, embeddingModel}, apiKey);
+    return models;
+  },
+
+  /**
+   * Removes the local server from the local-user config and unregisters its models
+   */
+  remove: () => {
+    updateLocalProvider(null);
+    providers.local = {};
+  },
+
+  /**
+   * Lists the models registered by the last discovery
+   * @returns Discovered model ids
+   */
+  getModels: (): string[] => Object.keys(providers.local ?? {}),
+
+  /**
+   * Creates an AI SDK chat model served by the local server
+   * @param model - Model id from discovery
+   * @throws {ValidationError} When no server is configured
+   */
+  languageModel: (model: string) => {
+    const settings = localLlmService.getSettings();
+    if (!settings) {
+      throw new ValidationError('Local model server not configured', {
+        context: {
+          suggestion: isLocalMode()
+            ? 'Configure the local model server in the setup wizard or set LOCAL_LLM_BASE_URL'
+            : 'Set LOCAL_LLM_BASE_URL environment variable'
+        }
+      });
+    }
+    return createClient(settings).chat(model);
+  },
+
+  /**
+   * Creates the AI SDK embedding model of the local server
+   * @returns Embedding model and its id, or null when no local embedding model is configured
+   */
+  embeddingModel: () => {
+    const settings = localLlmService.getSettings();
+    if (!settings?.embeddingModel) return null;
+    return {id: settings.embeddingModel, model: createClient(settings).textEmbeddingModel(settings.embeddingModel)};
+  }
+};
@@ -0,0 +1,185 @@
+/**
+ * Embedded vector store
+ * Keeps the collections in a SQLite file next to the application database (VECTOR_STORE_PATH), so memory recall
+ * works without a Qdrant server. Vectors are stored normalized as float32 blobs and searched exactly: the points
+ * matching the filters are scored by cosine similarity, which is fast enough for a personal index of tens of
+ * thousands of points. The filter fields are kept in indexed columns next to the payload
+ * @module local-vector.service
+ */
+
+import {Database} from 'bun:sqlite';
+import {getVectorStoreSettings} from '../../config/vector.config';
+import type {ScoredVectorPoint, VectorPoint, VectorSearchFilters, VectorStore} from '../../types/vector';
+
+const filterColumns = ['source_uuid', 'source', 'content_type', 'category', 'subcategory'] as const;
+
+type PointRow = {id: string; vector: Uint8Array; payload: string};
+
+let database: Database | null = null;
+
+const open = (): Database => {
+  if (database) return database;
+
+  database = new Database(getVectorStoreSettings().local_path, {create: true});
+  database.exec('PRAGMA journal_mode = WAL');
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS vector_collections (
+      name TEXT PRIMARY KEY,
+      dimensions INTEGER NOT NULL,
+      created_at TEXT DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE IF NOT EXISTS vector_points (
+      collection TEXT NOT NULL REFERENCES vector_collections(name) ON DELETE CASCADE,
+      id TEXT NOT NULL,
+      vector BLOB NOT NULL,
+      payload TEXT NOT NULL,
+      ${filterColumns.map(column => `${column} TEXT`).join(', ')},
+      PRIMARY KEY (collection, id)
+    );
+    CREATE INDEX IF NOT EXISTS vector_points_source_uuid_idx ON vector_points (collection, source_uuid);
+    CREATE INDEX IF NOT EXISTS vector_points_source_idx ON vector_points (collection, source);
+  `);
+  database.exec('PRAGMA foreign_keys = ON');
+  return database;
+};
+
+const normalize = (vector: number[]): Float32Array => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return Float32Array.from(vector, value => (norm > 0 ? value / norm : 0));
+};
+
+// Copied, since a blob is not guaranteed to be aligned for float32
+const decode = (blob: Uint8Array): Float32Array => new Float32Array(blob.slice().buffer);
+
+const filterValues = (payload: Record<string, unknown>) =>
+  filterColumns.map(column => (typeof payload[column] === 'string' ? (payload[column] as string) : null));
+
+const whereFilters = (filters?: VectorSearchFilters) => {
+  const columns = filterColumns.filter(column => filters?.[column]);
+  return {
+    sql: columns.map(column => ` AND ${column} = ?`).join(''),
+    values: columns.map(column => filters![column] as string)
+  };
+};
+
+const requireDimensions = (collection: string): number => {
+  const row = open().query('SELECT dimensions FROM vector_collections WHERE name = ?').get(collection) as {dimensions: number} | null;
+  if (!row) throw new Error(`Collection ${collection} does not exist in the local vector store`);
+  return row.dimensions;
+};
+
+const writePoints = (collection: string, points: {id: string; vector: Float32Array; payload: Record<string, unknown>}[]) => {
+  const statement = open().prepare(`
+    INSERT OR REPLACE INTO vector_points (collection, id, vector, payload, ${filterColumns.join(', ')})
+    VALUES (?, ?, ?, ?, ${filterColumns.map(() => '?').join(', ')})
+  `);
+
+  open().transaction(() => {
+    for (const point of points) {
+      statement.run(collection, point.id, new Uint8Array(point.vector.buffer), JSON.stringify(point.payload), ...filterValues(point.payload));
+    }
+  })();
+};
+
+/**
+ * SQLite implementation of the vector store
+ * @namespace localVectorStore
+ */
+export const localVectorStore: VectorStore = {
+  name: 'local',
+
+  async listCollections(): Promise<string[]> {
+    const rows = open().query('SELECT name FROM vector_collections ORDER BY name').all() as {name: string}[];
+    return rows.map(row => row.name);
+  },
+
+  async getDimensions(collection: string): Promise<number | null> {
+    const row = open().query('SELECT dimensions FROM vector_collections WHERE name = ?').get(collection) as {dimensions: number} | null;
+    return row?.dimensions ?? null;
+  },
+
+  async createCollection(collection: string, dimensions: number): Promise<void> {
+    open().query('INSERT OR IGNORE INTO vector_collections (name, dimensions) VALUES (?, ?)').run(collection, dimensions);
+  },
+
+  async dropCollection(collection: string): Promise<void> {
+    open().query('DELETE FROM vector_collections WHERE name = ?').run(collection);
+  },
+
+  async upsert(collection: string, points: Required<VectorPoint>[]): Promise<void> {
+    const dimensions = requireDimensions(collection);
+
+    const invalid = points.find(point => point.vector.length !== dimensions);
+    if (invalid) throw new Error(`Vector of point ${invalid.id} must be of size ${dimensions}, got ${invalid.vector.length}`);
+
+    writePoints(collection, points.map(point => ({...point, vector: normalize(point.vector)})));
+  },
+
+  async delete(collection: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    open()
+      .query(`DELETE FROM vector_points WHERE collection = ? AND id IN (${ids.map(() => '?').join(', ')})`)
+      .run(collection, ...ids);
+  },
+
+  async setPayload(collection: string, ids: string[], payload: Record<string, unknown>): Promise<void> {
+    requireDimensions(collection);
+    if (ids.length === 0) return;
+
+    const rows = open()
+      .query(`SELECT id, vector, payload FROM vector_points WHERE collection = ? AND id IN (${ids.map(() => '?').join(', ')})`)
+      .all(collection, ...ids) as PointRow[];
+
+    writePoints(collection, rows.map(row => ({
+      id: row.id,
+      vector: decode(row.vector),
+      payload: {...JSON.parse(row.payload), ...payload}
+    })));
+  },
+
+  async search(collection: string, vector: number[], {filters, limit}: {filters?: VectorSearchFilters; limit: number}): Promise<ScoredVectorPoint[]> {
+    const dimensions = requireDimensions(collection);
+    if (vector.length !== dimensions) throw new Error(`Query vector must be of size ${dimensions}, got ${vector.length}`);
+
+    const query = normalize(vector);
+    const where = whereFilters(filters);
+    const rows = open()
+      .query(`SELECT id, vector, payload FROM vector_points WHERE collection = ?${where.sql}`)
+      .all(collection, ...where.values) as PointRow[];
+
+    const scored = rows.map(row => {
+      const stored = decode(row.vector);
+      let score = 0;
+      for (let i = 0; i < stored.length; i++) score += stored[i] * query[i];
+      return {row, score};
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({row, score}) => ({id: row.id, score, payload: JSON.parse(row.payload)}));
+  },
+
+  async scroll(
+    collection: string,
+    {filters, limit, offset, with_vector = false}: {filters?: VectorSearchFilters; limit: number; offset?: string | null; with_vector?: boolean}
+  ): Promise<{points: VectorPoint[]; next_offset: string | null}> {
+    requireDimensions(collection);
+
+    const where = whereFilters(filters);
+    // One row more than the page tells whether there is a next page, and where it starts
+    const rows = open()
+      .query(`SELECT id, vector, payload FROM vector_points WHERE collection = ? AND id >= ?${where.sql} ORDER BY id LIMIT ?`)
+      .all(collection, offset ?? '', ...where.values, limit + 1) as PointRow[];
+
+    return {
+      points: rows.slice(0, limit).map(row => ({
+        id: row.id,
+        payload: JSON.parse(row.payload),
+        ...(with_vector ? {vector: Array.from(decode(row.vector))} : {})
+      })),
+      next_offset: rows.length > limit ? rows[limit].id : null
+    };
+  }
+};
@@ -0,0 +1,341 @@
+/**
+ * Versioned prompts with overrides and A/B variants
+ * Renders a registered prompt with the override that applies to the caller, records which version and variant an
+ * agent run used and compares the outcomes of the variants of a prompt
+ * @module prompt.service
+ */
+
+import {createHash, randomUUID} from 'crypto';
+import {readFile} from 'fs/promises';
+import path from 'path';
+import {and, eq, gte, sql} from 'drizzle-orm';
+import {db} from '../../database';
+import {prompt_versions, type PromptVersionRecord} from '../../schema/prompt_versions';
+import {prompt_runs} from '../../schema/prompt_runs';
+import {agent_runs} from '../../schema/agent_runs';
+import {prompts, isPromptId, promptVariables, renderTemplate, type PromptArgs, type PromptId} from '../../prompts/registry';
+import {getPromptSettings, pickVariant, type PromptSettings} from '../../config/prompts.config';
+import {stateManager} from '../agent/state.service';
+import {NotFoundError, ValidationError} from '../../utils/errors';
+import {createLogger} from './logger.service';
+
+const log = createLogger('PromptService');
+
+export type PromptSource = 'builtin' | 'file' | 'database';
+
+export type PromptScope = 'user' | 'environment' | 'global';
+
+export interface RenderedPrompt {
+  id: PromptId;
+  version: string;
+  variant: string;
+  source: PromptSource;
+  content: string;
+}
+
+export interface PromptContext {
+  user_uuid?: string | null;
+  conversation_uuid?: string | null;
+}
+
+export interface NewPromptVersion {
+  template: string;
+  /** Label of the version; numbered automatically when left out */
+  version?: string;
+  variant?: string;
+  scope: PromptScope;
+  /** Owner of a user-scoped override */
+  user_uuid?: string | null;
+  /** Environment of an environment-scoped override; the current one when left out */
+  environment?: string;
+  weight?: number;
+}
+
+export interface PromptVariantReport {
+  version: string;
+  variant: string;
+  runs: number;
+  completed: number;
+  /** Share of runs that completed (0-1) */
+  completion_rate: number;
+  avg_steps: number;
+  avg_duration_ms: number;
+  /** Input and output tokens */
+  avg_tokens: number;
+  /** USD */
+  avg_cost: number;
+}
+
+interface ResolvedPrompt {
+  version: string;
+  variant: string;
+  source: PromptSource;
+  /** Override template; null renders the built-in prompt */
+  template: string | null;
+}
+
+// Active database overrides; reloaded after every change made through this service
+let overrides_cache: PromptVersionRecord[] | null = null;
+
+const loadOverrides = async (): Promise<PromptVersionRecord[]> => {
+  overrides_cache ??= await db.select().from(prompt_versions).where(eq(prompt_versions.active, true));
+  return overrides_cache;
+};
+
+// Prompts a run used; branches of a run share it, so parallel actions count towards the same run
+const RUN_PROMPTS = Symbol('run_prompts');
+const runPrompts = () => stateManager.local(RUN_PROMPTS, () => new Map<string, {prompt_id: string; version: string; variant: string}>());
+
+const scopeOf = (row: PromptVersionRecord): PromptScope => (row.user_uuid ? 'user' : row.environment ? 'environment' : 'global');
+
+const readFileOverride = async (id: PromptId, settings: PromptSettings): Promise<ResolvedPrompt | null> => {
+  for (const file of [path.join(settings.overrides_dir, settings.environment, `${id}.md`), path.join(settings.overrides_dir, `${id}.md`)]) {
+    const template = await readFile(file, 'utf-8').catch(() => null);
+    if (template?.trim()) {
+      return {
+        version: `file-${createHash('sha256').update(template).digest('hex').slice(0, 8)}`,
+        variant: 'default',
+        source: 'file',
+        template
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds the override of a prompt for the caller, from the most specific scope to the least
+ */
+const resolve = async (id: PromptId, context: PromptContext): Promise<ResolvedPrompt> => {
+  const settings = getPromptSettings();
+  const rows = (await loadOverrides()).filter(
+    row => row.prompt_id === id && (!row.environment || row.environment === settings.environment)
+  );
+
+  const scopes: Array<(row: PromptVersionRecord) => boolean> = [
+    row => !!context.user_uuid && row.user_uuid === context.user_uuid,
+    row => !row.user_uuid && !!row.environment,
+    row => !row.user_uuid && !row.environment
+  ];
+
+  for (const inScope of scopes) {
+    const variants = rows.filter(inScope);
+    if (variants.length === 0) continue;
+
+    const picked = pickVariant(variants, `${id}:${context.user_uuid ?? context.conversation_uuid ?? randomUUID()}`);
+    return {version: picked.version, variant: picked.variant, source: 'database', template: picked.template};
+  }
+
+  return (await readFileOverride(id, settings)) ?? {version: prompts[id].version, variant: 'default', source: 'builtin', template: null};
+};
+
+/**
+ * Prompt registry service
+ * @namespace promptService
+ */
+export const promptService = {
+  /**
+   * Renders a prompt with the override that applies to the caller and notes it for the run's variant report
+   * A failing override lookup falls back to the built-in prompt, so overrides cannot break a run
+   * @param id - Registered prompt
+   * @param args - Arguments of the built-in prompt
+   * @param context - Caller whose overrides apply; defaults to the user and conversation of the current run
+   * @returns The prompt text with its version, variant and source
+   * @example
+   * ```typescript
+   * const answer = await promptService.render('agent.answer', state);
+   * const generation = span.generation({name: 'answer', input: messages, ...promptService.tags(answer)});
+   * ```
+   */
+  render: async <I extends PromptId>(id: I, args: PromptArgs<I>, context?: PromptContext): Promise<RenderedPrompt> => {
+    const definition = prompts[id] as {render: (args: PromptArgs<I>) => string};
+    const builtin = definition.render(args);
+    const {config} = stateManager.getState();
+
+    const resolved = await resolve(id, context ?? {user_uuid: config.user_uuid, conversation_uuid: config.conversation_uuid}).catch(error => {
+      log.warn('Prompt override lookup failed, using the built-in prompt', {
+        prompt_id: id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return {version: prompts[id].version, variant: 'default', source: 'builtin', template: null} satisfies ResolvedPrompt;
+    });
+
+    runPrompts().set(`${id}|${resolved.version}|${resolved.variant}`, {prompt_id: id, version: resolved.version, variant: resolved.variant});
+
+    return {
+      id,
+      version: resolved.version,
+      variant: resolved.variant,
+      source: resolved.source,
+      content: resolved.template === null ? builtin : renderTemplate(resolved.template, promptVariables(builtin, args))
+    };
+  },
+
+  /**
+   * Langfuse fields that tag a generation with the prompt it was made with
+   * @param rendered - Prompt of the generation
+   * @returns Version and metadata to spread into the generation
+   */
+  tags: (rendered: RenderedPrompt) => ({
+    version: rendered.version,
+    metadata: {prompt_id: rendered.id, prompt_version: rendered.version, prompt_variant: rendered.variant, prompt_source: rendered.source}
+  }),
+
+  /**
+   * Stores the prompt versions and variants the current run used
+   * Never throws; a failed write is logged so the report cannot break a run
+   * @param run_id - Id the run is stored with in agent_runs
+   */
+  recordRun: async (run_id: string): Promise<void> => {
+    const used = [...runPrompts().values()];
+    if (used.length === 0) return;
+
+    try {
+      await db
+        .insert(prompt_runs)
+        .values(used.map(prompt => ({run_id, ...prompt})))
+        .onConflictDoNothing();
+    } catch (error) {
+      log.warn('Failed to record prompt variants of the run', {run_id, error: error instanceof Error ? error.message : String(error)});
+    }
+  },
+
+  /**
+   * Lists the registered prompts with their built-in version and active overrides
+   * @returns Prompts by id
+   */
+  list: async () => {
+    const overrides = await loadOverrides();
+
+    return Object.entries(prompts).map(([id, definition]) => ({
+      id,
+      version: definition.version,
+      description: definition.description,
+      overrides: overrides.filter(row => row.prompt_id === id).length
+    }));
+  },
+
+  /**
+   * Shows a prompt with every stored version and the file override of the current environment
+   * @param id - Registered prompt
+   * @returns Built-in version, file override and database versions, newest first
+   * @throws {NotFoundError} When the prompt is not registered
+   */
+  get: async (id: string) => {
+    if (!isPromptId(id)) throw new NotFoundError(`Prompt ${id}`);
+
+    const versions = await db
+      .select()
+      .from(prompt_versions)
+      .where(eq(prompt_versions.prompt_id, id))
+      .orderBy(sql`${prompt_versions.id} desc`);
+    const file = await readFileOverride(id, getPromptSettings());
+
+    return {
+      id,
+      version: prompts[id].version,
+      description: prompts[id].description,
+      file: file ? {version: file.version, template: file.template} : null,
+      versions: versions.map(row => ({...row, scope: scopeOf(row)}))
+    };
+  },
+
+  /**
+   * Stores an override of a prompt; active rows of the same scope split the traffic by weight
+   * @param id - Registered prompt
+   * @param input - Template, scope and A/B settings
+   * @returns The stored version
+   * @throws {NotFoundError} When the prompt is not registered
+   * @throws {ValidationError} When a user-scoped override has no user
+   */
+  createVersion: async (id: string, input: NewPromptVersion): Promise<PromptVersionRecord> => {
+    if (!isPromptId(id)) throw new NotFoundError(`Prompt ${id}`);
+    if (input.scope === 'user' && !input.user_uuid) {
+      throw new ValidationError('A user-scoped prompt override needs a user', {context: {prompt_id: id}});
+    }
+
+    const [{count}] = await db
+      .select({count: sql<number>`count(*)`})
+      .from(prompt_versions)
+      .where(eq(prompt_versions.prompt_id, id));
+
+    const [created] = await db
+      .insert(prompt_versions)
+      .values({
+        uuid: randomUUID(),
+        prompt_id: id,
+        version: input.version ?? `db-${Number(count) + 1}`,
+        variant: input.variant ?? 'default',
+        template: input.template,
+        user_uuid: input.scope === 'user' ? input.user_uuid : null,
+        environment: input.scope === 'environment' ? input.environment ?? getPromptSettings().environment : null,
+        weight: input.weight ?? 100
+      })
+      .returning();
+
+    overrides_cache = null;
+    log.info('Prompt override stored', {prompt_id: id, version: created.version, variant: created.variant, scope: input.scope});
+    return created;
+  },
+
+  /**
+   * Turns a stored version on or off or changes its share of the traffic
+   * @param uuid - Stored version
+   * @param changes - New active flag or weight
+   * @returns The updated version
+   * @throws {NotFoundError} When the version does not exist
+   */
+  updateVersion: async (uuid: string, changes: {active?: boolean; weight?: number}): Promise<PromptVersionRecord> => {
+    const [updated] = await db
+      .update(prompt_versions)
+      .set({...changes, updated_at: new Date().toISOString()})
+      .where(eq(prompt_versions.uuid, uuid))
+      .returning();
+
+    if (!updated) throw new NotFoundError(`Prompt version ${uuid}`);
+
+    overrides_cache = null;
+    return updated;
+  },
+
+  /**
+   * Compares the outcomes of the runs that used each version and variant of a prompt
+   * @param id - Registered prompt
+   * @param days - How many days back to look
+   * @returns Promise that resolves to one row per version and variant
+   * @throws {NotFoundError} When the prompt is not registered
+   */
+  getVariantReport: async (id: string, days = 30): Promise<PromptVariantReport[]> => {
+    if (!isPromptId(id)) throw new NotFoundError(`Prompt ${id}`);
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().replace('T', ' ').slice(0, 19);
+
+    const rows = await db
+      .select({
+        version: prompt_runs.version,
+        variant: prompt_runs.variant,
+        runs: sql<number>`count(*)`,
+        completed: sql<number>`sum(case when ${agent_runs.status} = 'completed' then 1 else 0 end)`,
+        avg_steps: sql<number>`coalesce(avg(${agent_runs.steps}), 0)`,
+        avg_duration_ms: sql<number>`coalesce(avg(${agent_runs.duration_ms}), 0)`,
+        avg_tokens: sql<number>`coalesce(avg(${agent_runs.input_tokens} + ${agent_runs.output_tokens}), 0)`,
+        avg_cost: sql<number>`coalesce(avg(${agent_runs.cost}), 0)`
+      })
+      .from(prompt_runs)
+      .innerJoin(agent_runs, eq(agent_runs.run_id, prompt_runs.run_id))
+      .where(and(eq(prompt_runs.prompt_id, id), gte(prompt_runs.created_at, since)))
+      .groupBy(prompt_runs.version, prompt_runs.variant);
+
+    return rows.map(row => ({
+      version: row.version,
+      variant: row.variant,
+      runs: Number(row.runs),
+      completed: Number(row.completed),
+      completion_rate: Number(row.runs) > 0 ? Number(row.completed) / Number(row.runs) : 0,
+      avg_steps: Number(row.avg_steps),
+      avg_duration_ms: Math.round(Number(row.avg_duration_ms)),
+      avg_tokens: Math.round(Number(row.avg_tokens)),
+      avg_cost: Number(row.avg_cost)
+    }));
+  }
+};
@@ -0,0 +1,145 @@
+/**
+ * Qdrant vector store
+ * Keeps the collections on the Qdrant server at QDRANT_URL. Point ids are document UUIDs and the filterable
+ * metadata sits at the top level of the payload, indexed for source_uuid and source
+ * @module qdrant.service
+ */
+
+import {QdrantClient} from '@qdrant/js-client-rest';
+import type {ScoredVectorPoint, VectorPoint, VectorSearchFilters, VectorStore} from '../../types/vector';
+import {createLogger} from './logger.service';
+
+const log = createLogger('QdrantService');
+
+let client: QdrantClient | null = null;
+
+// Created on first use, so installs on the local store never need the server settings
+const qdrant = () =>
+  (client ??= new QdrantClient({
+    url: process.env.QDRANT_URL,
+    apiKey: process.env.QDRANT_API_KEY
+  }));
+
+const filterKeys = ['source_uuid', 'source', 'content_type', 'category', 'subcategory'] as const;
+
+/**
+ * Formats search filters into Qdrant-compatible filter structure
+ * Converts user-friendly filter objects into the format expected by Qdrant
+ * 
+ * @param filters - The search filters to format
+ * @returns Qdrant-compatible filter object or undefined if no filters
+ * 
+ * @example
+ * ```typescript
+ * const filters = { source: 'document', content_type: 'chunk' };
+ * const qdrantFilter = formatSearchFilters(filters);
+ * // Returns: { must: [{ key: 'source', match: { value: 'document' } }, ...] }
+ * ```
+ */
+export const formatSearchFilters = (filters?: VectorSearchFilters) => {
+  if (!filters) return undefined;
+
+  const must = filterKeys
+    .filter(key => filters[key])
+    .map(key => ({key, match: {value: filters[key] as string}}));
+
+  log.debug('Formatted Qdrant filters', {filters: {must}});
+  return must.length > 0 ? {must} : undefined;
+};
+
+/**
+ * Qdrant implementation of the vector store
+ * @namespace qdrantStore
+ */
+export const qdrantStore: VectorStore = {
+  name: 'qdrant',
+
+  async listCollections(): Promise<string[]> {
+    const {collections} = await qdrant().getCollections();
+    return collections.map(collection => collection.name);
+  },
+
+  async getDimensions(collection: string): Promise<number | null> {
+    if (!(await this.listCollections()).includes(collection)) return null;
+
+    const info = await qdrant().getCollection(collection);
+    const vectors = info.config.params.vectors as {size?: number} | undefined;
+    return vectors?.size ?? null;
+  },
+
+  async createCollection(collection: string, dimensions: number): Promise<void> {
+    if ((await this.listCollections()).includes(collection)) return;
+
+    await qdrant().createCollection(collection, {
+      vectors: {
+        size: dimensions,
+        distance: 'Cosine'
+      },
+      optimizers_config: {
+        default_segment_number: 2
+      },
+      replication_factor: 1
+    });
+
+    // Create payload indexes for faster filtering
+    for (const field_name of ['source_uuid', 'source']) {
+      await qdrant().createPayloadIndex(collection, {field_name, field_schema: 'keyword', wait: true});
+    }
+  },
+
+  async dropCollection(collection: string): Promise<void> {
+    await qdrant().deleteCollection(collection);
+  },
+
+  async upsert(collection: string, points: Required<VectorPoint>[]): Promise<void> {
+    if (points.length === 0) return;
+    await qdrant().upsert(collection, {wait: true, points});
+  },
+
+  async delete(collection: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await qdrant().delete(collection, {wait: true, points: ids});
+  },
+
+  async setPayload(collection: string, ids: string[], payload: Record<string, unknown>): Promise<void> {
+    if (ids.length === 0) return;
+    await qdrant().setPayload(collection, {points: ids, payload, wait: true});
+  },
+
+  async search(collection: string, vector: number[], {filters, limit}: {filters?: VectorSearchFilters; limit: number}): Promise<ScoredVectorPoint[]> {
+    const results = await qdrant().search(collection, {
+      vector,
+      filter: formatSearchFilters(filters),
+      limit,
+      with_payload: true
+    });
+
+    return results.map(result => ({
+      id: String(result.id),
+      score: result.score,
+      payload: (result.payload ?? {}) as Record<string, unknown>
+    }));
+  },
+
+  async scroll(
+    collection: string,
+    {filters, limit, offset, with_vector = false}: {filters?: VectorSearchFilters; limit: number; offset?: string | null; with_vector?: boolean}
+  ): Promise<{points: VectorPoint[]; next_offset: string | null}> {
+    const page = await qdrant().scroll(collection, {
+      filter: formatSearchFilters(filters),
+      limit,
+      offset: offset ?? undefined,
+      with_payload: true,
+      with_vector
+    });
+
+    return {
+      points: page.points.map(point => ({
+        id: String(point.id),
+        payload: (point.payload ?? {}) as Record<string, unknown>,
+        ...(with_vector && Array.isArray(point.vector) ? {vector: point.vector as number[]} : {})
+      })),
+      next_offset: page.next_page_offset == null ? null : String(page.next_page_offset)
+    };
+  }
+};
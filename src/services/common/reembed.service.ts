@@ -0,0 +1,226 @@
+/**
+ * Background re-embedding of the vector index with another embedding model
+ * A new collection is built next to the active one: every indexed document, memories included, is embedded with
+ * the new model while searches keep using the active collection and new writes go to both. Once every document
+ * is in, the new collection replaces the active one in a single registry update; the previous one is kept, retired
+ * @module reembed.service
+ */
+
+import {asc, gt} from 'drizzle-orm';
+import {db} from '../../database';
+import {documents, type Document} from '../../schema/document';
+import type {EmbeddingCollection} from '../../schema/embedding_collections';
+import {embedding} from './llm.service';
+import {vectorService} from './vector.service';
+import {localLlmService} from './local-llm.service';
+import {embeddingCollectionService} from './embedding-collection.service';
+import {embeddingModels} from '../../config/embedding.config';
+import {ValidationError} from '../../utils/errors';
+import {createLogger} from './logger.service';
+
+const log = createLogger('ReembedService');
+
+const BATCH_SIZE = 50;
+
+// A document is tried again once before it counts as failed
+const ATTEMPTS = 2;
+
+export interface ReembedStatus {
+  /** Whether a re-embedding runs in this process */
+  running: boolean;
+  active: EmbeddingCollection | null;
+  /** Collection being built, with its progress in percent */
+  building: (EmbeddingCollection & {percent: number}) | null;
+  collections: EmbeddingCollection[];
+}
+
+let running = false;
+
+const parseMetadata = (document: Document): Record<string, unknown> =>
+  typeof document.metadata === 'string' ? JSON.parse(document.metadata) : (document.metadata as Record<string, unknown>);
+
+/**
+ * Reads the indexed documents in batches of increasing id, so documents added meanwhile are read as well
+ */
+async function* indexedDocuments(): AsyncGenerator<Array<{document: Document; metadata: Record<string, unknown>}>> {
+  let last_id = 0;
+  while (true) {
+    const batch = await db.select().from(documents).where(gt(documents.id, last_id)).orderBy(asc(documents.id)).limit(BATCH_SIZE);
+    if (batch.length === 0) return;
+
+    last_id = batch[batch.length - 1].id;
+    yield batch.map(document => ({document, metadata: parseMetadata(document)})).filter(({metadata}) => metadata.should_index);
+  }
+}
+
+const countIndexed = async (): Promise<number> => {
+  let total = 0;
+  for await (const batch of indexedDocuments()) total += batch.length;
+  return total;
+};
+
+const embedDocument = async (document: Document, metadata: Record<string, unknown>, collection: EmbeddingCollection) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const vector = await embedding(document.text, {model: collection.model});
+      await vectorService.upsertPoint(
+        vector,
+        {
+          document_uuid: document.uuid,
+          source_uuid: document.source_uuid,
+          source: 'document',
+          text: document.text,
+          metadata,
+          created_at: document.created_at || new Date().toISOString(),
+          updated_at: document.updated_at || new Date().toISOString()
+        },
+        collection
+      );
+      return;
+    } catch (error) {
+      if (attempt >= ATTEMPTS) throw error;
+    }
+  }
+};
+
+/**
+ * Embeds every indexed document into the collection and activates it
+ * @throws {Error} When a whole batch or any single document cannot be embedded; the active collection stays in service
+ */
+const build = async (collection: EmbeddingCollection): Promise<void> => {
+  let processed = 0;
+  let failed = 0;
+
+  for await (const batch of indexedDocuments()) {
+    let last_error: unknown;
+    for (const {document, metadata} of batch) {
+      try {
+        await embedDocument(document, metadata, collection);
+        processed++;
+      } catch (error) {
+        failed++;
+        last_error = error;
+        log.warn('Document could not be re-embedded', {
+          document_uuid: document.uuid,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    await embeddingCollectionService.updateProgress(collection.id, {processed, failed});
+
+    // Nothing of a batch went through, so the model or its provider is not usable
+    if (batch.length > 0 && processed === 0 && failed >= batch.length) {
+      throw new Error(`Embedding with ${collection.model} failed: ${last_error instanceof Error ? last_error.message : String(last_error)}`);
+    }
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} document(s) could not be embedded with ${collection.model}`);
+  }
+
+  const activated = await embeddingCollectionService.activate(collection.id);
+  log.info('Re-embedding finished, collection activated', {collection: activated.name, model: activated.model, processed});
+};
+
+/**
+ * Runs a build in the background and records its failure
+ */
+const runInBackground = (collection: EmbeddingCollection) => {
+  running = true;
+  build(collection)
+    .catch(async error => {
+      const message = error instanceof Error ? error.message : String(error);
+      log.error('Re-embedding failed, keeping the active collection', error instanceof Error ? error : undefined, {
+        collection: collection.name
+      });
+      await embeddingCollectionService.fail(collection.id, message);
+      await vectorService.dropCollection(collection.name).catch(() => undefined);
+    })
+    .finally(() => {
+      running = false;
+    });
+};
+
+/**
+ * Re-embedding service
+ * @namespace reembedService
+ */
+export const reembedService = {
+  /**
+   * Starts re-embedding every indexed document with another model
+   * The model is probed with one embedding first, so an unusable model fails before anything is built
+   * @param model - Registered hosted model or the local embedding model
+   * @returns The collection being built; its progress is reported by getStatus
+   * @throws {ValidationError} When a re-embedding already runs or the model is unknown
+   */
+  start: async (model: string): Promise<EmbeddingCollection> => {
+    if (running) {
+      throw new ValidationError('A re-embedding is already running', {context: {model}});
+    }
+
+    const local = localLlmService.embeddingModel()?.id;
+    if (!embeddingModels[model] && model !== local) {
+      throw new ValidationError(`Unknown embedding model ${model}`, {
+        context: {model, available: [...Object.keys(embeddingModels), ...(local ? [local] : [])]}
+      });
+    }
+
+    running = true;
+    try {
+      // A build left over from an earlier process is replaced
+      const stale = await embeddingCollectionService.findBuilding();
+      if (stale) {
+        await embeddingCollectionService.fail(stale.id, 'Replaced by a new re-embedding');
+        await vectorService.dropCollection(stale.name).catch(() => undefined);
+      }
+
+      await vectorService.getActiveCollection();
+      const dimensions = (await embedding('dimension probe', {model})).length;
+      const name = vectorService.newCollectionName(model);
+      await vectorService.createCollection(name, dimensions);
+
+      const collection = await embeddingCollectionService.register({name, model, dimensions, status: 'building', total: await countIndexed()});
+      log.info('Re-embedding started', {collection: name, model, dimensions, total: collection.total});
+
+      runInBackground(collection);
+      return collection;
+    } catch (error) {
+      running = false;
+      throw error;
+    }
+  },
+
+  /**
+   * Continues a re-embedding interrupted by a shutdown; documents embedded before are embedded again
+   * @returns The collection being built, or null when none was interrupted
+   */
+  resumeInterrupted: async (): Promise<EmbeddingCollection | null> => {
+    if (running) return null;
+
+    const building = await embeddingCollectionService.findBuilding();
+    if (!building) return null;
+
+    log.info('Resuming interrupted re-embedding', {collection: building.name, model: building.model});
+    runInBackground(building);
+    return building;
+  },
+
+  /**
+   * Reports the registered collections and the progress of a running re-embedding
+   * @returns Active and building collections and the full registry
+   */
+  getStatus: async (): Promise<ReembedStatus> => {
+    const collections = await embeddingCollectionService.list();
+    const building = collections.find(collection => collection.status === 'building') ?? null;
+
+    return {
+      running,
+      active: collections.find(collection => collection.status === 'active') ?? null,
+      building: building
+        ? {...building, percent: building.total > 0 ? Math.min(100, Math.round((building.processed / building.total) * 100)) : 0}
+        : null,
+      collections
+    };
+  }
+};
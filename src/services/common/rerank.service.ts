@@ -0,0 +1,137 @@
+/**
+ * Re-ranking stage of the hybrid search
+ * Scores the top fused results against the query with a model that reads query and document together, which
+ * orders them better than either retriever alone. SEARCH_RERANKER picks the re-ranker (search.config):
+ * - `llm`: a chat model scores the candidates 0-10 in one call, using the tools.search.rerank prompt
+ * - `cross-encoder`: a cross-encoder such as bge-reranker behind a Cohere-style /rerank endpoint, as served by
+ *   llama.cpp, Infinity or LocalAI; the local model server unless SEARCH_RERANK_URL is set
+ * @module rerank.service
+ */
+
+import {z} from 'zod';
+import {completion} from './llm.service';
+import {promptService} from './prompt.service';
+import {localLlmService, normalizeBaseUrl} from './local-llm.service';
+import {stateManager} from '../agent/state.service';
+import {getHybridSearchSettings, type RerankerName} from '../../config/search.config';
+import {ValidationError} from '../../utils/errors';
+
+// Enough for a model to judge a document; long documents are represented by their beginning
+const MAX_CANDIDATE_CHARS = 2_000;
+const RERANK_TIMEOUT_MS = 30_000;
+
+export interface RerankCandidate {
+  document_uuid: string;
+  text: string;
+}
+
+export interface RerankedHit {
+  document_uuid: string;
+  /** Relevance between 0 and 1 */
+  score: number;
+}
+
+const llmScoresSchema = z.object({
+  _thinking: z.string().optional(),
+  scores: z.array(z.object({id: z.number().int(), score: z.number()}))
+});
+
+const rerankResponseSchema = z.object({
+  results: z.array(z.object({index: z.number().int(), relevance_score: z.number()}))
+});
+
+const truncate = (text: string) => (text.length > MAX_CANDIDATE_CHARS ? `${text.slice(0, MAX_CANDIDATE_CHARS)}…` : text);
+
+const byLlm = async (query: string, candidates: RerankCandidate[], model?: string): Promise<number[]> => {
+  const state = stateManager.getState();
+  const rerankPrompt = await promptService.render('tools.search.rerank', {
+    query,
+    candidates: candidates.map((candidate, id) => ({id, text: truncate(candidate.text)}))
+  });
+
+  const {scores} = await completion.object<z.infer<typeof llmScoresSchema>>({
+    // NOTE: Never use 'gemini-2.0-flash'.
+    model: model ?? state.config.model ?? 'gemini-2.5-flash',
+    messages: [{role: 'system', content: rerankPrompt.content}],
+    temperature: 0,
+    schema: llmScoresSchema,
+    user: {
+      uuid: state.config.user_uuid ?? '',
+      name: state.profile.user_name
+    }
+  });
+
+  // Candidates the model skipped rank last
+  const relevance = candidates.map(() => 0);
+  for (const {id, score} of scores) {
+    if (id >= 0 && id < candidates.length) relevance[id] = Math.min(1, Math.max(0, score / 10));
+  }
+  return relevance;
+};
+
+const byCrossEncoder = async (query: string, candidates: RerankCandidate[], model?: string, url?: string): Promise<number[]> => {
+  const local = localLlmService.getSettings();
+  const base_url = url ? normalizeBaseUrl(url) : local?.baseUrl;
+  if (!base_url || !model) {
+    throw new ValidationError('The cross-encoder re-ranker needs SEARCH_RERANK_MODEL and a server (SEARCH_RERANK_URL or the local model server)');
+  }
+
+  const response = await fetch(`${base_url}/rerank`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(!url && local?.apiKey ? {Authorization: `Bearer ${local.apiKey}`} : {})
+    },
+    body: JSON.stringify({model, query, documents: candidates.map(candidate => truncate(candidate.text))}),
+    signal: AbortSignal.timeout(RERANK_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new ValidationError(`Re-rank server returned HTTP ${response.status}`, {context: {base_url, model}});
+  }
+
+  const {results} = rerankResponseSchema.parse(await response.json());
+
+  // Some servers return raw logits; the sigmoid maps them to 0-1 and keeps the order
+  const logits = results.some(result => result.relevance_score < 0 || result.relevance_score > 1);
+  const relevance = candidates.map(() => 0);
+  for (const {index, relevance_score} of results) {
+    if (index >= 0 && index < candidates.length) {
+      relevance[index] = logits ? 1 / (1 + Math.exp(-relevance_score)) : relevance_score;
+    }
+  }
+  return relevance;
+};
+
+/**
+ * Search re-ranking service
+ * @namespace rerankService
+ */
+export const rerankService = {
+  /**
+   * The configured re-ranker
+   * @returns Re-ranker name; none when re-ranking is off
+   */
+  reranker: (): RerankerName => getHybridSearchSettings().reranker,
+
+  /**
+   * Orders candidates by their relevance to a query
+   * @param query - Search query
+   * @param candidates - Documents to order, best fused result first
+   * @returns The candidates by relevance, best first; equal scores keep the fused order
+   * @throws {ValidationError} When the re-ranker is misconfigured or its server fails
+   */
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankedHit[]> {
+    const {reranker, rerank_model, rerank_url} = getHybridSearchSettings();
+    if (reranker === 'none' || candidates.length === 0) {
+      return candidates.map((candidate, index) => ({document_uuid: candidate.document_uuid, score: 1 - index / candidates.length}));
+    }
+
+    const relevance = reranker === 'llm'
+      ? await byLlm(query, candidates, rerank_model)
+      : await byCrossEncoder(query, candidates, rerank_model, rerank_url);
+
+    return candidates
+      .map((candidate, index) => ({document_uuid: candidate.document_uuid, score: relevance[index]}))
+      .sort((a, b) => b.score - a.score);
+  }
+};
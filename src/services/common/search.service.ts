@@ -2,9 +2,13 @@ import { z } from 'zod';
 import { documentService, type DocumentType } from '../agent/document.service';
 import { memoryService } from '../agent/memory.service';
 import { vectorService } from './vector.service';
-import { algoliaService } from './algolia.service';
+import { lexicalSearchService } from './lexical-search.service';
+import { rerankService } from './rerank.service';
 import { embedding } from './llm.service';
 import type { Memory } from '../../schema/memory';
+import type { SearchExplanation } from '../../types/search';
+import { getHybridSearchSettings } from '../../config/search.config';
+import { fuseRankings } from '../../utils/rank-fusion';
 import { logger } from './logger.service';
 
 const searchLogger = logger.child('SEARCH_SERVICE');
@@ -41,22 +45,22 @@ type SearchFilters = z.infer<typeof SearchFiltersSchema>;
  */
 interface SearchResult {
   document: DocumentType;
+  /** Re-ranker relevance (0-1) when the result was re-ranked, else the weighted RRF score */
   score: number;
   memory?: Memory;
+  /** Contribution of every retriever and the re-ranker, in explain mode only */
+  explanation?: SearchExplanation;
 }
 
 /**
- * Calculates Reciprocal Rank Fusion (RRF) score for combining vector and text search results
- * @param vectorRank - Rank from vector search (1-based)
- * @param algoliaRank - Rank from Algolia text search (1-based)
- * @returns Combined RRF score
+ * Options of a single search
  */
-const calculateRRFScore = (vectorRank?: number, algoliaRank?: number): number => {
-  const k = 60;
-  const vector_score = vectorRank ? 1 / (k + vectorRank) : 0;
-  const algolia_score = algoliaRank ? 1 / (k + algoliaRank) : 0;
-  return vector_score + algolia_score;
-};
+interface SearchOptions {
+  /** Attach an explanation to every result */
+  explain?: boolean;
+  /** Re-rank with the configured re-ranker (default: true); off keeps the fused order */
+  rerank?: boolean;
+}
 
 /**
  * Search query parameters for both vector and text search
@@ -69,22 +73,26 @@ interface SearchQueries {
 
 /**
  * Hybrid search service that combines vector similarity search with text-based search
- * Uses Reciprocal Rank Fusion (RRF) to merge results from both search methods
+ * Uses weighted Reciprocal Rank Fusion (RRF) to merge the rankings of both search methods by rank, then optionally
+ * re-ranks the top results with the configured re-ranker (rerank.service)
  */
 export const searchService = {
   /**
    * Performs a hybrid search combining vector similarity and text search
    * @param queries - Search queries for both vector and text search
    * @param filters - Optional filters to apply to search results
-   * @param limit - Maximum number of results to return (default: 15)
-   * @returns Array of search results sorted by relevance score
+   * @param limit - Number of hits requested from each retriever (default: 15)
+   * @param options - Explain mode and re-ranking
+   * @returns Array of search results, re-ranked results first, then by fused score
    */
   async search(
     queries: SearchQueries,
     filters?: SearchFilters,
-    limit?: number
+    limit?: number,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
     try {
+      const settings = getHybridSearchSettings();
       const normalized_limit = typeof limit === 'number' ? limit : 15;
       const validated_filters = filters ? SearchFiltersSchema.parse(filters) : {};
       
@@ -93,65 +101,50 @@ export const searchService = {
         ...(filters?.content_type ? { content_type: filters.content_type } : {})
       };
       
-      const query_embedding = await embedding(queries.vector_query);
-
-      const [vector_results, algolia_response] = await Promise.all([
-        vectorService.searchSimilar(
-          query_embedding, 
-          search_filters,
-          normalized_limit
-        ),
-        algoliaService.search(queries.text_query, {
-          filters: buildAlgoliaFilters(search_filters),
-          hitsPerPage: normalized_limit
-        })
+      const searchVectors = async () => {
+        // The query has to be embedded with the model the index was built with
+        const { model } = await vectorService.getActiveCollection();
+        const query_embedding = await embedding(queries.vector_query, { model });
+        return vectorService.searchSimilar(query_embedding, search_filters, normalized_limit);
+      };
+
+      // A retriever with weight 0 is left out of the fusion, so it is not queried
+      const [vector_results, text_hits] = await Promise.all([
+        settings.weights.vector > 0 ? searchVectors() : [],
+        settings.weights.text > 0
+          ? lexicalSearchService.search(queries.text_query, { filters: search_filters, limit: normalized_limit })
+          : []
       ]);
 
       // Log the results for debugging
       searchLogger.debug('Search results before filtering', {
         vector_count: vector_results.length,
-        algolia_count: algolia_response?.results?.[0]?.hits?.length || 0,
+        text_count: text_hits.length,
+        text_backend: lexicalSearchService.backend(),
         query: queries.vector_query
       });
 
-      // Filter results manually if needed
-      const scored_documents = new Map<string, { score: number; document_uuid: string }>();
+      // Vector ranks count after the filters, like the lexical ones; the lexical backend already applied them
+      const vector_hits = vector_results
+        .filter((result: VectorSearchResult) => {
+          const matches = matchesFilters(result.payload, search_filters);
+          if (!matches) searchLogger.trace('Vector result excluded', { document_uuid: result.payload.document_uuid });
+          return matches;
+        })
+        .map(result => ({ document_uuid: result.payload.document_uuid, score: result.score }));
 
-      // Process vector results
-      vector_results.forEach((result: VectorSearchResult, index: number) => {
-        if (matchesFilters(result.payload, search_filters)) {
-          scored_documents.set(result.payload.document_uuid, {
-            score: result.score,
-            document_uuid: result.payload.document_uuid
-          });
-        } else {
-          searchLogger.trace('Vector result excluded', { document_uuid: result.payload.document_uuid });
-        }
-      });
+      const fused = fuseRankings(
+        [
+          { retriever: 'vector', hits: vector_hits },
+          { retriever: 'text', hits: text_hits }
+        ],
+        { k: settings.rrf_k, weights: settings.weights }
+      );
 
-      // Process Algolia hits
-      const hits = algolia_response?.results?.[0]?.hits || [];
-
-      hits.forEach((hit: any, index: number) => {
-        if (matchesFilters(hit, search_filters)) {
-          const existing = scored_documents.get(hit.document_uuid);
-          if (existing) {
-            existing.score = calculateRRFScore(index + 1, index + 1);
-          } else {
-            scored_documents.set(hit.document_uuid, {
-              score: calculateRRFScore(undefined, index + 1),
-              document_uuid: hit.document_uuid
-            });
-          }
-        } else {
-          searchLogger.trace('Algolia hit excluded', { document_uuid: hit.document_uuid });
-        }
-      });
-
-      // Enhance the final results processing
       const final_results: SearchResult[] = [];
-      
-      for (const [document_uuid, score_data] of scored_documents.entries()) {
+
+      for (const hit of fused) {
+        const document_uuid = hit.document_uuid;
         const [document, memory] = await Promise.all([
           documentService.getDocumentByUuid(document_uuid),
           memoryService.getMemoryByDocumentUuid(document_uuid)
@@ -169,16 +162,17 @@ export const searchService = {
 
           final_results.push({
             document,
-            score: score_data.score,
-            memory
+            score: hit.score,
+            memory,
+            ...(options.explain ? { explanation: { fused_score: hit.score, fused_rank: final_results.length + 1, retrievers: hit.retrievers } } : {})
           });
         } else {
           searchLogger.trace('Document not found for uuid', { document_uuid });
         }
       }
 
-      // Sort results by score in descending order
-      return final_results.sort((a, b) => b.score - a.score);
+      if (options.rerank === false || settings.reranker === 'none') return final_results;
+      return rerankResults(queries.vector_query, final_results, settings.rerank_candidates);
     } catch (error) {
       searchLogger.error('Failed to search', error as Error);
       throw error;
@@ -187,30 +181,40 @@ export const searchService = {
 };
 
 /**
- * Builds Algolia filter string from search filters object
- * @param filters - Search filters to convert to Algolia format
- * @returns Algolia-compatible filter string
+ * Re-ranks the top fused results; the rest follow in fused order
+ * A failing re-ranker is logged and the fused order is kept, so search never depends on it
+ * @param query - Search query the candidates are scored against
+ * @param results - Fused results, best first
+ * @param candidates - Number of top results to re-rank
+ * @returns Results in their new order
  */
-function buildAlgoliaFilters(filters: SearchFilters): string {
-  const conditions: string[] = [];
-  
-  if (filters.source_uuid) {
-    conditions.push(`source_uuid:'${filters.source_uuid}'`);
-  }
-  if (filters.source) {
-    conditions.push(`source:'${filters.source}'`);
-  }
-  if (filters.content_type) {
-    conditions.push(`content_type:'${filters.content_type}'`);
-  }
-  if (filters.category) {
-    conditions.push(`category:'${filters.category}'`);
-  }
-  if (filters.subcategory) {
-    conditions.push(`subcategory:'${filters.subcategory}'`);
+async function rerankResults(query: string, results: SearchResult[], candidates: number): Promise<SearchResult[]> {
+  const head = results.slice(0, candidates);
+
+  try {
+    const reranked = await rerankService.rerank(
+      query,
+      head.map(result => ({ document_uuid: result.document.uuid, text: result.document.text }))
+    );
+    const by_uuid = new Map(head.map(result => [result.document.uuid, result]));
+    const reranker = rerankService.reranker();
+
+    const ordered = reranked.map((hit, index) => {
+      const result = by_uuid.get(hit.document_uuid)!;
+      return {
+        ...result,
+        score: hit.score,
+        ...(result.explanation ? { explanation: { ...result.explanation, rerank: { reranker, score: hit.score, rank: index + 1 } } } : {})
+      };
+    });
+
+    return [...ordered, ...results.slice(candidates)];
+  } catch (error) {
+    searchLogger.warn('Re-ranking failed, keeping the fused order', {
+      message: error instanceof Error ? error.message : String(error)
+    });
+    return results;
   }
-
-  return conditions.join(' AND ');
 }
 
 /**
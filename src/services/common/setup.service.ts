@@ -13,6 +13,7 @@ import {
   testApiKey,
   isLocalMode 
 } from '../../config/local-user.config';
+import { localLlmService } from './local-llm.service';
 
 // Setup step schemas
 const userInfoSchema = z.object({
@@ -27,6 +28,12 @@ const apiKeySetupSchema = z.object({
   testKey: z.boolean().optional().default(false),
 });
 
+const localProviderSetupSchema = z.object({
+  baseUrl: z.string().url('Valid server URL is required'),
+  apiKey: z.string().optional(),
+  embeddingModel: z.string().optional(),
+});
+
 const preferencesSchema = z.object({
   theme: z.enum(['light', 'dark', 'system']).optional(),
   language: z.string().optional(),
@@ -61,7 +68,8 @@ export const setupService = {
     // Check API keys
     const hasGoogleKey = !!getApiKey('google');
     const hasOpenAIKey = !!getApiKey('openai');
-    const hasAnyAIKey = hasGoogleKey || hasOpenAIKey;
+    const hasLocalProvider = !!config.preferences.localProvider;
+    const hasAnyAIKey = hasGoogleKey || hasOpenAIKey || hasLocalProvider;
 
     if (hasAnyAIKey) {
       completedSteps.push('api_keys');
@@ -78,8 +86,8 @@ export const setupService = {
     const requiredSteps = ['user_info', 'api_keys'];
 
     // Recommendations
-    if (!hasGoogleKey && !hasOpenAIKey) {
-      recommendations.push('Add at least one AI provider API key (Google AI Studio or OpenAI)');
+    if (!hasAnyAIKey) {
+      recommendations.push('Add at least one AI provider API key (Google AI Studio or OpenAI) or a local model server');
     }
     if (!config.email) {
       recommendations.push('Add email for better user experience');
@@ -169,6 +177,30 @@ export const setupService = {
     };
   },
 
+  /**
+   * Setup a local OpenAI-compatible model server
+   * The server is only stored when its model list can be fetched
+   */
+  async setupLocalProvider(data: z.infer<typeof localProviderSetupSchema>) {
+    const validatedData = localProviderSetupSchema.parse(data);
+
+    try {
+      const models = await localLlmService.configure(validatedData);
+      return {
+        success: true,
+        message: `Local model server configured with ${models.length} model(s)`,
+        service: 'local',
+        models,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Local model server is not reachable',
+        service: 'local',
+      };
+    }
+  },
+
   /**
    * Setup user preferences
    */
@@ -248,8 +280,9 @@ export const setupService = {
         timezone: 'Europe/Warsaw',
         model: 'gemini-2.5-flash',
         setupCompleted: false,
+        localProvider: config.preferences.localProvider,
       },
-      // Keep API keys but reset other settings
+      // Keep API keys and the local model server but reset other settings
     });
 
     return {
@@ -270,6 +303,7 @@ export const setupService = {
       { id: 'gpt-4o-mini', name: 'GPT-4o Mini', provider: 'openai' },
       { id: 'claude-3-5-sonnet', name: 'Claude 3.5 Sonnet', provider: 'anthropic' },
       { id: 'grok-2', name: 'Grok 2', provider: 'xai' },
+      ...localLlmService.getModels().map(id => ({ id, name: id, provider: 'local' })),
     ];
   },
 
@@ -305,6 +339,13 @@ export const setupService = {
               description: 'Fallback option - Requires paid account',
               url: 'https://platform.openai.com/api-keys',
             },
+            {
+              id: 'local',
+              name: 'Local model server',
+              description: 'Offline - Ollama, llama.cpp or vLLM with an OpenAI-compatible API',
+              url: 'https://ollama.com',
+              fields: ['baseUrl', 'apiKey', 'embeddingModel'],
+            },
           ],
         },
         {
@@ -317,6 +358,7 @@ export const setupService = {
       ],
       tips: [
         'You only need one AI provider to get started',
+        'A local model server keeps everything on your machine',
         'Google AI Studio offers a generous free tier',
         'You can always add more API keys later',
         'Setup takes less than 5 minutes',
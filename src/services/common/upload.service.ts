@@ -7,10 +7,10 @@
 
 import {z} from 'zod';
 import {mkdir, writeFile, readFile, readdir, unlink} from 'fs/promises';
-import {join} from 'path';
+import {dirname, join} from 'path';
 import {v4 as uuidv4} from 'uuid';
 import {FileType, UploadResult} from '../../types/upload';
-import {mimeTypes} from '../../config/mime.config';
+import {mimeTypes, getMimeTypeFromExtension} from '../../config/mime.config';
 import {glob} from 'glob';
 import { createLogger } from './logger.service';
 const uploadLog = createLogger('UploadService');
@@ -42,9 +42,18 @@ const uploadSchema = z.object({
   ]),
   type: z.nativeEnum(FileType),
   original_name: z.string(),
-  uuid: z.string()
+  uuid: z.string().uuid(),
+  /** User the upload belongs to; only that user may attach it to chat messages */
+  user_uuid: z.string().optional()
 });
 
+/**
+ * Name of the file holding the owner of an upload, next to the uploaded file
+ * Dotfiles are skipped by the lookup in {@link findFileByUuid}
+ * @constant {string}
+ */
+const OWNER_FILE = '.owner';
+
 /**
  * Storage path for uploaded files (from environment or default)
  * @constant {string}
@@ -102,20 +111,28 @@ export const tempFile = {
   }
 };
 
+/**
+ * Lists the directories holding an upload; one unless a uuid was stored twice
+ * @param {string} uuid - Unique identifier of the upload
+ * @returns {Promise<string[]>} Upload directories below the storage path
+ */
+const findUploadDirs = async (uuid: string): Promise<string[]> => glob(`${STORAGE_PATH}/**/${uuid}/`);
+
 /**
  * Uploads and validates a file, storing it in the organized directory structure
  * @param {z.infer<typeof uploadSchema>} input - File upload input data
  * @param {File|Blob|{base64: string, mime_type: string}} input.file - File data to upload
  * @param {FileType} input.type - Type of file being uploaded
  * @param {string} input.original_name - Original filename with extension
- * @param {string} input.uuid - Unique identifier for the file
+ * @param {string} input.uuid - Unique identifier for the file; must be a UUID not used by another upload
+ * @param {string} [input.user_uuid] - User the upload belongs to
  * @returns {Promise<UploadResult>} Upload result with file information
- * @throws {FileValidationError} When file validation fails
+ * @throws {FileValidationError} When file validation fails or the uuid is taken
  * @throws {Error} When file upload fails
  */
 export const uploadFile = async (input: z.infer<typeof uploadSchema>): Promise<UploadResult> => {
   try {
-    const {uuid, file, type, original_name} = uploadSchema.parse(input);
+    const {uuid, file, type, original_name, user_uuid} = uploadSchema.parse(input);
 
     const extension = original_name.match(/\.[0-9a-z]+$/i)?.[0].toLowerCase();
     if (!extension || !mimeTypes[type].extensions.includes(extension)) {
@@ -128,6 +145,10 @@ export const uploadFile = async (input: z.infer<typeof uploadSchema>): Promise<U
       throw new FileValidationError(`Invalid mime type ${mime_type} for type: ${type}`);
     }
 
+    if ((await findUploadDirs(uuid)).length) {
+      throw new FileValidationError(`Upload ${uuid} already exists`);
+    }
+
     const date_string = new Date().toISOString().slice(0, 10);
     const storage_path = join(STORAGE_PATH, type, date_string);
     const file_path = join(storage_path, uuid, original_name);
@@ -140,6 +161,10 @@ export const uploadFile = async (input: z.infer<typeof uploadSchema>): Promise<U
         : Buffer.from(file.base64.replace(/^data:[^;]+;base64,/, ''), 'base64');
 
     await writeFile(file_path, buffer);
+    if (user_uuid) {
+      // 'wx' fails instead of handing over an upload that already has an owner
+      await writeFile(join(storage_path, uuid, OWNER_FILE), user_uuid, {flag: 'wx'});
+    }
 
     return {uuid, type, path: file_path, original_name};
   } catch (error) {
@@ -161,18 +186,31 @@ interface FileResponse {
   mime_type: string;
   /** Original filename */
   original_name: string;
+  /** User the upload belongs to; null for files stored by tools */
+  user_uuid: string | null;
 }
 
 /**
  * Finds and retrieves a file by its UUID from the storage system
  * @param {string} uuid - Unique identifier of the file to find
- * @returns {Promise<FileResponse|null>} File data and metadata, or null if not found
+ * @returns {Promise<FileResponse|null>} File data and metadata, or null if not found or stored more than once
  * @throws {Error} When file retrieval fails or file type is unknown
  */
 export const findFileByUuid = async (uuid: string): Promise<FileResponse | null> => {
   try {
-    const files = await glob(`${STORAGE_PATH}/**/${uuid}/*`);
+    // The uuid becomes part of a glob pattern
+    if (!z.string().uuid().safeParse(uuid).success) {
+      return null;
+    }
+
+    const dirs = await findUploadDirs(uuid);
+    if (dirs.length > 1) {
+      // Any of the copies could be the original, so none is served
+      uploadLog.warn('Upload stored more than once', {uuid, dirs});
+      return null;
+    }
 
+    const files = dirs.length ? await glob(`${dirs[0]}/*`) : [];
     if (!files.length) {
       return null;
     }
@@ -188,13 +226,15 @@ export const findFileByUuid = async (uuid: string): Promise<FileResponse | null>
       throw new Error('Unknown file type');
     }
 
-    const mime_type = mimeTypes[file_type].mimes[0];
+    const mime_type = getMimeTypeFromExtension(extension) ?? mimeTypes[file_type].mimes[0];
     const buffer = await readFile(file_path);
+    const user_uuid = await readFile(join(dirname(file_path), OWNER_FILE), 'utf-8').catch(() => null);
 
     return {
       buffer,
       mime_type,
-      original_name
+      original_name,
+      user_uuid
     };
   } catch (error) {
     uploadLog.error('Error finding file', error as Error);
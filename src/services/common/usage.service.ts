@@ -0,0 +1,240 @@
+/**
+ * LLM usage accounting and budgets
+ * Records the tokens and cost of every LLM call and checks them against the run, conversation and user budgets
+ * @module usage.service
+ */
+
+import {and, eq, gte, isNull, ne, or, sql} from 'drizzle-orm';
+import type {EmbeddingModelUsage, LanguageModelUsage} from 'ai';
+import {db} from '../../database';
+import {llm_usage} from '../../schema/usage';
+import {pricing} from '../../config/llm.config';
+import {getBudgets, type BudgetLevel, type BudgetScope, type Budgets} from '../../config/budget.config';
+import {stateManager} from '../agent/state.service';
+import {createLogger} from './logger.service';
+
+const log = createLogger('UsageService');
+
+export type UsageOperation = 'text' | 'stream' | 'object' | 'tools' | 'embedding';
+
+/** Token usage as the AI SDK reports it, or in its v4 naming still used by the OpenAI format path */
+export type ReportedUsage = LanguageModelUsage | EmbeddingModelUsage | {promptTokens?: number; completionTokens?: number};
+
+export interface UsageTotals {
+  input_tokens: number;
+  output_tokens: number;
+  /** USD */
+  cost: number;
+  calls: number;
+}
+
+export interface BudgetStatus {
+  scope: BudgetScope;
+  level: BudgetLevel;
+  /** USD */
+  limit: number;
+  /** USD */
+  spent: number;
+}
+
+interface RunUsage extends UsageTotals {
+  run_id: string;
+  budget: BudgetStatus | null;
+}
+
+// Run-scoped bookkeeping; branches of a run share it, so parallel actions count towards the same run
+const RUN_USAGE = Symbol('run_usage');
+const runUsage = () =>
+  stateManager.local<RunUsage>(RUN_USAGE, () => ({
+    run_id: stateManager.getRunId(),
+    input_tokens: 0,
+    output_tokens: 0,
+    cost: 0,
+    calls: 0,
+    budget: null
+  }));
+
+const emptyTotals = (): UsageTotals => ({input_tokens: 0, output_tokens: 0, cost: 0, calls: 0});
+
+const totalsColumns = {
+  input_tokens: sql<number>`coalesce(sum(${llm_usage.input_tokens}), 0)`,
+  output_tokens: sql<number>`coalesce(sum(${llm_usage.output_tokens}), 0)`,
+  cost: sql<number>`coalesce(sum(${llm_usage.cost}), 0)`,
+  calls: sql<number>`count(*)`
+};
+
+// Start of the current UTC day in the CURRENT_TIMESTAMP format used by created_at
+const startOfUtcDay = () => `${new Date().toISOString().slice(0, 10)} 00:00:00`;
+
+/**
+ * Normalizes AI SDK usage objects (v5 input/output and v4 prompt/completion naming)
+ */
+export const normalizeUsage = (usage: ReportedUsage | undefined): {input_tokens: number; output_tokens: number} => {
+  if (!usage) return {input_tokens: 0, output_tokens: 0};
+  if ('tokens' in usage) return {input_tokens: Number(usage.tokens) || 0, output_tokens: 0};
+  if ('inputTokens' in usage) {
+    return {input_tokens: Number(usage.inputTokens) || 0, output_tokens: Number(usage.outputTokens) || 0};
+  }
+  return {input_tokens: Number(usage.promptTokens) || 0, output_tokens: Number(usage.completionTokens) || 0};
+};
+
+/**
+ * Prices token usage with the cost table in llm.config
+ * @param model - Model the tokens were used with
+ * @param input_tokens - Prompt tokens
+ * @param output_tokens - Completion tokens
+ * @returns Cost in USD; 0 for models without a price
+ */
+export const calculateCost = (model: string, input_tokens: number, output_tokens: number): number => {
+  const price = pricing[model];
+  if (!price) return 0;
+  return (input_tokens * price.input + output_tokens * price.output) / 1_000_000;
+};
+
+/**
+ * Finds the most severe exceeded budget; hard budgets win over soft ones, narrower scopes over wider ones
+ * @param spent - USD spent per scope
+ * @param budgets - Configured limits
+ * @returns The exceeded budget or null when every budget still has room
+ */
+export const evaluateBudgets = (spent: Record<BudgetScope, number>, budgets: Budgets): BudgetStatus | null => {
+  for (const level of ['hard', 'soft'] as const) {
+    for (const scope of ['run', 'conversation', 'user'] as const) {
+      const limit = budgets[scope][level];
+      if (limit !== undefined && spent[scope] >= limit) {
+        return {scope, level, limit, spent: spent[scope]};
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Usage service for LLM token accounting
+ * @namespace usageService
+ */
+export const usageService = {
+  /**
+   * Records one LLM call for the current run and stores it for conversation and user totals
+   * Never throws; a failed write is logged so accounting cannot break a completion
+   * @param entry - Model, operation, raw AI SDK usage and the user the call was made for
+   * @example
+   * ```typescript
+   * const result = await generateText(config);
+   * await usageService.record({model: 'gemini-2.5-flash', operation: 'text', usage: result.usage, user_uuid});
+   * ```
+   */
+  record: async ({model, operation, usage, user_uuid}: {model: string; operation: UsageOperation; usage: ReportedUsage | undefined; user_uuid?: string}) => {
+    try {
+      const {input_tokens, output_tokens} = normalizeUsage(usage);
+      const cost = calculateCost(model, input_tokens, output_tokens);
+
+      const run = runUsage();
+      run.input_tokens += input_tokens;
+      run.output_tokens += output_tokens;
+      run.cost += cost;
+      run.calls += 1;
+
+      const {config} = stateManager.getState();
+
+      await db.insert(llm_usage).values({
+        run_id: run.run_id,
+        user_uuid: user_uuid || config.user_uuid || null,
+        conversation_uuid: config.conversation_uuid,
+        model,
+        operation,
+        input_tokens,
+        output_tokens,
+        cost
+      });
+    } catch (error) {
+      log.warn('Failed to record LLM usage', {model, operation, error: error instanceof Error ? error.message : String(error)});
+    }
+  },
+
+  /**
+   * Returns the usage of the current run, including its parallel branches
+   */
+  getRunUsage: (): UsageTotals => {
+    const {input_tokens, output_tokens, cost, calls} = runUsage();
+    return {input_tokens, output_tokens, cost, calls};
+  },
+
+  /**
+   * Sums the stored usage of a conversation
+   * @param conversation_uuid - Conversation to sum
+   * @param exclude_run_id - Leaves out a run that is counted in memory instead
+   * @returns Promise that resolves to the conversation totals
+   */
+  getConversationUsage: async (conversation_uuid: string, exclude_run_id?: string): Promise<UsageTotals> => {
+    const [totals] = await db
+      .select(totalsColumns)
+      .from(llm_usage)
+      .where(
+        and(
+          eq(llm_usage.conversation_uuid, conversation_uuid),
+          exclude_run_id ? or(isNull(llm_usage.run_id), ne(llm_usage.run_id, exclude_run_id)) : undefined
+        )
+      );
+    return totals ? {...totals, cost: Number(totals.cost)} : emptyTotals();
+  },
+
+  /**
+   * Sums the stored usage of a user for the current UTC day
+   * @param user_uuid - User to sum
+   * @param exclude_run_id - Leaves out a run that is counted in memory instead
+   * @returns Promise that resolves to today's totals of the user
+   */
+  getUserDailyUsage: async (user_uuid: string, exclude_run_id?: string): Promise<UsageTotals> => {
+    const [totals] = await db
+      .select(totalsColumns)
+      .from(llm_usage)
+      .where(
+        and(
+          eq(llm_usage.user_uuid, user_uuid),
+          gte(llm_usage.created_at, startOfUtcDay()),
+          exclude_run_id ? or(isNull(llm_usage.run_id), ne(llm_usage.run_id, exclude_run_id)) : undefined
+        )
+      );
+    return totals ? {...totals, cost: Number(totals.cost)} : emptyTotals();
+  },
+
+  /**
+   * Checks the current run, its conversation and its user against the configured budgets
+   * An exceeded budget is remembered for the run and reported by {@link usageService.getBudgetStatus}
+   * @returns Promise that resolves to the exceeded budget, or null when the run may continue
+   * @example
+   * ```typescript
+   * const budget = await usageService.checkBudget();
+   * if (budget) break; // stop the loop
+   * ```
+   */
+  checkBudget: async (): Promise<BudgetStatus | null> => {
+    const budgets = getBudgets();
+    const configured = Object.values(budgets).some(limits => limits.soft !== undefined || limits.hard !== undefined);
+    if (!configured) return null;
+
+    const run = runUsage();
+    const {config} = stateManager.getState();
+
+    const [conversation, user] = await Promise.all([
+      config.conversation_uuid ? usageService.getConversationUsage(config.conversation_uuid, run.run_id) : emptyTotals(),
+      config.user_uuid ? usageService.getUserDailyUsage(config.user_uuid, run.run_id) : emptyTotals()
+    ]);
+
+    const budget = evaluateBudgets({run: run.cost, conversation: conversation.cost + run.cost, user: user.cost + run.cost}, budgets);
+
+    // Keep the most severe status seen during the run
+    if (budget && (!run.budget || (run.budget.level === 'soft' && budget.level === 'hard'))) {
+      run.budget = budget;
+      log.info('Budget exceeded', {...budget, conversation_uuid: config.conversation_uuid});
+    }
+
+    return budget;
+  },
+
+  /**
+   * Returns the budget that stopped the current run, if any
+   */
+  getBudgetStatus: (): BudgetStatus | null => runUsage().budget
+};
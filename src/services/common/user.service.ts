@@ -13,6 +13,7 @@ import { logger } from './logger.service';
 import { cacheService } from './cache.service';
 import { measureQueryTime } from '../../database/query-utils';
 import { isLocalMode, getLocalUser } from '../../config/local-user.config';
+import { resolvePersona, type Persona, type PersonaUpdate } from '../../config/persona.config';
 
 /** Component logger for user service operations */
 const userLogger = logger.child('USER_SERVICE');
@@ -164,6 +165,7 @@ const AUTH_USER_COLUMNS = {
   updatedAt: users.updatedAt,
   context: users.context,
   environment: users.environment,
+  persona: users.persona,
   googleAccessToken: users.googleAccessToken,
   googleRefreshToken: users.googleRefreshToken,
   googleTokenExpiry: users.googleTokenExpiry,
@@ -442,4 +444,62 @@ export const getGoogleTokens = async (user_uuid: string): Promise<{
   });
 };
 
+/**
+ * Merges persona changes into the stored persona of a user and invalidates cache
+ * @param {string} user_uuid - UUID of the user to update
+ * @param {PersonaUpdate} persona - Persona fields to change; omitted fields keep their value
+ * @returns {Promise<Persona|undefined>} Updated persona with defaults filled in, or undefined if user not found
+ */
+export const updatePersona = async (user_uuid: string, persona: PersonaUpdate): Promise<Persona | undefined> => {
+  const updated = await measureQueryTime('update-user-persona', async () => {
+    const [user] = await db
+      .select({ persona: users.persona })
+      .from(users)
+      .where(eq(users.uuid, user_uuid))
+      .limit(1);
+
+    if (!user) return undefined;
+
+    const merged = { ...(user.persona ?? {}), ...persona };
+    await db
+      .update(users)
+      .set({ persona: merged, updatedAt: new Date() })
+      .where(eq(users.uuid, user_uuid));
+
+    return merged;
+  });
+
+  if (!updated) return undefined;
+
+  // Invalidate user cache entries
+  await cacheService.delete(CACHE_KEYS.USER_BY_UUID(user_uuid), { namespace: 'auth' });
+  userLogger.debug('Invalidated user cache after persona update', { user_uuid });
+
+  return resolvePersona(updated);
+};
+
+/**
+ * Replaces the free-text context of a user and invalidates cache
+ * @param {string} user_uuid - UUID of the user to update
+ * @param {string|null} context - New context; null clears it
+ * @returns {Promise<boolean>} False if the user was not found
+ */
+export const updateContext = async (user_uuid: string, context: string | null): Promise<boolean> => {
+  const updated = await measureQueryTime('update-user-context', async () => {
+    return await db
+      .update(users)
+      .set({ context, updatedAt: new Date() })
+      .where(eq(users.uuid, user_uuid))
+      .returning({ uuid: users.uuid });
+  });
+
+  if (updated.length === 0) return false;
+
+  // Invalidate user cache entries
+  await cacheService.delete(CACHE_KEYS.USER_BY_UUID(user_uuid), { namespace: 'auth' });
+  userLogger.debug('Invalidated user cache after context update', { user_uuid });
+
+  return true;
+};
+
 // Add other user-related functions as needed
@@ -1,6 +1,15 @@
-import { QdrantClient } from '@qdrant/js-client-rest';
 import { z } from 'zod';
 import { logger } from './logger.service';
+import { embedding } from './llm.service';
+import { localLlmService } from './local-llm.service';
+import { embeddingCollectionService } from './embedding-collection.service';
+import { collectionNameFor, embeddingModels, getEmbeddingModel, LEGACY_EMBEDDING_MODEL } from '../../config/embedding.config';
+import type { EmbeddingCollection } from '../../schema/embedding_collections';
+import { ValidationError } from '../../utils/errors';
+import { getVectorStoreSettings, type VectorStoreName } from '../../config/vector.config';
+import type { VectorPoint, VectorStore } from '../../types/vector';
+import { qdrantStore } from './qdrant.service';
+import { localVectorStore } from './local-vector.service';
 
 const vectorLogger = logger.child('VECTOR_SERVICE');
 
@@ -55,61 +64,83 @@ interface VectorSearchResult {
   payload: PointPayload;
 }
 
-// Initialize Qdrant client
-const qdrant = new QdrantClient({
-  url: process.env.QDRANT_URL,
-  apiKey: process.env.QDRANT_API_KEY
-});
+/**
+ * Resolves a vector store by name
+ * 
+ * @param name - qdrant or local
+ * @returns The store
+ */
+export const vectorStoreFor = (name: VectorStoreName): VectorStore => (name === 'qdrant' ? qdrantStore : localVectorStore);
 
-/** The name of the Qdrant collection used for vector storage */
+/** The store selected by VECTOR_STORE_BACKEND */
+const store = () => vectorStoreFor(getVectorStoreSettings().backend);
+
+/** The name of the first collection; re-embeddings build collections named after it and their model */
 const COLLECTION_NAME = process.env.QDRANT_INDEX || 'alice';
 
-/** The dimensionality of vectors stored in the collection (Gemini text-embedding-004 size) */
-const VECTOR_SIZE = 768;
+const COPY_BATCH_SIZE = 256;
+
+/** Model a new index is built with: the local embedding model when configured, else EMBEDDING_MODEL */
+const defaultIndexModel = () => localLlmService.embeddingModel()?.id ?? getEmbeddingModel();
 
 /**
- * Formats search filters into Qdrant-compatible filter structure
- * Converts user-friendly filter objects into the format expected by Qdrant
- * 
- * @param filters - The search filters to format
- * @returns Qdrant-compatible filter object or undefined if no filters
- * 
- * @example
- * ```typescript
- * const filters = { source: 'document', content_type: 'chunk' };
- * const qdrantFilter = formatSearchFilters(filters);
- * // Returns: { must: [{ key: 'source', match: { value: 'document' } }, ...] }
- * ```
+ * Resolves the vector dimension of an embedding model
+ * Registered hosted models have a known dimension; others, like local models, are probed with one embedding
  */
-const formatSearchFilters = (filters: SearchFilters) => {
-  if (!filters) return undefined;
-  
-  const must = [];
+const resolveDimensions = async (model: string): Promise<number> =>
+  embeddingModels[model]?.dimensions ?? (await embedding('dimension probe', { model })).length;
 
-  if (filters.source_uuid) {
-    must.push({ key: 'source_uuid', match: { value: filters.source_uuid } });
-  }
-  if (filters.source) {
-    must.push({ key: 'source', match: { value: filters.source } });
-  }
-  if (filters.content_type) {
-    must.push({ key: 'content_type', match: { value: filters.content_type } });
-  }
-  if (filters.category) {
-    must.push({ key: 'category', match: { value: filters.category } });
+const checkDimensions = (vector: number[], collection: EmbeddingCollection) => {
+  if (vector.length !== collection.dimensions) {
+    throw new ValidationError(
+      `Vector must be of size ${collection.dimensions} (${collection.model}) for collection ${collection.name}, got ${vector.length}`,
+      { context: { collection: collection.name, model: collection.model } }
+    );
   }
-  if (filters.subcategory) {
-    must.push({ key: 'subcategory', match: { value: filters.subcategory } });
+};
+
+let active_collection: Promise<EmbeddingCollection> | null = null;
+
+/**
+ * Registers the collection searches start with
+ * A collection created before models were recorded is registered with the model that filled it: the local
+ * embedding model when configured, else text-embedding-004. Otherwise a new collection is created for the default model
+ */
+const registerFirstCollection = async (): Promise<EmbeddingCollection> => {
+  const recorded = await embeddingCollectionService.findActive();
+  if (recorded) return recorded;
+
+  const existing_dimensions = await store().getDimensions(COLLECTION_NAME);
+  if (existing_dimensions !== null) {
+    const model = localLlmService.embeddingModel()?.id ?? LEGACY_EMBEDDING_MODEL;
+
+    vectorLogger.info('Registering existing collection', { collection: COLLECTION_NAME, model });
+    return embeddingCollectionService.register({
+      name: COLLECTION_NAME,
+      model,
+      dimensions: existing_dimensions,
+      status: 'active',
+      activated_at: new Date().toISOString()
+    });
   }
 
-  vectorLogger.debug('Formatted Qdrant filters', { filters: { must } });
-  return must.length > 0 ? { must } : undefined;
+  const model = defaultIndexModel();
+  const dimensions = await resolveDimensions(model);
+  await vectorService.createCollection(COLLECTION_NAME, dimensions);
+  return embeddingCollectionService.register({
+    name: COLLECTION_NAME,
+    model,
+    dimensions,
+    status: 'active',
+    activated_at: new Date().toISOString()
+  });
 };
 
 /**
  * Vector Database Service
  * 
- * Provides high-level operations for managing and searching vector embeddings in Qdrant.
+ * Provides high-level operations for managing and searching vector embeddings in the vector store
+ * selected by VECTOR_STORE_BACKEND: a Qdrant server or the embedded SQLite store.
  * This service handles document embeddings for semantic search, content similarity,
  * and vector-based retrieval operations.
  * 
@@ -144,8 +175,9 @@ const formatSearchFilters = (filters: SearchFilters) => {
  */
 export const vectorService = {
   /**
-   * Initializes the Qdrant collection with proper configuration
-   * Creates the collection if it doesn't exist and sets up necessary indexes
+   * Initializes the active collection
+   * Registers an existing collection, or creates one for the default embedding model. Warns when the active
+   * collection is missing from the selected store, e.g. after switching stores without copying the vectors
    * 
    * @throws {Error} When collection initialization fails
    * 
@@ -155,47 +187,135 @@ export const vectorService = {
    * ```
    */
   async initializeCollection(): Promise<void> {
-    try {
-      const collections = await qdrant.getCollections();
-      const exists = collections.collections.some(c => c.name === COLLECTION_NAME);
-
-      if (!exists) {
-        await qdrant.createCollection(COLLECTION_NAME, {
-          vectors: {
-            size: VECTOR_SIZE,
-            distance: 'Cosine'
-          },
-          optimizers_config: {
-            default_segment_number: 2
-          },
-          replication_factor: 1
-        });
+    const collection = await vectorService.getActiveCollection();
 
-        // Create payload indexes for faster filtering
-        await qdrant.createPayloadIndex(COLLECTION_NAME, {
-          field_name: 'source_uuid',
-          field_schema: 'keyword',
-          wait: true
-        });
+    if ((await store().getDimensions(collection.name)) === null) {
+      vectorLogger.warn('Active collection is missing from the vector store; copy it with bun run vectors:migrate', {
+        collection: collection.name,
+        store: store().name
+      });
+    }
+  },
 
-        await qdrant.createPayloadIndex(COLLECTION_NAME, {
-          field_name: 'source',
-          field_schema: 'keyword',
-          wait: true
-        });
-      }
+  /**
+   * Returns the collection that serves searches, with the embedding model its vectors come from
+   * Warns once when EMBEDDING_MODEL names another model, since only a re-embedding switches models
+   * 
+   * @returns The active collection
+   * @throws {Error} When the collection cannot be registered
+   * 
+   * @example
+   * ```typescript
+   * const { model } = await vectorService.getActiveCollection();
+   * const query_vector = await embedding('search query', { model });
+   * ```
+   */
+  async getActiveCollection(): Promise<EmbeddingCollection> {
+    const cached = await embeddingCollectionService.findActive();
+    if (cached) return cached;
+
+    active_collection ??= registerFirstCollection()
+      .then(collection => {
+        if (collection.model !== defaultIndexModel()) {
+          vectorLogger.warn('Index uses another embedding model than configured; start a re-embedding to switch', {
+            collection: collection.name,
+            model: collection.model,
+            configured: defaultIndexModel()
+          });
+        }
+        return collection;
+      })
+      .finally(() => {
+        active_collection = null;
+      });
+    return active_collection;
+  },
+
+  /**
+   * Resolves the vector dimension of an embedding model
+   * 
+   * @param model - Registered hosted model or the local embedding model (probed with one embedding)
+   * @returns Vector dimension
+   */
+  resolveDimensions,
+
+  /**
+   * Names a new collection for an embedding model, derived from QDRANT_INDEX
+   * 
+   * @param model - Embedding model of the collection
+   * @returns Unused collection name
+   */
+  newCollectionName: (model: string): string => collectionNameFor(COLLECTION_NAME, model, new Date()),
+
+  /**
+   * Creates a collection for vectors of the given dimension, with indexes for filtering
+   * 
+   * @param name - Collection name
+   * @param dimensions - Vector dimension of its embedding model
+   * @throws {Error} When the collection cannot be created
+   */
+  async createCollection(name: string, dimensions: number): Promise<void> {
+    try {
+      await store().createCollection(name, dimensions);
+    } catch (error) {
+      vectorLogger.error('Failed to initialize vector collection', error as Error);
+      throw error;
+    }
+  },
+
+  /**
+   * Deletes a collection, e.g. one whose re-embedding failed
+   * 
+   * @param name - Collection name
+   * @throws {Error} When the collection cannot be deleted
+   */
+  async dropCollection(name: string): Promise<void> {
+    try {
+      await store().dropCollection(name);
     } catch (error) {
-      vectorLogger.error('Failed to initialize Qdrant collection', error as Error);
+      vectorLogger.error('Failed to delete collection', error as Error);
       throw error;
     }
   },
 
   /**
-   * Inserts or updates a vector point in the collection
+   * Embeds a text and stores it in every writable collection, each with its own model
+   * While a re-embedding runs, this keeps the collection it builds complete
    * 
-   * @param vector - The embedding vector (must be exactly VECTOR_SIZE dimensions)
+   * @param text - Text to embed
    * @param payload - The metadata and content associated with the vector
-   * @throws {Error} When vector size is incorrect or upsert operation fails
+   * @throws {Error} When embedding or upsert fails
+   * 
+   * @example
+   * ```typescript
+   * await vectorService.upsertText(document.text, {
+   *   document_uuid: document.uuid,
+   *   source_uuid: document.source_uuid,
+   *   source: 'document',
+   *   text: document.text,
+   *   metadata,
+   *   created_at: document.created_at,
+   *   updated_at: document.updated_at
+   * });
+   * ```
+   */
+  async upsertText(text: string, payload: PointPayload): Promise<void> {
+    await vectorService.getActiveCollection();
+    for (const collection of await embeddingCollectionService.findWritable()) {
+      const vector = await embedding(text, { model: collection.model });
+      await vectorService.upsertPoint(vector, payload, collection);
+    }
+  },
+
+  /**
+   * Inserts or updates a vector point in a collection
+   * The point records the embedding model of its vector
+   * 
+   * @param vector - The embedding vector (must match the dimension of the collection's model)
+   * @param payload - The metadata and content associated with the vector
+   * @param collection - Target collection (default: the active one)
+   * @throws {ValidationError} When the vector size does not match the collection
+   * @throws {Error} When the upsert operation fails
    * 
    * @example
    * ```typescript
@@ -213,27 +333,26 @@ export const vectorService = {
    */
   async upsertPoint(
     vector: number[],
-    payload: PointPayload
+    payload: PointPayload,
+    collection?: EmbeddingCollection
   ): Promise<void> {
     try {
-      if (vector.length !== VECTOR_SIZE) {
-        throw new Error(`Vector must be of size ${VECTOR_SIZE}, got ${vector.length}`);
-      }
+      const target = collection ?? await vectorService.getActiveCollection();
+      checkDimensions(vector, target);
 
       const validated_payload = PointPayloadSchema.parse(payload);
 
-      await qdrant.upsert(COLLECTION_NAME, {
-        wait: true,
-        points: [{
-          id: validated_payload.document_uuid,
-          vector,
-          payload: {
-            ...validated_payload,
-            metadata: undefined,
-            ...validated_payload.metadata
-          }
-        }]
-      });
+      // Metadata is flattened, so its fields can be filtered on
+      const { metadata, ...fields } = validated_payload;
+      await store().upsert(target.name, [{
+        id: validated_payload.document_uuid,
+        vector,
+        payload: {
+          ...fields,
+          ...metadata,
+          embedding_model: target.model
+        }
+      }]);
     } catch (error) {
       vectorLogger.error('Failed to upsert point', error as Error);
       throw error;
@@ -241,7 +360,7 @@ export const vectorService = {
   },
 
   /**
-   * Deletes vector points from the collection
+   * Deletes vector points from every writable collection
    * 
    * @param document_uuids - Array of document UUIDs to delete
    * @throws {Error} When deletion operation fails
@@ -253,10 +372,10 @@ export const vectorService = {
    */
   async deletePoints(document_uuids: string[]): Promise<void> {
     try {
-      await qdrant.delete(COLLECTION_NAME, {
-        wait: true,
-        points: document_uuids
-      });
+      await vectorService.getActiveCollection();
+      for (const collection of await embeddingCollectionService.findWritable()) {
+        await store().delete(collection.name, document_uuids);
+      }
     } catch (error) {
       vectorLogger.error('Failed to delete points', error as Error);
       throw error;
@@ -264,18 +383,20 @@ export const vectorService = {
   },
 
   /**
-   * Searches for similar vectors in the collection
+   * Searches for similar vectors in the active collection
    * Performs cosine similarity search with optional filtering and score thresholding
    * 
-   * @param vector - The query vector to search for (must be exactly VECTOR_SIZE dimensions)
+   * @param vector - The query vector to search for (must come from the active collection's model)
    * @param filters - Optional filters to apply to the search results
    * @param limit - Maximum number of results to return (default: 10)
    * @returns Array of search results sorted by similarity score (highest first)
+   * @throws {ValidationError} When the vector size does not match the active collection
    * @throws {Error} When search operation fails
    * 
    * @example
    * ```typescript
-   * const queryEmbedding = await getEmbedding('search query');
+   * const { model } = await vectorService.getActiveCollection();
+   * const queryEmbedding = await embedding('search query', { model });
    * const results = await vectorService.searchSimilar(queryEmbedding, {
    *   source: 'document',
    *   content_type: 'chunk'
@@ -293,14 +414,10 @@ export const vectorService = {
   ): Promise<VectorSearchResult[]> {
     try {
       vectorLogger.debug('Vector service received filters', { filters });
-      const filter = filters ? formatSearchFilters(filters) : undefined;
+      const collection = await vectorService.getActiveCollection();
+      checkDimensions(vector, collection);
 
-      const results = await qdrant.search(COLLECTION_NAME, {
-        vector,
-        filter,
-        limit,
-        with_payload: true
-      });
+      const results = await store().search(collection.name, vector, { filters, limit });
 
       // Debug log the first result's full payload structure
       if (results.length > 0) {
@@ -316,7 +433,7 @@ export const vectorService = {
       return results
         .filter(result => result.score >= threshold)
         .map(result => ({
-          id: result.id as string,
+          id: result.id,
           score: result.score,
           payload: result.payload as PointPayload
         }));
@@ -344,18 +461,11 @@ export const vectorService = {
     limit = 100
   ): Promise<VectorSearchResult[]> {
     try {
-      const results = await qdrant.scroll(COLLECTION_NAME, {
-        filter: {
-          must: [
-            { key: 'source_uuid', match: { value: source_uuid } }
-          ]
-        },
-        limit,
-        with_payload: true
-      });
+      const { name } = await vectorService.getActiveCollection();
+      const results = await store().scroll(name, { filters: { source_uuid }, limit });
 
       return results.points.map(point => ({
-        id: point.id as string,
+        id: point.id,
         score: 1.0,
         payload: point.payload as PointPayload
       }));
@@ -366,7 +476,7 @@ export const vectorService = {
   },
 
   /**
-   * Updates the payload of an existing vector point without changing the vector
+   * Updates the payload of an existing vector point in every writable collection without changing the vector
    * 
    * @param document_uuid - The UUID of the document to update
    * @param payload_update - Partial payload data to update
@@ -385,11 +495,10 @@ export const vectorService = {
     payload_update: Partial<PointPayload>
   ): Promise<void> {
     try {
-      await qdrant.setPayload(COLLECTION_NAME, {
-        points: [document_uuid],
-        payload: payload_update,
-        wait: true
-      });
+      await vectorService.getActiveCollection();
+      for (const collection of await embeddingCollectionService.findWritable()) {
+        await store().setPayload(collection.name, [document_uuid], payload_update);
+      }
     } catch (error) {
       vectorLogger.error('Failed to update point payload', error as Error);
       throw error;
@@ -397,13 +506,14 @@ export const vectorService = {
   },
 
   /**
-   * Updates both the vector and payload of an existing point
+   * Updates both the vector and payload of an existing point in the active collection
    * Completely replaces the existing point with new data
    * 
    * @param document_uuid - The UUID of the document to update
-   * @param vector - The new embedding vector (must be exactly VECTOR_SIZE dimensions)
+   * @param vector - The new embedding vector (must come from the active collection's model)
    * @param payload - The new payload data
-   * @throws {Error} When vector size is incorrect or update operation fails
+   * @throws {ValidationError} When the vector size does not match the active collection
+   * @throws {Error} When update operation fails
    * 
    * @example
    * ```typescript
@@ -425,23 +535,69 @@ export const vectorService = {
     payload: PointPayload
   ): Promise<void> {
     try {
-      if (vector.length !== VECTOR_SIZE) {
-        throw new Error(`Vector must be of size ${VECTOR_SIZE}, got ${vector.length}`);
-      }
+      const collection = await vectorService.getActiveCollection();
+      checkDimensions(vector, collection);
 
       const validated_payload = PointPayloadSchema.parse(payload);
 
-      await qdrant.upsert(COLLECTION_NAME, {
-        wait: true,
-        points: [{
-          id: document_uuid,
-          vector,
-          payload: validated_payload
-        }]
-      });
+      await store().upsert(collection.name, [{
+        id: document_uuid,
+        vector,
+        payload: {...validated_payload, embedding_model: collection.model}
+      }]);
     } catch (error) {
       vectorLogger.error('Failed to update point', error as Error);
       throw error;
     }
+  },
+
+  /**
+   * Copies the registered collections from one vector store to another, vectors and payloads unchanged
+   * Collections that already exist in the target are filled up, so an interrupted copy can be run again
+   * 
+   * @param from - Store to read from
+   * @param to - Store to write to
+   * @returns Number of copied points per collection
+   * @throws {ValidationError} When both stores are the same
+   * 
+   * @example
+   * ```typescript
+   * const copied = await vectorService.copyCollections('qdrant', 'local');
+   * // { alice: 1243 }
+   * ```
+   */
+  async copyCollections(from: VectorStoreName, to: VectorStoreName): Promise<Record<string, number>> {
+    if (from === to) throw new ValidationError('Source and target vector stores must differ', { context: { from, to } });
+
+    const source = vectorStoreFor(from);
+    const target = vectorStoreFor(to);
+
+    // Only collections of this app; a Qdrant server may hold others
+    const registered = (await embeddingCollectionService.list())
+      .filter(collection => collection.status !== 'failed')
+      .map(collection => collection.name);
+    const names = [...new Set([...registered, COLLECTION_NAME])];
+
+    const copied: Record<string, number> = {};
+    for (const name of names) {
+      const dimensions = await source.getDimensions(name);
+      if (dimensions === null) continue;
+
+      await target.createCollection(name, dimensions);
+      copied[name] = 0;
+
+      let offset: string | null = null;
+      do {
+        const page = await source.scroll(name, { limit: COPY_BATCH_SIZE, offset, with_vector: true });
+        await target.upsert(name, page.points.filter((point): point is Required<VectorPoint> => !!point.vector));
+
+        copied[name] += page.points.length;
+        offset = page.next_offset;
+      } while (offset);
+
+      vectorLogger.info('Collection copied', { collection: name, from, to, points: copied[name] });
+    }
+
+    return copied;
   }
 };
@@ -21,7 +21,7 @@ import {
   getMimeTypeFromExtension
 } from '../../config/mime.config';
 import {completion, transcription} from '../common/llm.service';
-import {prompt as writePrompt} from '../../prompts/tools/file.write';
+import {promptService} from '../common/prompt.service';
 import {v4 as uuidv4} from 'uuid';
 import { db } from '../../database';
 import { documents } from '../../schema/document';
@@ -470,11 +470,12 @@ const fileService = {
       });
 
       const state = stateManager.getState();
+      const write_prompt = await promptService.render('tools.file.write', {documents: restored_context});
 
       const writing_messages: CoreMessage[] = [
         {
           role: 'system',
-          content: writePrompt({documents: restored_context})
+          content: write_prompt.content
         },
         {
           role: 'user',
@@ -486,7 +487,8 @@ const fileService = {
       const file_generation = span?.generation({
         name: 'file_content_generation',
         input: writing_messages,
-        model: state.config.model
+        model: state.config.model,
+        ...promptService.tags(write_prompt)
       });
 
       // Generate content using LLM
@@ -3,7 +3,7 @@ import {LangfuseSpanClient} from 'langfuse';
 import {z} from 'zod';
 import {stateManager} from '../agent/state.service';
 import {TokenResponse, SimplifiedSearchResults, SimplifiedTrack, SimplifiedPlaylist, SimplifiedAlbum} from '../../types/tools/spotify';
-import {prompt as spotifyPlayPrompt} from '../../prompts/tools/spotify.play';
+import {promptService} from '../common/prompt.service';
 import {completion} from '../common/llm.service';
 import {CoreMessage} from 'ai';
 import {DocumentMetadata} from '../../types/document';
@@ -287,6 +287,7 @@ const spotifyService = {
   select: async (results: SimplifiedSearchResults, query: string, span?: LangfuseSpanClient): Promise<string> => {
     try {
       const state = stateManager.getState();
+      const play_prompt = await promptService.render('tools.spotify.play', {results: JSON.stringify(results)});
 
       const selection_generation = span?.generation({
         name: 'spotify_track_selection',
@@ -298,14 +299,15 @@ const spotifyService = {
             albums: results.albums.map(a => ({name: a.name, artists: a.artists}))
           }
         },
-        model: state.config.model
+        model: state.config.model,
+        ...promptService.tags(play_prompt)
       });
 
       const decision = await completion.object<{result: string}>({
         // NOTE: Never use 'gemini-2.0-flash'.
         model: state.config.model ?? 'gemini-2.5-flash',
         messages: [
-          {role: 'system', content: spotifyPlayPrompt({results: JSON.stringify(results)})},
+          {role: 'system', content: play_prompt.content},
           {role: 'user', content: query}
         ],
         temperature: 0,
@@ -16,9 +16,8 @@ import {createTokenizer} from '../common/text.service';
 import { ValidationError } from '../../utils/errors';
 import type {DocumentType} from '../agent/document.service';
 import {whitelistedDomains} from '../../config/websearch.config';
-import {prompt as useSearchPrompt} from '../../prompts/tools/search.use';
-import {prompt as askSearchPrompt} from '../../prompts/tools/search.ask';
 import {prompt as pickResourcesPrompt} from '../../prompts/tools/search.pick';
+import {promptService} from '../common/prompt.service';
 import {completion} from '../common/llm.service';
 import {stateManager} from '../agent/state.service';
 import {createTextService} from '../common/text.service';
@@ -240,8 +239,9 @@ const webService = {
       });
 
       // 1. Check if search is needed
+      const useSearchPrompt = await promptService.render('tools.search.use', undefined);
       const searchNecessity = await completion.object<{shouldSearch: boolean, _thoughts: string}>({
-        messages: [{role: 'system', content: useSearchPrompt()}, {role: 'user', content: query}],
+        messages: [{role: 'system', content: useSearchPrompt.content}, {role: 'user', content: query}],
         // NOTE: Never use 'gemini-2.0-flash'.
         model: state.config.model ?? 'gemini-2.5-flash',
         temperature: 0,
@@ -272,8 +272,9 @@ const webService = {
       }
 
       // 2. Generate queries
+      const askSearchPrompt = await promptService.render('tools.search.ask', whitelistedDomains);
       const queryGeneration = await completion.object<{queries: Array<{q: string, url: string}>, _thoughts: string}>({
-        messages: [{role: 'system', content: askSearchPrompt(whitelistedDomains)}, {role: 'user', content: query}],
+        messages: [{role: 'system', content: askSearchPrompt.content}, {role: 'user', content: query}],
         // NOTE: Never use 'gemini-2.0-flash'.
         model: state.config.model ?? 'gemini-2.5-flash',
         temperature: 0,
@@ -1,4 +1,6 @@
 import {Document} from './document';
+import type {State} from './state';
+import type {BudgetLevel, BudgetScope} from '../config/budget.config';
 
 interface EnvironmentResponse {
   _thinking: string;
@@ -17,7 +19,7 @@ interface MemoryResponse {
 
 interface ContextResponse {
   _thinking: string;
-  result: string;
+  result: string | null;
 }
 
 interface TaskItem {
@@ -25,6 +27,7 @@ interface TaskItem {
   name: string;
   description: string;
   status: 'completed' | 'pending';
+  depends_on?: string[];
 }
 
 interface TaskResponse {
@@ -39,7 +42,7 @@ export type Action = {
   name: string;
   payload: unknown;
   sequence: number | null;
-  status: string | null; // 'pending' | 'completed' | 'failed'
+  status: string | null; // 'pending' | 'awaiting_approval' | 'completed' | 'rejected' | 'failed'
   result?: string | null;
   documents?: Document[];
 };
@@ -54,6 +57,7 @@ export type Task = {
   scheduled_for?: string | null;
   completed_at?: string | null;
   result?: string | null;
+  depends_on?: string[];
   actions: Action[];
 };
 
@@ -103,3 +107,43 @@ export interface ToolUseResponse {
   _thinking: string;
   result: ToolUsePayload;
 }
+
+/**
+ * How a run answered: `fast` answers directly with recalled memories, `full` runs the observe/draft/plan/act loop
+ */
+export type AgentPath = 'fast' | 'full';
+
+/**
+ * How the loop chooses actions: `classic` selects the action and then writes its payload with two JSON prompts,
+ * `native` has the model call the tool with its payload through provider function calling in one round-trip
+ */
+export type ToolMode = 'classic' | 'native';
+
+/**
+ * Progress events emitted while an agent run is in flight
+ * Streamed to clients as server-sent events so they can show each phase live
+ */
+export type AgentEvent =
+  | {type: 'phase_start'; span_id: string; name: string; phase: string | null}
+  | {type: 'phase_end'; span_id: string}
+  | {type: 'route'; path: AgentPath}
+  | {type: 'observation'; environment: string; context: string}
+  | {type: 'draft'; tools: ToolQuery[]; memory: MemoryQuery[]}
+  | {type: 'plan'; tasks: Array<Pick<Task, 'uuid' | 'name' | 'description' | 'status'>>}
+  | {type: 'action'; action: {uuid: string; name: string}; tool: {uuid: string; name: string}; task: {uuid: string; name: string} | null}
+  | {type: 'payload'; action_uuid: string | null; tool: string; action: string; payload: Record<string, unknown>}
+  | {type: 'tool_result'; action_uuid: string | null; tool: string; document: unknown}
+  | {type: 'approval_required'; action_uuid: string; tool: string; action: string; payload: Record<string, unknown>}
+  | {type: 'budget_exceeded'; scope: BudgetScope; level: BudgetLevel; limit: number; spent: number}
+  | {type: 'answer_token'; text: string};
+
+/**
+ * Snapshot of an agent run paused on an action that awaits the user's approval
+ * Stored with the action; tasks and session data are reloaded from the database on resume
+ */
+export interface AgentCheckpoint {
+  action: string;
+  state: Pick<State, 'config' | 'thoughts' | 'profile'> & {
+    interaction: Pick<State['interaction'], 'messages' | 'tool_context'>;
+  };
+}
@@ -32,4 +32,11 @@ export interface DocumentMetadata {
     updated_at?: string;
     category?: string;
     subcategory?: string;
+    history?: HistorySummaryMetadata; // only on rolling summaries of the conversation history
+}
+
+export interface HistorySummaryMetadata {
+    block: number; // index of the last message block folded into the summary
+    messages: number; // number of messages the summary covers
+    fingerprint: string; // hash of the covered messages and the previous summary; changes when they are edited or deleted
 } 
\ No newline at end of file
@@ -1,5 +1,6 @@
 import {type ChatRequest} from '../dto/chat.dto';
-import type {CoreMessage} from 'ai';
+import type {CoreMessage, ToolSet} from 'ai';
+import type {ZodType} from 'zod';
 
 export interface CompletionConfig {
   messages: CoreMessage[];
@@ -14,6 +15,32 @@ export interface CompletionConfig {
   };
   conversation_id?: string;
   stream?: boolean;
+  /** Response cache of deterministic calls: `phase` selects the TTL, `bypass` skips the cache */
+  cache?: {
+    phase?: string;
+    bypass?: boolean;
+  };
+}
+
+export interface ObjectCompletionConfig<T> extends CompletionConfig {
+  /** Validates the generated object; mismatches are sent back to the model for repair */
+  schema?: ZodType<T>;
+  /** How often a mismatch is sent back before giving up (default: 2) */
+  repair_attempts?: number;
+}
+
+export interface ToolCallConfig extends CompletionConfig {
+  /** Tools the model must choose from; without `execute` the call is returned instead of run */
+  tools: ToolSet;
+  /** How often an invalid call is sent back before giving up (default: 2) */
+  repair_attempts?: number;
+}
+
+export interface ToolCallResult {
+  /** Name of the called tool */
+  name: string;
+  /** Input validated against the tool's input schema */
+  input: unknown;
 }
 
 export interface StreamResponse {
@@ -0,0 +1,60 @@
+import type { DocumentType } from '../services/agent/document.service';
+import type { LexicalBackendName, RerankerName } from '../config/search.config';
+
+/** Filters every lexical backend supports; they match the document metadata exactly */
+export interface LexicalSearchFilters {
+  source_uuid?: string;
+  source?: string;
+  content_type?: 'chunk' | 'full' | 'memory';
+  category?: string;
+  subcategory?: string;
+}
+
+export interface LexicalSearchHit {
+  document_uuid: string;
+  /** Relevance as reported by the backend; higher is better, comparable within one result list only */
+  score: number;
+}
+
+/**
+ * Keyword search over the indexed documents
+ * Document hooks keep the index of the configured backend up to date; documents without should_index are left out
+ */
+export interface LexicalSearchBackend {
+  name: LexicalBackendName;
+  indexDocument(document: DocumentType): Promise<void>;
+  updateDocument(document: DocumentType): Promise<void>;
+  deleteDocument(uuid: string): Promise<void>;
+  /** Hits ordered by relevance, best first */
+  search(query: string, options: { filters: LexicalSearchFilters; limit: number }): Promise<LexicalSearchHit[]>;
+}
+
+export type RetrieverName = 'vector' | 'text';
+
+/** What one ranking added to the fused score of a document */
+export interface RetrieverContribution {
+  /** 1-based rank in the ranking */
+  rank: number;
+  /** Score reported by the retriever: cosine similarity or keyword relevance */
+  score: number;
+  weight: number;
+  /** weight / (k + rank) */
+  contribution: number;
+}
+
+/** Why a document was ranked where it is, returned by searches in explain mode */
+export interface SearchExplanation {
+  /** Weighted RRF score, the sum of the contributions */
+  fused_score: number;
+  /** 1-based rank after fusion */
+  fused_rank: number;
+  retrievers: Partial<Record<RetrieverName, RetrieverContribution>>;
+  /** Set when the document was among the re-ranked candidates */
+  rerank?: {
+    reranker: RerankerName;
+    /** Relevance between 0 and 1 */
+    score: number;
+    /** 1-based rank after re-ranking */
+    rank: number;
+  };
+}
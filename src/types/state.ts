@@ -1,10 +1,13 @@
 import {CoreMessage, Message} from 'ai';
-import {Memory, Task, Tool} from './agent';
+import {Memory, Task, Tool, ToolMode} from './agent';
 import { DocumentType } from '../services/agent/document.service';
+import type { Persona } from '../config/persona.config';
+import type { ModelRouting } from '../config/routing.config';
 
 export interface State {
   config: {
     fast_track: boolean;
+    tool_mode: ToolMode;
     step: number;
     max_steps: number;
     current_phase: string | null;
@@ -14,7 +17,10 @@ export interface State {
     user_uuid: string | null;
     conversation_uuid: string | null;
     model: string;
-    alt_model: string | null;
+    /** Model, temperature and token limit per agent phase; phases without a route use model and temperature */
+    model_routing: ModelRouting;
+    /** Skip the LLM response cache for this run (X-Cache-Bypass header) */
+    cache_bypass: boolean;
     temperature: number;
     max_tokens: number;
     time: string;
@@ -37,6 +43,7 @@ export interface State {
     context: string | null;
     ai_name: string;
     user_name: string;
+    persona: Persona;
   };
   interaction: {
     tasks: Task[];
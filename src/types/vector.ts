@@ -0,0 +1,49 @@
+import type { VectorStoreName } from '../config/vector.config';
+
+/** Filters every vector store supports; they match top-level payload values exactly */
+export interface VectorSearchFilters {
+  source_uuid?: string;
+  source?: string;
+  content_type?: string;
+  category?: string;
+  subcategory?: string;
+}
+
+export interface VectorPoint {
+  /** Document UUID */
+  id: string;
+  payload: Record<string, unknown>;
+  /** Only returned when requested */
+  vector?: number[];
+}
+
+export interface ScoredVectorPoint extends VectorPoint {
+  /** Cosine similarity, higher is more similar */
+  score: number;
+}
+
+/**
+ * Storage of the embedding vectors, one collection per embedding model
+ * Collections are registered in embedding_collections; the store only keeps their points
+ */
+export interface VectorStore {
+  name: VectorStoreName;
+  listCollections(): Promise<string[]>;
+  /** Vector dimension of a collection, or null when it does not exist */
+  getDimensions(collection: string): Promise<number | null>;
+  /** Creates a collection with cosine distance; an existing collection is kept */
+  createCollection(collection: string, dimensions: number): Promise<void>;
+  dropCollection(collection: string): Promise<void>;
+  /** Inserts points or replaces those with the same id */
+  upsert(collection: string, points: Required<VectorPoint>[]): Promise<void>;
+  delete(collection: string, ids: string[]): Promise<void>;
+  /** Merges the given keys into the top level of the payload, keeping the vector */
+  setPayload(collection: string, ids: string[], payload: Record<string, unknown>): Promise<void>;
+  /** Most similar points first */
+  search(collection: string, vector: number[], options: { filters?: VectorSearchFilters; limit: number }): Promise<ScoredVectorPoint[]>;
+  /** Pages through the points in id order; next_offset is null on the last page */
+  scroll(
+    collection: string,
+    options: { filters?: VectorSearchFilters; limit: number; offset?: string | null; with_vector?: boolean }
+  ): Promise<{ points: VectorPoint[]; next_offset: string | null }>;
+}
@@ -0,0 +1,51 @@
+/**
+ * Weighted Reciprocal Rank Fusion
+ * Merges the rankings of several retrievers by rank only, so their scores (cosine similarity, BM25, ...) never have
+ * to share a scale. A document scores weight / (k + rank) for every ranking it appears in
+ * @module rank-fusion
+ */
+
+import type {RetrieverContribution, RetrieverName} from '../types/search';
+
+export interface Ranking {
+  retriever: RetrieverName;
+  /** Hits ordered best first */
+  hits: {document_uuid: string; score: number}[];
+}
+
+export interface FusedHit {
+  document_uuid: string;
+  /** Sum of the contributions */
+  score: number;
+  retrievers: Partial<Record<RetrieverName, RetrieverContribution>>;
+}
+
+/**
+ * Fuses rankings with weighted RRF
+ * @param rankings - One ranking per retriever; a document listed twice in a ranking counts at its best rank
+ * @param options - RRF constant and weight per retriever (default 1, 0 leaves the ranking out)
+ * @returns Hits ordered by fused score, best first; ties keep the order in which documents were first seen
+ */
+export const fuseRankings = (
+  rankings: Ranking[],
+  {k, weights}: {k: number; weights: Partial<Record<RetrieverName, number>>}
+): FusedHit[] => {
+  const fused = new Map<string, FusedHit>();
+
+  for (const {retriever, hits} of rankings) {
+    const weight = weights[retriever] ?? 1;
+    if (weight <= 0) continue;
+
+    hits.forEach((hit, index) => {
+      const entry = fused.get(hit.document_uuid) ?? {document_uuid: hit.document_uuid, score: 0, retrievers: {}};
+      if (entry.retrievers[retriever]) return;
+
+      const contribution = weight / (k + index + 1);
+      entry.retrievers[retriever] = {rank: index + 1, score: hit.score, weight, contribution};
+      entry.score += contribution;
+      fused.set(hit.document_uuid, entry);
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+};
@@ -2,6 +2,9 @@
  * Test setup and utilities for AgentTom test suite
  */
 
+import { mock } from 'bun:test';
+import { resolve } from 'path';
+
 // Global type declarations for Bun test functions
 declare global {
   function beforeEach(fn: () => void | Promise<void>): void;
@@ -175,6 +178,20 @@ export const createMockMemoryService = () => ({
   }
 });
 
+/**
+ * Mock node-cache for testing
+ * The package is not installed with the dependencies, so files that load the memory service mock it first
+ */
+export const mockNodeCache = () =>
+  mock.module('node-cache', () => ({
+    default: class {
+      private entries = new Map<string, unknown>();
+      get = (key: string) => this.entries.get(key);
+      set = (key: string, value: unknown) => this.entries.set(key, value) && true;
+      flushAll = () => this.entries.clear();
+    }
+  }));
+
 /**
  * Utility to wait for async operations in tests
  */
@@ -226,4 +243,23 @@ export const testHelpers = {
       throw new Error(`Expected ${level} log with pattern "${messagePattern}" not found`);
     }
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Puts back the real modules that test files which ran earlier replaced with mock.module()
+ * bun keeps module mocks for the whole `bun test` run, so a file that needs a real service restores it first.
+ * A fresh copy is loaded through a query specifier, which mock.module() does not intercept; restore the
+ * dependencies of a module before the module itself
+ * @param paths - Module paths relative to the repository root, e.g. 'src/services/agent/state.service'
+ * @returns The restored modules, in the order of the paths
+ */
+export const restoreModules = async (...paths: string[]): Promise<any[]> => {
+  const modules = [];
+  for (const path of paths) {
+    const absolute = resolve(import.meta.dir, '../..', path);
+    const real = await import(`${absolute}.ts?real`);
+    mock.module(absolute, () => real);
+    modules.push(real);
+  }
+  return modules;
+};
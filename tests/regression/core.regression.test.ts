@@ -5,8 +5,10 @@
  */
 
 import { test, expect, describe, beforeAll, mock } from 'bun:test';
+import { mockNodeCache } from '../helpers/test-setup';
 
 // Mock all external dependencies for consistent testing
+mockNodeCache();
 mock.module('../../src/database', () => ({
   db: {
     insert: mock(() => ({
@@ -63,7 +65,10 @@ mock.module('../../src/services/common/llm.service', () => ({
         content: 'Test response from AI'
       }
     }))
-  }
+  },
+  embedding: mock(() => Promise.resolve([])),
+  getAiOps: mock(() => ({})),
+  setRunAiOps: mock(() => {})
 }));
 
 mock.module('../../src/services/agent/state.service', () => ({
@@ -78,15 +83,21 @@ mock.module('../../src/services/agent/state.service', () => ({
         model: 'gemini-2.5-flash',
         user_uuid: 'test-user-uuid',
         conversation_uuid: 'regression-test-uuid',
+        model_routing: {},
         step: 1
       },
-      profile: { user_name: 'Test User' },
+      profile: {
+        user_name: 'Test User',
+        persona: { ai_name: 'Alice', tone: 'friendly', language: 'auto', response_length: 'short', instructions: [] }
+      },
       thoughts: {},
       session: { tools: [] }
     })),
     updateThoughts: mock(() => {}),
     updateInteraction: mock(() => {}),
-    updateConfig: mock(() => Promise.resolve())
+    updateConfig: mock(() => Promise.resolve()),
+    emit: mock(() => {}),
+    local: mock((_key: symbol, init: () => unknown) => init())
   }
 }));
 
@@ -103,6 +114,7 @@ mock.module('../../src/services/agent/observer.service', () => ({
 }));
 
 mock.module('../../src/services/agent/agi.service', () => ({
+  getReadyTasks: mock(() => []),
   shouldContinueThinking: mock(() => false),
   updateActionState: mock(() => Promise.resolve()),
   setAssistantResponse: mock(() => Promise.resolve())
@@ -137,7 +149,10 @@ mock.module('../../src/config/tools.config', () => ({
     web: {
       execute: mock(() => Promise.resolve({ success: true, data: 'Test result' }))
     }
-  }
+  },
+  buildNativeTools: mock(() => ({})),
+  parseNativeToolName: mock((name: string) => ({ tool: name, action: '' })),
+  FINAL_ANSWER_TOOL: 'final_answer'
 }));
 
 // Import services after mocks
@@ -223,18 +238,18 @@ describe('Core Regression Test Suite', () => {
     test('should handle fast-track decisions', async () => {
       const mockSpan = { generation: mock(() => ({ end: mock(() => Promise.resolve()) })) };
 
-      // Test fast-track true
+      // The model answers true when tools or memory are needed, so the query takes the full loop
       const llmService = (await import('../../src/services/common/llm.service')).completion;
       llmService.object = mock(() => Promise.resolve({ result: true }));
 
-      const fastTrackResult = await aiService.aiService.fastTrack(mockSpan as any);
-      expect(fastTrackResult).toBe(true);
+      const noFastTrackResult = await aiService.aiService.fastTrack(mockSpan as any);
+      expect(noFastTrackResult).toBe(false);
 
-      // Test fast-track false
+      // Test fast-track true
       llmService.object = mock(() => Promise.resolve({ result: false }));
 
-      const noFastTrackResult = await aiService.aiService.fastTrack(mockSpan as any);
-      expect(noFastTrackResult).toBe(false);
+      const fastTrackResult = await aiService.aiService.fastTrack(mockSpan as any);
+      expect(fastTrackResult).toBe(true);
     });
 
     test('should execute reasoning cycle', async () => {
@@ -4,8 +4,10 @@
  */
 
 import { test, expect, describe, beforeEach, mock } from 'bun:test';
+import { mockNodeCache } from '../helpers/test-setup';
 
 // Mock all dependencies for system-level testing
+mockNodeCache();
 mock.module('../../src/database', () => ({
   db: {
     insert: mock(() => ({
@@ -55,6 +57,7 @@ mock.module('../../src/database', () => ({
 }));
 
 mock.module('../../src/services/agent/agi.service', () => ({
+  getReadyTasks: mock(() => []),
   shouldContinueThinking: mock(() => false),
   updateActionState: mock(() => Promise.resolve()),
   setAssistantResponse: mock(() => Promise.resolve())
@@ -73,7 +76,8 @@ mock.module('../../src/services/agent/state.service', () => ({
       },
       config: {
         model: 'gemini-2.5-flash',
-        alt_model: 'gemini-2.5-flash',
+        model_routing: {},
+        cache_bypass: false,
         user_uuid: 'test-user-uuid',
         conversation_uuid: 'test-conversation-uuid',
         step: 1,
@@ -109,7 +113,10 @@ mock.module('../../src/services/common/llm.service', () => ({
         content: 'Hi! I\'m here to help. What would you like to know?'
       }
     }))
-  }
+  },
+  embedding: mock(() => Promise.resolve([])),
+  getAiOps: mock(() => ({})),
+  setRunAiOps: mock(() => {})
 }));
 
 mock.module('../../src/services/agent/observer.service', () => ({
@@ -149,7 +156,10 @@ mock.module('../../src/services/agent/action.service', () => ({
 }));
 
 mock.module('../../src/config/tools.config', () => ({
-  toolsMap: {}
+  toolsMap: {},
+  buildNativeTools: mock(() => ({})),
+  parseNativeToolName: mock((name: string) => ({ tool: name, action: '' })),
+  FINAL_ANSWER_TOOL: 'final_answer'
 }));
 
 // Import services after mocks are set up
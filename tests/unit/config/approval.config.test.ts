@@ -0,0 +1,37 @@
+/**
+ * Tests for the approval policies of side-effecting tool actions
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { restoreModules } from '../../helpers/test-setup';
+
+await restoreModules('src/config/env.config');
+const { env } = await import('../../../src/config/env.config');
+const { requiresApproval } = await import('../../../src/config/approval.config');
+
+describe('requiresApproval', () => {
+  const { APPROVAL_DISABLED } = env;
+
+  afterEach(() => {
+    env.APPROVAL_DISABLED = APPROVAL_DISABLED;
+  });
+
+  test('requires approval for listed side-effecting actions', () => {
+    expect(requiresApproval('resend', 'send_email')).toBe(true);
+    expect(requiresApproval('calendar', 'create_event')).toBe(true);
+    expect(requiresApproval('calendar', 'update_event')).toBe(true);
+    expect(requiresApproval('linear', 'add_tasks')).toBe(true);
+    expect(requiresApproval('spotify', 'play_music')).toBe(true);
+  });
+
+  test('lets read-only actions and tools without a policy run immediately', () => {
+    expect(requiresApproval('calendar', 'search_events')).toBe(false);
+    expect(requiresApproval('linear', 'search_tasks')).toBe(false);
+    expect(requiresApproval('web', 'search')).toBe(false);
+  });
+
+  test('can be switched off with APPROVAL_DISABLED', () => {
+    env.APPROVAL_DISABLED = 'true';
+    expect(requiresApproval('resend', 'send_email')).toBe(false);
+  });
+});
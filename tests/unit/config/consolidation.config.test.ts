@@ -0,0 +1,70 @@
+/**
+ * Tests for the settings and decisions of the memory consolidation
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { getConsolidationSettings, planConsolidation } from '../../../src/config/consolidation.config';
+
+describe('getConsolidationSettings', () => {
+  const names = ['MEMORY_CONSOLIDATION', 'MEMORY_CONSOLIDATION_THRESHOLD', 'MEMORY_CONSOLIDATION_CANDIDATES', 'MEMORY_CONSOLIDATION_INTERVAL', 'MEMORY_CONSOLIDATION_BATCH'];
+
+  afterEach(() => {
+    for (const name of names) delete process.env[name];
+  });
+
+  test('consolidates by default', () => {
+    expect(getConsolidationSettings()).toEqual({ enabled: true, threshold: 0.85, candidates: 5, interval_minutes: 360, batch_size: 20 });
+  });
+
+  test('reads the settings and ignores invalid ones', () => {
+    process.env.MEMORY_CONSOLIDATION = 'false';
+    process.env.MEMORY_CONSOLIDATION_THRESHOLD = '1.5';
+    process.env.MEMORY_CONSOLIDATION_CANDIDATES = '3';
+    process.env.MEMORY_CONSOLIDATION_INTERVAL = '0';
+    process.env.MEMORY_CONSOLIDATION_BATCH = 'all';
+
+    expect(getConsolidationSettings()).toEqual({ enabled: false, threshold: 0.85, candidates: 3, interval_minutes: 0, batch_size: 20 });
+  });
+});
+
+describe('planConsolidation', () => {
+  const candidates = ['m1', 'm2', 'm3'];
+
+  test('splits the decisions into merges and supersessions', () => {
+    const plan = planConsolidation({
+      decisions: [
+        { memory_uuid: 'm1', action: 'merge', reason: 'same fact' },
+        { memory_uuid: 'm2', action: 'supersede', reason: 'moved to Berlin' },
+        { memory_uuid: 'm3', action: 'keep', reason: 'other fact' }
+      ],
+      merged: { name: ' Tea ', text: ' Adam likes green tea ' }
+    }, candidates);
+
+    expect(plan).toEqual({
+      merge: [{ memory_uuid: 'm1', reason: 'same fact' }],
+      supersede: [{ memory_uuid: 'm2', reason: 'moved to Berlin' }],
+      merged: { name: 'Tea', text: 'Adam likes green tea' }
+    });
+  });
+
+  test('ignores memories that were not candidates and repeated decisions', () => {
+    const plan = planConsolidation({
+      decisions: [
+        { memory_uuid: 'other', action: 'supersede', reason: 'invented' },
+        { memory_uuid: 'm2', action: 'keep', reason: 'first decision' },
+        { memory_uuid: 'm2', action: 'supersede', reason: 'second decision' }
+      ]
+    }, candidates);
+
+    expect(plan).toEqual({ merge: [], supersede: [] });
+  });
+
+  test('keeps merge candidates when the merged text is missing', () => {
+    const plan = planConsolidation({
+      decisions: [{ memory_uuid: 'm1', action: 'merge', reason: 'same fact' }],
+      merged: null
+    }, candidates);
+
+    expect(plan).toEqual({ merge: [], supersede: [] });
+  });
+});
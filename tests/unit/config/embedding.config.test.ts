@@ -0,0 +1,32 @@
+/**
+ * Tests for the embedding model registry
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { collectionNameFor, embeddingModels, getEmbeddingModel } from '../../../src/config/embedding.config';
+
+describe('getEmbeddingModel', () => {
+  afterEach(() => {
+    delete process.env.EMBEDDING_MODEL;
+  });
+
+  test('defaults to the model of indexes built before the registry', () => {
+    expect(getEmbeddingModel()).toBe('text-embedding-004');
+    expect(embeddingModels[getEmbeddingModel()].dimensions).toBe(768);
+  });
+
+  test('reads the configured model', () => {
+    process.env.EMBEDDING_MODEL = 'text-embedding-3-small';
+
+    expect(getEmbeddingModel()).toBe('text-embedding-3-small');
+  });
+});
+
+describe('collectionNameFor', () => {
+  test('keeps collections of different models and rebuilds apart', () => {
+    const created_at = new Date(1_792_886_400_000);
+
+    expect(collectionNameFor('agentom', 'text-embedding-3-small', created_at)).toBe('agentom_text_embedding_3_small_1792886400000');
+    expect(collectionNameFor('agentom', 'nomic-embed-text:v1.5', new Date(1_000))).toBe('agentom_nomic_embed_text_v1_5_1000');
+  });
+});
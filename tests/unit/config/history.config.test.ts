@@ -0,0 +1,37 @@
+/**
+ * Tests for the settings of the conversation-history compaction
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { getHistorySettings, historyBudget } from '../../../src/config/history.config';
+
+describe('getHistorySettings', () => {
+  afterEach(() => {
+    delete process.env.HISTORY_COMPACTION;
+    delete process.env.HISTORY_CONTEXT_RATIO;
+    delete process.env.HISTORY_RECENT_MESSAGES;
+    delete process.env.HISTORY_SUMMARY_BLOCK;
+  });
+
+  test('compacts by default', () => {
+    expect(getHistorySettings()).toEqual({ enabled: true, context_ratio: 0.5, recent_messages: 10, summary_block: 20 });
+  });
+
+  test('reads the thresholds and ignores invalid ones', () => {
+    process.env.HISTORY_COMPACTION = 'false';
+    process.env.HISTORY_CONTEXT_RATIO = '0.25';
+    process.env.HISTORY_RECENT_MESSAGES = '4';
+    process.env.HISTORY_SUMMARY_BLOCK = '1';
+
+    expect(getHistorySettings()).toEqual({ enabled: false, context_ratio: 0.25, recent_messages: 4, summary_block: 20 });
+  });
+});
+
+describe('historyBudget', () => {
+  test('takes its share of the model context window', () => {
+    const settings = { enabled: true, context_ratio: 0.5, recent_messages: 10, summary_block: 20 };
+
+    expect(historyBudget(settings, 'gpt-4o')).toBe(64_000);
+    expect(historyBudget(settings, 'unknown-model')).toBe(4_096);
+  });
+});
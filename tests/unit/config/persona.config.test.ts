@@ -0,0 +1,54 @@
+/**
+ * Tests for the assistant persona defaults and the shared persona prompt block
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { defaultPersona, resolvePersona } from '../../../src/config/persona.config';
+import { personaContext } from '../../../src/prompts/agent/persona';
+import type { State } from '../../../src/types/state';
+
+describe('resolvePersona', () => {
+  test('fills every field with defaults when nothing is stored', () => {
+    expect(resolvePersona(null)).toEqual(defaultPersona);
+    expect(resolvePersona(undefined).ai_name).toBe('Alice');
+  });
+
+  test('keeps stored fields and parses JSON strings', () => {
+    const persona = resolvePersona(JSON.stringify({ ai_name: 'Tom', tone: 'formal' }));
+
+    expect(persona.ai_name).toBe('Tom');
+    expect(persona.tone).toBe('formal');
+    expect(persona.response_length).toBe(defaultPersona.response_length);
+  });
+
+  test('replaces invalid fields with defaults instead of failing', () => {
+    const persona = resolvePersona({ tone: 'sarcastic', ai_name: '', instructions: ['Call me Sam'] });
+
+    expect(persona.tone).toBe(defaultPersona.tone);
+    expect(persona.ai_name).toBe(defaultPersona.ai_name);
+    expect(persona.instructions).toEqual(['Call me Sam']);
+  });
+});
+
+describe('personaContext', () => {
+  const state = {
+    profile: {
+      ai_name: 'Tom',
+      user_name: 'Sam',
+      persona: resolvePersona({ ai_name: 'Tom', language: 'Polish', response_length: 'detailed', instructions: ['Use metric units'] })
+    }
+  } as State;
+
+  test('renders the persona and standing instructions', () => {
+    const block = personaContext(state);
+
+    expect(block).toContain('Name: Tom');
+    expect(block).toContain('Reply language: Polish');
+    expect(block).toContain('Standing instructions from Sam:\n- Use metric units');
+  });
+
+  test('applies tone and length only to user-facing text in internal phases', () => {
+    expect(personaContext(state)).toContain('apply only to text that the user will read');
+    expect(personaContext(state, { audience: 'user' })).toContain('Speak as described in <persona>');
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for the prompt override settings and the A/B variant split
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { getPromptSettings, pickVariant } from '../../../src/config/prompts.config';
+
+describe('getPromptSettings', () => {
+  afterEach(() => {
+    delete process.env.PROMPT_OVERRIDES_DIR;
+    delete process.env.PROMPT_ENVIRONMENT;
+  });
+
+  test('matches environment overrides against PROMPT_ENVIRONMENT, else NODE_ENV', () => {
+    expect(getPromptSettings().overrides_dir).toBe('.agenttom/prompts');
+    expect(getPromptSettings().environment).toBe(process.env.NODE_ENV || 'development');
+
+    process.env.PROMPT_ENVIRONMENT = 'staging';
+    process.env.PROMPT_OVERRIDES_DIR = '/etc/agenttom/prompts';
+
+    expect(getPromptSettings()).toEqual({ overrides_dir: '/etc/agenttom/prompts', environment: 'staging' });
+  });
+});
+
+describe('pickVariant', () => {
+  const variants = [
+    { variant: 'control', weight: 50 },
+    { variant: 'short', weight: 50 }
+  ];
+
+  test('always gives the same key the same variant', () => {
+    const picked = pickVariant(variants, 'agent.answer:user-1').variant;
+
+    for (let i = 0; i < 5; i++) {
+      expect(pickVariant(variants, 'agent.answer:user-1').variant).toBe(picked);
+    }
+  });
+
+  test('splits keys by weight', () => {
+    const picks = Array.from({ length: 1000 }, (_, i) => pickVariant(variants, `agent.answer:user-${i}`).variant);
+    const short = picks.filter(variant => variant === 'short').length;
+
+    expect(short).toBeGreaterThan(400);
+    expect(short).toBeLessThan(600);
+    expect(pickVariant([{ variant: 'off', weight: 0 }, { variant: 'on', weight: 10 }], 'any').variant).toBe('on');
+  });
+});
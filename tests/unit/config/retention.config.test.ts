@@ -0,0 +1,76 @@
+/**
+ * Tests for the settings and scoring of the memory retention
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { getRetentionSettings, parseRetentionRules, resolveHalfLife, retentionScore } from '../../../src/config/retention.config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.parse('2026-10-19T00:00:00.000Z');
+const daysAgo = (days: number) => new Date(now - days * DAY_MS).toISOString();
+
+describe('getRetentionSettings', () => {
+  const names = ['MEMORY_RETENTION', 'MEMORY_RETENTION_THRESHOLD', 'MEMORY_RETENTION_HALF_LIFE', 'MEMORY_RETENTION_INTERVAL', 'MEMORY_RETENTION_RULES'];
+
+  afterEach(() => {
+    for (const name of names) delete process.env[name];
+  });
+
+  test('is off by default and keeps basic profile facts', () => {
+    expect(getRetentionSettings()).toEqual({
+      enabled: false,
+      threshold: 0.1,
+      half_life_days: 30,
+      interval_minutes: 1440,
+      rules: [{ category: 'profiles', subcategory: 'basic', half_life_days: null }]
+    });
+  });
+
+  test('reads the settings and ignores invalid ones', () => {
+    process.env.MEMORY_RETENTION = 'true';
+    process.env.MEMORY_RETENTION_THRESHOLD = '0.2';
+    process.env.MEMORY_RETENTION_HALF_LIFE = '0';
+    process.env.MEMORY_RETENTION_INTERVAL = 'daily';
+    process.env.MEMORY_RETENTION_RULES = '';
+
+    expect(getRetentionSettings()).toEqual({ enabled: true, threshold: 0.2, half_life_days: 30, interval_minutes: 1440, rules: [] });
+  });
+});
+
+describe('parseRetentionRules', () => {
+  test('parses categories, subcategories and never, skipping malformed entries', () => {
+    expect(parseRetentionRules('profiles/basic=never, events=14,resources/apps=0,broken,notes=soon')).toEqual([
+      { category: 'profiles', subcategory: 'basic', half_life_days: null },
+      { category: 'events', half_life_days: 14 }
+    ]);
+  });
+});
+
+describe('resolveHalfLife', () => {
+  const settings = { half_life_days: 30, rules: parseRetentionRules('profiles=90,profiles/basic=never') };
+
+  test('prefers the subcategory rule over the category rule and the default', () => {
+    expect(resolveHalfLife(settings, 'profiles', 'basic')).toBeNull();
+    expect(resolveHalfLife(settings, 'profiles', 'work')).toBe(90);
+    expect(resolveHalfLife(settings, 'events', 'general')).toBe(30);
+  });
+});
+
+describe('retentionScore', () => {
+  const memory = { importance: 3, access_count: 0, created_at: daysAgo(60), updated_at: daysAgo(60), last_recalled_at: null };
+
+  test('halves every half-life since the last use', () => {
+    expect(retentionScore({ ...memory, updated_at: daysAgo(0) }, 30, now)).toBeCloseTo(0.6);
+    expect(retentionScore(memory, 30, now)).toBeCloseTo(0.15);
+  });
+
+  test('counts a recall as a use and rewards recalls and importance', () => {
+    expect(retentionScore({ ...memory, last_recalled_at: daysAgo(30) }, 30, now)).toBeCloseTo(0.3);
+    expect(retentionScore({ ...memory, access_count: 3 }, 30, now)).toBeCloseTo(0.45);
+    expect(retentionScore({ ...memory, importance: 5 }, 30, now)).toBeCloseTo(0.25);
+  });
+
+  test('keeps memories without a half-life for good', () => {
+    expect(retentionScore({ ...memory, importance: 1, created_at: daysAgo(3650), updated_at: null }, null, now)).toBe(Infinity);
+  });
+});
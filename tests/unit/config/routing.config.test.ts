@@ -0,0 +1,62 @@
+/**
+ * Tests for the per-phase model routing of the agent loop
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { getGlobalRouting, mergeRouting, resolvePhaseRoute } from '../../../src/config/routing.config';
+import { ValidationError } from '../../../src/utils/errors';
+
+const request = { model: 'gemini-2.5-flash', temperature: 0.7, max_tokens: 2048 };
+
+describe('mergeRouting', () => {
+  test('later layers win field by field', () => {
+    const routing = mergeRouting(
+      { task_planning: { model: 'gpt-4o', temperature: 0.2 }, answer: { model: 'gpt-4o' } },
+      undefined,
+      { task_planning: { temperature: 0.5 } }
+    );
+
+    expect(routing).toEqual({
+      task_planning: { model: 'gpt-4o', temperature: 0.5 },
+      answer: { model: 'gpt-4o' }
+    });
+  });
+});
+
+describe('resolvePhaseRoute', () => {
+  test('uses the request model and temperature 0 for unrouted structured phases', () => {
+    expect(resolvePhaseRoute({}, 'environment', { model: request.model, temperature: request.temperature })).toEqual({
+      model: 'gemini-2.5-flash',
+      temperature: 0,
+      max_tokens: undefined
+    });
+  });
+
+  test('falls back to the request settings for the answer', () => {
+    expect(resolvePhaseRoute({ answer: { model: 'gpt-4o' } }, 'answer', request)).toEqual({
+      model: 'gpt-4o',
+      temperature: 0.7,
+      max_tokens: 2048
+    });
+  });
+});
+
+describe('getGlobalRouting', () => {
+  afterEach(() => {
+    delete process.env.AGENT_MODEL_ROUTING;
+  });
+
+  test('reads routes from AGENT_MODEL_ROUTING', () => {
+    process.env.AGENT_MODEL_ROUTING = '{"context": {"model": "gpt-4o-mini", "max_tokens": 512}}';
+
+    expect(getGlobalRouting()).toEqual({ context: { model: 'gpt-4o-mini', max_tokens: 512 } });
+  });
+
+  test('rejects invalid JSON and unknown phases', () => {
+    process.env.AGENT_MODEL_ROUTING = '{"context": ';
+    expect(() => getGlobalRouting()).toThrow(ValidationError);
+
+    process.env.AGENT_MODEL_ROUTING = '{"reflection": {"model": "gpt-4o"}}';
+    expect(() => getGlobalRouting()).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for the selection of the lexical search backend and the fusion and re-ranking settings
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { getHybridSearchSettings, getLexicalBackend } from '../../../src/config/search.config';
+
+describe('getLexicalBackend', () => {
+  const algolia = ['ALGOLIA_APP_ID', 'ALGOLIA_API_KEY', 'ALGOLIA_INDEX'];
+  const saved = Object.fromEntries(algolia.map(name => [name, process.env[name]]));
+
+  afterEach(() => {
+    delete process.env.LEXICAL_SEARCH_BACKEND;
+    for (const name of algolia) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  test('uses FTS5 when Algolia is not configured', () => {
+    delete process.env.ALGOLIA_APP_ID;
+
+    expect(getLexicalBackend()).toBe('fts');
+  });
+
+  test('uses Algolia when it is configured', () => {
+    process.env.ALGOLIA_APP_ID = 'app';
+    process.env.ALGOLIA_API_KEY = 'key';
+    process.env.ALGOLIA_INDEX = 'documents';
+
+    expect(getLexicalBackend()).toBe('algolia');
+  });
+
+  test('follows LEXICAL_SEARCH_BACKEND and ignores unknown values', () => {
+    process.env.ALGOLIA_APP_ID = 'app';
+    process.env.ALGOLIA_API_KEY = 'key';
+    process.env.ALGOLIA_INDEX = 'documents';
+    process.env.LEXICAL_SEARCH_BACKEND = 'fts';
+
+    expect(getLexicalBackend()).toBe('fts');
+
+    process.env.LEXICAL_SEARCH_BACKEND = 'elastic';
+
+    expect(getLexicalBackend()).toBe('algolia');
+  });
+});
+
+describe('getHybridSearchSettings', () => {
+  const names = ['SEARCH_RRF_K', 'SEARCH_VECTOR_WEIGHT', 'SEARCH_TEXT_WEIGHT', 'SEARCH_RERANKER', 'SEARCH_RERANK_MODEL', 'SEARCH_RERANK_CANDIDATES'];
+
+  afterEach(() => {
+    for (const name of names) delete process.env[name];
+  });
+
+  test('defaults to equal weights, k 60 and no re-ranker', () => {
+    expect(getHybridSearchSettings()).toEqual({
+      rrf_k: 60,
+      weights: { vector: 1, text: 1 },
+      reranker: 'none',
+      rerank_model: undefined,
+      rerank_url: undefined,
+      rerank_candidates: 20
+    });
+  });
+
+  test('reads the weights and the re-ranker', () => {
+    process.env.SEARCH_VECTOR_WEIGHT = '2';
+    process.env.SEARCH_TEXT_WEIGHT = '0';
+    process.env.SEARCH_RERANKER = 'cross-encoder';
+    process.env.SEARCH_RERANK_MODEL = 'bge-reranker-v2-m3';
+    process.env.SEARCH_RERANK_CANDIDATES = '10';
+
+    const settings = getHybridSearchSettings();
+
+    expect(settings.weights).toEqual({ vector: 2, text: 0 });
+    expect(settings.reranker).toBe('cross-encoder');
+    expect(settings.rerank_model).toBe('bge-reranker-v2-m3');
+    expect(settings.rerank_candidates).toBe(10);
+  });
+
+  test('falls back to the defaults on invalid values', () => {
+    process.env.SEARCH_RRF_K = '0';
+    process.env.SEARCH_VECTOR_WEIGHT = '-1';
+    process.env.SEARCH_TEXT_WEIGHT = 'heavy';
+    process.env.SEARCH_RERANKER = 'colbert';
+
+    const settings = getHybridSearchSettings();
+
+    expect(settings.rrf_k).toBe(60);
+    expect(settings.weights).toEqual({ vector: 1, text: 1 });
+    expect(settings.reranker).toBe('none');
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Tests for the selection of the vector store
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { getVectorStoreSettings } from '../../../src/config/vector.config';
+
+describe('getVectorStoreSettings', () => {
+  const saved = process.env.QDRANT_URL;
+
+  afterEach(() => {
+    delete process.env.VECTOR_STORE_BACKEND;
+    delete process.env.VECTOR_STORE_PATH;
+    if (saved === undefined) delete process.env.QDRANT_URL;
+    else process.env.QDRANT_URL = saved;
+  });
+
+  test('uses the local store when Qdrant is not configured', () => {
+    delete process.env.QDRANT_URL;
+
+    expect(getVectorStoreSettings()).toEqual({ backend: 'local', local_path: 'vectors.db' });
+  });
+
+  test('uses Qdrant when QDRANT_URL is set', () => {
+    process.env.QDRANT_URL = 'http://localhost:6333';
+
+    expect(getVectorStoreSettings().backend).toBe('qdrant');
+  });
+
+  test('follows VECTOR_STORE_BACKEND and ignores unknown values', () => {
+    process.env.QDRANT_URL = 'http://localhost:6333';
+    process.env.VECTOR_STORE_BACKEND = 'local';
+    process.env.VECTOR_STORE_PATH = 'data/vectors.db';
+
+    expect(getVectorStoreSettings()).toEqual({ backend: 'local', local_path: 'data/vectors.db' });
+
+    process.env.VECTOR_STORE_BACKEND = 'pinecone';
+
+    expect(getVectorStoreSettings().backend).toBe('qdrant');
+  });
+});
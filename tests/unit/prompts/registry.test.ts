@@ -0,0 +1,52 @@
+/**
+ * Tests for the variables and placeholders of prompt override templates
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { isPromptId, promptVariables, renderTemplate } from '../../../src/prompts/registry';
+
+describe('promptVariables', () => {
+  const builtin = `You are Alice.
+
+<persona>
+Tone: friendly
+</persona>
+
+<dynamic_context>
+<memories name="already recalled memories">
+<memory category="profile">Adam likes tea</memory>
+</memories>
+</dynamic_context>`;
+
+  test('exposes every tagged block of the built-in prompt by its tag name', () => {
+    const variables = promptVariables(builtin, undefined);
+
+    expect(variables.builtin).toBe(builtin);
+    expect(variables.persona).toBe('<persona>\nTone: friendly\n</persona>');
+    expect(variables.dynamic_context.startsWith('<dynamic_context>')).toBe(true);
+    expect(variables.memories).toContain('Adam likes tea');
+    expect(variables.memory).toBe('<memory category="profile">Adam likes tea</memory>');
+  });
+
+  test('exposes the string arguments of the prompt', () => {
+    expect(promptVariables('', { previous_summary: 'Earlier, the user asked for tea.' }).previous_summary).toBe('Earlier, the user asked for tea.');
+  });
+});
+
+describe('renderTemplate', () => {
+  test('fills known placeholders and keeps unknown ones', () => {
+    expect(renderTemplate('{{persona}}\nBe brief. {{ missing }}', { persona: '<persona/>' })).toBe('<persona/>\nBe brief. {{ missing }}');
+  });
+
+  test('does not expand placeholders inside inserted values', () => {
+    expect(renderTemplate('{{builtin}}', { builtin: 'Use {{persona}} and $& as is', persona: 'x' })).toBe('Use {{persona}} and $& as is');
+  });
+});
+
+describe('isPromptId', () => {
+  test('accepts registered prompts only', () => {
+    expect(isPromptId('agent.answer')).toBe(true);
+    expect(isPromptId('tools.search.ask')).toBe(true);
+    expect(isPromptId('toString')).toBe(false);
+  });
+});
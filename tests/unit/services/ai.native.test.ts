@@ -0,0 +1,113 @@
+/**
+ * Tests for choosing and running actions with native function calls
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mockNodeCache, restoreModules } from '../../helpers/test-setup';
+
+// OpenAI and ElevenLabs clients are created when the tools are imported
+process.env.GOOGLE_API_KEY = process.env.GOOGLE_API_KEY || 'test-google-key';
+process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-openai-key';
+process.env.ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY || 'test-elevenlabs-key';
+
+// Other test files replace these with mock.module(); the service under test needs the real ones
+mockNodeCache();
+await restoreModules('src/config/env.config', 'src/config/llm.config');
+const [{ stateManager }, llm, { actionService }, { taskService }, { promptService }, { toolsMap, buildNativeTools }, { approvalPolicies, requiresApproval }] =
+  await restoreModules(
+    'src/services/agent/state.service',
+    'src/services/common/llm.service',
+    'src/services/agent/action.service',
+    'src/services/agent/task.service',
+    'src/services/common/prompt.service',
+    'src/config/tools.config',
+    'src/config/approval.config'
+  );
+const [, { aiService }] = await restoreModules('src/services/agent/agi.service', 'src/services/agent/ai.service');
+
+const span = {
+  generation: () => ({ end: async () => {} }),
+  event: async () => {},
+  end: async () => {}
+} as any;
+
+const email = { to: 'jane@example.com', subject: 'Lunch', text: 'See you at noon' };
+
+describe('aiService - native tool mode', () => {
+  const originals = {
+    ops: llm.getAiOps(),
+    render: promptService.render,
+    createAction: actionService.createAction,
+    updateAction: actionService.updateAction,
+    updateActionWithResult: actionService.updateActionWithResult,
+    updateTaskStatus: taskService.updateTaskStatus,
+    resend: toolsMap.resend.execute
+  };
+  let offered: string[];
+  let executed: Array<{ action: string; payload: any }>;
+
+  beforeEach(() => {
+    offered = [];
+    executed = [];
+
+    // The model sends an email; its input is checked against the schema of the offered function
+    llm.__setAiOpsForTest({
+      generateText: (async ({ tools }: any) => {
+        offered = Object.keys(tools);
+        const input = tools.resend__send_email.inputSchema.parse({ task_uuid: 'task-1', name: 'send lunch email', payload: email });
+        return { toolCalls: [{ toolName: 'resend__send_email', input }], usage: { inputTokens: 10, outputTokens: 5 } };
+      }) as any
+    });
+    promptService.render = async () => ({ id: 'agent.call', content: 'Call a tool', version: '1', variant: 'default', source: 'default' });
+    actionService.createAction = async (action: any) => action;
+    actionService.updateAction = async (uuid: string, updates: any) => ({ uuid, ...updates });
+    actionService.updateActionWithResult = async (uuid: string, result: unknown) => ({ uuid, result });
+    taskService.updateTaskStatus = async () => {};
+    toolsMap.resend.execute = async (action: string, payload: unknown) => {
+      executed.push({ action, payload });
+      return { text: 'Email sent', metadata: { uuid: 'doc-email' } } as any;
+    };
+  });
+
+  afterEach(() => {
+    llm.__setAiOpsForTest(originals.ops);
+    Object.assign(promptService, { render: originals.render });
+    Object.assign(actionService, {
+      createAction: originals.createAction,
+      updateAction: originals.updateAction,
+      updateActionWithResult: originals.updateActionWithResult
+    });
+    Object.assign(taskService, { updateTaskStatus: originals.updateTaskStatus });
+    Object.assign(toolsMap.resend, { execute: originals.resend });
+  });
+
+  test('runs the action of a native call with the name its tool executes and asks for approval', async () => {
+    await stateManager.run(async () => {
+      await stateManager.updateConfig({ tool_mode: 'native', conversation_uuid: 'conv-native', user_uuid: 'u1' });
+      await stateManager.updateSession({
+        tools: [{ uuid: 'tool-resend', name: 'resend', description: 'Sends emails', instruction: null }]
+      });
+      await stateManager.updateInteraction({ tasks: [{ uuid: 'task-1', name: 'email Jane', status: 'pending', actions: [] }] });
+
+      const payload = await aiService.choose(span);
+
+      expect(offered).toEqual(['resend__send_email', 'final_answer']);
+      expect(payload).toEqual({ action: 'send_email', payload: email });
+      expect(requiresApproval('resend', payload!.action)).toBe(true);
+
+      await aiService.act(payload!, span);
+
+      expect(executed).toEqual([{ action: 'send_email', payload: { ...email, conversation_uuid: 'conv-native' } }]);
+    });
+  });
+
+  test('offers every action that needs approval as a native function', () => {
+    const native = buildNativeTools(Object.keys(approvalPolicies).map(name => ({ name, description: name })));
+
+    for (const [tool, actions] of Object.entries(approvalPolicies)) {
+      for (const action of actions === true ? [] : actions) {
+        expect(Object.keys(native)).toContain(`${tool}__${action}`);
+      }
+    }
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for the parallel execution of ready tasks and its approval handling
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mockNodeCache, restoreModules } from '../../helpers/test-setup';
+
+// OpenAI and ElevenLabs clients are created when the tools are imported
+process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-openai-key';
+process.env.ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY || 'test-elevenlabs-key';
+
+// Other test files replace these with mock.module(); the service under test needs the real ones
+mockNodeCache();
+await restoreModules('src/config/env.config', 'src/config/llm.config', 'src/services/common/llm.service');
+const [{ stateManager }, { actionService }, { taskService }, { observer }, { aiService }] = await restoreModules(
+  'src/services/agent/state.service',
+  'src/services/agent/action.service',
+  'src/services/agent/task.service',
+  'src/services/agent/observer.service',
+  'src/services/agent/ai.service'
+);
+
+const span = { id: 'step-span' } as any;
+const tasks = ['first', 'second', 'third'].map(name => ({ uuid: `task-${name}`, name, status: 'pending', actions: [] }));
+
+describe('aiService.parallel - approvals', () => {
+  const originals = {
+    choose: aiService.choose,
+    requestApproval: aiService.requestApproval,
+    discardPendingAction: actionService.discardPendingAction,
+    findByConversationId: taskService.findByConversationId,
+    startSpan: observer.startSpan,
+    endSpan: observer.endSpan
+  };
+  let discarded: string[];
+  let approvals: Array<{ payload: any; action: string | undefined }>;
+
+  beforeEach(() => {
+    discarded = [];
+    approvals = [];
+
+    aiService.choose = async (_span: any, { task_uuid }: { task_uuid: string }) => {
+      await stateManager.updateConfig({
+        current_tool: { uuid: 'tool-resend', name: 'resend' },
+        current_action: { uuid: `action-${task_uuid}`, name: 'send email' },
+        current_task: { uuid: task_uuid, name: task_uuid }
+      });
+      return { action: 'send_email', payload: { to: task_uuid } };
+    };
+    aiService.requestApproval = async (payload: any) => {
+      approvals.push({ payload, action: stateManager.getState().config.current_action?.uuid });
+    };
+    actionService.discardPendingAction = async (uuid: string) => {
+      discarded.push(uuid);
+    };
+    taskService.findByConversationId = async () => tasks;
+    observer.startSpan = () => ({ id: 'branch-span' });
+    observer.endSpan = () => {};
+  });
+
+  afterEach(() => {
+    Object.assign(aiService, { choose: originals.choose, requestApproval: originals.requestApproval });
+    Object.assign(actionService, { discardPendingAction: originals.discardPendingAction });
+    Object.assign(taskService, { findByConversationId: originals.findByConversationId });
+    Object.assign(observer, { startSpan: originals.startSpan, endSpan: originals.endSpan });
+  });
+
+  test('pauses for the first action and puts the others back in the queue', async () => {
+    await stateManager.run(async () => {
+      await stateManager.updateConfig({ conversation_uuid: 'conv-parallel' });
+
+      await aiService.parallel(tasks, span);
+
+      expect(approvals).toEqual([{ payload: { action: 'send_email', payload: { to: 'task-first' } }, action: 'action-task-first' }]);
+      expect(discarded.sort()).toEqual(['action-task-second', 'action-task-third']);
+      expect(stateManager.getState().interaction.tasks.map((task: { status: string }) => task.status)).toEqual(['pending', 'pending', 'pending']);
+    });
+  });
+});
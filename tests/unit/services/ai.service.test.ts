@@ -23,7 +23,8 @@ mock.module('../../../src/services/agent/state.service', () => ({
       },
       config: {
         model: 'gemini-2.5-flash',
-        alt_model: 'gemini-2.5-flash',
+        model_routing: {},
+        cache_bypass: false,
         user_uuid: 'test-user-uuid',
         conversation_uuid: 'test-conv-uuid',
         step: 1,
@@ -50,11 +51,13 @@ mock.module('../../../src/services/agent/state.service', () => ({
     })),
     updateThoughts: mock(() => {}),
     updateInteraction: mock(() => {}),
-    updateConfig: mock(() => Promise.resolve())
+    updateConfig: mock(() => Promise.resolve()),
+    emit: mock(() => {})
   }
 }));
 
 mock.module('../../../src/services/agent/agi.service', () => ({
+  getReadyTasks: mock(() => []),
   shouldContinueThinking: mock(() => false),
   updateActionState: mock(() => Promise.resolve())
 }));
@@ -96,7 +99,10 @@ mock.module('../../../src/services/agent/action.service', () => ({
 mock.module('../../../src/services/common/llm.service', () => ({
   completion: {
     object: mock(() => Promise.resolve({ result: { test: 'response' } }))
-  }
+  },
+  embedding: mock(() => Promise.resolve([])),
+  getAiOps: mock(() => ({})),
+  setRunAiOps: mock(() => {})
 }));
 
 mock.module('../../../src/config/tools.config', () => ({
@@ -104,7 +110,10 @@ mock.module('../../../src/config/tools.config', () => ({
     web: {
       execute: mock(() => Promise.resolve({ success: true, data: 'web result' }))
     }
-  }
+  },
+  buildNativeTools: mock(() => ({})),
+  parseNativeToolName: mock((name: string) => ({ tool: name, action: '' })),
+  FINAL_ANSWER_TOOL: 'final_answer'
 }));
 
 // Import after mocks are set up
@@ -117,11 +126,11 @@ describe('AI Service', () => {
   });
 
   describe('fastTrack', () => {
-    test('should return true for fast-track queries', async () => {
+    test('should return true for queries that need no tools or memory', async () => {
       const mockSpan = { generation: mock(() => ({ end: mock(() => Promise.resolve()) })) };
-      const mockCompletion = mock(() => Promise.resolve({ result: true }));
+      const mockCompletion = mock(() => Promise.resolve({ result: false }));
 
-      // Mock the completion call to return fast-track decision
+      // Mock the completion call to return fast-track decision (result: true means the agent loop is needed)
       const originalCompletion = (await import('../../../src/services/common/llm.service')).completion;
       originalCompletion.object = mockCompletion;
 
@@ -131,9 +140,9 @@ describe('AI Service', () => {
       expect(mockCompletion).toHaveBeenCalledTimes(1);
     });
 
-    test('should return false for complex queries', async () => {
+    test('should return false for queries that need tools or memory', async () => {
       const mockSpan = { generation: mock(() => ({ end: mock(() => Promise.resolve()) })) };
-      const mockCompletion = mock(() => Promise.resolve({ result: false }));
+      const mockCompletion = mock(() => Promise.resolve({ result: true }));
 
       const originalCompletion = (await import('../../../src/services/common/llm.service')).completion;
       originalCompletion.object = mockCompletion;
@@ -247,7 +256,7 @@ describe('AI Service', () => {
       const stateManager = (await import('../../../src/services/agent/state.service')).stateManager;
       stateManager.getState.mockImplementation(() => ({
         interaction: { messages: [] },
-        config: { alt_model: 'gemini-2.5-flash', user_uuid: 'test', model: 'gemini-2.5-flash' },
+        config: { model_routing: {}, user_uuid: 'test', model: 'gemini-2.5-flash' },
         profile: { user_name: 'Test' },
         thoughts: {}
       }));
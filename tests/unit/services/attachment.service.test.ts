@@ -0,0 +1,80 @@
+/**
+ * Tests for the attachments of chat messages
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { rm } from 'fs/promises';
+import { dirname } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { CoreMessage } from 'ai';
+import { attachmentService } from '../../../src/services/common/attachment.service';
+import { uploadFile } from '../../../src/services/common/upload.service';
+import { ValidationError } from '../../../src/utils/errors';
+import { FileType } from '../../../src/types/upload';
+
+const image_uuid = uuidv4();
+const note_uuid = uuidv4();
+const paths: string[] = [];
+
+const user_uuid = 'u1';
+
+const upload = async (uuid: string, type: FileType, original_name: string, mime_type: string, text: string) => {
+  const result = await uploadFile({ uuid, type, original_name, user_uuid, file: { base64: Buffer.from(text).toString('base64'), mime_type } });
+  paths.push(dirname(result.path));
+};
+
+describe('attachmentService', () => {
+  beforeAll(async () => {
+    await upload(image_uuid, FileType.IMAGE, 'receipt.png', 'image/png', 'png-bytes');
+    await upload(note_uuid, FileType.TEXT, 'notes.txt', 'text/plain', 'Buy milk');
+  });
+
+  afterAll(async () => {
+    await Promise.all(paths.map(path => rm(path, { recursive: true, force: true })));
+  });
+
+  test('stores attachments as upload references', async () => {
+    const content = await attachmentService.toContent([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image', file_uuid: image_uuid }
+    ], user_uuid);
+
+    expect(content).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image', image: `upload:${image_uuid}`, mediaType: 'image/png' }
+    ]);
+  });
+
+  test('rejects unknown uploads and mismatched part types', async () => {
+    await expect(attachmentService.toContent([{ type: 'image', file_uuid: uuidv4() }], user_uuid)).rejects.toThrow(ValidationError);
+    await expect(attachmentService.toContent([{ type: 'audio', file_uuid: image_uuid }], user_uuid)).rejects.toThrow(ValidationError);
+  });
+
+  test('rejects uploads of other users', async () => {
+    await expect(attachmentService.toContent([{ type: 'image', file_uuid: image_uuid }], 'u2')).rejects.toThrow(`Upload ${image_uuid} not found`);
+  });
+
+  test('passes files to models that read them and notes them for the others', async () => {
+    const messages: CoreMessage[] = [
+      { role: 'user', content: await attachmentService.toContent([{ type: 'image', file_uuid: image_uuid }], user_uuid) }
+    ];
+
+    const [vision] = await attachmentService.resolve(messages, { model: 'gpt-4o', attachments: ['image'] });
+    const [image] = vision.content as any[];
+    expect(image.type).toBe('image');
+    expect(Buffer.isBuffer(image.image)).toBe(true);
+    expect(image.image.toString()).toBe('png-bytes');
+
+    const [text_only] = await attachmentService.resolve(messages, { model: 'local', attachments: [] });
+    expect(text_only.content).toEqual([{ type: 'text', text: '[Attached image "receipt.png" cannot be read by local]' }]);
+  });
+
+  test('inlines text files for every model', async () => {
+    const messages: CoreMessage[] = [
+      { role: 'user', content: await attachmentService.toContent([{ type: 'file', file_uuid: note_uuid }], user_uuid) }
+    ];
+
+    const [resolved] = await attachmentService.resolve(messages, { model: 'local', attachments: [] });
+    expect(resolved.content).toEqual([{ type: 'text', text: '<attachment name="notes.txt">\nBuy milk\n</attachment>' }]);
+  });
+});
@@ -33,4 +33,33 @@ describe('cacheService - no-op behavior without Redis', () => {
   });
 });
 
+describe('cacheService - in-memory fallback without Redis', () => {
+  beforeEach(async () => {
+    cacheService.resetStats();
+    await cacheService.invalidateNamespace('unit');
+  });
+
+  test('keeps fallback entries in memory until they expire', async () => {
+    expect(await cacheService.set('key', { a: 1 }, { namespace: 'unit', ttl: 60, fallback: true })).toBe(true);
+    expect(await cacheService.get('key', { namespace: 'unit' })).toEqual({ a: 1 });
+    expect(await cacheService.ttl('key', { namespace: 'unit' })).toBeGreaterThan(0);
 
+    await cacheService.set('short', 'soon gone', { namespace: 'unit', ttl: 0, fallback: true });
+    expect(await cacheService.get('short', { namespace: 'unit' })).toBeNull();
+
+    expect(await cacheService.invalidateNamespace('unit')).toBe(1);
+    expect(await cacheService.exists('key', { namespace: 'unit' })).toBe(false);
+  });
+
+  test('reports hit rates per namespace and counts similarity hits', async () => {
+    await cacheService.set('key', 'value', { namespace: 'unit', fallback: true });
+    await cacheService.get('key', { namespace: 'unit' });
+    await cacheService.get('missing', { namespace: 'unit' });
+    await cacheService.get('untracked', { namespace: 'unit', track: false });
+    await cacheService.get('missing', { namespace: 'unit' });
+    cacheService.markSemanticHit('unit');
+
+    expect(cacheService.getStats().namespaces.unit).toEqual({ hits: 2, misses: 1, hitRate: 66.67, total: 3, semanticHits: 1 });
+    expect(cacheService.getStats().store).toBe('memory');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for recording agent runs into cassettes and replaying them without LLM providers, tools or stores
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import type { Cassette } from '../../../src/services/common/cassette.service';
+import { mockNodeCache, restoreModules } from '../../helpers/test-setup';
+
+// Provider keys are checked per call; ElevenLabs is checked when the tools are imported
+process.env.GOOGLE_API_KEY = process.env.GOOGLE_API_KEY || 'test-google-key';
+process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-openai-key';
+process.env.ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY || 'test-elevenlabs-key';
+
+// Other test files replace these with mock.module(); the service under test needs the real ones
+mockNodeCache();
+await restoreModules('src/config/env.config', 'src/config/llm.config');
+const [{ stateManager }, llm, { toolsMap }, { vectorService }, { cassetteService }] = await restoreModules(
+  'src/services/agent/state.service',
+  'src/services/common/llm.service',
+  'src/config/tools.config',
+  'src/services/common/vector.service',
+  'src/services/common/cassette.service'
+);
+
+const request = { model: 'gemini-2.5-flash', messages: [{ role: 'user' as const, content: 'ping' }], user: { uuid: 'u1' } };
+
+describe('cassetteService', () => {
+  const originals = {
+    ops: llm.getAiOps(),
+    crypto: toolsMap.crypto.execute,
+    searchSimilar: vectorService.searchSimilar,
+    upsertText: vectorService.upsertText
+  };
+  let live: string[];
+
+  beforeEach(() => {
+    live = [];
+
+    llm.__setAiOpsForTest({
+      generateText: (async () => {
+        live.push('generateText');
+        return { text: 'pong', usage: { inputTokens: 3, outputTokens: 1 } };
+      }) as any,
+      streamText: (() => {
+        live.push('streamText');
+        return {
+          fullStream: (async function* () {
+            yield { type: 'text-delta', id: '0', text: 'po' };
+            yield { type: 'text-delta', id: '0', text: 'ng' };
+          })(),
+          usage: Promise.resolve({ inputTokens: 3, outputTokens: 2 })
+        };
+      }) as any
+    });
+    toolsMap.crypto.execute = async (action: string) => {
+      live.push(`crypto.${action}`);
+      return { text: 'BTC: 100000 USD', metadata: { uuid: 'doc-1' } } as any;
+    };
+    vectorService.searchSimilar = async () => {
+      live.push('vector.searchSimilar');
+      return [{ id: 'doc-1', score: 0.9, payload: { text: 'BTC' } }] as any;
+    };
+    vectorService.upsertText = async () => {
+      live.push('vector.upsertText');
+    };
+  });
+
+  afterEach(() => {
+    llm.__setAiOpsForTest(originals.ops);
+    Object.assign(toolsMap.crypto, { execute: originals.crypto });
+    Object.assign(vectorService, { searchSimilar: originals.searchSimilar, upsertText: originals.upsertText });
+  });
+
+  const body = async () => {
+    const text = await llm.completion.text(request);
+    let streamed = '';
+    for await (const chunk of await llm.completion.stream(request)) streamed += chunk;
+    const document = await toolsMap.crypto.execute('get_price', { symbol: 'BTC' });
+    const [similar] = await vectorService.searchSimilar([0.1, 0.2], 1);
+    await vectorService.upsertText('BTC: 100000 USD', { document_uuid: 'doc-1' });
+    return { text, streamed, document: document.text, similar: similar.id };
+  };
+  const recorded = { text: 'pong', streamed: 'pong', document: 'BTC: 100000 USD', similar: 'doc-1' };
+
+  // Cassettes cover a single agent run, so each one gets its own
+  const record = () => stateManager.run(() => cassetteService.record(body));
+  const replay = (cassette: Cassette, callback = body) => stateManager.run(() => cassetteService.replay(cassette, callback));
+
+  test('records LLM calls, tool results and store reads in call order', async () => {
+    const { result, cassette } = await record();
+
+    expect(result).toEqual(recorded);
+    expect(cassette.entries.map((entry: any) => entry.operation ?? `${entry.tool ?? entry.store}.${entry.action ?? entry.method}`)).toEqual([
+      'generateText',
+      'streamText',
+      'crypto.get_price',
+      'vector.searchSimilar'
+    ]);
+    expect(cassette.entries[0]).toMatchObject({ request: { model: 'gemini-2.5-flash' }, response: { text: 'pong' } });
+    expect(cassette.entries[1]).toMatchObject({ response: { chunks: ['po', 'ng'] } });
+    expect(live).toContain('vector.upsertText');
+    expect(cassetteService.isActive()).toBe(false);
+  });
+
+  test('replays a cassette without calling providers, tools or stores', async () => {
+    const { cassette } = await record();
+    live = [];
+
+    const { result, unused } = await replay(cassette);
+
+    expect(result).toEqual(recorded);
+    expect(unused).toHaveLength(0);
+    expect(live).toEqual([]);
+  });
+
+  test('leaves other runs on the real providers, tools and stores', async () => {
+    const { cassette } = await record();
+    live = [];
+
+    let release!: () => void;
+    const paused = new Promise<void>(resolve => (release = resolve));
+    const replaying = replay(cassette, async () => {
+      await paused;
+      return body();
+    });
+
+    // Runs while the replay is in progress
+    expect(await stateManager.run(body)).toEqual(recorded);
+    expect(live).toEqual(['generateText', 'streamText', 'crypto.get_price', 'vector.searchSimilar', 'vector.upsertText']);
+
+    release();
+    expect((await replaying).result).toEqual(recorded);
+    expect(live).toHaveLength(5);
+  });
+
+  test('fails on calls the cassette has no recording for and rethrows recorded errors', async () => {
+    const empty: Cassette = { version: 1, recorded_at: new Date().toISOString(), entries: [] };
+    await expect(replay(empty)).rejects.toThrow('no recorded llm:generateText call left');
+
+    const failing: Cassette = {
+      ...empty,
+      entries: [{ type: 'tool', tool: 'crypto', action: 'get_price', payload: {}, error: { name: 'Error', message: 'API down' } }]
+    };
+    await expect(replay(failing, () => toolsMap.crypto.execute('get_price', {}))).rejects.toThrow('API down');
+
+    // Real calls again after a failed replay
+    await stateManager.run(() => toolsMap.crypto.execute('get_price', {}));
+    expect(live).toEqual(['crypto.get_price']);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for the per-provider circuit breakers of LLM calls
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { restoreModules } from '../../helpers/test-setup';
+
+await restoreModules('src/config/env.config');
+const { env } = await import('../../../src/config/env.config');
+const { circuitBreakerService } = await import('../../../src/services/common/circuit-breaker.service');
+const { getFallbackChain } = await import('../../../src/config/fallback.config');
+
+const failure = { type: 'server', message: 'Service unavailable' };
+const { LLM_BREAKER_FAILURE_THRESHOLD, LLM_BREAKER_COOLDOWN_MS, LLM_FALLBACK_TEXT } = env;
+
+describe('circuitBreakerService', () => {
+  beforeEach(() => {
+    circuitBreakerService.reset();
+    env.LLM_BREAKER_FAILURE_THRESHOLD = 2;
+    env.LLM_BREAKER_COOLDOWN_MS = 60000;
+  });
+
+  afterEach(() => {
+    Object.assign(env, { LLM_BREAKER_FAILURE_THRESHOLD, LLM_BREAKER_COOLDOWN_MS });
+  });
+
+  test('opens after the failure threshold and rejects calls', () => {
+    circuitBreakerService.recordFailure('google', failure);
+    expect(circuitBreakerService.canRequest('google')).toBe(true);
+
+    circuitBreakerService.recordFailure('google', failure);
+    expect(circuitBreakerService.canRequest('google')).toBe(false);
+    expect(circuitBreakerService.canRequest('openai')).toBe(true);
+  });
+
+  test('a success resets the failure count', () => {
+    circuitBreakerService.recordFailure('google', failure);
+    circuitBreakerService.recordSuccess('google');
+    circuitBreakerService.recordFailure('google', failure);
+
+    expect(circuitBreakerService.canRequest('google')).toBe(true);
+  });
+
+  test('lets a trial call through after the cooldown and reopens when it fails', () => {
+    env.LLM_BREAKER_COOLDOWN_MS = 1;
+    circuitBreakerService.recordFailure('google', failure);
+    circuitBreakerService.recordFailure('google', failure);
+    Bun.sleepSync(5);
+
+    expect(circuitBreakerService.canRequest('google')).toBe(true);
+    expect(circuitBreakerService.getHealth().providers[0].state).toBe('half_open');
+
+    circuitBreakerService.recordFailure('google', failure);
+    expect(circuitBreakerService.getHealth().providers[0].state).toBe('open');
+  });
+
+  test('lets only one trial call through while half-open', () => {
+    env.LLM_BREAKER_COOLDOWN_MS = 50;
+    circuitBreakerService.recordFailure('google', failure);
+    circuitBreakerService.recordFailure('google', failure);
+    Bun.sleepSync(60);
+
+    expect(circuitBreakerService.canRequest('google')).toBe(true);
+    expect(circuitBreakerService.canRequest('google')).toBe(false);
+
+    circuitBreakerService.recordSuccess('google');
+    expect(circuitBreakerService.canRequest('google')).toBe(true);
+    expect(circuitBreakerService.canRequest('google')).toBe(true);
+  });
+
+  test('reports breakers and the newest failovers first', () => {
+    circuitBreakerService.recordFailure('google', failure);
+    circuitBreakerService.recordFailover({ operation: 'text', from: 'gemini-2.5-flash', to: 'gpt-4o-mini', reason: 'server' });
+    circuitBreakerService.recordFailover({ operation: 'embedding', from: 'text-embedding-004', to: null, reason: 'timeout' });
+
+    const health = circuitBreakerService.getHealth();
+
+    expect(health.providers).toMatchObject([{ provider: 'google', state: 'closed', consecutive_failures: 1 }]);
+    expect(health.failovers.map(event => event.operation)).toEqual(['embedding', 'text']);
+    expect(health.settings).toEqual({ failure_threshold: 2, cooldown_ms: 60000 });
+  });
+});
+
+describe('getFallbackChain', () => {
+  afterEach(() => {
+    env.LLM_FALLBACK_TEXT = LLM_FALLBACK_TEXT;
+  });
+
+  test('reads the ordered chain of an operation', () => {
+    env.LLM_FALLBACK_TEXT = 'gpt-4o-mini, claude-3-5-sonnet-latest,';
+
+    expect(getFallbackChain('text')).toEqual(['gpt-4o-mini', 'claude-3-5-sonnet-latest']);
+  });
+
+  test('falls back to the single fallback models', () => {
+    expect(getFallbackChain('embedding')).toEqual(['text-embedding-3-large']);
+    expect(getFallbackChain('object')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Tests for turning search text into FTS5 queries
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { buildMatchQuery } from '../../../src/services/common/fts.service';
+
+describe('buildMatchQuery', () => {
+  test('matches any of the words of the text', () => {
+    expect(buildMatchQuery('Green tea, or coffee?')).toBe('"green" OR "tea" OR "or" OR "coffee"');
+  });
+
+  test('quotes FTS5 operators and drops punctuation', () => {
+    expect(buildMatchQuery('NEAR(tea "AND" -coffee*)')).toBe('"near" OR "tea" OR "and" OR "coffee"');
+    expect(buildMatchQuery('Zażółć gęślą')).toBe('"zażółć" OR "gęślą"');
+  });
+
+  test('returns null for text without words', () => {
+    expect(buildMatchQuery(' ?! ')).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for the response cache of deterministic LLM calls
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { llmCacheService } from '../../../src/services/common/llm-cache.service';
+import { cacheService } from '../../../src/services/common/cache.service';
+
+process.env.GOOGLE_API_KEY = process.env.GOOGLE_API_KEY || 'test-google-key';
+
+const config = (content: string, overrides: Record<string, unknown> = {}) => ({
+  model: 'gemini-2.5-flash',
+  messages: [{ role: 'system' as const, content: 'Classify the message' }, { role: 'user' as const, content }],
+  temperature: 0,
+  user: { uuid: 'u1', name: 'Tester' },
+  ...overrides
+});
+
+// Messages about the weather point one way, everything else the other
+const embed = async (text: string) => (text.includes('weather') ? [1, 0.1] : [0, 1]);
+
+describe('llmCacheService', () => {
+  beforeEach(async () => {
+    process.env.LLM_CACHE_ENABLED = 'true';
+    await llmCacheService.clear();
+    cacheService.resetStats();
+  });
+
+  afterEach(() => {
+    delete process.env.LLM_CACHE_ENABLED;
+    delete process.env.LLM_CACHE_SEMANTIC_THRESHOLD;
+    delete process.env.LLM_CACHE_PHASE_TTLS;
+  });
+
+  test('only caches deterministic calls that are not bypassed', () => {
+    expect(llmCacheService.prepare('text', config('hi'))).not.toBeNull();
+    expect(llmCacheService.prepare('text', config('hi', { temperature: 0.7 }))).toBeNull();
+    expect(llmCacheService.prepare('text', config('hi', { cache: { bypass: true } }))).toBeNull();
+
+    process.env.LLM_CACHE_PHASE_TTLS = '{"environment": 0}';
+    expect(llmCacheService.prepare('text', config('hi', { cache: { phase: 'environment' } }))).toBeNull();
+
+    delete process.env.LLM_CACHE_ENABLED;
+    expect(llmCacheService.prepare('text', config('hi'))).toBeNull();
+  });
+
+  test('keys on the output schema and the user', () => {
+    const key = (schema: unknown, user = 'u1') =>
+      llmCacheService.prepare('object', config('hi', { user: { uuid: user, name: 'Tester' } }), schema)!.key;
+
+    expect(key(z.object({ a: z.string() }))).toBe(key(z.object({ a: z.string() })));
+    expect(key(z.object({ a: z.string() }))).not.toBe(key(z.object({ b: z.string() })));
+    expect(key(z.object({ a: z.string() }))).not.toBe(key(z.object({ a: z.string() }), 'u2'));
+  });
+
+  test('answers exact repeats', async () => {
+    const entry = llmCacheService.prepare('text', config('hi'))!;
+    expect(await llmCacheService.lookup(entry, embed)).toBeNull();
+
+    await llmCacheService.store(entry, 'hello');
+
+    expect(await llmCacheService.lookup(llmCacheService.prepare('text', config('hi'))!, embed)).toBe('hello');
+    expect(cacheService.getStats().namespaces.llm).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  test('answers near-duplicates above the similarity threshold', async () => {
+    process.env.LLM_CACHE_SEMANTIC_THRESHOLD = '0.95';
+    const first = llmCacheService.prepare('text', config("what's the weather today?"))!;
+    await llmCacheService.lookup(first, embed);
+    await llmCacheService.store(first, 'Sunny');
+
+    const similar = llmCacheService.prepare('text', config('weather today?'))!;
+    expect(await llmCacheService.lookup(similar, embed)).toBe('Sunny');
+
+    const different = llmCacheService.prepare('text', config('play some jazz'))!;
+    expect(await llmCacheService.lookup(different, embed)).toBeNull();
+
+    expect(cacheService.getStats().namespaces.llm).toMatchObject({ hits: 1, misses: 2, semanticHits: 1 });
+  });
+});
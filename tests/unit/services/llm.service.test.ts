@@ -1,22 +1,31 @@
 import { describe, test, expect, beforeEach } from 'bun:test';
+import { z } from 'zod';
+import { restoreModules } from '../../helpers/test-setup';
+
+// Other test files replace these with mock.module(); the service under test needs the real ones
+await restoreModules('src/config/env.config', 'src/config/llm.config', 'src/services/agent/state.service', 'src/services/common/llm.service');
+const { env } = await import('../../../src/config/env.config');
 
 // Ensure provider env keys exist for provider selection validation
 process.env.GOOGLE_API_KEY = process.env.GOOGLE_API_KEY || 'test-google-key';
 process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-openai-key';
+process.env.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || 'test-anthropic-key';
 
 let completion: any;
 let embedding: any;
 let __setAiOpsForTest: any;
+let setRunAiOps: any;
+let getAiOps: any;
+let stateManager: any;
 
-function createAsyncIterable(chunks: string[]) {
-  return {
-    async *[Symbol.asyncIterator]() {
-      for (const c of chunks) {
-        await Promise.resolve();
-        yield c;
-      }
-    },
-  } as AsyncIterable<string>;
+// Stream parts of streamText; strings stand for text deltas
+function createPartStream(parts: (string | Record<string, unknown>)[]) {
+  return (async function* () {
+    for (const part of parts) {
+      await Promise.resolve();
+      yield typeof part === 'string' ? { type: 'text-delta', id: '0', text: part } : part;
+    }
+  })();
 }
 
 describe('LLM Service (unit, mocked AI SDK)', () => {
@@ -26,6 +35,9 @@ describe('LLM Service (unit, mocked AI SDK)', () => {
     completion = mod.completion;
     embedding = mod.embedding;
     __setAiOpsForTest = mod.__setAiOpsForTest;
+    ({ setRunAiOps, getAiOps } = mod);
+    ({ stateManager } = await import('../../../src/services/agent/state.service'));
+    (await import('../../../src/services/common/circuit-breaker.service')).circuitBreakerService.reset();
 
     // Reset AI ops to known mocks before each test
     __setAiOpsForTest({
@@ -78,10 +90,65 @@ describe('LLM Service (unit, mocked AI SDK)', () => {
     expect(callCount).toBe(2);
   });
 
-  test.skip('completion.stream returns async iterable', async () => {
-    const iterable = createAsyncIterable(['a', 'b']);
+  test('completion.text walks the fallback chain and skips providers with an open circuit', async () => {
+    const { LLM_FALLBACK_TEXT, LLM_BREAKER_FAILURE_THRESHOLD } = env;
+    env.LLM_FALLBACK_TEXT = 'gemini-1.5-flash,gpt-4o-mini';
+    env.LLM_BREAKER_FAILURE_THRESHOLD = 1;
+    const models: string[] = [];
+    __setAiOpsForTest({
+      generateText: async (config: any) => {
+        models.push(config.model.modelId);
+        if (config.model.modelId !== 'gpt-4o-mini') {
+          const err: any = new Error('Service unavailable');
+          err.status = 503;
+          throw err;
+        }
+        return { text: 'from the chain', usage: {} } as any;
+      },
+    });
+
+    const request = { model: 'gemini-2.5-flash', messages: [{ role: 'user', content: 'hi' }], user: { uuid: 'u10' } };
+    expect(await completion.text(request)).toBe('from the chain');
+    expect(await completion.text(request)).toBe('from the chain');
+
+    Object.assign(env, { LLM_FALLBACK_TEXT, LLM_BREAKER_FAILURE_THRESHOLD });
+    // Both Gemini models failed on the first call and opened Google's breaker, so the second goes straight to OpenAI
+    expect(models).toEqual(['gemini-2.5-flash', 'gpt-4o-mini', 'gpt-4o-mini']);
+  });
+
+  test('completion.text reports models missing from the configuration instead of skipping them', async () => {
+    const models: string[] = [];
+    __setAiOpsForTest({
+      generateText: async (config: any) => {
+        models.push(config.model.modelId);
+        return { text: 'unused', usage: {} } as any;
+      },
+    });
+
+    await expect(completion.text({ model: 'gpt-unknown', messages: [{ role: 'user', content: 'hi' }], user: { uuid: 'u12' } }))
+      .rejects.toThrow('Model gpt-unknown not found in configuration');
+    expect(models).toEqual([]);
+  });
+
+  test('completion.text does not fail over on invalid requests', async () => {
+    let calls = 0;
+    __setAiOpsForTest({
+      generateText: async () => {
+        calls += 1;
+        const err: any = new Error('Bad request');
+        err.status = 400;
+        throw err;
+      },
+    });
+
+    await expect(completion.text({ model: 'gemini-2.5-flash', messages: [{ role: 'user', content: 'hi' }], user: { uuid: 'u11' } }))
+      .rejects.toThrow('Text completion failed [invalid_request 400]');
+    expect(calls).toBe(1);
+  });
+
+  test('completion.stream returns async iterable', async () => {
     __setAiOpsForTest({
-      streamText: async () => ({ textStream: iterable }) as any,
+      streamText: () => ({ fullStream: createPartStream([{ type: 'start' }, 'a', 'b']), usage: Promise.resolve({}) }) as any,
     });
 
     const stream = await completion.stream({
@@ -97,6 +164,31 @@ describe('LLM Service (unit, mocked AI SDK)', () => {
     expect(seen).toEqual(['a', 'b']);
   });
 
+  test('completion.stream falls back when the stream fails before its first text', async () => {
+    const models: string[] = [];
+    __setAiOpsForTest({
+      streamText: (config: any) => {
+        models.push(config.model.modelId);
+        const error: any = new Error('Service unavailable');
+        error.status = 503;
+        const parts = models.length === 1 ? [{ type: 'start' }, { type: 'error', error }] : ['from ', 'fallback'];
+        return { fullStream: createPartStream(parts), usage: Promise.resolve({}) } as any;
+      },
+    });
+    process.env.FALLBACK_TEXT_MODEL = 'gpt-4o-mini';
+
+    const stream = await completion.stream({ model: 'gemini-2.5-flash', messages: [{ role: 'user', content: 'stream' }], user: { uuid: 'u14' } });
+
+    const seen: string[] = [];
+    for await (const chunk of stream) {
+      seen.push(chunk);
+    }
+    expect(seen).toEqual(['from ', 'fallback']);
+    expect(models).toHaveLength(2);
+    const { circuitBreakerService } = await import('../../../src/services/common/circuit-breaker.service');
+    expect(circuitBreakerService.getHealth().providers.find(breaker => breaker.provider === 'google')?.consecutive_failures).toBe(1);
+  });
+
   test('completion.object uses generateObject and returns parsed object', async () => {
     __setAiOpsForTest({
       generateObject: async () => ({ object: { ok: true, value: 42 } }) as any,
@@ -112,6 +204,216 @@ describe('LLM Service (unit, mocked AI SDK)', () => {
     expect(obj.value).toBe(42);
   });
 
+  test('completion.object returns output that matches the schema', async () => {
+    let calls = 0;
+    __setAiOpsForTest({
+      generateObject: async () => {
+        calls += 1;
+        return { object: { result: ['a', 'b'] } } as any;
+      },
+    });
+
+    const obj = await completion.object({
+      model: 'gemini-2.5-flash',
+      messages: [{ role: 'user', content: 'list' }],
+      user: { uuid: 'u5' },
+      schema: z.object({ result: z.array(z.string()) }),
+    });
+
+    expect(obj).toEqual({ result: ['a', 'b'] });
+    expect(calls).toBe(1);
+  });
+
+  test('completion.object re-prompts with validation errors until the output matches', async () => {
+    const prompts: any[][] = [];
+    __setAiOpsForTest({
+      generateObject: async (config: any) => {
+        prompts.push(config.messages);
+        return { object: prompts.length === 1 ? { result: 'yes' } : { result: true } } as any;
+      },
+    });
+
+    const obj = await completion.object({
+      model: 'gemini-2.5-flash',
+      messages: [{ role: 'user', content: 'decide' }],
+      user: { uuid: 'u6' },
+      schema: z.object({ result: z.boolean() }),
+    });
+
+    expect(obj).toEqual({ result: true });
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toHaveLength(3);
+    expect(prompts[1][1]).toEqual({ role: 'assistant', content: '{"result":"yes"}' });
+    expect(prompts[1][2].content).toContain('- result:');
+  });
+
+  test('completion.object sends text that is not JSON back to Anthropic models for repair', async () => {
+    const prompts: any[][] = [];
+    __setAiOpsForTest({
+      generateText: async (config: any) => {
+        prompts.push(config.messages);
+        return { text: prompts.length === 1 ? 'Sure! The answer is yes.' : '{"result": true}', usage: {} } as any;
+      },
+    });
+
+    const obj = await completion.object({
+      model: 'claude-3-5-sonnet-latest',
+      messages: [{ role: 'user', content: 'decide' }],
+      user: { uuid: 'u13' },
+      schema: z.object({ result: z.boolean() }),
+    });
+
+    expect(obj).toEqual({ result: true });
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1][1]).toEqual({ role: 'assistant', content: 'Sure! The answer is yes.' });
+    expect(prompts[1][2].content).toContain('not valid JSON');
+  });
+
+  test('completion.object gives up after the repair attempts', async () => {
+    let calls = 0;
+    __setAiOpsForTest({
+      generateObject: async () => {
+        calls += 1;
+        return { object: { result: 'never a number' } } as any;
+      },
+    });
+
+    await expect(completion.object({
+      model: 'gemini-2.5-flash',
+      messages: [{ role: 'user', content: 'count' }],
+      user: { uuid: 'u7' },
+      schema: z.object({ result: z.number() }),
+      repair_attempts: 1,
+    })).rejects.toThrow('still invalid after 2 attempts');
+    expect(calls).toBe(2);
+  });
+
+  test('completion.object closes the breaker of a provider that answered with invalid JSON', async () => {
+    const { circuitBreakerService } = await import('../../../src/services/common/circuit-breaker.service');
+    circuitBreakerService.recordFailure('anthropic', { type: 'server', message: 'Service unavailable' });
+    __setAiOpsForTest({
+      generateText: async () => ({ text: 'not JSON', usage: {} }) as any,
+    });
+
+    await expect(completion.object({
+      model: 'claude-3-5-sonnet-latest',
+      messages: [{ role: 'user', content: 'decide' }],
+      user: { uuid: 'u15' },
+      repair_attempts: 0,
+    })).rejects.toThrow('not valid JSON');
+    expect(circuitBreakerService.getHealth().providers.find(breaker => breaker.provider === 'anthropic')?.consecutive_failures).toBe(0);
+  });
+
+  test('completion.object answers repeated deterministic calls from the cache', async () => {
+    process.env.LLM_CACHE_ENABLED = 'true';
+    let calls = 0;
+    __setAiOpsForTest({
+      generateObject: async () => {
+        calls += 1;
+        return { object: { result: true } } as any;
+      },
+    });
+
+    const config = {
+      model: 'gemini-2.5-flash',
+      messages: [{ role: 'user', content: 'is it cached?' }],
+      user: { uuid: 'u10' },
+      temperature: 0,
+      schema: z.object({ result: z.boolean() }),
+    };
+    try {
+      await completion.object(config);
+      expect(await completion.object(config)).toEqual({ result: true });
+      expect(calls).toBe(1);
+
+      await completion.object({ ...config, cache: { bypass: true } });
+      expect(calls).toBe(2);
+    } finally {
+      delete process.env.LLM_CACHE_ENABLED;
+    }
+  });
+
+  test('completion.object skips the cache in runs with their own AI SDK operations', async () => {
+    process.env.LLM_CACHE_ENABLED = 'true';
+    __setAiOpsForTest({ generateObject: async () => ({ object: { result: true } }) as any });
+
+    const config = {
+      model: 'gemini-2.5-flash',
+      messages: [{ role: 'user', content: 'is it recorded?' }],
+      user: { uuid: 'u11' },
+      temperature: 0,
+      schema: z.object({ result: z.boolean() }),
+    };
+    try {
+      await completion.object(config);
+
+      // What a cassette does while it records or replays a run
+      let calls = 0;
+      const replayed = await stateManager.run(async () => {
+        setRunAiOps({
+          ...getAiOps(),
+          generateObject: async () => {
+            calls += 1;
+            return { object: { result: false } } as any;
+          },
+        });
+        return [await completion.object(config), await completion.object(config)];
+      });
+
+      expect(replayed).toEqual([{ result: false }, { result: false }]);
+      expect(calls).toBe(2);
+      expect(await completion.object(config)).toEqual({ result: true });
+    } finally {
+      delete process.env.LLM_CACHE_ENABLED;
+    }
+  });
+
+  test('completion.toolCall returns the tool the model called', async () => {
+    let request: any;
+    __setAiOpsForTest({
+      generateText: async (config: any) => {
+        request = config;
+        return { text: '', toolCalls: [{ toolName: 'spotify__play', input: { task_uuid: 't1', name: 'play_jazz', payload: { uri: 'spotify:track:1' } } }] } as any;
+      },
+    });
+
+    const call = await completion.toolCall({
+      model: 'gemini-2.5-flash',
+      messages: [{ role: 'user', content: 'play jazz' }],
+      user: { uuid: 'u8' },
+      tools: { spotify__play: {} },
+    });
+
+    expect(call).toEqual({ name: 'spotify__play', input: { task_uuid: 't1', name: 'play_jazz', payload: { uri: 'spotify:track:1' } } });
+    expect(request.toolChoice).toBe('required');
+  });
+
+  test('completion.toolCall sends invalid calls back with the error', async () => {
+    const prompts: any[][] = [];
+    __setAiOpsForTest({
+      generateText: async (config: any) => {
+        prompts.push(config.messages);
+        return {
+          text: '',
+          toolCalls: prompts.length === 1
+            ? [{ toolName: 'spotify__play', input: {}, invalid: true, error: new Error('uri is required') }]
+            : [{ toolName: 'final_answer', input: { task_uuid: 't1', name: 'answer' } }]
+        } as any;
+      },
+    });
+
+    const call = await completion.toolCall({
+      model: 'gemini-2.5-flash',
+      messages: [{ role: 'user', content: 'play jazz' }],
+      user: { uuid: 'u9' },
+      tools: { spotify__play: {}, final_answer: {} },
+    });
+
+    expect(call.name).toBe('final_answer');
+    expect(prompts[1]).toHaveLength(2);
+    expect(prompts[1][1].content).toContain('uri is required');
+  });
+
   test('embedding uses google embedding path', async () => {
     __setAiOpsForTest({
       embed: async () => ({ embedding: [0.1, 0.2, 0.3] }) as any,
@@ -0,0 +1,90 @@
+/**
+ * Tests for the local OpenAI-compatible model provider: model discovery and the chat and embedding models it creates
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { localLlmService, normalizeBaseUrl, parseModelList } from '../../../src/services/common/local-llm.service';
+import { providers } from '../../../src/config/llm.config';
+
+const originalFetch = globalThis.fetch;
+
+const serveModels = (body: unknown, status = 200) => {
+  const requests: string[] = [];
+  globalThis.fetch = (async (url: string) => {
+    requests.push(String(url));
+    return new Response(JSON.stringify(body), { status });
+  }) as unknown as typeof fetch;
+  return requests;
+};
+
+describe('local model discovery', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    providers.local = {};
+    delete process.env.LOCAL_LLM_BASE_URL;
+    delete process.env.LOCAL_EMBEDDING_MODEL;
+  });
+
+  test('normalizes server URLs to the /v1 root', () => {
+    expect(normalizeBaseUrl('http://localhost:11434')).toBe('http://localhost:11434/v1');
+    expect(normalizeBaseUrl('http://localhost:8000/v1/')).toBe('http://localhost:8000/v1');
+  });
+
+  test('reads model ids and reported context windows', () => {
+    const models = parseModelList({ object: 'list', data: [{ id: 'llama3.1:8b' }, { id: 'qwen2.5', max_model_len: 32768 }, { object: 'model' }] });
+
+    expect(Object.keys(models)).toEqual(['llama3.1:8b', 'qwen2.5']);
+    expect(models['llama3.1:8b'].contextWindow).toBe(8192);
+    expect(models['qwen2.5'].contextWindow).toBe(32768);
+    expect(() => parseModelList({ models: [] })).toThrow('unexpected model list');
+  });
+
+  test('registers discovered models as the local provider', async () => {
+    process.env.LOCAL_LLM_BASE_URL = 'http://localhost:11434';
+    const requests = serveModels({ data: [{ id: 'llama3.1:8b' }] });
+
+    const models = await localLlmService.discoverModels();
+
+    expect(requests).toEqual(['http://localhost:11434/v1/models']);
+    expect(models).toEqual(['llama3.1:8b']);
+    expect(Object.keys(providers.local)).toEqual(['llama3.1:8b']);
+  });
+
+  test('fails when the server is not configured or answers with an error', async () => {
+    await expect(localLlmService.discoverModels(null)).rejects.toThrow('not configured');
+
+    serveModels({ error: 'unauthorized' }, 401);
+    await expect(localLlmService.discoverModels({ baseUrl: 'http://localhost:8000/v1' })).rejects.toThrow('HTTP 401');
+  });
+});
+
+describe('local models', () => {
+  afterEach(() => {
+    delete process.env.LOCAL_LLM_BASE_URL;
+    delete process.env.LOCAL_EMBEDDING_MODEL;
+  });
+
+  test('creates chat models served by the local server', () => {
+    process.env.LOCAL_LLM_BASE_URL = 'http://localhost:11434/v1';
+
+    const model = localLlmService.languageModel('llama3.1:8b') as any;
+
+    expect(model.provider).toBe('local.chat');
+    expect(model.modelId).toBe('llama3.1:8b');
+  });
+
+  test('creates the embedding model only when one is configured', () => {
+    process.env.LOCAL_LLM_BASE_URL = 'http://localhost:11434/v1';
+    expect(localLlmService.embeddingModel()).toBeNull();
+
+    process.env.LOCAL_EMBEDDING_MODEL = 'nomic-embed-text';
+    const embedding = localLlmService.embeddingModel()!;
+
+    expect(embedding.id).toBe('nomic-embed-text');
+    expect((embedding.model as any).provider).toBe('local.embedding');
+  });
+
+  test('rejects chat models when no server is configured', () => {
+    expect(() => localLlmService.languageModel('llama3.1:8b')).toThrow('not configured');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for the embedded vector store
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { localVectorStore } from '../../../src/services/common/local-vector.service';
+
+// The store opens its file on first use, so an in-memory database keeps the tests off the disk
+const saved = process.env.VECTOR_STORE_PATH;
+process.env.VECTOR_STORE_PATH = ':memory:';
+await localVectorStore.listCollections();
+if (saved === undefined) delete process.env.VECTOR_STORE_PATH;
+else process.env.VECTOR_STORE_PATH = saved;
+
+const point = (id: string, vector: number[], payload: Record<string, unknown> = {}) => ({
+  id,
+  vector,
+  payload: { document_uuid: id, source: 'document', ...payload }
+});
+
+describe('localVectorStore', () => {
+  beforeEach(async () => {
+    await localVectorStore.dropCollection('test');
+    await localVectorStore.createCollection('test', 3);
+    await localVectorStore.upsert('test', [
+      point('a', [1, 0, 0], { content_type: 'full', category: 'resources' }),
+      point('b', [1, 1, 0], { content_type: 'chunk', category: 'resources' }),
+      point('c', [0, 0, 2], { content_type: 'full', category: 'people' })
+    ]);
+  });
+
+  test('ranks by cosine similarity', async () => {
+    const results = await localVectorStore.search('test', [2, 0, 0], { limit: 2 });
+
+    expect(results.map(result => result.id)).toEqual(['a', 'b']);
+    expect(results[0].score).toBeCloseTo(1);
+    expect(results[1].score).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  test('filters on payload fields like Qdrant', async () => {
+    const results = await localVectorStore.search('test', [1, 0, 0], { filters: { category: 'resources', content_type: 'chunk' }, limit: 10 });
+
+    expect(results.map(result => result.id)).toEqual(['b']);
+  });
+
+  test('merges payload updates and keeps the vector', async () => {
+    await localVectorStore.setPayload('test', ['c'], { category: 'resources', text: 'updated' });
+
+    const [result] = await localVectorStore.search('test', [0, 0, 1], { filters: { category: 'resources' }, limit: 1 });
+
+    expect(result.id).toBe('c');
+    expect(result.score).toBeCloseTo(1);
+    expect(result.payload).toMatchObject({ document_uuid: 'c', content_type: 'full', text: 'updated' });
+  });
+
+  test('pages through the points with their vectors', async () => {
+    const first = await localVectorStore.scroll('test', { limit: 2, with_vector: true });
+    const second = await localVectorStore.scroll('test', { limit: 2, offset: first.next_offset });
+
+    expect(first.points.map(p => p.id)).toEqual(['a', 'b']);
+    expect(first.points[1].vector?.[0]).toBeCloseTo(Math.SQRT1_2);
+    expect(second.points.map(p => p.id)).toEqual(['c']);
+    expect(second.points[0].vector).toBeUndefined();
+    expect(second.next_offset).toBeNull();
+  });
+
+  test('rejects vectors of another size and unknown collections', async () => {
+    expect(localVectorStore.upsert('test', [point('d', [1, 0])])).rejects.toThrow('size 3');
+    expect(localVectorStore.search('missing', [1, 0, 0], { limit: 1 })).rejects.toThrow('does not exist');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for the importance the agent gives memories it remembers or updates
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mockNodeCache, restoreModules } from '../../helpers/test-setup';
+
+// Provider keys are checked per call; ElevenLabs is checked when the tools are imported
+process.env.GOOGLE_API_KEY = process.env.GOOGLE_API_KEY || 'test-google-key';
+process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-openai-key';
+
+// Other test files replace these with mock.module(); the service under test needs the real ones
+mockNodeCache();
+await restoreModules('src/config/env.config', 'src/config/llm.config');
+const [{ stateManager }, , { documentService }, { categoryService }, , { memoryService }] = await restoreModules(
+  'src/services/agent/state.service',
+  'src/services/common/llm.service',
+  'src/services/agent/document.service',
+  'src/services/agent/category.service',
+  'src/services/common/prompt.service',
+  'src/services/agent/memory.service'
+);
+// The database the memory service writes to, whether real or replaced by an earlier test file
+const { db } = await import('../../../src/database');
+
+describe('memoryService - importance', () => {
+  const originals = {
+    insert: db.insert,
+    createDocument: documentService.createDocument,
+    findByNameAndSubcategory: categoryService.findByNameAndSubcategory,
+    createMemory: memoryService.createMemory,
+    getMemoryByUuid: memoryService.getMemoryByUuid,
+    updateMemory: memoryService.updateMemory,
+    consolidation: process.env.MEMORY_CONSOLIDATION
+  };
+  let stored: any[];
+
+  beforeEach(() => {
+    stored = [];
+
+    // Consolidation compares new memories with stored ones, which these tests do not have
+    process.env.MEMORY_CONSOLIDATION = 'false';
+
+    db.insert = () => ({ values: async () => {} });
+    documentService.createDocument = async ({ uuid, text }: any) => ({ uuid: uuid ?? 'doc-result', text, metadata: {} });
+    categoryService.findByNameAndSubcategory = async () => ({ uuid: 'category-1' });
+    memoryService.createMemory = async (memory: any) => {
+      stored.push(memory);
+      return memory;
+    };
+    memoryService.getMemoryByUuid = async (memory_uuid: string) =>
+      ({ uuid: memory_uuid, name: 'Lunch', category_uuid: 'category-1', document_uuid: 'doc-1', importance: 1 }) as any;
+    memoryService.updateMemory = async (memory_uuid: string, updates: any) => {
+      stored.push(updates);
+      return { uuid: memory_uuid, ...updates };
+    };
+  });
+
+  afterEach(() => {
+    if (originals.consolidation === undefined) delete process.env.MEMORY_CONSOLIDATION;
+    else process.env.MEMORY_CONSOLIDATION = originals.consolidation;
+    Object.assign(db, { insert: originals.insert });
+    Object.assign(documentService, { createDocument: originals.createDocument });
+    Object.assign(categoryService, { findByNameAndSubcategory: originals.findByNameAndSubcategory });
+    Object.assign(memoryService, {
+      createMemory: originals.createMemory,
+      getMemoryByUuid: originals.getMemoryByUuid,
+      updateMemory: originals.updateMemory
+    });
+  });
+
+  const remember = { name: 'Family', text: 'Adam has a daughter, Eve', category: 'profiles', subcategory: 'basic', conversation_uuid: 'conv-1' };
+
+  test('stores the importance the agent picked for a new memory', async () => {
+    await memoryService.execute('remember', { ...remember, importance: 5 });
+    // Classic tool mode writes the payload as JSON text, where numbers may arrive quoted
+    await memoryService.execute('remember', { ...remember, importance: '4' });
+    await memoryService.execute('remember', remember);
+
+    expect(stored.map(memory => memory.importance)).toEqual([5, 4, 3]);
+  });
+
+  test('changes the importance only when the agent gives one', async () => {
+    await memoryService.execute('update', { memory_uuid: 'memory-1', importance: 4, conversation_uuid: 'conv-1' });
+    await memoryService.execute('update', { memory_uuid: 'memory-1', name: 'Lunch today', conversation_uuid: 'conv-1' });
+
+    expect(stored.map(updates => updates.importance)).toEqual([4, 1]);
+    await expect(memoryService.execute('update', { memory_uuid: 'memory-1', importance: 6 })).rejects.toThrow();
+  });
+
+  test('tells the agent how to pick the importance of remembered and updated memories', async () => {
+    const context = await stateManager.run(() => memoryService.getRecentMemoriesContext());
+
+    expect(context.text).toContain('<category name="profiles" subcategory="basic"/>');
+    expect(context.text).toContain('<action name="remember">');
+    expect(context.text).toContain('<action name="update">');
+    expect(context.text).toContain('5: a core fact about the user or yourself');
+  });
+});
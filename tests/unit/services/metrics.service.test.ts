@@ -0,0 +1,38 @@
+/**
+ * Tests for comparing fast-track and full agent runs
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { comparePaths, compareToolModes } from '../../../src/services/agent/metrics.service';
+
+const path = (runs: number, avg_duration_ms: number, avg_tokens: number, avg_cost: number) => ({ runs, avg_duration_ms, avg_tokens, avg_cost });
+
+describe('comparePaths', () => {
+  test('estimates what fast runs saved against an average full run', () => {
+    const metrics = comparePaths(path(3, 2000, 3000, 0.001), path(1, 12000, 20000, 0.009));
+
+    expect(metrics.fast_track_rate).toBe(0.75);
+    expect(metrics.saved?.duration_ms).toBe(30000);
+    expect(metrics.saved?.tokens).toBe(51000);
+    expect(metrics.saved?.cost).toBeCloseTo(0.024);
+  });
+
+  test('reports no savings until both paths have runs', () => {
+    expect(comparePaths(path(2, 2000, 3000, 0.001), path(0, 0, 0, 0)).saved).toBeNull();
+    expect(comparePaths(path(0, 0, 0, 0), path(0, 0, 0, 0)).fast_track_rate).toBe(0);
+  });
+});
+
+describe('compareToolModes', () => {
+  const mode = (runs: number, avg_steps: number, avg_llm_calls: number) => ({ ...path(runs, 10000, 20000, 0.01), avg_steps, avg_llm_calls });
+
+  test('reports the steps and LLM calls native runs save per run', () => {
+    const metrics = compareToolModes(mode(4, 5, 12), mode(2, 3.5, 8));
+
+    expect(metrics.saved_per_run).toEqual({ steps: 1.5, llm_calls: 4 });
+  });
+
+  test('reports no savings until both modes have runs', () => {
+    expect(compareToolModes(mode(4, 5, 12), mode(0, 0, 0)).saved_per_run).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the agent state manager
+ * Verifies that every agent run gets its own isolated state
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { restoreModules } from '../../helpers/test-setup';
+
+await restoreModules('src/services/agent/state.service');
+const { stateManager } = await import('../../../src/services/agent/state.service');
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('stateManager', () => {
+  test('keeps concurrent runs isolated from each other', async () => {
+    const runConversation = (conversation_uuid: string) =>
+      stateManager.run(async () => {
+        stateManager.updateConfig({ conversation_uuid, step: 1 });
+        await tick();
+        stateManager.updateConfig({ step: stateManager.getState().config.step + 1 });
+        await tick();
+        return stateManager.getState().config;
+      });
+
+    const [first, second] = await Promise.all([runConversation('conv-a'), runConversation('conv-b')]);
+
+    expect(first.conversation_uuid).toBe('conv-a');
+    expect(second.conversation_uuid).toBe('conv-b');
+    expect(first.step).toBe(2);
+    expect(second.step).toBe(2);
+  });
+
+  test('does not leak run state into code outside of a run', async () => {
+    const outside_before = stateManager.getState().config.conversation_uuid;
+
+    await stateManager.run(async () => {
+      stateManager.updateConfig({ conversation_uuid: 'conv-inside' });
+    });
+
+    expect(stateManager.getState().config.conversation_uuid).toBe(outside_before);
+  });
+
+  test('records update history per run and keeps validation', async () => {
+    const history = await stateManager.run(async () => {
+      stateManager.updateConfig({ step: 3 });
+      stateManager.updateThoughts({ environment: 'office' });
+      return stateManager.getHistory();
+    });
+
+    expect(history.map(update => update.path[0])).toEqual(['config', 'thoughts']);
+
+    await stateManager.run(async () => {
+      expect(stateManager.getHistory()).toHaveLength(0);
+      expect(() => stateManager.updateConfig({ step: 'not-a-number' as any })).toThrow(/Invalid state/);
+    });
+  });
+
+  test('scopes subscriptions and locals to the current run', async () => {
+    const seen: string[] = [];
+
+    await stateManager.run(async () => {
+      const unsubscribe = stateManager.subscribe(update => seen.push(update.path.join('.')));
+      await stateManager.run(async () => {
+        stateManager.updateConfig({ step: 5 });
+      });
+      stateManager.updateThoughts({ context: 'ctx' });
+      unsubscribe();
+
+      const counter = stateManager.local('counter', () => ({ value: 0 }));
+      counter.value += 1;
+      expect(stateManager.local('counter', () => ({ value: 0 })).value).toBe(1);
+    });
+
+    expect(seen).toEqual(['thoughts']);
+  });
+
+  test('forks branches that start from the parent state and report events to it', async () => {
+    const events: string[] = [];
+
+    await stateManager.run(async () => {
+      stateManager.onEvent(event => events.push(event.type));
+      stateManager.updateConfig({ step: 4 });
+      const shared = stateManager.local('shared', () => ({ spans: 0 }));
+
+      const steps = await Promise.all(
+        ['a', 'b'].map(name =>
+          stateManager.fork(async () => {
+            stateManager.updateConfig({ current_phase: `branch-${name}` });
+            stateManager.local('shared', () => ({ spans: 0 })).spans += 1;
+            stateManager.emit({ type: 'answer_token', text: name });
+            await tick();
+            return `${stateManager.getState().config.step}:${stateManager.getState().config.current_phase}`;
+          })
+        )
+      );
+
+      expect(steps).toEqual(['4:branch-a', '4:branch-b']);
+      expect(stateManager.getState().config.current_phase).toBeNull();
+      expect(shared.spans).toBe(2);
+    });
+
+    expect(events).toEqual(['answer_token', 'answer_token']);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for the uuids uploads are stored and found under
+ */
+
+import { describe, test, expect, afterAll } from 'bun:test';
+import { cp, readFile, rm } from 'fs/promises';
+import { dirname, join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { findFileByUuid, uploadFile } from '../../../src/services/common/upload.service';
+import { FileType } from '../../../src/types/upload';
+
+const paths: string[] = [];
+
+const upload = async (uuid: string, user_uuid: string, text = 'Buy milk') => {
+  const result = await uploadFile({ uuid, type: FileType.TEXT, original_name: 'notes.txt', user_uuid, file: { base64: Buffer.from(text).toString('base64'), mime_type: 'text/plain' } });
+  paths.push(dirname(result.path));
+  return result;
+};
+
+describe('upload service - uuids', () => {
+  afterAll(async () => {
+    await Promise.all(paths.map(path => rm(path, { recursive: true, force: true })));
+  });
+
+  test('rejects uuids that are not UUIDs', async () => {
+    await expect(upload('notes', 'u1')).rejects.toThrow('Validation error');
+    expect(await findFileByUuid('*')).toBeNull();
+  });
+
+  test('keeps the owner of an upload whose uuid is sent again', async () => {
+    const uuid = uuidv4();
+    const { path } = await upload(uuid, 'u1');
+
+    await expect(upload(uuid, 'u2', 'Not milk')).rejects.toThrow(`Upload ${uuid} already exists`);
+    expect(await readFile(join(dirname(path), '.owner'), 'utf-8')).toBe('u1');
+    expect((await findFileByUuid(uuid))?.user_uuid).toBe('u1');
+  });
+
+  test('serves no upload whose uuid is stored in more than one folder', async () => {
+    const uuid = uuidv4();
+    const { path } = await upload(uuid, 'u1');
+    const copy = join(dirname(dirname(dirname(path))), '1999-01-01', uuid);
+    await cp(dirname(path), copy, { recursive: true });
+    paths.push(dirname(copy));
+
+    expect(await findFileByUuid(uuid)).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for LLM usage pricing, run accounting and budget evaluation
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { restoreModules } from '../../helpers/test-setup';
+
+await restoreModules('src/config/env.config', 'src/services/agent/state.service');
+const { env } = await import('../../../src/config/env.config');
+const { getBudgets } = await import('../../../src/config/budget.config');
+const { stateManager } = await import('../../../src/services/agent/state.service');
+const { calculateCost, evaluateBudgets, normalizeUsage, usageService } = await import('../../../src/services/common/usage.service');
+
+describe('usage pricing', () => {
+  test('prices input and output tokens per million', () => {
+    expect(calculateCost('gpt-4o', 1_000_000, 0)).toBeCloseTo(2.5);
+    expect(calculateCost('gpt-4o', 1000, 1000)).toBeCloseTo(0.0125);
+  });
+
+  test('counts models without a price as free', () => {
+    expect(calculateCost('unknown-model', 5000, 5000)).toBe(0);
+  });
+
+  test('reads both AI SDK usage formats', () => {
+    expect(normalizeUsage({ inputTokens: 10, outputTokens: 4 })).toEqual({ input_tokens: 10, output_tokens: 4 });
+    expect(normalizeUsage({ promptTokens: 7, completionTokens: 3 })).toEqual({ input_tokens: 7, output_tokens: 3 });
+    expect(normalizeUsage({ tokens: 12 })).toEqual({ input_tokens: 12, output_tokens: 0 });
+    expect(normalizeUsage(undefined)).toEqual({ input_tokens: 0, output_tokens: 0 });
+  });
+});
+
+describe('budgets', () => {
+  const { BUDGET_RUN_SOFT_USD, BUDGET_USER_DAILY_HARD_USD } = env;
+
+  afterEach(() => {
+    Object.assign(env, { BUDGET_RUN_SOFT_USD, BUDGET_USER_DAILY_HARD_USD });
+  });
+
+  test('reads limits from the environment and leaves the rest unlimited', () => {
+    env.BUDGET_RUN_SOFT_USD = 0.25;
+    env.BUDGET_USER_DAILY_HARD_USD = 10;
+
+    const budgets = getBudgets();
+
+    expect(budgets.run.soft).toBe(0.25);
+    expect(budgets.user.hard).toBe(10);
+    expect(budgets.conversation.hard).toBeUndefined();
+  });
+
+  test('reports hard budgets before soft ones', () => {
+    const budgets = { run: { soft: 0.1 }, conversation: {}, user: { hard: 1 } };
+
+    expect(evaluateBudgets({ run: 0.2, conversation: 0.2, user: 1.5 }, budgets)).toEqual({ scope: 'user', level: 'hard', limit: 1, spent: 1.5 });
+    expect(evaluateBudgets({ run: 0.2, conversation: 0.2, user: 0.5 }, budgets)).toEqual({ scope: 'run', level: 'soft', limit: 0.1, spent: 0.2 });
+    expect(evaluateBudgets({ run: 0.05, conversation: 0.05, user: 0.5 }, budgets)).toBeNull();
+  });
+});
+
+describe('usageService run accounting', () => {
+  test('accumulates usage per run, including parallel branches', async () => {
+    const totals = await stateManager.run(async () => {
+      await usageService.record({ model: 'gpt-4o-mini', operation: 'object', usage: { inputTokens: 1000, outputTokens: 100 } });
+      await stateManager.fork(() => usageService.record({ model: 'gpt-4o-mini', operation: 'text', usage: { inputTokens: 1000, outputTokens: 100 } }));
+      return usageService.getRunUsage();
+    });
+
+    expect(totals.calls).toBe(2);
+    expect(totals.input_tokens).toBe(2000);
+    expect(totals.output_tokens).toBe(200);
+    expect(totals.cost).toBeCloseTo(calculateCost('gpt-4o-mini', 2000, 200));
+
+    const other = await stateManager.run(async () => usageService.getRunUsage());
+    expect(other.calls).toBe(0);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for weighted Reciprocal Rank Fusion
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { fuseRankings } from '../../../src/utils/rank-fusion';
+
+const hits = (...ids: string[]) => ids.map((document_uuid, index) => ({ document_uuid, score: 1 - index / 10 }));
+
+describe('fuseRankings', () => {
+  test('uses the rank of each document in each ranking', () => {
+    const fused = fuseRankings(
+      [
+        { retriever: 'vector', hits: hits('a', 'b', 'c') },
+        { retriever: 'text', hits: hits('c', 'd') }
+      ],
+      { k: 60, weights: {} }
+    );
+
+    const c = fused.find(hit => hit.document_uuid === 'c')!;
+    expect(c.retrievers.vector).toEqual({ rank: 3, score: 0.8, weight: 1, contribution: 1 / 63 });
+    expect(c.retrievers.text).toEqual({ rank: 1, score: 1, weight: 1, contribution: 1 / 61 });
+    expect(c.score).toBeCloseTo(1 / 63 + 1 / 61);
+    expect(fused[0].document_uuid).toBe('c');
+  });
+
+  test('scores documents found by one retriever on the same scale', () => {
+    const fused = fuseRankings(
+      [
+        { retriever: 'vector', hits: hits('a') },
+        { retriever: 'text', hits: hits('b') }
+      ],
+      { k: 60, weights: {} }
+    );
+
+    expect(fused.map(hit => hit.score)).toEqual([1 / 61, 1 / 61]);
+    expect(fused.map(hit => hit.document_uuid)).toEqual(['a', 'b']);
+  });
+
+  test('weights the rankings and leaves out those with weight 0', () => {
+    const rankings = [
+      { retriever: 'vector' as const, hits: hits('a', 'b') },
+      { retriever: 'text' as const, hits: hits('b', 'a') }
+    ];
+
+    expect(fuseRankings(rankings, { k: 60, weights: { text: 2 } })[0].document_uuid).toBe('b');
+    expect(fuseRankings(rankings, { k: 60, weights: { vector: 2 } })[0].document_uuid).toBe('a');
+
+    const vector_only = fuseRankings(rankings, { k: 60, weights: { text: 0 } });
+    expect(vector_only.map(hit => hit.document_uuid)).toEqual(['a', 'b']);
+    expect(vector_only[0].retrievers.text).toBeUndefined();
+  });
+
+  test('counts a document listed twice in one ranking once, at its best rank', () => {
+    const [hit] = fuseRankings([{ retriever: 'text', hits: hits('a', 'a') }], { k: 60, weights: {} });
+
+    expect(hit.retrievers.text?.rank).toBe(1);
+    expect(hit.score).toBeCloseTo(1 / 61);
+  });
+});